@@ -0,0 +1,16 @@
+-- Create api_keys table for personal API keys used by scripts and shortcuts
+-- Only the SHA-256 hash of each key is stored; the plaintext is shown once at creation
+CREATE TABLE IF NOT EXISTS api_keys (
+  keyId TEXT PRIMARY KEY,
+  userId TEXT NOT NULL,
+  name TEXT NOT NULL,
+  keyPrefix TEXT NOT NULL,
+  keyHash TEXT NOT NULL UNIQUE,
+  scopes TEXT NOT NULL,
+  createdAt TEXT NOT NULL,
+  lastUsedAt TEXT,
+  revokedAt TEXT
+);
+
+-- Create indexes for efficient querying
+CREATE INDEX IF NOT EXISTS idx_api_keys_userId ON api_keys(userId);
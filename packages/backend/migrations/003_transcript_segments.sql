@@ -0,0 +1,2 @@
+-- Add timestamped transcript segments (JSON array of { start, end, text }, seconds from the start of the audio)
+ALTER TABLE tasks ADD COLUMN transcriptSegments TEXT;
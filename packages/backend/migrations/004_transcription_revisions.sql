@@ -0,0 +1,15 @@
+-- Keep the Whisper transcript when a user corrects it, so edits can be diffed against it
+ALTER TABLE tasks ADD COLUMN originalTranscription TEXT;
+
+-- Create transcription_revisions table: one row per user edit of a transcript
+CREATE TABLE IF NOT EXISTS transcription_revisions (
+  revisionId TEXT PRIMARY KEY,
+  taskId TEXT NOT NULL,
+  userId TEXT NOT NULL,
+  transcription TEXT NOT NULL,
+  createdAt TEXT NOT NULL,
+  FOREIGN KEY (taskId) REFERENCES tasks(taskId) ON DELETE CASCADE
+);
+
+-- Create indexes for efficient querying
+CREATE INDEX IF NOT EXISTS idx_transcription_revisions_taskId ON transcription_revisions(taskId, createdAt);
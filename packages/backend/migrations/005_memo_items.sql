@@ -0,0 +1,50 @@
+-- Create memo_items table: one row per task extracted from a memo, so tasks can be
+-- completed, edited, reordered and queried individually
+CREATE TABLE IF NOT EXISTS memo_items (
+  itemId TEXT PRIMARY KEY,
+  taskId TEXT NOT NULL,
+  userId TEXT NOT NULL,
+  position INTEGER NOT NULL,
+  text TEXT NOT NULL,
+  originalText TEXT NOT NULL,
+  due TEXT,
+  completed INTEGER NOT NULL DEFAULT 0,
+  completedAt TEXT,
+  generativeTaskPrompt TEXT,
+  generatedContent TEXT,
+  segmentIndex INTEGER,
+  createdAt TEXT NOT NULL,
+  updatedAt TEXT NOT NULL,
+  FOREIGN KEY (taskId) REFERENCES tasks(taskId) ON DELETE CASCADE
+);
+
+-- Create indexes for efficient querying
+CREATE INDEX IF NOT EXISTS idx_memo_items_taskId ON memo_items(taskId, position);
+CREATE INDEX IF NOT EXISTS idx_memo_items_userId ON memo_items(userId, completed);
+
+-- Move existing processedTasks blobs into memo_items (generated ids are random UUIDv4s)
+INSERT INTO memo_items (
+  itemId, taskId, userId, position, text, originalText, due, completed,
+  generativeTaskPrompt, generatedContent, segmentIndex, createdAt, updatedAt
+)
+SELECT
+  lower(hex(randomblob(4))) || '-' || lower(hex(randomblob(2))) || '-4' ||
+    substr(lower(hex(randomblob(2))), 2) || '-' || substr('89ab', abs(random()) % 4 + 1, 1) ||
+    substr(lower(hex(randomblob(2))), 2) || '-' || lower(hex(randomblob(6))),
+  tasks.taskId,
+  tasks.userId,
+  item.key,
+  json_extract(item.value, '$.task'),
+  json_extract(item.value, '$.task'),
+  json_extract(item.value, '$.due'),
+  0,
+  json_extract(item.value, '$.generative_task_prompt'),
+  json_extract(item.value, '$.generated_content'),
+  json_extract(item.value, '$.segmentIndex'),
+  tasks.updatedAt,
+  tasks.updatedAt
+FROM tasks, json_each(tasks.processedTasks) AS item
+WHERE tasks.processedTasks IS NOT NULL
+  AND json_valid(tasks.processedTasks)
+  AND json_extract(item.value, '$.task') IS NOT NULL
+  AND NOT EXISTS (SELECT 1 FROM memo_items WHERE memo_items.taskId = tasks.taskId);
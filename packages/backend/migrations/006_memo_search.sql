@@ -0,0 +1,60 @@
+-- Full-text index over each memo's transcription and task text
+-- One row per memo; rowid matches tasks.rowid so rows can be updated without a scan
+CREATE VIRTUAL TABLE IF NOT EXISTS memo_search USING fts5(
+  taskId UNINDEXED,
+  userId UNINDEXED,
+  transcription,
+  items,
+  tokenize = 'porter unicode61'
+);
+
+-- Keep memo_search in sync with tasks.transcription
+CREATE TRIGGER IF NOT EXISTS memo_search_tasks_insert AFTER INSERT ON tasks BEGIN
+  INSERT INTO memo_search (rowid, taskId, userId, transcription, items)
+  VALUES (NEW.rowid, NEW.taskId, NEW.userId, NEW.transcription, NULL);
+END;
+
+CREATE TRIGGER IF NOT EXISTS memo_search_tasks_update AFTER UPDATE OF transcription ON tasks BEGIN
+  DELETE FROM memo_search WHERE rowid = NEW.rowid;
+  INSERT INTO memo_search (rowid, taskId, userId, transcription, items)
+  VALUES (
+    NEW.rowid, NEW.taskId, NEW.userId, NEW.transcription,
+    (SELECT group_concat(text, char(10)) FROM memo_items WHERE taskId = NEW.taskId)
+  );
+END;
+
+CREATE TRIGGER IF NOT EXISTS memo_search_tasks_delete AFTER DELETE ON tasks BEGIN
+  DELETE FROM memo_search WHERE rowid = OLD.rowid;
+END;
+
+-- Keep memo_search in sync with the memo's task text
+CREATE TRIGGER IF NOT EXISTS memo_search_items_insert AFTER INSERT ON memo_items BEGIN
+  DELETE FROM memo_search WHERE rowid = (SELECT rowid FROM tasks WHERE taskId = NEW.taskId);
+  INSERT INTO memo_search (rowid, taskId, userId, transcription, items)
+  SELECT rowid, taskId, userId, transcription,
+    (SELECT group_concat(text, char(10)) FROM memo_items WHERE taskId = NEW.taskId)
+  FROM tasks WHERE taskId = NEW.taskId;
+END;
+
+CREATE TRIGGER IF NOT EXISTS memo_search_items_update AFTER UPDATE OF text ON memo_items BEGIN
+  DELETE FROM memo_search WHERE rowid = (SELECT rowid FROM tasks WHERE taskId = NEW.taskId);
+  INSERT INTO memo_search (rowid, taskId, userId, transcription, items)
+  SELECT rowid, taskId, userId, transcription,
+    (SELECT group_concat(text, char(10)) FROM memo_items WHERE taskId = NEW.taskId)
+  FROM tasks WHERE taskId = NEW.taskId;
+END;
+
+CREATE TRIGGER IF NOT EXISTS memo_search_items_delete AFTER DELETE ON memo_items BEGIN
+  DELETE FROM memo_search WHERE rowid = (SELECT rowid FROM tasks WHERE taskId = OLD.taskId);
+  INSERT INTO memo_search (rowid, taskId, userId, transcription, items)
+  SELECT rowid, taskId, userId, transcription,
+    (SELECT group_concat(text, char(10)) FROM memo_items WHERE taskId = OLD.taskId)
+  FROM tasks WHERE taskId = OLD.taskId;
+END;
+
+-- Index memos that existed before search was added
+INSERT INTO memo_search (rowid, taskId, userId, transcription, items)
+SELECT rowid, taskId, userId, transcription,
+  (SELECT group_concat(text, char(10)) FROM memo_items WHERE memo_items.taskId = tasks.taskId)
+FROM tasks
+WHERE rowid NOT IN (SELECT rowid FROM memo_search);
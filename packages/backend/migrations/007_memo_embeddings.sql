@@ -0,0 +1,16 @@
+-- Create memo_embeddings table: vectors for semantic search and related memos
+-- One row for the whole memo (segmentIndex NULL) plus one per transcript segment
+CREATE TABLE IF NOT EXISTS memo_embeddings (
+  taskId TEXT NOT NULL,
+  userId TEXT NOT NULL,
+  segmentIndex INTEGER,
+  text TEXT NOT NULL,
+  model TEXT NOT NULL,
+  vector TEXT NOT NULL, -- base64-encoded float32 array
+  createdAt TEXT NOT NULL,
+  FOREIGN KEY (taskId) REFERENCES tasks(taskId) ON DELETE CASCADE
+);
+
+-- Create indexes for efficient querying
+CREATE INDEX IF NOT EXISTS idx_memo_embeddings_taskId ON memo_embeddings(taskId);
+CREATE INDEX IF NOT EXISTS idx_memo_embeddings_userId ON memo_embeddings(userId, model);
@@ -0,0 +1,3 @@
+-- Indexes for keyset pagination of a user's memo list (sort value, then taskId as tiebreaker)
+CREATE INDEX IF NOT EXISTS idx_tasks_user_created ON tasks(userId, createdAt, taskId);
+CREATE INDEX IF NOT EXISTS idx_tasks_user_updated ON tasks(userId, updatedAt, taskId);
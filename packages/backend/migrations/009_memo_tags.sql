@@ -0,0 +1,25 @@
+-- Create tags table: a user's tag names (unique per user, ignoring case)
+CREATE TABLE IF NOT EXISTS tags (
+  tagId TEXT PRIMARY KEY,
+  userId TEXT NOT NULL,
+  name TEXT NOT NULL COLLATE NOCASE,
+  createdAt TEXT NOT NULL,
+  UNIQUE (userId, name)
+);
+
+-- Create memo_tags join table; source is 'user' for tags added by hand, 'ai' for suggested ones
+CREATE TABLE IF NOT EXISTS memo_tags (
+  taskId TEXT NOT NULL,
+  tagId TEXT NOT NULL,
+  userId TEXT NOT NULL,
+  source TEXT NOT NULL DEFAULT 'user',
+  createdAt TEXT NOT NULL,
+  PRIMARY KEY (taskId, tagId),
+  FOREIGN KEY (taskId) REFERENCES tasks(taskId) ON DELETE CASCADE,
+  FOREIGN KEY (tagId) REFERENCES tags(tagId) ON DELETE CASCADE,
+  CONSTRAINT valid_source CHECK (source IN ('user', 'ai'))
+);
+
+-- Create indexes for efficient querying
+CREATE INDEX IF NOT EXISTS idx_memo_tags_tagId ON memo_tags(tagId);
+CREATE INDEX IF NOT EXISTS idx_memo_tags_userId ON memo_tags(userId);
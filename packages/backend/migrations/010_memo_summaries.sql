@@ -0,0 +1,6 @@
+-- Add AI-generated summaries: a short title, a TL;DR and key points (JSON array of strings)
+-- titleEdited is set once the user renames the memo, so regenerating the summary keeps their title
+ALTER TABLE tasks ADD COLUMN title TEXT;
+ALTER TABLE tasks ADD COLUMN titleEdited INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE tasks ADD COLUMN summary TEXT;
+ALTER TABLE tasks ADD COLUMN keyPoints TEXT;
@@ -0,0 +1,17 @@
+-- Create generated_content_versions table: every draft of a task's generated content,
+-- so the user can regenerate or refine it and go back to an earlier version.
+-- The chosen version is copied into memo_items.generatedContent.
+-- instruction is the refinement the user asked for (e.g. "make it shorter"); NULL for a plain (re)generation
+CREATE TABLE IF NOT EXISTS generated_content_versions (
+  versionId TEXT PRIMARY KEY,
+  itemId TEXT NOT NULL,
+  taskId TEXT NOT NULL,
+  userId TEXT NOT NULL,
+  content TEXT NOT NULL,
+  instruction TEXT,
+  createdAt TEXT NOT NULL,
+  FOREIGN KEY (taskId) REFERENCES tasks(taskId) ON DELETE CASCADE
+);
+
+-- Create indexes for efficient querying
+CREATE INDEX IF NOT EXISTS idx_generated_content_versions_itemId ON generated_content_versions(itemId, createdAt);
@@ -0,0 +1,30 @@
+-- Create upload_sessions table: resumable uploads of large recordings, backed by R2 multipart uploads.
+-- The client sends the recording in numbered parts and can resume by re-sending only the missing ones.
+-- taskId is reserved when the session starts; the task itself is only created when the upload completes
+CREATE TABLE IF NOT EXISTS upload_sessions (
+  uploadId TEXT PRIMARY KEY,
+  userId TEXT NOT NULL,
+  taskId TEXT NOT NULL,
+  r2Key TEXT NOT NULL,
+  r2UploadId TEXT NOT NULL,
+  contentType TEXT NOT NULL,
+  size INTEGER NOT NULL,
+  partSize INTEGER NOT NULL,
+  status TEXT NOT NULL DEFAULT 'uploading',
+  createdAt TEXT NOT NULL,
+  updatedAt TEXT NOT NULL,
+  CONSTRAINT valid_upload_status CHECK (status IN ('uploading', 'completed'))
+);
+
+-- Create upload_parts table: one row per part stored in R2 (re-sending a part replaces its row)
+CREATE TABLE IF NOT EXISTS upload_parts (
+  uploadId TEXT NOT NULL,
+  partNumber INTEGER NOT NULL,
+  etag TEXT NOT NULL,
+  size INTEGER NOT NULL,
+  PRIMARY KEY (uploadId, partNumber),
+  FOREIGN KEY (uploadId) REFERENCES upload_sessions(uploadId) ON DELETE CASCADE
+);
+
+-- Create indexes for efficient querying
+CREATE INDEX IF NOT EXISTS idx_upload_sessions_userId ON upload_sessions(userId);
@@ -0,0 +1,3 @@
+-- Audio details read from the uploaded file's container headers (NULL when they couldn't be read)
+ALTER TABLE tasks ADD COLUMN audioDurationSeconds REAL;
+ALTER TABLE tasks ADD COLUMN audioSampleRate INTEGER;
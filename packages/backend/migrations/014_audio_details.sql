@@ -0,0 +1,4 @@
+-- More recording details from the upload: channel count, codec (e.g. 'opus', 'aac', 'pcm') and file size in bytes
+ALTER TABLE tasks ADD COLUMN audioChannels INTEGER;
+ALTER TABLE tasks ADD COLUMN audioCodec TEXT;
+ALTER TABLE tasks ADD COLUMN audioSizeBytes INTEGER;
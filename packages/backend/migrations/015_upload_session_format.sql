@@ -0,0 +1,3 @@
+-- Audio format detected from the content of an upload's first part, so the completed
+-- recording is parsed as the format that was validated rather than the declared MIME type
+ALTER TABLE upload_sessions ADD COLUMN format TEXT;
@@ -0,0 +1,3 @@
+-- When a complete request claimed the upload session, before joining its parts in R2.
+-- Only the claiming request completes the upload; a claim left by a request that died can be taken over
+ALTER TABLE upload_sessions ADD COLUMN completingAt TEXT;
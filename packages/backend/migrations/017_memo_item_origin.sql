@@ -0,0 +1,3 @@
+-- Whether the user added the item themselves (1) rather than it being extracted from the memo (0).
+-- Reprocessing replaces extracted items only. Items added before this column existed count as extracted
+ALTER TABLE memo_items ADD COLUMN userAdded INTEGER NOT NULL DEFAULT 0;
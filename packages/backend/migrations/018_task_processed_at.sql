@@ -0,0 +1,5 @@
+-- When processing last finished (completed or failed), so later edits that bump updatedAt
+-- (renames, transcript corrections) don't count as processing time.
+-- Finished memos from before this column get their updatedAt, the closest value available
+ALTER TABLE tasks ADD COLUMN processedAt TEXT;
+UPDATE tasks SET processedAt = updatedAt WHERE status IN ('completed', 'failed');
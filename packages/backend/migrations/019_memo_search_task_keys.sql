@@ -0,0 +1,67 @@
+-- Key memo_search rows by taskId instead of tasks.rowid
+-- tasks has a TEXT primary key, so its rowid is not stable (VACUUM can renumber it) and
+-- search rows could end up pointing at another memo. The index is rebuilt from tasks
+DROP TRIGGER IF EXISTS memo_search_tasks_insert;
+DROP TRIGGER IF EXISTS memo_search_tasks_update;
+DROP TRIGGER IF EXISTS memo_search_tasks_delete;
+DROP TRIGGER IF EXISTS memo_search_items_insert;
+DROP TRIGGER IF EXISTS memo_search_items_update;
+DROP TRIGGER IF EXISTS memo_search_items_delete;
+DROP TABLE IF EXISTS memo_search;
+
+CREATE VIRTUAL TABLE memo_search USING fts5(
+  taskId UNINDEXED,
+  userId UNINDEXED,
+  transcription,
+  items,
+  tokenize = 'porter unicode61'
+);
+
+-- Keep memo_search in sync with tasks.transcription
+CREATE TRIGGER memo_search_tasks_insert AFTER INSERT ON tasks BEGIN
+  INSERT INTO memo_search (taskId, userId, transcription, items)
+  VALUES (NEW.taskId, NEW.userId, NEW.transcription, NULL);
+END;
+
+CREATE TRIGGER memo_search_tasks_update AFTER UPDATE OF transcription ON tasks BEGIN
+  DELETE FROM memo_search WHERE taskId = NEW.taskId;
+  INSERT INTO memo_search (taskId, userId, transcription, items)
+  VALUES (
+    NEW.taskId, NEW.userId, NEW.transcription,
+    (SELECT group_concat(text, char(10)) FROM memo_items WHERE taskId = NEW.taskId)
+  );
+END;
+
+CREATE TRIGGER memo_search_tasks_delete AFTER DELETE ON tasks BEGIN
+  DELETE FROM memo_search WHERE taskId = OLD.taskId;
+END;
+
+-- Keep memo_search in sync with the memo's task text
+CREATE TRIGGER memo_search_items_insert AFTER INSERT ON memo_items BEGIN
+  DELETE FROM memo_search WHERE taskId = NEW.taskId;
+  INSERT INTO memo_search (taskId, userId, transcription, items)
+  SELECT taskId, userId, transcription,
+    (SELECT group_concat(text, char(10)) FROM memo_items WHERE taskId = NEW.taskId)
+  FROM tasks WHERE taskId = NEW.taskId;
+END;
+
+CREATE TRIGGER memo_search_items_update AFTER UPDATE OF text ON memo_items BEGIN
+  DELETE FROM memo_search WHERE taskId = NEW.taskId;
+  INSERT INTO memo_search (taskId, userId, transcription, items)
+  SELECT taskId, userId, transcription,
+    (SELECT group_concat(text, char(10)) FROM memo_items WHERE taskId = NEW.taskId)
+  FROM tasks WHERE taskId = NEW.taskId;
+END;
+
+CREATE TRIGGER memo_search_items_delete AFTER DELETE ON memo_items BEGIN
+  DELETE FROM memo_search WHERE taskId = OLD.taskId;
+  INSERT INTO memo_search (taskId, userId, transcription, items)
+  SELECT taskId, userId, transcription,
+    (SELECT group_concat(text, char(10)) FROM memo_items WHERE taskId = OLD.taskId)
+  FROM tasks WHERE taskId = OLD.taskId;
+END;
+
+INSERT INTO memo_search (taskId, userId, transcription, items)
+SELECT taskId, userId, transcription,
+  (SELECT group_concat(text, char(10)) FROM memo_items WHERE memo_items.taskId = tasks.taskId)
+FROM tasks;
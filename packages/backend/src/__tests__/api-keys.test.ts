@@ -0,0 +1,171 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { createMockContext, MockWorkerContext } from '../test-utils';
+import { handleCreateApiKey, handleGetApiKeys, handleRevokeApiKey } from '../handlers/api-keys';
+import { hashApiKey } from '../auth';
+
+/**
+ * Utility: Create a complete mock api_keys record
+ */
+function createMockApiKey(overrides: Partial<any> = {}) {
+  return {
+    keyId: '3f1c2d4e-5a6b-4c7d-8e9f-0a1b2c3d4e5f',
+    userId: 'test-user-123',
+    name: 'CLI',
+    keyPrefix: 'vmk_abcdefgh',
+    keyHash: 'f'.repeat(64),
+    scopes: JSON.stringify(['memos:read', 'memos:write']),
+    createdAt: '2025-10-22T10:00:00Z',
+    lastUsedAt: null,
+    revokedAt: null,
+    ...overrides,
+  };
+}
+
+/**
+ * Utility: Create a JSON POST request for /api/v1/api-keys
+ */
+function createApiKeyRequest(body: unknown): Request {
+  return new Request('http://localhost/api/v1/api-keys', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: typeof body === 'string' ? body : JSON.stringify(body),
+  });
+}
+
+describe('/api/v1/api-keys - Personal API Key Endpoints', () => {
+  let mockContext: MockWorkerContext;
+
+  beforeEach(() => {
+    mockContext = createMockContext();
+  });
+
+  describe('✅ POST /api/v1/api-keys', () => {
+    it('Returns 201 with the plaintext key once and stores only its hash', async () => {
+      const response = await handleCreateApiKey(
+        createApiKeyRequest({ name: 'Phone shortcut', scopes: ['memos:write'] }),
+        mockContext
+      );
+
+      expect(response.status).toBe(201);
+      const data = await response.json() as any;
+      expect(data.key).toMatch(/^vmk_[A-Za-z0-9_-]{43}$/);
+      expect(data.keyPrefix).toBe(data.key.slice(0, 12));
+      expect(data.name).toBe('Phone shortcut');
+      expect(data.scopes).toEqual(['memos:write']);
+      expect(data.keyHash).toBeUndefined();
+
+      // Verify the INSERT binds the hash, never the plaintext
+      const bindMock = (mockContext.env.DB.prepare as any).mock.results[0].value.bind;
+      const bindArgs = bindMock.mock.calls[0];
+      expect(bindArgs[1]).toBe('test-user-123');
+      expect(bindArgs[4]).toBe(await hashApiKey(data.key));
+      expect(bindArgs).not.toContain(data.key);
+    });
+
+    it('Defaults to all scopes when none are requested', async () => {
+      const response = await handleCreateApiKey(createApiKeyRequest({ name: 'CLI' }), mockContext);
+
+      expect(response.status).toBe(201);
+      const data = await response.json() as any;
+      expect(data.scopes).toEqual(['memos:read', 'memos:write']);
+    });
+  });
+
+  describe('❌ POST /api/v1/api-keys - Validation', () => {
+    it('Returns 400 for a missing name', async () => {
+      const response = await handleCreateApiKey(createApiKeyRequest({ scopes: ['memos:read'] }), mockContext);
+
+      expect(response.status).toBe(400);
+      expect(mockContext.env.DB.prepare).not.toHaveBeenCalled();
+    });
+
+    it('Returns 400 for unknown or empty scopes', async () => {
+      const unknown = await handleCreateApiKey(
+        createApiKeyRequest({ name: 'CLI', scopes: ['memos:admin'] }),
+        mockContext
+      );
+      const empty = await handleCreateApiKey(createApiKeyRequest({ name: 'CLI', scopes: [] }), mockContext);
+
+      expect(unknown.status).toBe(400);
+      expect(empty.status).toBe(400);
+    });
+
+    it('Returns 400 for a non-JSON body', async () => {
+      const response = await handleCreateApiKey(createApiKeyRequest('not json'), mockContext);
+
+      expect(response.status).toBe(400);
+    });
+
+    it('Returns 401 without an authenticated user', async () => {
+      mockContext.data.userId = undefined;
+
+      const response = await handleCreateApiKey(createApiKeyRequest({ name: 'CLI' }), mockContext);
+
+      expect(response.status).toBe(401);
+    });
+  });
+
+  describe('📋 GET /api/v1/api-keys', () => {
+    it('Lists keys without exposing hashes', async () => {
+      const allMock = vi.fn().mockResolvedValue({
+        results: [createMockApiKey(), createMockApiKey({ keyId: 'revoked', revokedAt: '2025-10-23T10:00:00Z' })],
+      });
+      (mockContext.env.DB.prepare as any).mockReturnValue({
+        bind: vi.fn().mockReturnValue({ all: allMock }),
+      });
+
+      const response = await handleGetApiKeys(new Request('http://localhost/api/v1/api-keys'), mockContext);
+
+      expect(response.status).toBe(200);
+      const data = await response.json() as any;
+      expect(data.apiKeys).toHaveLength(2);
+      expect(data.apiKeys[0].scopes).toEqual(['memos:read', 'memos:write']);
+      expect(data.apiKeys[0].keyHash).toBeUndefined();
+      expect(data.apiKeys[0].userId).toBeUndefined();
+      expect(data.apiKeys[1].revokedAt).toBe('2025-10-23T10:00:00Z');
+    });
+  });
+
+  describe('🔒 DELETE /api/v1/api-keys/{keyId}', () => {
+    const keyId = '3f1c2d4e-5a6b-4c7d-8e9f-0a1b2c3d4e5f';
+
+    it('Returns 204 and scopes the revocation to the owner', async () => {
+      const bindMock = vi.fn().mockReturnValue({
+        run: vi.fn().mockResolvedValue({ success: true, meta: { changes: 1 } }),
+      });
+      (mockContext.env.DB.prepare as any).mockReturnValue({ bind: bindMock });
+
+      const response = await handleRevokeApiKey(
+        new Request(`http://localhost/api/v1/api-keys/${keyId}`, { method: 'DELETE' }),
+        mockContext
+      );
+
+      expect(response.status).toBe(204);
+      expect(bindMock.mock.calls[0].slice(1)).toEqual([keyId, 'test-user-123']);
+    });
+
+    it('Returns 404 for keys that are missing, owned by another user, or already revoked', async () => {
+      (mockContext.env.DB.prepare as any).mockReturnValue({
+        bind: vi.fn().mockReturnValue({
+          run: vi.fn().mockResolvedValue({ success: true, meta: { changes: 0 } }),
+        }),
+      });
+
+      const response = await handleRevokeApiKey(
+        new Request(`http://localhost/api/v1/api-keys/${keyId}`, { method: 'DELETE' }),
+        mockContext
+      );
+
+      expect(response.status).toBe(404);
+    });
+
+    it('Returns 400 for a malformed key ID', async () => {
+      const response = await handleRevokeApiKey(
+        new Request('http://localhost/api/v1/api-keys/not-a-uuid', { method: 'DELETE' }),
+        mockContext
+      );
+
+      expect(response.status).toBe(400);
+    });
+  });
+});
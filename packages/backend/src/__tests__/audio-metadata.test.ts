@@ -0,0 +1,315 @@
+import { describe, it, expect } from 'vitest';
+import { checkAudioDuration, parseAudioMetadata, readAudioMetadata, resolveMaxAudioDuration } from '../audio-metadata';
+
+/**
+ * Utility: Little/big-endian integer bytes
+ */
+function u16le(value: number): number[] {
+  return [value & 0xff, (value >> 8) & 0xff];
+}
+function u32le(value: number): number[] {
+  return [value & 0xff, (value >> 8) & 0xff, (value >> 16) & 0xff, (value >>> 24) & 0xff];
+}
+function u32be(value: number): number[] {
+  return u32le(value).reverse();
+}
+function ascii(text: string): number[] {
+  return Array.from(Buffer.from(text));
+}
+function float32be(value: number): number[] {
+  const bytes = new Uint8Array(4);
+  new DataView(bytes.buffer).setFloat32(0, value);
+  return Array.from(bytes);
+}
+
+/**
+ * Utility: An EBML element with a 1- or 2-byte size
+ */
+function ebml(id: number[], ...content: number[][]): number[] {
+  const data = content.flat();
+  const size = data.length < 0x7f ? [0x80 | data.length] : [0x40 | (data.length >> 8), data.length & 0xff];
+  return [...id, ...size, ...data];
+}
+
+/**
+ * Utility: An MP4 box
+ */
+function box(type: string, ...content: number[][]): number[] {
+  const data = content.flat();
+  return [...u32be(8 + data.length), ...ascii(type), ...data];
+}
+
+const EBML_HEADER = ebml([0x1a, 0x45, 0xdf, 0xa3], ebml([0x42, 0x82], ascii('webm')));
+
+/**
+ * Utility: An OGG page holding one segment per entry of `segments`
+ */
+function oggPage(headerType: number, granule: number, segments: number[]): number[] {
+  return [
+    ...ascii('OggS'), 0x00, headerType, ...u32le(granule), ...u32le(0), ...u32le(1), ...u32le(0), ...u32le(0),
+    segments.length, ...segments,
+  ];
+}
+
+/**
+ * Utility: Serve ranged reads of `file`, recording each range
+ */
+function createRangeReader(file: Uint8Array) {
+  const ranges: Array<[number, number]> = [];
+  const read = async (offset: number, length: number) => {
+    ranges.push([offset, length]);
+    return file.slice(offset, offset + length);
+  };
+  return { read, ranges };
+}
+
+const PADDING = new Array(400 * 1024).fill(0);
+
+describe('Audio Metadata - Container Header Parsing', () => {
+  describe('📼 WebM', () => {
+    it('Reads the Segment duration and the audio track codec, channels and sample rate', () => {
+      const bytes = new Uint8Array([
+        ...EBML_HEADER,
+        ...ebml(
+          [0x18, 0x53, 0x80, 0x67],
+          ebml([0x15, 0x49, 0xa9, 0x66], ebml([0x2a, 0xd7, 0xb1], [0x0f, 0x42, 0x40]), ebml([0x44, 0x89], float32be(2500))),
+          ebml(
+            [0x16, 0x54, 0xae, 0x6b],
+            ebml([0xae], ebml([0x86], ascii('A_OPUS')), ebml([0xe1], ebml([0xb5], float32be(48000)), ebml([0x9f], [0x02])))
+          )
+        ),
+      ]);
+
+      expect(parseAudioMetadata(bytes, 'webm')).toEqual({
+        durationSeconds: 2.5,
+        sampleRate: 48000,
+        channels: 2,
+        codec: 'opus',
+      });
+    });
+
+    it('Falls back to the last block of live recordings with unknown sizes and no duration', () => {
+      // MediaRecorder output: Segment and Clusters of unknown size, no Duration element
+      const unknownSize = [0xff];
+      const bytes = new Uint8Array([
+        ...EBML_HEADER,
+        0x18, 0x53, 0x80, 0x67, 0x01, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff,
+        ...ebml([0x15, 0x49, 0xa9, 0x66], ebml([0x2a, 0xd7, 0xb1], [0x0f, 0x42, 0x40])),
+        0x1f, 0x43, 0xb6, 0x75, ...unknownSize,
+        ...ebml([0xe7], [0x00]),
+        ...ebml([0xa3], [0x81, 0x00, 0x00, 0x80]),
+        ...ebml([0xa3], [0x81, 0x03, 0xe8, 0x80]),
+        0x1f, 0x43, 0xb6, 0x75, ...unknownSize,
+        ...ebml([0xe7], [0x07, 0xd0]),
+        ...ebml([0xa3], [0x81, 0x01, 0xf4, 0x80]),
+      ]);
+
+      expect(parseAudioMetadata(bytes, 'webm')).toEqual({
+        durationSeconds: 2.5,
+        sampleRate: null,
+        channels: null,
+        codec: null,
+      });
+    });
+  });
+
+  describe('🎵 MP3', () => {
+    it('Times constant bitrate files from their size', () => {
+      // Empty ID3 tag, then 128kbps 44.1kHz frames: 16000 bytes is one second
+      const bytes = new Uint8Array(10 + 16000);
+      bytes.set([...ascii('ID3'), 0x03, 0, 0, 0, 0, 0, 0, 0xff, 0xfb, 0x90, 0x64]);
+
+      expect(parseAudioMetadata(bytes, 'mp3')).toEqual({
+        durationSeconds: 1,
+        sampleRate: 44100,
+        channels: 2,
+        codec: 'mp3',
+      });
+    });
+
+    it('Uses the frame count from a Xing header for VBR files', () => {
+      const bytes = new Uint8Array(1000);
+      // Joint stereo MPEG-1 frame: 32 bytes of side info before the Xing header
+      bytes.set([0xff, 0xfb, 0x90, 0x44]);
+      bytes.set([...ascii('Xing'), ...u32be(0x01), ...u32be(100)], 36);
+
+      expect(parseAudioMetadata(bytes, 'mp3')).toEqual({
+        durationSeconds: 2.612,
+        sampleRate: 44100,
+        channels: 2,
+        codec: 'mp3',
+      });
+    });
+  });
+
+  describe('🌊 WAV', () => {
+    it('Divides the data size by the byte rate, skipping other chunks', () => {
+      const bytes = new Uint8Array([
+        ...ascii('RIFF'), ...u32le(0), ...ascii('WAVE'),
+        ...ascii('fmt '), ...u32le(16), ...u16le(1), ...u16le(1), ...u32le(8000), ...u32le(16000), ...u16le(2), ...u16le(16),
+        ...ascii('LIST'), ...u32le(3), 0, 0, 0, 0,
+        ...ascii('data'), ...u32le(24000), ...new Array(24000).fill(0),
+      ]);
+
+      expect(parseAudioMetadata(bytes, 'wav')).toEqual({
+        durationSeconds: 1.5,
+        sampleRate: 8000,
+        channels: 1,
+        codec: 'pcm',
+      });
+    });
+  });
+
+  describe('🎼 FLAC', () => {
+    it('Reads sample rate and sample count from STREAMINFO', () => {
+      const bytes = new Uint8Array([
+        ...ascii('fLaC'), 0x80, 0x00, 0x00, 0x22,
+        ...new Array(10).fill(0),
+        // 44100Hz, stereo, 16 bits, 88200 samples
+        0x0a, 0xc4, 0x42, 0xf0, ...u32be(88200),
+        ...new Array(16).fill(0),
+      ]);
+
+      expect(parseAudioMetadata(bytes, 'flac')).toEqual({
+        durationSeconds: 2,
+        sampleRate: 44100,
+        channels: 2,
+        codec: 'flac',
+      });
+    });
+  });
+
+  describe('🥚 OGG', () => {
+    it('Times Opus from the last page granule at 48kHz, minus the pre-skip', () => {
+      const page = oggPage;
+      const opusHead = [...ascii('OpusHead'), 0x01, 0x02, ...u16le(312), ...u32le(16000), ...u16le(0), 0x00];
+      const bytes = new Uint8Array([
+        ...page(0x02, 0, [opusHead.length]), ...opusHead,
+        ...page(0x00, 48000, [10]), ...new Array(10).fill(0),
+        ...page(0x04, 48000 * 3 + 312, [10]), ...new Array(10).fill(0),
+      ]);
+
+      expect(parseAudioMetadata(bytes, 'ogg')).toEqual({
+        durationSeconds: 3,
+        sampleRate: 16000,
+        channels: 2,
+        codec: 'opus',
+      });
+    });
+  });
+
+  describe('🍏 M4A', () => {
+    it('Reads the movie header duration and the sample entry rate', () => {
+      const mvhd = box('mvhd', [0, 0, 0, 0], u32be(0), u32be(0), u32be(1000), u32be(4500), new Array(80).fill(0));
+      const mp4a = box('mp4a', new Array(6).fill(0), u16le(1), new Array(8).fill(0), [0, 2, 0, 16, 0, 0, 0, 0], u32be(44100 * 65536));
+      const stsd = box('stsd', [0, 0, 0, 0], u32be(1), mp4a);
+      const bytes = new Uint8Array([
+        ...box('ftyp', ascii('M4A '), u32be(0)),
+        ...box('moov', mvhd, box('trak', box('mdia', box('minf', box('stbl', stsd))))),
+      ]);
+
+      expect(parseAudioMetadata(bytes, 'm4a')).toEqual({
+        durationSeconds: 4.5,
+        sampleRate: 44100,
+        channels: 2,
+        codec: 'aac',
+      });
+    });
+  });
+
+  describe('✂️ Ranged reads of stored files', () => {
+    it('Reads a long OGG from its first and last bytes only', async () => {
+      const opusHead = [...ascii('OpusHead'), 0x01, 0x01, ...u16le(0), ...u32le(48000), ...u16le(0), 0x00];
+      const file = new Uint8Array([
+        ...oggPage(0x02, 0, [opusHead.length]), ...opusHead,
+        ...PADDING,
+        ...oggPage(0x04, 48000 * 600, [10]), ...new Array(10).fill(0),
+      ]);
+      const { read, ranges } = createRangeReader(file);
+
+      const metadata = await readAudioMetadata(read, file.length, 'ogg');
+
+      expect(metadata).toEqual({ durationSeconds: 600, sampleRate: 48000, channels: 1, codec: 'opus' });
+      expect(ranges).toEqual([
+        [0, 256 * 1024],
+        [file.length - 64 * 1024, 64 * 1024],
+      ]);
+    });
+
+    it('Times a long live WebM recording from the last Cluster in its tail', async () => {
+      const file = new Uint8Array([
+        ...EBML_HEADER,
+        0x18, 0x53, 0x80, 0x67, 0x01, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff,
+        ...ebml([0x15, 0x49, 0xa9, 0x66], ebml([0x2a, 0xd7, 0xb1], [0x0f, 0x42, 0x40])),
+        0x1f, 0x43, 0xb6, 0x75, 0xff,
+        ...ebml([0xe7], [0x00]),
+        ...ebml([0xa3], [0x81, 0x00, 0x00, 0x80, ...PADDING.slice(0, 0x3000)]),
+        ...PADDING,
+        0x1f, 0x43, 0xb6, 0x75, 0xff,
+        ...ebml([0xe7], u32be(300000)),
+        ...ebml([0xa3], [0x81, 0x01, 0xf4, 0x80]),
+      ]);
+      const { read } = createRangeReader(file);
+
+      const metadata = await readAudioMetadata(read, file.length, 'webm');
+
+      expect(metadata.durationSeconds).toBe(300.5);
+    });
+
+    it('Finds an M4A moov box after the audio from the top-level box headers', async () => {
+      const mvhd = box('mvhd', [0, 0, 0, 0], u32be(0), u32be(0), u32be(1000), u32be(4500), new Array(80).fill(0));
+      const mp4a = box('mp4a', new Array(6).fill(0), u16le(1), new Array(8).fill(0), [0, 2, 0, 16, 0, 0, 0, 0], u32be(44100 * 65536));
+      const stsd = box('stsd', [0, 0, 0, 0], u32be(1), mp4a);
+      const file = new Uint8Array([
+        ...box('ftyp', ascii('M4A '), u32be(0)),
+        ...box('mdat', PADDING),
+        ...box('moov', mvhd, box('trak', box('mdia', box('minf', box('stbl', stsd))))),
+      ]);
+      const { read, ranges } = createRangeReader(file);
+
+      const metadata = await readAudioMetadata(read, file.length, 'm4a');
+
+      expect(metadata).toEqual({ durationSeconds: 4.5, sampleRate: 44100, channels: 2, codec: 'aac' });
+      // The start, the moov box's header, then the moov box itself
+      expect(ranges.map(([offset]) => offset)).toEqual([0, 16 + 8 + PADDING.length, 16 + 8 + PADDING.length]);
+    });
+  });
+
+  describe('💔 Damaged headers', () => {
+    it('Returns nulls instead of throwing for truncated files', () => {
+      const truncatedWav = new Uint8Array([...ascii('RIFF'), ...u32le(0), ...ascii('WAVE'), ...ascii('fmt '), ...u32le(16), 1]);
+
+      const unknown = { durationSeconds: null, sampleRate: null, channels: null, codec: null };
+
+      expect(parseAudioMetadata(truncatedWav, 'wav')).toEqual(unknown);
+      expect(parseAudioMetadata(new Uint8Array([...ascii('fLaC'), 0x80]), 'flac')).toEqual(unknown);
+    });
+  });
+
+  describe('⏱️ Maximum Duration', () => {
+    const metadata = (durationSeconds: number | null) => ({ durationSeconds, sampleRate: null, channels: null, codec: null });
+
+    it('Rejects recordings longer than the limit and accepts unknown lengths', () => {
+      expect(checkAudioDuration(metadata(60), 60)).toBeNull();
+      expect(checkAudioDuration(metadata(null), 60)).toBeNull();
+      expect(checkAudioDuration(metadata(61.5), 60)).toBe('Recording is 61.5 seconds long; the maximum is 60 seconds');
+    });
+
+    it('Holds formats that are transcribed in one piece to ten minutes', () => {
+      expect(checkAudioDuration(metadata(3000), 3600, 'webm')).toBeNull();
+      expect(checkAudioDuration(metadata(600), 3600, 'm4a')).toBeNull();
+      expect(checkAudioDuration(metadata(3000), 3600, 'm4a')).toBe(
+        'Recording is 3000 seconds long; M4A recordings are transcribed in one piece, so the maximum is 600 seconds. ' +
+          'Convert it to WebM, MP3 or WAV to upload a longer recording'
+      );
+      expect(checkAudioDuration(metadata(400), 300, 'ogg')).toContain('so the maximum is 300 seconds');
+    });
+
+    it('Falls back to one hour for a missing or invalid setting', () => {
+      expect(resolveMaxAudioDuration(undefined)).toBe(3600);
+      expect(resolveMaxAudioDuration('90')).toBe(90);
+      expect(resolveMaxAudioDuration('-5')).toBe(3600);
+      expect(resolveMaxAudioDuration('soon')).toBe(3600);
+    });
+  });
+});
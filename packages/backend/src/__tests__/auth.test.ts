@@ -0,0 +1,338 @@
+import { describe, it, expect, beforeAll, beforeEach, afterEach, vi } from 'vitest';
+import {
+  validateClerkToken,
+  extractUserFromRequest,
+  getClerkAuthConfig,
+  getAuthModes,
+  clearJWKSCache,
+  AuthError,
+  type ClerkAuthConfig,
+} from '../auth';
+
+const JWKS_URL = 'https://clerk.example.com/.well-known/jwks.json';
+const ISSUER = 'https://clerk.example.com';
+
+interface TestKey {
+  kid: string;
+  privateKey: CryptoKey;
+  publicJwk: JsonWebKey & { kid: string };
+}
+
+/**
+ * Utility: Generate an RS256 key pair and its public JWK
+ */
+async function createTestKey(kid: string): Promise<TestKey> {
+  const pair = (await crypto.subtle.generateKey(
+    {
+      name: 'RSASSA-PKCS1-v1_5',
+      modulusLength: 2048,
+      publicExponent: new Uint8Array([1, 0, 1]),
+      hash: 'SHA-256',
+    },
+    true,
+    ['sign', 'verify']
+  )) as CryptoKeyPair;
+
+  const publicJwk = (await crypto.subtle.exportKey('jwk', pair.publicKey)) as JsonWebKey;
+  return {
+    kid,
+    privateKey: pair.privateKey,
+    publicJwk: { ...publicJwk, kid, alg: 'RS256', use: 'sig' },
+  };
+}
+
+/**
+ * Utility: Sign a JWT with the given key, defaulting to a valid Clerk-like payload
+ */
+async function signTestJWT(
+  key: TestKey,
+  payloadOverrides: Record<string, unknown> = {},
+  headerOverrides: Record<string, unknown> = {}
+): Promise<string> {
+  const now = Math.floor(Date.now() / 1000);
+  const header = { alg: 'RS256', typ: 'JWT', kid: key.kid, ...headerOverrides };
+  const payload = {
+    sub: 'user_123',
+    iss: ISSUER,
+    iat: now,
+    nbf: now,
+    exp: now + 300,
+    ...payloadOverrides,
+  };
+
+  const headerB64 = Buffer.from(JSON.stringify(header)).toString('base64url');
+  const payloadB64 = Buffer.from(JSON.stringify(payload)).toString('base64url');
+  const signingInput = `${headerB64}.${payloadB64}`;
+
+  const signature = await crypto.subtle.sign(
+    'RSASSA-PKCS1-v1_5',
+    key.privateKey,
+    new TextEncoder().encode(signingInput)
+  );
+
+  return `${signingInput}.${Buffer.from(signature).toString('base64url')}`;
+}
+
+/**
+ * Utility: Stub global fetch so the JWKS endpoint serves the given keys
+ */
+function stubJWKSEndpoint(getKeys: () => TestKey[]) {
+  const fetchMock = vi.fn(async (input: RequestInfo | URL) => {
+    const url = typeof input === 'string' ? input : input instanceof URL ? input.toString() : input.url;
+    if (url !== JWKS_URL) {
+      return new Response('Not Found', { status: 404 });
+    }
+    return new Response(JSON.stringify({ keys: getKeys().map((k) => k.publicJwk) }), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  });
+  vi.stubGlobal('fetch', fetchMock);
+  return fetchMock;
+}
+
+describe('Clerk JWT verification (auth.ts)', () => {
+  let signingKey: TestKey;
+  let rotatedKey: TestKey;
+  let attackerKey: TestKey;
+  let config: ClerkAuthConfig;
+
+  beforeAll(async () => {
+    signingKey = await createTestKey('key-1');
+    rotatedKey = await createTestKey('key-2');
+    attackerKey = await createTestKey('key-1'); // same kid, different key material
+  });
+
+  beforeEach(() => {
+    clearJWKSCache();
+    config = { jwksUrl: JWKS_URL, issuer: ISSUER };
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+    vi.useRealTimers();
+  });
+
+  describe('✅ Valid Tokens', () => {
+    it('Accepts a correctly signed token and returns the sub claim', async () => {
+      stubJWKSEndpoint(() => [signingKey]);
+      const token = await signTestJWT(signingKey);
+
+      await expect(validateClerkToken(token, config)).resolves.toBe('user_123');
+    });
+
+    it('Extracts the user from a Bearer Authorization header', async () => {
+      stubJWKSEndpoint(() => [signingKey]);
+      const token = await signTestJWT(signingKey, { sub: 'user_alice' });
+      const request = new Request('http://localhost/api/v1/memos', {
+        headers: { Authorization: `Bearer ${token}` },
+      });
+
+      await expect(extractUserFromRequest(request, config)).resolves.toBe('user_alice');
+    });
+
+    it('Accepts a token whose aud matches one of the configured audiences', async () => {
+      stubJWKSEndpoint(() => [signingKey]);
+      const token = await signTestJWT(signingKey, { aud: ['other', 'voice-memos'] });
+
+      await expect(
+        validateClerkToken(token, { ...config, audience: ['voice-memos'] })
+      ).resolves.toBe('user_123');
+    });
+  });
+
+  describe('❌ Forged & Tampered Tokens', () => {
+    it('Rejects a token signed by a different key with the same kid', async () => {
+      stubJWKSEndpoint(() => [signingKey]);
+      const token = await signTestJWT(attackerKey, { sub: 'user_victim' });
+
+      await expect(validateClerkToken(token, config)).rejects.toThrow('Invalid token signature');
+    });
+
+    it('Rejects a token whose payload was modified after signing', async () => {
+      stubJWKSEndpoint(() => [signingKey]);
+      const token = await signTestJWT(signingKey);
+      const [header, , signature] = token.split('.');
+      const forgedPayload = Buffer.from(
+        JSON.stringify({ sub: 'user_victim', iss: ISSUER, exp: Math.floor(Date.now() / 1000) + 300 })
+      ).toString('base64url');
+
+      await expect(
+        validateClerkToken(`${header}.${forgedPayload}.${signature}`, config)
+      ).rejects.toThrow('Invalid token signature');
+    });
+
+    it('Rejects unsigned tokens (alg: none)', async () => {
+      stubJWKSEndpoint(() => [signingKey]);
+      const token = await signTestJWT(signingKey, {}, { alg: 'none' });
+
+      await expect(validateClerkToken(token, config)).rejects.toThrow('Unsupported token algorithm');
+    });
+
+    it('Rejects tokens without a kid', async () => {
+      stubJWKSEndpoint(() => [signingKey]);
+      const token = await signTestJWT(signingKey, {}, { kid: undefined });
+
+      await expect(validateClerkToken(token, config)).rejects.toThrow('Token missing key ID');
+    });
+
+    it('Rejects malformed tokens with 401 AuthError', async () => {
+      stubJWKSEndpoint(() => [signingKey]);
+
+      const error = await validateClerkToken('not-a-jwt', config).catch((e) => e);
+      expect(error).toBeInstanceOf(AuthError);
+      expect(error.status).toBe(401);
+      expect(error.message).toBe('Invalid token format');
+    });
+  });
+
+  describe('⏱️ Claim Validation', () => {
+    it('Rejects expired tokens beyond the clock skew', async () => {
+      stubJWKSEndpoint(() => [signingKey]);
+      const now = Math.floor(Date.now() / 1000);
+      const token = await signTestJWT(signingKey, { exp: now - 120 });
+
+      await expect(validateClerkToken(token, config)).rejects.toThrow('Token expired');
+    });
+
+    it('Rejects tokens without an exp claim', async () => {
+      stubJWKSEndpoint(() => [signingKey]);
+      const token = await signTestJWT(signingKey, { exp: undefined });
+
+      await expect(validateClerkToken(token, config)).rejects.toThrow('Token missing expiration claim');
+    });
+
+    it('Rejects tokens that are not yet valid (nbf in the future)', async () => {
+      stubJWKSEndpoint(() => [signingKey]);
+      const now = Math.floor(Date.now() / 1000);
+      const token = await signTestJWT(signingKey, { nbf: now + 600 });
+
+      await expect(validateClerkToken(token, config)).rejects.toThrow('Token not yet valid');
+    });
+
+    it('Rejects tokens from another issuer', async () => {
+      stubJWKSEndpoint(() => [signingKey]);
+      const token = await signTestJWT(signingKey, { iss: 'https://evil.example.com' });
+
+      await expect(validateClerkToken(token, config)).rejects.toThrow('Invalid token issuer');
+    });
+
+    it('Rejects tokens whose aud does not match the configured audience', async () => {
+      stubJWKSEndpoint(() => [signingKey]);
+      const token = await signTestJWT(signingKey, { aud: 'someone-else' });
+
+      await expect(
+        validateClerkToken(token, { ...config, audience: ['voice-memos'] })
+      ).rejects.toThrow('Invalid token audience');
+    });
+  });
+
+  describe('🔑 JWKS Caching & Key Rotation', () => {
+    it('Caches signing keys across validations', async () => {
+      const fetchMock = stubJWKSEndpoint(() => [signingKey]);
+
+      await validateClerkToken(await signTestJWT(signingKey), config);
+      await validateClerkToken(await signTestJWT(signingKey), config);
+
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+
+    it('Refetches the JWKS when a token references a newly rotated key', async () => {
+      let published = [signingKey];
+      const fetchMock = stubJWKSEndpoint(() => published);
+
+      vi.useFakeTimers({ toFake: ['Date'] });
+      await validateClerkToken(await signTestJWT(signingKey), config);
+
+      // Clerk rotates keys; advance past the minimum refresh interval
+      published = [signingKey, rotatedKey];
+      vi.setSystemTime(Date.now() + 60 * 1000);
+
+      await expect(
+        validateClerkToken(await signTestJWT(rotatedKey, { sub: 'user_rotated' }), config)
+      ).resolves.toBe('user_rotated');
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+    });
+
+    it('Does not refetch on every unknown kid (rate-limits forced refreshes)', async () => {
+      const fetchMock = stubJWKSEndpoint(() => [signingKey]);
+
+      await validateClerkToken(await signTestJWT(signingKey), config);
+      const unknownKey = await signTestJWT(rotatedKey);
+
+      await expect(validateClerkToken(unknownKey, config)).rejects.toThrow('unknown key');
+      await expect(validateClerkToken(unknownKey, config)).rejects.toThrow('unknown key');
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+
+    it('Refetches the JWKS once the cache TTL expires', async () => {
+      const fetchMock = stubJWKSEndpoint(() => [signingKey]);
+
+      vi.useFakeTimers({ toFake: ['Date'] });
+      await validateClerkToken(await signTestJWT(signingKey), config);
+
+      vi.setSystemTime(Date.now() + 2 * 60 * 60 * 1000);
+      await validateClerkToken(await signTestJWT(signingKey), config);
+
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+    });
+
+    it('Returns 503 AuthError when the JWKS endpoint is unavailable', async () => {
+      vi.stubGlobal('fetch', vi.fn(async () => new Response('Bad Gateway', { status: 502 })));
+      const token = await signTestJWT(signingKey);
+
+      const error = await validateClerkToken(token, config).catch((e) => e);
+      expect(error).toBeInstanceOf(AuthError);
+      expect(error.status).toBe(503);
+    });
+  });
+
+  describe('⚙️ Configuration', () => {
+    it('Derives the JWKS URL from CLERK_ISSUER', () => {
+      const derived = getClerkAuthConfig({ CLERK_ISSUER: 'https://clerk.example.com/' });
+
+      expect(derived.jwksUrl).toBe(JWKS_URL);
+      expect(derived.issuer).toBe(ISSUER);
+      expect(derived.audience).toBeUndefined();
+    });
+
+    it('Parses a comma-separated CLERK_AUDIENCE', () => {
+      const derived = getClerkAuthConfig({
+        CLERK_JWKS_URL: JWKS_URL,
+        CLERK_AUDIENCE: 'voice-memos, api',
+      });
+
+      expect(derived.audience).toEqual(['voice-memos', 'api']);
+    });
+
+    it('Throws a 500 AuthError when nothing is configured', () => {
+      expect(() => getClerkAuthConfig({})).toThrow(AuthError);
+    });
+  });
+
+  describe('🔀 Auth Modes', () => {
+    it('Defaults to Clerk-only when AUTH_MODE is unset', () => {
+      expect(getAuthModes({ ENVIRONMENT: 'development' })).toEqual(['clerk']);
+    });
+
+    it('Parses a comma-separated AUTH_MODE', () => {
+      expect(getAuthModes({ AUTH_MODE: 'clerk, dev-header', ENVIRONMENT: 'development' })).toEqual([
+        'clerk',
+        'dev-header',
+      ]);
+    });
+
+    it('Never enables dev-header in production', () => {
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+
+      expect(getAuthModes({ AUTH_MODE: 'clerk,dev-header', ENVIRONMENT: 'production' })).toEqual(['clerk']);
+    });
+
+    it('Ignores unknown modes', () => {
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+
+      expect(getAuthModes({ AUTH_MODE: 'clerk,anonymous', ENVIRONMENT: 'development' })).toEqual(['clerk']);
+    });
+  });
+});
@@ -0,0 +1,45 @@
+import { describe, it, expect, vi } from 'vitest';
+import { generateTaskContent } from '../workflow/generate';
+
+/**
+ * Utility: Build a Workers AI event stream, split into the given network chunks
+ */
+function createEventStream(chunks: string[]): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  return new ReadableStream({
+    start(controller) {
+      chunks.forEach((chunk) => controller.enqueue(encoder.encode(chunk)));
+      controller.close();
+    },
+  });
+}
+
+describe('Content Generation', () => {
+  describe('📡 Streaming', () => {
+    it('Streams deltas as they arrive and returns the whole text, even when events span chunks', async () => {
+      const run = vi.fn().mockResolvedValue(createEventStream([
+        'data: {"response":"# Dr"}\n\ndata: {"resp',
+        'onse":"aft"}\n\n',
+        'data: {"response":"\\n- Intro "}\n\ndata: [DONE]\n\n',
+      ]));
+      const deltas: string[] = [];
+
+      const content = await generateTaskContent('Draft an outline', { AI: { run } as any }, {
+        onDelta: (delta) => deltas.push(delta),
+      });
+
+      expect(run.mock.calls[0][1]).toMatchObject({ stream: true });
+      expect(deltas).toEqual(['# Dr', 'aft', '\n- Intro ']);
+      expect(content).toBe('# Draft\n- Intro');
+    });
+
+    it('Waits for the whole response when no delta callback is given', async () => {
+      const run = vi.fn().mockResolvedValue({ response: ' # Draft ' });
+
+      const content = await generateTaskContent('Draft an outline', { AI: { run } as any });
+
+      expect(run.mock.calls[0][1]).not.toHaveProperty('stream');
+      expect(content).toBe('# Draft');
+    });
+  });
+});
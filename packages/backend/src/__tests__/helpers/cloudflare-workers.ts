@@ -0,0 +1,16 @@
+/**
+ * Stand-in for the `cloudflare:workers` runtime module, which only exists inside workerd
+ * Provides the base classes our entrypoints extend, so they can be constructed in tests
+ */
+
+export abstract class WorkflowEntrypoint<Env = unknown, T = unknown> {
+  protected ctx: ExecutionContext;
+  protected env: Env;
+
+  constructor(ctx: ExecutionContext, env: Env) {
+    this.ctx = ctx;
+    this.env = env;
+  }
+
+  abstract run(event: Readonly<{ payload: T }>, step: unknown): Promise<unknown>;
+}
@@ -1,8 +1,10 @@
 /**
- * Shared test utilities for integration and load tests.
+ * Shared test utilities for integration and load tests, and fixtures shared by unit tests.
  * Extracted to avoid duplication and ensure consistency across test suites.
  */
 
+import type { MemoItem } from '../../db';
+
 /**
  * Create a test JWT token for use in integration tests
  * This simulates a valid Clerk JWT without requiring actual Clerk authentication
@@ -73,3 +75,27 @@ export async function pollTaskCompletion(
 
   throw new Error(`Task ${taskId} did not complete within ${maxWaitMs}ms`);
 }
+
+/**
+ * Create a memo item row as stored in D1, with `overrides` applied
+ */
+export function createMockMemoItem(overrides: Partial<MemoItem> = {}): MemoItem {
+  return {
+    itemId: '0b5c7d9e-1f2a-4b3c-8d4e-5f6a7b8c9d0e',
+    taskId: 'c7a2b0e8-5f6a-4b9a-8f0c-1b2d3c4e5f6a',
+    userId: 'test-user-123',
+    position: 0,
+    text: 'Email the client',
+    originalText: 'Email the client',
+    due: null,
+    completed: 0,
+    completedAt: null,
+    generativeTaskPrompt: null,
+    generatedContent: null,
+    segmentIndex: null,
+    createdAt: '2025-10-22T10:00:00Z',
+    updatedAt: '2025-10-22T10:00:00Z',
+    userAdded: 0,
+    ...overrides,
+  };
+}
@@ -0,0 +1,146 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { createMockContext, MockWorkerContext } from '../test-utils';
+import { createMockMemoItem } from './helpers/test-utils';
+import type { MemoItem } from '../db';
+import { handleGetItems, handleBulkUpdateItems } from '../handlers/items';
+
+const taskId = 'c7a2b0e8-5f6a-4b9a-8f0c-1b2d3c4e5f6a';
+const itemIds = ['0b5c7d9e-1f2a-4b3c-8d4e-5f6a7b8c9d0e', '1c6d8e0f-2a3b-4c5d-9e6f-7a8b9c0d1e2f'];
+
+describe('/api/v1/items - Task Inbox', () => {
+  let mockContext: MockWorkerContext;
+  let queries: Array<{ sql: string; params: any[] }>;
+
+  /**
+   * Utility: Serve `items` (joined with their memo) from every list query and record all bound statements
+   */
+  function stubItems(items: MemoItem[]) {
+    (mockContext.env.DB.prepare as any).mockImplementation((sql: string) => ({
+      bind: vi.fn().mockImplementation((...params: any[]) => {
+        queries.push({ sql, params });
+        return {
+          all: vi.fn().mockResolvedValue({
+            results: items.map((item) => ({ ...item, memoCreatedAt: '2025-10-22T09:00:00Z' })),
+          }),
+          run: vi.fn().mockResolvedValue({ success: true, meta: { changes: items.length } }),
+        };
+      }),
+    }));
+  }
+
+  beforeEach(() => {
+    mockContext = createMockContext();
+    queries = [];
+  });
+
+  describe('📥 GET /api/v1/items', () => {
+    it('Lists open items across memos by default', async () => {
+      stubItems([createMockMemoItem()]);
+
+      const response = await handleGetItems(new Request('http://localhost/api/v1/items'), mockContext);
+
+      expect(response.status).toBe(200);
+      const data = await response.json() as any;
+      expect(data.count).toBe(1);
+      expect(data.items[0]).toMatchObject({
+        itemId: itemIds[0],
+        taskId,
+        completed: false,
+        memoCreatedAt: '2025-10-22T09:00:00Z',
+      });
+      expect(queries[0].sql).toContain('memo_items.completed = ?');
+      expect(queries[0].params).toEqual(['test-user-123', 0, 200]);
+    });
+
+    it('Applies due range, memo and limit filters', async () => {
+      stubItems([]);
+
+      await handleGetItems(
+        new Request(`http://localhost/api/v1/items?status=all&dueFrom=2025-10-01&dueTo=2025-10-31&taskId=${taskId}&limit=50`),
+        mockContext
+      );
+
+      expect(queries[0].sql).not.toContain('memo_items.completed = ?');
+      expect(queries[0].sql).toContain('date(memo_items.due) >= date(?)');
+      expect(queries[0].sql).toContain('date(memo_items.due) <= date(?)');
+      expect(queries[0].params).toEqual(['test-user-123', '2025-10-01', '2025-10-31', taskId, 50]);
+    });
+
+    it('Filters to items without a due date', async () => {
+      stubItems([]);
+
+      await handleGetItems(new Request('http://localhost/api/v1/items?hasDue=false'), mockContext);
+
+      expect(queries[0].sql).toContain('memo_items.due IS NULL');
+    });
+
+    it('Returns 400 for invalid filters', async () => {
+      stubItems([]);
+
+      const statuses = await Promise.all([
+        'status=done',
+        'dueFrom=tomorrow',
+        'hasDue=yes',
+        'taskId=abc',
+        'limit=1000',
+      ].map(async (query) => (await handleGetItems(new Request(`http://localhost/api/v1/items?${query}`), mockContext)).status));
+
+      expect(statuses).toEqual([400, 400, 400, 400, 400]);
+      expect(queries).toEqual([]);
+    });
+  });
+
+  describe('✅ PATCH /api/v1/items', () => {
+    it('Completes several items at once', async () => {
+      stubItems([createMockMemoItem({ completed: 1 }), createMockMemoItem({ itemId: itemIds[1], completed: 1 })]);
+
+      const response = await handleBulkUpdateItems(
+        new Request('http://localhost/api/v1/items', {
+          method: 'PATCH',
+          body: JSON.stringify({ itemIds, completed: true }),
+        }),
+        mockContext
+      );
+
+      expect(response.status).toBe(200);
+      const data = await response.json() as any;
+      expect(data.updated).toBe(2);
+      expect(data.items.every((item: any) => item.completed)).toBe(true);
+
+      expect(queries[0].sql).toContain('WHERE userId = ? AND itemId IN (?, ?)');
+      expect(queries[0].params.slice(-3)).toEqual(['test-user-123', ...itemIds]);
+    });
+
+    it('Snoozes items by moving their due date', async () => {
+      stubItems([createMockMemoItem({ due: '2025-10-31' })]);
+
+      const response = await handleBulkUpdateItems(
+        new Request('http://localhost/api/v1/items', {
+          method: 'PATCH',
+          body: JSON.stringify({ itemIds: [itemIds[0]], due: '2025-10-31' }),
+        }),
+        mockContext
+      );
+
+      expect(response.status).toBe(200);
+      expect(queries[0].sql).toContain('due = ?');
+      expect(queries[0].params).toContain('2025-10-31');
+    });
+
+    it('Returns 400 without item IDs or an update', async () => {
+      stubItems([]);
+
+      const noIds = await handleBulkUpdateItems(
+        new Request('http://localhost/api/v1/items', { method: 'PATCH', body: JSON.stringify({ itemIds: [], completed: true }) }),
+        mockContext
+      );
+      const noUpdate = await handleBulkUpdateItems(
+        new Request('http://localhost/api/v1/items', { method: 'PATCH', body: JSON.stringify({ itemIds }) }),
+        mockContext
+      );
+
+      expect([noIds.status, noUpdate.status]).toEqual([400, 400]);
+      expect(queries).toEqual([]);
+    });
+  });
+});
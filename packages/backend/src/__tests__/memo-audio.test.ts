@@ -3,11 +3,15 @@ import { createMockContext, MockWorkerContext } from '../test-utils';
 import { handleGetAudio } from '../handlers/memo-audio';
 import type { Task } from '../db';
 
+const etag = '"5d41402abc4b2a76b9719d911017c592"';
+const uploaded = new Date('2025-10-22T10:00:00Z');
+
 /**
  * Utility: Create a consistent, complete R2 object mock
- * Returns an exact copy of the buffer's contents as ArrayBuffer (not the pooled buffer)
+ * The body streams an exact copy of the buffer's contents (not the pooled buffer);
+ * arrayBuffer is only there to check the handler never buffers
  */
-function createMockR2Object(audioBuffer: Buffer = Buffer.from('mock audio')) {
+function createMockR2Object(audioBuffer: Buffer = Buffer.from('mock audio'), size: number = audioBuffer.length) {
   // Create an ArrayBuffer that is an exact copy of the Buffer's view
   const exactArrayBuffer = audioBuffer.buffer.slice(
     audioBuffer.byteOffset,
@@ -15,8 +19,11 @@ function createMockR2Object(audioBuffer: Buffer = Buffer.from('mock audio')) {
   );
 
   return {
+    body: new Blob([new Uint8Array(audioBuffer)]).stream(),
     arrayBuffer: vi.fn().mockResolvedValue(exactArrayBuffer),
-    size: audioBuffer.length,
+    size,
+    httpEtag: etag,
+    uploaded,
   };
 }
 
@@ -30,8 +37,20 @@ function createMockTask(overrides: Partial<Task> = {}): Task {
     status: 'completed',
     r2Key: 'uploads/test-user-123/c7a2b0e8-5f6a-4b9a-8f0c-1b2d3c4e5f6a.webm',
     transcription: 'Test',
+    transcriptSegments: null,
+    originalTranscription: null,
+    title: null,
+    titleEdited: 0,
+    summary: null,
+    keyPoints: null,
     processedTasks: '[]',
     errorMessage: null,
+    audioDurationSeconds: null,
+    audioSampleRate: null,
+    audioChannels: null,
+    audioCodec: null,
+    audioSizeBytes: null,
+    processedAt: null,
     createdAt: '2025-10-22T10:00:00Z',
     updatedAt: '2025-10-22T10:05:00Z',
     ...overrides,
@@ -79,9 +98,12 @@ describe('GET /api/v1/memo/audio/{taskId} - Audio File Retrieval', () => {
       // Assert R2 was queried with correct key
       expect(mockContext.env.R2_BUCKET.get).toHaveBeenCalledWith(r2Key);
 
-      // Assert response body contains audio data
+      // Assert response body streams the audio data without buffering it
       const responseBuffer = await response.arrayBuffer();
       expect(Buffer.from(responseBuffer)).toEqual(audioBuffer);
+      expect(r2Object.arrayBuffer).not.toHaveBeenCalled();
+      expect(response.headers.get('Accept-Ranges')).toBe('bytes');
+      expect(response.headers.get('ETag')).toBe(etag);
     });
 
     it('Sets correct Content-Length header based on file size', async () => {
@@ -141,6 +163,7 @@ describe('GET /api/v1/memo/audio/{taskId} - Audio File Retrieval', () => {
       { ext: 'wav', mime: 'audio/wav' },
       { ext: 'ogg', mime: 'audio/ogg' },
       { ext: 'flac', mime: 'audio/flac' },
+      { ext: 'm4a', mime: 'audio/mp4' },
     ];
 
     it.each(audioFormats)(
@@ -260,6 +283,133 @@ describe('GET /api/v1/memo/audio/{taskId} - Audio File Retrieval', () => {
     });
   });
 
+  describe('🎯 Range & Conditional Requests', () => {
+    const audioBuffer = Buffer.from('0123456789abcdefghijklmn'); // 24 bytes
+    const task = createMockTask();
+
+    beforeEach(() => {
+      (mockContext.env.DB.prepare as any).mockReturnValue({
+        bind: vi.fn().mockReturnValue({
+          first: vi.fn().mockResolvedValue(task),
+        }),
+      });
+
+      // R2 serves the requested slice, reporting the whole object's size
+      (mockContext.env.R2_BUCKET.head as any).mockResolvedValue({ size: audioBuffer.length, httpEtag: etag, uploaded });
+      (mockContext.env.R2_BUCKET.get as any).mockImplementation(async (_key: string, options?: any) => {
+        const { offset = 0, length = audioBuffer.length } = options?.range ?? {};
+        return createMockR2Object(audioBuffer.subarray(offset, offset + length), audioBuffer.length);
+      });
+    });
+
+    function getAudio(headers: Record<string, string>) {
+      return handleGetAudio(new Request(`http://localhost/api/v1/memo/audio/${task.taskId}`, { headers }), mockContext);
+    }
+
+    it('Returns 206 with just the requested bytes, read with an R2 ranged get', async () => {
+      const response = await getAudio({ Range: 'bytes=0-3' });
+
+      expect(response.status).toBe(206);
+      expect(response.headers.get('Content-Range')).toBe('bytes 0-3/24');
+      expect(response.headers.get('Content-Length')).toBe('4');
+      expect(response.headers.get('Content-Type')).toBe('audio/webm');
+      expect(await response.text()).toBe('0123');
+      expect(mockContext.env.R2_BUCKET.get).toHaveBeenCalledWith(task.r2Key, { range: { offset: 0, length: 4 } });
+    });
+
+    it.each([
+      { range: 'bytes=20-', contentRange: 'bytes 20-23/24', body: 'klmn' },
+      { range: 'bytes=-5', contentRange: 'bytes 19-23/24', body: 'jklmn' },
+      { range: 'bytes=-100', contentRange: 'bytes 0-23/24', body: audioBuffer.toString() },
+      { range: 'bytes=22-999', contentRange: 'bytes 22-23/24', body: 'mn' },
+      { range: 'bytes=23-23', contentRange: 'bytes 23-23/24', body: 'n' },
+    ])('Resolves $range to $contentRange', async ({ range, contentRange, body }) => {
+      const response = await getAudio({ Range: range });
+
+      expect(response.status).toBe(206);
+      expect(response.headers.get('Content-Range')).toBe(contentRange);
+      expect(await response.text()).toBe(body);
+    });
+
+    it.each(['bytes=24-', 'bytes=100-200', 'bytes=-0'])('Returns 416 for unsatisfiable %s without reading the file', async (range) => {
+      const response = await getAudio({ Range: range });
+
+      expect(response.status).toBe(416);
+      expect(response.headers.get('Content-Range')).toBe('bytes */24');
+      expect((await response.json() as any).error).toBe('Range Not Satisfiable');
+      expect(mockContext.env.R2_BUCKET.get).not.toHaveBeenCalled();
+    });
+
+    it.each(['bytes=5-2', 'items=0-3', 'bytes=0-1,4-5', 'bytes=-', 'bytes=abc'])(
+      'Ignores malformed or multiple ranges (%s) and returns the whole file',
+      async (range) => {
+        const response = await getAudio({ Range: range });
+
+        expect(response.status).toBe(200);
+        expect(response.headers.get('Content-Range')).toBeNull();
+        expect(await response.text()).toBe(audioBuffer.toString());
+        expect(mockContext.env.R2_BUCKET.get).toHaveBeenCalledWith(task.r2Key);
+      }
+    );
+
+    it('Honours If-Range when it matches the ETag or upload date', async () => {
+      const byEtag = await getAudio({ Range: 'bytes=0-3', 'If-Range': etag });
+      const byDate = await getAudio({ Range: 'bytes=0-3', 'If-Range': uploaded.toUTCString() });
+
+      expect(byEtag.status).toBe(206);
+      expect(byDate.status).toBe(206);
+    });
+
+    it('Sends the whole file when If-Range is stale or a weak ETag', async () => {
+      const stale = await getAudio({ Range: 'bytes=0-3', 'If-Range': '"older-version"' });
+      const weak = await getAudio({ Range: 'bytes=0-3', 'If-Range': `W/${etag}` });
+      const oldDate = await getAudio({ Range: 'bytes=0-3', 'If-Range': 'Tue, 21 Oct 2025 10:00:00 GMT' });
+
+      for (const response of [stale, weak, oldDate]) {
+        expect(response.status).toBe(200);
+        expect(await response.text()).toBe(audioBuffer.toString());
+      }
+    });
+
+    it('Returns 304 without a body when If-None-Match matches, including weak and listed ETags', async () => {
+      for (const ifNoneMatch of [etag, `W/${etag}`, `"other", ${etag}`, '*']) {
+        const response = await getAudio({ 'If-None-Match': ifNoneMatch });
+
+        expect(response.status).toBe(304);
+        expect(response.headers.get('ETag')).toBe(etag);
+        expect(response.body).toBeNull();
+      }
+      expect(mockContext.env.R2_BUCKET.get).not.toHaveBeenCalled();
+    });
+
+    it('Checks If-None-Match before the range', async () => {
+      const notModified = await getAudio({ 'If-None-Match': etag, Range: 'bytes=0-3' });
+      const modified = await getAudio({ 'If-None-Match': '"older-version"', Range: 'bytes=0-3' });
+
+      expect(notModified.status).toBe(304);
+      expect(modified.status).toBe(206);
+      expect(await modified.text()).toBe('0123');
+    });
+
+    it('Returns 404 for a range request when the file is missing from R2', async () => {
+      (mockContext.env.R2_BUCKET.head as any).mockResolvedValue(null);
+
+      const response = await getAudio({ Range: 'bytes=0-3' });
+
+      expect(response.status).toBe(404);
+      expect(mockContext.env.R2_BUCKET.get).not.toHaveBeenCalled();
+    });
+
+    it('Returns 416 for any range of an empty file', async () => {
+      (mockContext.env.R2_BUCKET.head as any).mockResolvedValue({ size: 0, httpEtag: etag, uploaded });
+
+      const response = await getAudio({ Range: 'bytes=0-' });
+
+      expect(response.status).toBe(416);
+      expect(response.headers.get('Content-Range')).toBe('bytes */0');
+    });
+  });
+
   describe('❌ Error Cases - Audio Not Found', () => {
     it('Returns 404 when task does not exist', async () => {
       const taskId = 'nonexistent-task-id';
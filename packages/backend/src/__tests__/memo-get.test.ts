@@ -114,6 +114,64 @@ describe('GET /api/v1/memo/{taskId} - Task Status & Results Endpoint', () => {
       expect(data.originalAudioUrl).toBe(`/api/v1/memo/audio/${taskId}`);
     });
 
+    it('Returns timestamped transcript segments and task segment links for completed tasks', async () => {
+      const taskId = 'c7a2b0e8-5f6a-4b9a-8f0c-1b2d3c4e5f6a';
+      const request = new Request(`http://localhost/api/v1/memo/${taskId}`);
+      const segments = [
+        { start: 0, end: 2.4, text: 'Quick memo.' },
+        { start: 2.4, end: 6.1, text: 'Email the client about the proposal.' },
+      ];
+
+      const task = createMockTask({
+        taskId,
+        transcriptSegments: JSON.stringify(segments),
+        processedTasks: JSON.stringify([
+          { task: 'Email client about proposal', due: null, generative_task_prompt: null, segmentIndex: 1 },
+        ]),
+      });
+
+      const prepareMock = mockContext.env.DB.prepare as any;
+      prepareMock.mockReturnValue({
+        bind: vi.fn().mockReturnValue({
+          first: vi.fn().mockResolvedValue(task),
+        }),
+      });
+
+      mockContext.data.userId = task.userId;
+
+      const response = await handleGetMemo(request, mockContext);
+
+      const data = await response.json() as any;
+      expect(data.transcriptSegments).toEqual(segments);
+      expect(data.processedTasks[0].segmentIndex).toBe(1);
+    });
+
+    it('Returns the memo title, TL;DR and key points once summarized', async () => {
+      const task = createMockTask({
+        title: 'Proposal follow-up',
+        summary: 'Email the client and draft an outline.',
+        keyPoints: JSON.stringify(['Email the client', 'Draft an outline']),
+      });
+
+      const prepareMock = mockContext.env.DB.prepare as any;
+      prepareMock.mockReturnValue({
+        bind: vi.fn().mockReturnValue({
+          first: vi.fn().mockResolvedValue(task),
+        }),
+      });
+
+      mockContext.data.userId = task.userId;
+
+      const response = await handleGetMemo(new Request(`http://localhost/api/v1/memo/${task.taskId}`), mockContext);
+
+      const data = await response.json() as any;
+      expect(data).toMatchObject({
+        title: 'Proposal follow-up',
+        summary: 'Email the client and draft an outline.',
+        keyPoints: ['Email the client', 'Draft an outline'],
+      });
+    });
+
     it('Returns 200 with failed status (includes error, excludes transcription/processedTasks)', async () => {
       const taskId = 'c7a2b0e8-5f6a-4b9a-8f0c-1b2d3c4e5f6a';
       const request = new Request(`http://localhost/api/v1/memo/${taskId}`);
@@ -0,0 +1,165 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { createMockContext, MockWorkerContext } from '../test-utils';
+import { createMockMemoItem } from './helpers/test-utils';
+import type { MemoItem } from '../db';
+import {
+  handleGenerateMemoItem,
+  handleGetMemoItemVersions,
+  handleSelectMemoItemVersion,
+} from '../handlers/memo-item-generate';
+
+const taskId = 'c7a2b0e8-5f6a-4b9a-8f0c-1b2d3c4e5f6a';
+const itemId = '0b5c7d9e-1f2a-4b3c-8d4e-5f6a7b8c9d0e';
+const versionId = '1c6d8e0f-2a3b-4c5d-9e6f-7a8b9c0d1e2f';
+
+// The second item of the memo, with generated content
+const generativeItem = {
+  position: 1,
+  generativeTaskPrompt: 'Draft an email to the client about the proposal',
+  generatedContent: 'Dear client, here is a very long email...',
+};
+
+/**
+ * Utility: Create a request against the generate/versions routes
+ */
+function createRequest(method: string, path: string, body?: unknown): Request {
+  return new Request(`http://localhost/api/v1/memo/${taskId}/items/${path}`, {
+    method,
+    headers: { 'Content-Type': 'application/json' },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+}
+
+describe('/api/v1/memo/{taskId}/items/{index} - Generated Content Versions', () => {
+  let mockContext: MockWorkerContext;
+  let queries: Array<{ sql: string; params: any[] }>;
+
+  /**
+   * Utility: Serve the memo, the item at the requested position and stored versions
+   */
+  function stubDb({ item = createMockMemoItem(generativeItem) as MemoItem | null, versions = [] as any[], status = 'completed', changes = 1 } = {}) {
+    (mockContext.env.DB.prepare as any).mockImplementation((sql: string) => ({
+      bind: vi.fn().mockImplementation((...params: any[]) => {
+        queries.push({ sql, params });
+        return {
+          sql,
+          params,
+          first: vi.fn().mockResolvedValue(sql.includes('FROM tasks') ? { taskId, userId: 'test-user-123', status } : item),
+          all: vi.fn().mockResolvedValue({ results: versions }),
+          run: vi.fn().mockResolvedValue({ success: true, meta: { changes } }),
+        };
+      }),
+    }));
+  }
+
+  beforeEach(() => {
+    mockContext = createMockContext();
+    queries = [];
+  });
+
+  describe('✨ POST .../items/{index}/generate', () => {
+    it('Refines the current content with the instruction and keeps the old draft as a version', async () => {
+      stubDb();
+      (mockContext.env.AI.run as any).mockResolvedValue({ response: 'Hi, short email.' });
+
+      const response = await handleGenerateMemoItem(
+        createRequest('POST', '1/generate', { instruction: ' make it shorter ' }),
+        mockContext
+      );
+
+      expect(response.status).toBe(200);
+      const data = await response.json() as any;
+      expect(data.item).toMatchObject({ itemId, generatedContent: 'Hi, short email.' });
+
+      const prompt = (mockContext.env.AI.run as any).mock.calls[0][1].prompt;
+      expect(prompt).toContain('Dear client, here is a very long email...');
+      expect(prompt).toContain('Revise it as the user asks: make it shorter');
+
+      expect(queries.find((query) => query.sql.includes('position = ?'))?.params).toEqual([taskId, 'test-user-123', 1]);
+      const [keepPrevious, insertNew, setCurrent] = (mockContext.env.DB.batch as any).mock.calls[0][0];
+      expect(keepPrevious.sql).toContain('WHERE NOT EXISTS');
+      expect(keepPrevious.params[4]).toBe('Dear client, here is a very long email...');
+      expect(insertNew.params.slice(4, 6)).toEqual(['Hi, short email.', 'make it shorter']);
+      expect(setCurrent.sql).toContain('UPDATE memo_items SET generatedContent = ?');
+    });
+
+    it('Regenerates from the original prompt when no instruction is given', async () => {
+      stubDb({ item: createMockMemoItem({ ...generativeItem, generatedContent: null }) });
+      (mockContext.env.AI.run as any).mockResolvedValue({ response: 'Dear client,' });
+
+      const response = await handleGenerateMemoItem(
+        new Request(`http://localhost/api/v1/memo/${taskId}/items/1/generate`, { method: 'POST' }),
+        mockContext
+      );
+
+      expect(response.status).toBe(200);
+      expect((mockContext.env.AI.run as any).mock.calls[0][1].prompt).toContain(
+        'User request: Draft an email to the client about the proposal'
+      );
+      const statements = (mockContext.env.DB.batch as any).mock.calls[0][0];
+      expect(statements).toHaveLength(2);
+      expect(statements[0].params[5]).toBeNull();
+    });
+
+    it('Returns 409 for a task without a generation prompt or a memo still processing', async () => {
+      stubDb({ item: createMockMemoItem({ ...generativeItem, generativeTaskPrompt: null }) });
+      const noPrompt = await handleGenerateMemoItem(createRequest('POST', '1/generate', {}), mockContext);
+
+      stubDb({ status: 'processing' });
+      const processing = await handleGenerateMemoItem(createRequest('POST', '1/generate', {}), mockContext);
+
+      expect([noPrompt.status, processing.status]).toEqual([409, 409]);
+      expect(mockContext.env.AI.run).not.toHaveBeenCalled();
+    });
+
+    it('Returns 400 for an invalid index or instruction and 404 for a missing item', async () => {
+      stubDb({ item: null });
+
+      const responses = await Promise.all([
+        handleGenerateMemoItem(createRequest('POST', '-1/generate', {}), mockContext),
+        handleGenerateMemoItem(createRequest('POST', '1/generate', { instruction: '' }), mockContext),
+        handleGenerateMemoItem(createRequest('POST', '1/generate', { instruction: 'x'.repeat(501) }), mockContext),
+        handleGenerateMemoItem(createRequest('POST', '1/generate', {}), mockContext),
+      ]);
+
+      expect(responses.map((response) => response.status)).toEqual([400, 400, 400, 404]);
+    });
+  });
+
+  describe('🗂️ Versions', () => {
+    const versions = [
+      { versionId, itemId, content: 'Dear client, here is a very long email...', instruction: null, createdAt: '2025-10-22T10:00:00Z' },
+      { versionId: itemId, itemId, content: 'Hi, short email.', instruction: 'make it shorter', createdAt: '2025-10-23T10:00:00Z' },
+    ];
+
+    it('Lists the item\'s drafts oldest first', async () => {
+      stubDb({ versions });
+
+      const response = await handleGetMemoItemVersions(createRequest('GET', '1/versions'), mockContext);
+
+      expect(response.status).toBe(200);
+      const data = await response.json() as any;
+      expect(data.versions.map((version: any) => version.instruction)).toEqual([null, 'make it shorter']);
+      expect(data.versions[0]).not.toHaveProperty('userId');
+    });
+
+    it('Makes an earlier draft current, and 404s for a version of another item', async () => {
+      stubDb({ versions });
+
+      const response = await handleSelectMemoItemVersion(
+        createRequest('POST', `1/versions/${versionId}/select`),
+        mockContext
+      );
+      const unknown = await handleSelectMemoItemVersion(
+        createRequest('POST', `1/versions/${taskId}/select`),
+        mockContext
+      );
+
+      expect(response.status).toBe(200);
+      const data = await response.json() as any;
+      expect(data.item.generatedContent).toBe('Dear client, here is a very long email...');
+      expect(queries.find((query) => query.sql.includes('SET generatedContent = (SELECT'))?.params[0]).toBe(versionId);
+      expect(unknown.status).toBe(404);
+    });
+  });
+});
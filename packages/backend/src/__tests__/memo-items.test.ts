@@ -0,0 +1,269 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { createMockContext, MockWorkerContext } from '../test-utils';
+import { createMockMemoItem } from './helpers/test-utils';
+import {
+  handleGetMemoItems,
+  handleCreateMemoItem,
+  handleUpdateMemoItem,
+  handleDeleteMemoItem,
+} from '../handlers/memo-items';
+import { replaceMemoItems } from '../db';
+
+const taskId = 'c7a2b0e8-5f6a-4b9a-8f0c-1b2d3c4e5f6a';
+const itemId = '0b5c7d9e-1f2a-4b3c-8d4e-5f6a7b8c9d0e';
+
+/**
+ * Utility: Create a request against the items routes
+ */
+function createItemsRequest(method: string, body?: unknown, id?: string): Request {
+  const path = id ? `/api/v1/memo/${taskId}/items/${id}` : `/api/v1/memo/${taskId}/items`;
+  return new Request(`http://localhost${path}`, {
+    method,
+    headers: { 'Content-Type': 'application/json' },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+}
+
+describe('/api/v1/memo/{taskId}/items - Memo Items', () => {
+  let mockContext: MockWorkerContext;
+  let runSql: Array<{ sql: string; params: any[] }>;
+  let changes: number;
+
+  /**
+   * Utility: Serve `first` results for single-row queries and `items` for list queries
+   */
+  function stubDb({ first = null, items = [] }: { first?: any; items?: any[] }) {
+    (mockContext.env.DB.prepare as any).mockImplementation((sql: string) => ({
+      bind: vi.fn().mockImplementation((...params: any[]) => ({
+        sql,
+        params,
+        first: vi.fn().mockResolvedValue(first),
+        all: vi.fn().mockResolvedValue({ results: items }),
+        run: vi.fn().mockImplementation(async () => {
+          runSql.push({ sql, params });
+          return { success: true, meta: { changes } };
+        }),
+      })),
+    }));
+  }
+
+  beforeEach(() => {
+    mockContext = createMockContext();
+    runSql = [];
+    changes = 1;
+  });
+
+  describe('📋 Listing and adding', () => {
+    it('Returns items in order with completion as a boolean', async () => {
+      stubDb({
+        first: { taskId },
+        items: [createMockMemoItem(), createMockMemoItem({ itemId: 'other', position: 1, completed: 1 })],
+      });
+
+      const response = await handleGetMemoItems(createItemsRequest('GET'), mockContext);
+
+      expect(response.status).toBe(200);
+      const data = await response.json() as any;
+      expect(data.items.map((item: any) => [item.position, item.completed])).toEqual([[0, false], [1, true]]);
+      expect(data.items[0]).not.toHaveProperty('userId');
+    });
+
+    it('Returns 404 for another user\'s memo', async () => {
+      stubDb({ first: null });
+
+      const response = await handleGetMemoItems(createItemsRequest('GET'), mockContext);
+
+      expect(response.status).toBe(404);
+    });
+
+    it('Appends a new item to the end of the list', async () => {
+      stubDb({ first: createMockMemoItem({ text: 'Book flights', originalText: 'Book flights', position: 3 }) });
+
+      const response = await handleCreateMemoItem(createItemsRequest('POST', { text: ' Book flights ' }), mockContext);
+
+      expect(response.status).toBe(201);
+      const data = await response.json() as any;
+      expect(data.text).toBe('Book flights');
+      expect(runSql[0].sql).toContain('COALESCE(MAX(position) + 1, 0)');
+      expect(runSql[0].params).toContain('Book flights');
+    });
+
+    it('Returns 400 for an empty item', async () => {
+      stubDb({ first: { taskId } });
+
+      const response = await handleCreateMemoItem(createItemsRequest('POST', { text: '  ' }), mockContext);
+
+      expect(response.status).toBe(400);
+      expect(runSql).toEqual([]);
+    });
+  });
+
+  describe('✏️ Editing, completing and reordering', () => {
+    it('Completes an item and records when', async () => {
+      stubDb({ first: createMockMemoItem({ completed: 1, completedAt: '2025-10-23T09:00:00Z' }) });
+
+      const response = await handleUpdateMemoItem(createItemsRequest('PATCH', { completed: true }, itemId), mockContext);
+
+      expect(response.status).toBe(200);
+      const data = await response.json() as any;
+      expect(data.completed).toBe(true);
+      expect(runSql[0].sql).toContain('completed = ?, completedAt = ?');
+      expect(runSql[0].params.slice(1, 3)).toEqual([1, expect.any(String)]);
+    });
+
+    it('Edits the text and due date', async () => {
+      stubDb({ first: createMockMemoItem({ text: 'Email the client today', due: '2025-10-24' }) });
+
+      const response = await handleUpdateMemoItem(
+        createItemsRequest('PATCH', { text: 'Email the client today', due: '2025-10-24' }, itemId),
+        mockContext
+      );
+
+      expect(response.status).toBe(200);
+      expect(runSql[0].sql).toContain('text = ?');
+      expect(runSql[0].sql).toContain('due = ?');
+    });
+
+    it('Moves an item and renumbers the others', async () => {
+      stubDb({
+        items: [
+          createMockMemoItem({ itemId: 'a', position: 0 }),
+          createMockMemoItem({ itemId: 'b', position: 1 }),
+          createMockMemoItem({ itemId, position: 2 }),
+        ],
+      });
+
+      const response = await handleUpdateMemoItem(createItemsRequest('PATCH', { position: 0 }, itemId), mockContext);
+
+      expect(response.status).toBe(200);
+      const data = await response.json() as any;
+      expect(data.position).toBe(0);
+
+      const batch = (mockContext.env.DB.batch as any).mock.calls[0][0];
+      expect(batch.map((statement: any) => [statement.params[0], statement.params[2]])).toEqual([
+        [0, itemId],
+        [1, 'a'],
+        [2, 'b'],
+      ]);
+    });
+
+    it('Returns 400 for an empty update or a bad field', async () => {
+      stubDb({ first: createMockMemoItem() });
+
+      const empty = await handleUpdateMemoItem(createItemsRequest('PATCH', {}, itemId), mockContext);
+      const badCompleted = await handleUpdateMemoItem(createItemsRequest('PATCH', { completed: 'yes' }, itemId), mockContext);
+      const badPosition = await handleUpdateMemoItem(createItemsRequest('PATCH', { position: -1 }, itemId), mockContext);
+
+      expect([empty.status, badCompleted.status, badPosition.status]).toEqual([400, 400, 400]);
+    });
+
+    it('Returns 404 when the item does not belong to the user', async () => {
+      stubDb({ first: null });
+      changes = 0;
+
+      const response = await handleUpdateMemoItem(createItemsRequest('PATCH', { completed: true }, itemId), mockContext);
+
+      expect(response.status).toBe(404);
+    });
+  });
+
+  describe('🗑️ Deleting', () => {
+    it('Deletes an item with 204', async () => {
+      stubDb({});
+
+      const response = await handleDeleteMemoItem(createItemsRequest('DELETE', undefined, itemId), mockContext);
+
+      expect(response.status).toBe(204);
+      expect(runSql[0].params).toEqual([itemId, taskId, 'test-user-123']);
+    });
+
+    it('Returns 404 when nothing was deleted', async () => {
+      stubDb({});
+      changes = 0;
+
+      const response = await handleDeleteMemoItem(createItemsRequest('DELETE', undefined, itemId), mockContext);
+
+      expect(response.status).toBe(404);
+    });
+  });
+
+  describe('🔁 Syncing pipeline results', () => {
+    it('Keeps completion and edits for tasks that were extracted again', async () => {
+      stubDb({
+        items: [createMockMemoItem({ text: 'Email the client by Friday', completed: 1, completedAt: '2025-10-23T09:00:00Z' })],
+      });
+
+      await replaceMemoItems(mockContext.env.DB, taskId, 'test-user-123', [
+        { task: 'Email the client', due: null, generative_task_prompt: null },
+        { task: 'Draft outline', due: null, generative_task_prompt: 'Draft an outline', generated_content: 'Outline' },
+      ]);
+
+      const [remove, ...inserts] = (mockContext.env.DB.batch as any).mock.calls[0][0];
+      expect(remove.sql).toContain('DELETE FROM memo_items');
+      expect(inserts.map((insert: any) => insert.params.slice(0, 9))).toEqual([
+        [itemId, taskId, 'test-user-123', 0, 'Email the client by Friday', 'Email the client', null, 1, '2025-10-23T09:00:00Z'],
+        [expect.any(String), taskId, 'test-user-123', 1, 'Draft outline', 'Draft outline', null, 0, null],
+      ]);
+    });
+
+    it('Keeps items the user added, at their place in the list', async () => {
+      stubDb({
+        items: [
+          createMockMemoItem(),
+          createMockMemoItem({ itemId: 'added', position: 1, text: 'Call mum', originalText: 'Call mum', userAdded: 1 }),
+          createMockMemoItem({ itemId: 'second', position: 2, text: 'Book flights', originalText: 'Book flights' }),
+        ],
+      });
+
+      await replaceMemoItems(mockContext.env.DB, taskId, 'test-user-123', [
+        { task: 'Email the client', due: null, generative_task_prompt: null },
+        { task: 'Book flights', due: null, generative_task_prompt: null },
+      ]);
+
+      const [, ...inserts] = (mockContext.env.DB.batch as any).mock.calls[0][0];
+      expect(inserts.map((insert: any) => [insert.params[0], insert.params[3], insert.params[4], insert.params[14]])).toEqual([
+        [itemId, 0, 'Email the client', 0],
+        ['added', 1, 'Call mum', 1],
+        ['second', 2, 'Book flights', 0],
+      ]);
+    });
+
+    it('Matches repeated tasks one by one, so each keeps its own completion', async () => {
+      stubDb({
+        items: [
+          createMockMemoItem({ itemId: 'first', completed: 1, completedAt: '2025-10-23T09:00:00Z' }),
+          createMockMemoItem({ itemId: 'second', position: 1 }),
+        ],
+      });
+
+      await replaceMemoItems(mockContext.env.DB, taskId, 'test-user-123', [
+        { task: 'Email the client', due: null, generative_task_prompt: null },
+        { task: 'Email the client', due: null, generative_task_prompt: null },
+      ]);
+
+      const [, ...inserts] = (mockContext.env.DB.batch as any).mock.calls[0][0];
+      expect(inserts.map((insert: any) => [insert.params[0], insert.params[7]])).toEqual([
+        ['first', 1],
+        ['second', 0],
+      ]);
+    });
+
+    it('Keeps the item and its drafts when a transcript edit rewords its task', async () => {
+      stubDb({
+        items: [
+          createMockMemoItem({ generativeTaskPrompt: 'Draft an email', generatedContent: 'Dear client' }),
+          createMockMemoItem({ itemId: 'dropped', position: 1, text: 'Buy milk', originalText: 'Buy milk' }),
+        ],
+      });
+
+      await replaceMemoItems(mockContext.env.DB, taskId, 'test-user-123', [
+        { task: 'Email the new client', due: null, generative_task_prompt: 'Draft an email', generated_content: 'Dear client' },
+      ]);
+
+      const [, insert, removeDrafts] = (mockContext.env.DB.batch as any).mock.calls[0][0];
+      expect(insert.params.slice(0, 6)).toEqual([itemId, taskId, 'test-user-123', 0, 'Email the new client', 'Email the new client']);
+      expect(removeDrafts.sql).toContain('DELETE FROM generated_content_versions');
+      expect(removeDrafts.params).toEqual(['test-user-123', 'dropped']);
+    });
+  });
+});
@@ -0,0 +1,210 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { createMockContext, MockWorkerContext } from '../test-utils';
+import { handleReprocessMemo } from '../handlers/memo-reprocess';
+import { getReprocessInput } from '../workflow-handler';
+
+const taskId = 'c7a2b0e8-5f6a-4b9a-8f0c-1b2d3c4e5f6a';
+
+/**
+ * Utility: Create a complete mock task record
+ */
+function createMockTask(overrides: Partial<any> = {}) {
+  return {
+    taskId,
+    userId: 'test-user-123',
+    status: 'completed',
+    r2Key: `uploads/test-user-123/${taskId}.webm`,
+    transcription: 'Email the client and draft an outline',
+    transcriptSegments: null,
+    processedTasks: JSON.stringify([
+      { task: 'Email the client', due: null, generative_task_prompt: null },
+      { task: 'Draft outline', due: null, generative_task_prompt: 'Draft an outline', generated_content: 'Old outline' },
+    ]),
+    errorMessage: null,
+    createdAt: '2025-10-22T10:00:00Z',
+    updatedAt: '2025-10-22T10:05:00Z',
+    ...overrides,
+  };
+}
+
+/**
+ * Utility: Create a reprocess request with an optional JSON body
+ */
+function createReprocessRequest(body?: unknown): Request {
+  return new Request(`http://localhost/api/v1/memo/${taskId}/reprocess`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+}
+
+describe('POST /api/v1/memo/{taskId}/reprocess - Reprocess Endpoint', () => {
+  let mockContext: MockWorkerContext;
+  let queueSend: ReturnType<typeof vi.fn>;
+  let resetChanges: number;
+
+  /**
+   * Utility: Serve the given task from getTask and report resetChanges rows for the reset UPDATE
+   */
+  function stubTask(task: any) {
+    (mockContext.env.DB.prepare as any).mockImplementation((sql: string) => ({
+      bind: vi.fn().mockReturnValue({
+        first: vi.fn().mockResolvedValue(task),
+        run: vi.fn().mockResolvedValue({
+          success: true,
+          meta: { changes: sql.includes("status IN ('completed', 'failed')") ? resetChanges : 1 },
+        }),
+      }),
+    }));
+  }
+
+  beforeEach(() => {
+    mockContext = createMockContext();
+    queueSend = vi.fn().mockResolvedValue(undefined);
+    mockContext.env.VOICE_MEMO_QUEUE = { send: queueSend };
+    resetChanges = 1;
+  });
+
+  describe('✅ Queues the pipeline again', () => {
+    it('Returns 202, resets status and queues a transcribe run by default', async () => {
+      stubTask(createMockTask());
+
+      const response = await handleReprocessMemo(createReprocessRequest(), mockContext);
+
+      expect(response.status).toBe(202);
+      const data = await response.json() as any;
+      expect(data).toEqual({
+        taskId,
+        status: 'pending',
+        fromStage: 'transcribe',
+        statusUrl: `/api/v1/memo/${taskId}`,
+      });
+
+      const sqlCalls = (mockContext.env.DB.prepare as any).mock.calls.map((call: any[]) => call[0]);
+      expect(sqlCalls.some((sql: string) => sql.includes("status IN ('completed', 'failed')"))).toBe(true);
+
+      expect(queueSend).toHaveBeenCalledWith(expect.objectContaining({
+        key: `uploads/test-user-123/${taskId}.webm`,
+        taskId,
+        userId: 'test-user-123',
+        fromStage: 'transcribe',
+      }));
+    });
+
+    it('Accepts fromStage extract and generate when saved outputs exist', async () => {
+      stubTask(createMockTask({ status: 'failed' }));
+
+      const extract = await handleReprocessMemo(createReprocessRequest({ fromStage: 'extract' }), mockContext);
+      const generate = await handleReprocessMemo(createReprocessRequest({ fromStage: 'generate' }), mockContext);
+
+      expect(extract.status).toBe(202);
+      expect(generate.status).toBe(202);
+      expect(queueSend.mock.calls.map((call: any[]) => call[0].fromStage)).toEqual(['extract', 'generate']);
+    });
+
+    it('Clears TaskStatusDO history before queueing', async () => {
+      stubTask(createMockTask());
+      const doFetch = vi.fn().mockResolvedValue(new Response('{}'));
+      (mockContext.env as any).TASK_STATUS_DO = {
+        idFromName: vi.fn().mockReturnValue('do-id'),
+        get: vi.fn().mockReturnValue({ fetch: doFetch }),
+      };
+
+      await handleReprocessMemo(createReprocessRequest(), mockContext);
+
+      const resetRequest = doFetch.mock.calls[0][0] as Request;
+      expect(new URL(resetRequest.url).pathname).toBe('/reset');
+      expect(doFetch.mock.invocationCallOrder[0]).toBeLessThan(queueSend.mock.invocationCallOrder[0]);
+    });
+  });
+
+  describe('❌ Validation & Conflicts', () => {
+    it('Returns 400 for an unknown fromStage', async () => {
+      stubTask(createMockTask());
+
+      const response = await handleReprocessMemo(createReprocessRequest({ fromStage: 'upload' }), mockContext);
+
+      expect(response.status).toBe(400);
+      expect(queueSend).not.toHaveBeenCalled();
+    });
+
+    it('Returns 404 when the memo does not exist or belongs to another user', async () => {
+      stubTask(null);
+
+      const response = await handleReprocessMemo(createReprocessRequest(), mockContext);
+
+      expect(response.status).toBe(404);
+    });
+
+    it('Returns 409 while the memo is still processing', async () => {
+      stubTask(createMockTask({ status: 'processing' }));
+
+      const response = await handleReprocessMemo(createReprocessRequest(), mockContext);
+
+      expect(response.status).toBe(409);
+      expect(queueSend).not.toHaveBeenCalled();
+    });
+
+    it('Returns 409 when reprocessing from extract without a saved transcription', async () => {
+      stubTask(createMockTask({ status: 'failed', transcription: null, processedTasks: null }));
+
+      const response = await handleReprocessMemo(createReprocessRequest({ fromStage: 'extract' }), mockContext);
+
+      expect(response.status).toBe(409);
+      const data = await response.json() as any;
+      expect(data.message).toContain('transcribe');
+    });
+
+    it('Returns 409 when another reprocess already reset the memo', async () => {
+      stubTask(createMockTask());
+      resetChanges = 0;
+
+      const response = await handleReprocessMemo(createReprocessRequest(), mockContext);
+
+      expect(response.status).toBe(409);
+      expect(queueSend).not.toHaveBeenCalled();
+    });
+
+    it('Marks the memo failed if the queue rejects the message', async () => {
+      stubTask(createMockTask());
+      queueSend.mockRejectedValueOnce(new Error('Queue unavailable'));
+
+      const response = await handleReprocessMemo(createReprocessRequest(), mockContext);
+
+      expect(response.status).toBe(500);
+      const sqlCalls = (mockContext.env.DB.prepare as any).mock.calls.map((call: any[]) => call[0]);
+      expect(sqlCalls.some((sql: string) => sql.includes('errorMessage = ?'))).toBe(true);
+    });
+  });
+
+  describe('🔁 Saved outputs for the workflow', () => {
+    it('Reuses the saved transcription when reprocessing from extract', () => {
+      expect(getReprocessInput(createMockTask(), 'extract')).toEqual({
+        transcription: 'Email the client and draft an outline',
+      });
+    });
+
+    it('Reuses extracted tasks without their generated content when reprocessing from generate', () => {
+      const input = getReprocessInput(createMockTask(), 'generate');
+
+      expect(input.transcription).toBe('Email the client and draft an outline');
+      expect(input.extractedTasks).toEqual([
+        { task: 'Email the client', due: null, generative_task_prompt: null },
+        { task: 'Draft outline', due: null, generative_task_prompt: 'Draft an outline' },
+      ]);
+    });
+
+    it('Reuses saved transcript segments so tasks can still be linked to them', () => {
+      const segments = [{ start: 0, end: 3.5, text: 'Email the client and draft an outline' }];
+
+      const input = getReprocessInput(createMockTask({ transcriptSegments: JSON.stringify(segments) }), 'extract');
+
+      expect(input.transcriptSegments).toEqual(segments);
+    });
+
+    it('Falls back to a full run when no transcription was saved', () => {
+      expect(getReprocessInput(createMockTask({ transcription: null }), 'generate')).toEqual({});
+      expect(getReprocessInput(createMockTask(), 'transcribe')).toEqual({});
+    });
+  });
+});
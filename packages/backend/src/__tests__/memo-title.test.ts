@@ -0,0 +1,92 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { createMockContext, MockWorkerContext } from '../test-utils';
+import { handleUpdateTitle } from '../handlers/memo-title';
+
+const taskId = 'c7a2b0e8-5f6a-4b9a-8f0c-1b2d3c4e5f6a';
+
+/**
+ * Utility: Create a PATCH title request
+ */
+function createPatchRequest(body: unknown, id: string = taskId): Request {
+  return new Request(`http://localhost/api/v1/memo/${id}/title`, {
+    method: 'PATCH',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+}
+
+describe('PATCH /api/v1/memo/{taskId}/title - Rename Memo', () => {
+  let mockContext: MockWorkerContext;
+  let queries: Array<{ sql: string; params: any[] }>;
+
+  /**
+   * Utility: Report `changes` rows updated and record all bound statements
+   */
+  function stubUpdate(changes: number) {
+    (mockContext.env.DB.prepare as any).mockImplementation((sql: string) => ({
+      bind: vi.fn().mockImplementation((...params: any[]) => {
+        queries.push({ sql, params });
+        return { run: vi.fn().mockResolvedValue({ success: true, meta: { changes } }) };
+      }),
+    }));
+  }
+
+  beforeEach(() => {
+    mockContext = createMockContext();
+    queries = [];
+  });
+
+  describe('✏️ Renaming', () => {
+    it('Saves the tidied title and marks it as edited', async () => {
+      stubUpdate(1);
+
+      const response = await handleUpdateTitle(createPatchRequest({ title: '  Offsite   plan ' }), mockContext);
+
+      expect(response.status).toBe(200);
+      expect(await response.json()).toEqual({ taskId, title: 'Offsite plan' });
+      expect(queries[0].sql).toContain('titleEdited = 1');
+      expect(queries[0].params).toEqual(['Offsite plan', expect.any(String), taskId, 'test-user-123']);
+    });
+
+    it('Returns 404 when the memo does not exist or belongs to another user', async () => {
+      stubUpdate(0);
+
+      const response = await handleUpdateTitle(createPatchRequest({ title: 'Offsite plan' }), mockContext);
+
+      expect(response.status).toBe(404);
+    });
+  });
+
+  describe('❌ Validation', () => {
+    it('Returns 400 for an invalid ID, an empty title or one that is too long', async () => {
+      stubUpdate(1);
+
+      const responses = await Promise.all([
+        handleUpdateTitle(createPatchRequest({ title: 'Offsite plan' }, 'not-a-uuid'), mockContext),
+        handleUpdateTitle(createPatchRequest({ title: '   ' }), mockContext),
+        handleUpdateTitle(createPatchRequest({ title: 'x'.repeat(101) }), mockContext),
+      ]);
+
+      expect(responses.map((response) => response.status)).toEqual([400, 400, 400]);
+      expect(queries).toHaveLength(0);
+    });
+
+    it('Returns 400 when the body is not a JSON object', async () => {
+      stubUpdate(1);
+
+      const response = await handleUpdateTitle(createPatchRequest(['Offsite plan']), mockContext);
+
+      expect(response.status).toBe(400);
+      expect((await response.json() as any).message).toBe('Request body must be a JSON object');
+      expect(queries).toHaveLength(0);
+    });
+
+    it('Returns 401 without a user', async () => {
+      mockContext.data.userId = undefined;
+
+      const response = await handleUpdateTitle(createPatchRequest({ title: 'Offsite plan' }), mockContext);
+
+      expect(response.status).toBe(401);
+    });
+  });
+});
@@ -0,0 +1,204 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { createMockContext, MockWorkerContext } from '../test-utils';
+import { handleUpdateTranscription, handleGetTranscriptionRevisions } from '../handlers/memo-transcription';
+
+const taskId = 'c7a2b0e8-5f6a-4b9a-8f0c-1b2d3c4e5f6a';
+
+/**
+ * Utility: Create a complete mock task record
+ */
+function createMockTask(overrides: Partial<any> = {}) {
+  return {
+    taskId,
+    userId: 'test-user-123',
+    status: 'completed',
+    r2Key: `uploads/test-user-123/${taskId}.webm`,
+    transcription: 'Email Jon about the Kuber Nettys migration',
+    transcriptSegments: null,
+    originalTranscription: null,
+    processedTasks: JSON.stringify([{ task: 'Email Jon', due: null, generative_task_prompt: null }]),
+    errorMessage: null,
+    createdAt: '2025-10-22T10:00:00Z',
+    updatedAt: '2025-10-22T10:05:00Z',
+    ...overrides,
+  };
+}
+
+/**
+ * Utility: Create a PATCH transcription request
+ */
+function createPatchRequest(body: unknown, id: string = taskId): Request {
+  return new Request(`http://localhost/api/v1/memo/${id}/transcription`, {
+    method: 'PATCH',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+}
+
+describe('PATCH /api/v1/memo/{taskId}/transcription - Transcription Editing', () => {
+  let mockContext: MockWorkerContext;
+  let queueSend: ReturnType<typeof vi.fn>;
+  let runSql: string[];
+  let editChanges: number;
+
+  /**
+   * Utility: Serve the given task from getTask and the given revisions from the revisions query
+   */
+  function stubTask(task: any, revisions: any[] = []) {
+    (mockContext.env.DB.prepare as any).mockImplementation((sql: string) => ({
+      bind: vi.fn().mockReturnValue({
+        first: vi.fn().mockResolvedValue(task),
+        all: vi.fn().mockResolvedValue({ results: revisions }),
+        run: vi.fn().mockImplementation(async () => {
+          runSql.push(sql);
+          return {
+            success: true,
+            meta: { changes: sql.includes('COALESCE(originalTranscription') ? editChanges : 1 },
+          };
+        }),
+      }),
+    }));
+  }
+
+  beforeEach(() => {
+    mockContext = createMockContext();
+    queueSend = vi.fn().mockResolvedValue(undefined);
+    mockContext.env.VOICE_MEMO_QUEUE = { send: queueSend };
+    runSql = [];
+    editChanges = 1;
+  });
+
+  describe('✅ Saving corrections', () => {
+    it('Saves the corrected transcript as a revision and keeps the original', async () => {
+      stubTask(createMockTask());
+
+      const response = await handleUpdateTranscription(
+        createPatchRequest({ transcription: '  Email John about the Kubernetes migration ' }),
+        mockContext
+      );
+
+      expect(response.status).toBe(200);
+      const data = await response.json() as any;
+      expect(data).toMatchObject({
+        taskId,
+        transcription: 'Email John about the Kubernetes migration',
+        originalTranscription: 'Email Jon about the Kuber Nettys migration',
+        reextracting: false,
+        revision: { transcription: 'Email John about the Kubernetes migration' },
+      });
+      expect(data.revision.revisionId).toBeDefined();
+
+      expect(runSql[0]).toContain('originalTranscription = COALESCE(originalTranscription, transcription)');
+      expect(runSql[1]).toContain('INSERT INTO transcription_revisions');
+      expect(queueSend).not.toHaveBeenCalled();
+    });
+
+    it('Reports the first original when the memo was already edited', async () => {
+      stubTask(createMockTask({
+        transcription: 'Email John about the Kubernetes migration',
+        originalTranscription: 'Email Jon about the Kuber Nettys migration',
+      }));
+
+      const response = await handleUpdateTranscription(
+        createPatchRequest({ transcription: 'Email John about the Kubernetes migration today' }),
+        mockContext
+      );
+
+      const data = await response.json() as any;
+      expect(data.originalTranscription).toBe('Email Jon about the Kuber Nettys migration');
+    });
+
+    it('Queues re-extraction from the corrected transcript when reextract is set', async () => {
+      stubTask(createMockTask());
+
+      const response = await handleUpdateTranscription(
+        createPatchRequest({ transcription: 'Email John about the Kubernetes migration', reextract: true }),
+        mockContext
+      );
+
+      expect(response.status).toBe(202);
+      const data = await response.json() as any;
+      expect(data).toMatchObject({ reextracting: true, status: 'pending', statusUrl: `/api/v1/memo/${taskId}` });
+      expect(queueSend).toHaveBeenCalledWith(expect.objectContaining({ taskId, fromStage: 'extract' }));
+
+      // The correction is saved before the pipeline is queued, so extraction reads it
+      const editIndex = runSql.findIndex((sql) => sql.includes('COALESCE(originalTranscription'));
+      const resetIndex = runSql.findIndex((sql) => sql.includes("SET status = ?, errorMessage = NULL"));
+      expect(editIndex).toBeLessThan(resetIndex);
+    });
+  });
+
+  describe('❌ Validation & Conflicts', () => {
+    it('Returns 400 for an empty transcription', async () => {
+      stubTask(createMockTask());
+
+      const response = await handleUpdateTranscription(createPatchRequest({ transcription: '   ' }), mockContext);
+
+      expect(response.status).toBe(400);
+      expect(runSql).toEqual([]);
+    });
+
+    it('Returns 400 for an invalid task ID', async () => {
+      const response = await handleUpdateTranscription(
+        createPatchRequest({ transcription: 'Hello' }, 'not-a-uuid'),
+        mockContext
+      );
+
+      expect(response.status).toBe(400);
+    });
+
+    it('Returns 404 when the memo does not exist or belongs to another user', async () => {
+      stubTask(null);
+
+      const response = await handleUpdateTranscription(createPatchRequest({ transcription: 'Hello' }), mockContext);
+
+      expect(response.status).toBe(404);
+    });
+
+    it('Returns 409 while the memo is still processing', async () => {
+      stubTask(createMockTask({ status: 'processing' }));
+
+      const response = await handleUpdateTranscription(createPatchRequest({ transcription: 'Hello' }), mockContext);
+
+      expect(response.status).toBe(409);
+      expect(runSql).toEqual([]);
+    });
+
+    it('Returns 409 without recording a revision if processing started concurrently', async () => {
+      stubTask(createMockTask());
+      editChanges = 0;
+
+      const response = await handleUpdateTranscription(createPatchRequest({ transcription: 'Hello' }), mockContext);
+
+      expect(response.status).toBe(409);
+      expect(runSql.some((sql) => sql.includes('INSERT INTO transcription_revisions'))).toBe(false);
+    });
+  });
+
+  describe('📜 Revision history', () => {
+    it('Returns the original transcript and every revision', async () => {
+      const revisions = [
+        { revisionId: 'rev-1', taskId, userId: 'test-user-123', transcription: 'Email John', createdAt: '2025-10-22T11:00:00Z' },
+        { revisionId: 'rev-2', taskId, userId: 'test-user-123', transcription: 'Email John today', createdAt: '2025-10-22T12:00:00Z' },
+      ];
+      stubTask(createMockTask({ transcription: 'Email John today', originalTranscription: 'Email Jon' }), revisions);
+
+      const response = await handleGetTranscriptionRevisions(
+        new Request(`http://localhost/api/v1/memo/${taskId}/transcription/revisions`),
+        mockContext
+      );
+
+      expect(response.status).toBe(200);
+      const data = await response.json() as any;
+      expect(data).toEqual({
+        taskId,
+        transcription: 'Email John today',
+        originalTranscription: 'Email Jon',
+        revisions: [
+          { revisionId: 'rev-1', transcription: 'Email John', createdAt: '2025-10-22T11:00:00Z' },
+          { revisionId: 'rev-2', transcription: 'Email John today', createdAt: '2025-10-22T12:00:00Z' },
+        ],
+      });
+    });
+  });
+});
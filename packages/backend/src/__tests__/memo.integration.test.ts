@@ -22,6 +22,9 @@ const skipWorkflowTests = !process.env.CI;
  *
  * Tests use a real audio file (test.webm) to ensure the backend can handle
  * structurally valid audio, not just arbitrary binary data.
+ *
+ * Requests authenticate with X-User-Id, so the dev server must run with the
+ * 'dev-header' auth mode enabled (AUTH_MODE in the development environment).
  */
 
 const API_URL = 'http://localhost:8787/api/v1/memo';
@@ -236,12 +239,11 @@ describe('POST /api/v1/memo - Integration Tests (Real API)', () => {
   });
 
   describe('📋 Edge Cases - Real API', () => {
-    it('Processes audio files with different MIME types (mp3)', async () => {
-      // Verifies that the server accepts files with different MIME types
-      // and that the workflow can process them.
+    it('Rejects a webm file declared as mp3 (415)', async () => {
+      // The server detects the format from the file's content, so a
+      // mismatched MIME type is rejected instead of stored under the wrong type.
       const formData = new FormData();
       const audioData = new Uint8Array(getTestAudioFile());
-      // Sending a webm file with mp3 MIME type to test MIME type handling
       formData.append('audio', new Blob([audioData], { type: 'audio/mpeg' }), 'song.mp3');
 
       const response = await fetch(API_URL, {
@@ -250,19 +252,9 @@ describe('POST /api/v1/memo - Integration Tests (Real API)', () => {
         body: formData,
       });
 
-      expect(response.status).toBe(202);
-      const uploadData = await response.json() as any;
-      const taskId = uploadData.taskId;
-
-      // Verify the task was created
-      const getResponse = await fetch(`http://localhost:8787/api/v1/memo/${taskId}`, {
-        method: 'GET',
-        headers: { 'X-User-Id': TEST_USER_ID },
-      });
-
-      expect(getResponse.status).toBe(200);
-      const task = await getResponse.json() as any;
-      expect(task.status).toBe('pending');
+      expect(response.status).toBe(415);
+      const data = await response.json() as any;
+      expect(data.message).toContain('WebM');
     });
 
     it('GET endpoint rejects access to non-existent task', async () => {
@@ -1,7 +1,25 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest';
-import { createMockContext, createAudioRequest, MockWorkerContext } from '../test-utils';
+import { createMockContext, createAudioRequest, createAudioBytes, createMp4Bytes, MockWorkerContext } from '../test-utils';
 import { handlePostMemo } from '../handlers/memo';
 
+/**
+ * Utility: 16-bit mono PCM WAV at 8kHz with `dataSize` bytes of silence
+ */
+function createPcmWav(dataSize: number, byteRate: number): Buffer {
+  const wav = createAudioBytes('wav', 44 + dataSize);
+  const view = new DataView(wav.buffer, wav.byteOffset);
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true);
+  view.setUint16(22, 1, true);
+  view.setUint32(24, 8000, true);
+  view.setUint32(28, byteRate, true);
+  view.setUint16(32, 2, true);
+  view.setUint16(34, 16, true);
+  wav.set(Buffer.from('data'), 36);
+  view.setUint32(40, dataSize, true);
+  return wav;
+}
+
 describe('POST /api/v1/memo - Voice Memo Upload Handler', () => {
   let mockContext: MockWorkerContext;
 
@@ -12,7 +30,7 @@ describe('POST /api/v1/memo - Voice Memo Upload Handler', () => {
   describe('✅ Happy Path - Successful Upload', () => {
     it('Consolidated: Single successful upload creates R2 object, D1 record, and returns 202', async () => {
       // Setup
-      const audioData = Buffer.from('mock audio file content here');
+      const audioData = createAudioBytes('webm', 1024);
       const userId = 'test-user-123';
       const request = createAudioRequest(audioData, 'meeting.webm', 'audio/webm');
 
@@ -268,7 +286,7 @@ describe('POST /api/v1/memo - Voice Memo Upload Handler', () => {
   describe('📋 Edge Cases & Boundary Conditions', () => {
     it('Supports different audio MIME types (mp3)', async () => {
       const request = createAudioRequest(
-        Buffer.from('mp3 data'),
+        createAudioBytes('mp3'),
         'song.mp3',
         'audio/mpeg'
       );
@@ -279,7 +297,7 @@ describe('POST /api/v1/memo - Voice Memo Upload Handler', () => {
     });
 
     it('Accepts file at maximum size boundary (50MB)', async () => {
-      const maxBuffer = Buffer.alloc(50 * 1024 * 1024); // Exactly 50MB
+      const maxBuffer = createAudioBytes('webm', 50 * 1024 * 1024); // Exactly 50MB
       const request = createAudioRequest(maxBuffer, 'large.webm');
 
       const response = await handlePostMemo(request, mockContext);
@@ -289,7 +307,7 @@ describe('POST /api/v1/memo - Voice Memo Upload Handler', () => {
 
     it('Preserves original filename in R2 metadata', async () => {
       const request = createAudioRequest(
-        Buffer.from('data'),
+        createAudioBytes('webm'),
         'my-important-meeting.webm'
       );
 
@@ -316,10 +334,178 @@ describe('POST /api/v1/memo - Voice Memo Upload Handler', () => {
     });
   });
 
+  describe('🎧 Audio Content Detection', () => {
+    it('Stores the extension and Content-Type of the detected format, not the filename', async () => {
+      const request = createAudioRequest(createAudioBytes('mp3'), 'recording.webm', 'application/octet-stream');
+
+      const response = await handlePostMemo(request, mockContext);
+
+      expect(response.status).toBe(202);
+      const [r2Key, , options] = (mockContext.env.R2_BUCKET.put as any).mock.calls[0];
+      expect(r2Key).toMatch(/^uploads\/test-user-123\/[\da-f-]+\.mp3$/);
+      expect(options.httpMetadata.contentType).toBe('audio/mpeg');
+      expect(options.customMetadata.originalName).toBe('recording.webm');
+    });
+
+    it('Accepts a declared type with codec parameters', async () => {
+      const request = createAudioRequest(createAudioBytes('webm'), 'memo.webm', 'audio/webm;codecs=opus');
+
+      const response = await handlePostMemo(request, mockContext);
+
+      expect(response.status).toBe(202);
+    });
+
+    it('Content that does not match the declared type → 415', async () => {
+      const request = createAudioRequest(createAudioBytes('webm'), 'song.mp3', 'audio/mpeg');
+
+      const response = await handlePostMemo(request, mockContext);
+
+      expect(response.status).toBe(415);
+      const data = await response.json() as any;
+      expect(data.message).toBe("File is declared as 'audio/mpeg' but its content is WebM audio");
+      expect(mockContext.env.R2_BUCKET.put).not.toHaveBeenCalled();
+    });
+
+    it('Images and videos in the M4A container → 415 naming what they are', async () => {
+      const heic = Buffer.alloc(64);
+      heic.set([0x00, 0x00, 0x00, 0x18, ...Buffer.from('ftypheic'), 0x00, 0x00, 0x00, 0x00, ...Buffer.from('mif1heic')]);
+
+      const response = await handlePostMemo(createAudioRequest(heic, 'memo.m4a', 'audio/mp4'), mockContext);
+
+      expect(response.status).toBe(415);
+      expect((await response.json() as any).message).toBe(
+        'File content is a HEIC image, which is not supported. Supported formats: WebM (audio/webm), MP3 (audio/mpeg), ' +
+          'WAV (audio/wav), M4A (audio/mp4), OGG (audio/ogg) and FLAC (audio/flac)'
+      );
+      expect(mockContext.env.R2_BUCKET.put).not.toHaveBeenCalled();
+    });
+
+    it('Accepts generic MP4 brands that list an audio brand', async () => {
+      const generic = Buffer.alloc(64);
+      generic.set([0x00, 0x00, 0x00, 0x18, ...Buffer.from('ftypmp42'), 0x00, 0x00, 0x00, 0x00, ...Buffer.from('M4A isom')]);
+
+      const response = await handlePostMemo(createAudioRequest(generic, 'memo.m4a', 'audio/mp4'), mockContext);
+
+      expect(response.status).toBe(202);
+    });
+
+    it('MP4 with a generic brand and a video track → 415, one with only an audio track is accepted', async () => {
+      const video = await handlePostMemo(createAudioRequest(createMp4Bytes(['soun', 'vide']), 'clip.m4a', 'audio/mp4'), mockContext);
+      const audioOnly = await handlePostMemo(createAudioRequest(createMp4Bytes(['soun']), 'memo.m4a', 'audio/mp4'), mockContext);
+
+      expect(video.status).toBe(415);
+      expect((await video.json() as any).message).toBe(
+        'File content is an MP4 video, which is not supported. Supported formats: WebM (audio/webm), MP3 (audio/mpeg), ' +
+          'WAV (audio/wav), M4A (audio/mp4), OGG (audio/ogg) and FLAC (audio/flac)'
+      );
+      expect(audioOnly.status).toBe(202);
+    });
+
+    it('Unrecognized or corrupt content → 415', async () => {
+      const corruptMp3 = Buffer.concat([createAudioBytes('mp3').subarray(0, 10), Buffer.from('not an mpeg frame')]);
+
+      const unrecognized = await handlePostMemo(
+        createAudioRequest(Buffer.from('mock audio data'), 'memo.webm', 'audio/webm'),
+        mockContext
+      );
+      const corrupt = await handlePostMemo(createAudioRequest(corruptMp3, 'song.mp3', 'audio/mpeg'), mockContext);
+
+      expect(unrecognized.status).toBe(415);
+      expect((await unrecognized.json() as any).message).toBe(
+        'File content is not a recognized audio format. Supported formats: WebM (audio/webm), MP3 (audio/mpeg), ' +
+          'WAV (audio/wav), M4A (audio/mp4), OGG (audio/ogg) and FLAC (audio/flac)'
+      );
+      expect(corrupt.status).toBe(415);
+      expect((await corrupt.json() as any).message).toBe(
+        'File looks like MP3 audio but is corrupt: no MPEG audio frame after the ID3 tag'
+      );
+      expect(mockContext.env.R2_BUCKET.put).not.toHaveBeenCalled();
+    });
+
+    it('Accepts WAV, M4A, OGG and FLAC, stored under their own extension', async () => {
+      const formats = [
+        ['wav', 'audio/wav', '.wav'],
+        ['m4a', 'audio/x-m4a', '.m4a'],
+        ['ogg', 'audio/ogg', '.ogg'],
+        ['flac', 'audio/flac', '.flac'],
+      ] as const;
+
+      for (const [format, mimeType, extension] of formats) {
+        const response = await handlePostMemo(createAudioRequest(createAudioBytes(format), `memo${extension}`, mimeType), mockContext);
+        expect(response.status).toBe(202);
+      }
+
+      const keys = (mockContext.env.R2_BUCKET.put as any).mock.calls.map((call: any[]) => call[0]);
+      expect(keys.map((key: string) => key.slice(key.lastIndexOf('.')))).toEqual(['.wav', '.m4a', '.ogg', '.flac']);
+    });
+
+    it('Stores the duration, sample rate, channels, codec and size read from the file on the memo', async () => {
+      // 16-bit mono PCM at 8kHz: 16000 bytes of samples is one second
+      const wav = createPcmWav(16000, 16000);
+
+      const response = await handlePostMemo(createAudioRequest(wav, 'desk.wav', 'audio/wav'), mockContext);
+
+      expect(response.status).toBe(202);
+      const bindMock = (mockContext.env.DB.prepare as any).mock.results[0].value.bind as any;
+      expect(bindMock.mock.calls[0].slice(4, 9)).toEqual([1, 8000, 1, 'pcm', 44 + 16000]);
+    });
+  });
+
+  describe('⏱️ Maximum Duration', () => {
+    it('Recording longer than an hour by default → 413, nothing stored', async () => {
+      // A byte rate of 4 makes 16000 bytes of samples 4000 seconds long
+      const wav = createPcmWav(16000, 4);
+
+      const response = await handlePostMemo(createAudioRequest(wav, 'lecture.wav', 'audio/wav'), mockContext);
+
+      expect(response.status).toBe(413);
+      const data = await response.json() as any;
+      expect(data.error).toBe('Payload Too Large');
+      expect(data.message).toBe('Recording is 4000 seconds long; the maximum is 3600 seconds');
+      expect(mockContext.env.R2_BUCKET.put).not.toHaveBeenCalled();
+      expect(mockContext.env.DB.prepare).not.toHaveBeenCalled();
+    });
+
+    it('Limit is configurable with MAX_AUDIO_DURATION_SECONDS', async () => {
+      mockContext.env.MAX_AUDIO_DURATION_SECONDS = '1.5';
+
+      const tooLong = await handlePostMemo(createAudioRequest(createPcmWav(32000, 16000), 'desk.wav', 'audio/wav'), mockContext);
+      const shortEnough = await handlePostMemo(createAudioRequest(createPcmWav(16000, 16000), 'desk.wav', 'audio/wav'), mockContext);
+
+      expect(tooLong.status).toBe(413);
+      expect((await tooLong.json() as any).message).toBe('Recording is 2 seconds long; the maximum is 1.5 seconds');
+      expect(shortEnough.status).toBe(202);
+    });
+
+    it('FLAC longer than ten minutes → 413, since it is transcribed in one piece', async () => {
+      // STREAMINFO: 8kHz mono 16-bit, 5,600,000 samples (700 seconds)
+      const flac = Buffer.alloc(64);
+      flac.set([...Buffer.from('fLaC'), 0x80, 0x00, 0x00, 0x22]);
+      flac.set([0x01, 0xf4, 0x00, 0xf0, 0x00, 0x55, 0x73, 0x00], 18);
+
+      const response = await handlePostMemo(createAudioRequest(flac, 'lecture.flac', 'audio/flac'), mockContext);
+
+      expect(response.status).toBe(413);
+      expect((await response.json() as any).message).toBe(
+        'Recording is 700 seconds long; FLAC recordings are transcribed in one piece, so the maximum is 600 seconds. ' +
+          'Convert it to WebM, MP3 or WAV to upload a longer recording'
+      );
+      expect(mockContext.env.R2_BUCKET.put).not.toHaveBeenCalled();
+    });
+
+    it('Recording whose length cannot be read is accepted', async () => {
+      mockContext.env.MAX_AUDIO_DURATION_SECONDS = '1';
+
+      const response = await handlePostMemo(createAudioRequest(createAudioBytes('webm'), 'memo.webm', 'audio/webm'), mockContext);
+
+      expect(response.status).toBe(202);
+    });
+  });
+
   describe('🔒 Security & Data Integrity', () => {
     it('Prevents directory traversal in filename (normalizes key)', async () => {
       const request = createAudioRequest(
-        Buffer.from('data'),
+        createAudioBytes('webm'),
         '../../../etc/passwd.webm'
       );
 
@@ -0,0 +1,203 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { createMockContext, MockWorkerContext } from '../test-utils';
+import { handleGetMemos } from '../handlers/memos-list';
+
+const taskIds = ['c7a2b0e8-5f6a-4b9a-8f0c-1b2d3c4e5f6a', '0b5c7d9e-1f2a-4b3c-8d4e-5f6a7b8c9d0e', '1c6d8e0f-2a3b-4c5d-9e6f-7a8b9c0d1e2f'];
+
+/**
+ * Utility: Create a task row as returned by the page query
+ */
+function createMockTaskRow(taskId: string, createdAt: string, overrides: Partial<any> = {}) {
+  return {
+    taskId,
+    userId: 'test-user-123',
+    status: 'completed',
+    r2Key: `uploads/test-user-123/${taskId}.webm`,
+    transcription: 'Call the dentist',
+    processedTasks: JSON.stringify([{ task: 'Call the dentist' }]),
+    errorMessage: null,
+    createdAt,
+    updatedAt: createdAt,
+    processedAt: createdAt,
+    sortValue: createdAt,
+    ...overrides,
+  };
+}
+
+describe('GET /api/v1/memos - List Memos', () => {
+  let mockContext: MockWorkerContext;
+  let queries: Array<{ sql: string; params: any[] }>;
+
+  /**
+   * Utility: Serve `rows` from the page query and record all bound statements
+   */
+  function stubRows(rows: any[]) {
+    (mockContext.env.DB.prepare as any).mockImplementation((sql: string) => ({
+      bind: vi.fn().mockImplementation((...params: any[]) => {
+        queries.push({ sql, params });
+        return { all: vi.fn().mockResolvedValue({ results: rows }) };
+      }),
+    }));
+  }
+
+  async function getMemos(query = '') {
+    return handleGetMemos(new Request(`http://localhost/api/v1/memos${query}`), mockContext);
+  }
+
+  beforeEach(() => {
+    mockContext = createMockContext();
+    queries = [];
+  });
+
+  describe('📄 Pagination', () => {
+    it('Returns the newest memos with a cursor for the next page, without counting', async () => {
+      stubRows([
+        createMockTaskRow(taskIds[0], '2025-10-22T10:00:00.000Z', {
+          audioDurationSeconds: 12.5,
+          audioSampleRate: 48000,
+          audioChannels: 1,
+          audioCodec: 'opus',
+          audioSizeBytes: 51200,
+        }),
+        createMockTaskRow(taskIds[1], '2025-10-21T10:00:00.000Z'),
+        createMockTaskRow(taskIds[2], '2025-10-20T10:00:00.000Z'),
+      ]);
+
+      const response = await getMemos('?limit=2');
+
+      expect(response.status).toBe(200);
+      const data = await response.json() as any;
+      expect(data.memos.map((memo: any) => memo.taskId)).toEqual(taskIds.slice(0, 2));
+      expect(data.memos[0]).toMatchObject({
+        status: 'completed',
+        taskCount: 1,
+        processingTimeSeconds: 0,
+        durationSeconds: 12.5,
+        sampleRate: 48000,
+        channels: 1,
+        codec: 'opus',
+        sizeBytes: 51200,
+      });
+      expect(data.memos[0]).not.toHaveProperty('sortValue');
+      expect(data.memos[1]).not.toHaveProperty('durationSeconds');
+      expect(data.hasMore).toBe(true);
+      expect(typeof data.nextCursor).toBe('string');
+
+      expect(queries).toHaveLength(1);
+      expect(queries[0].sql).not.toContain('COUNT');
+      expect(queries[0].sql).toContain('ORDER BY sortValue DESC, tasks.taskId DESC');
+      expect(queries[0].params).toEqual(['test-user-123', 3]);
+    });
+
+    it('Continues after the cursor position', async () => {
+      stubRows([
+        createMockTaskRow(taskIds[0], '2025-10-22T10:00:00.000Z'),
+        createMockTaskRow(taskIds[1], '2025-10-21T10:00:00.000Z'),
+      ]);
+      const { nextCursor } = await (await getMemos('?limit=1')).json() as any;
+
+      stubRows([createMockTaskRow(taskIds[1], '2025-10-21T10:00:00.000Z')]);
+      const response = await getMemos(`?limit=1&cursor=${nextCursor}`);
+
+      const data = await response.json() as any;
+      expect(data).toMatchObject({ hasMore: false, nextCursor: null });
+      expect(queries[1].sql).toContain('(tasks.createdAt < ? OR (tasks.createdAt = ? AND tasks.taskId < ?))');
+      expect(queries[1].params).toEqual([
+        'test-user-123',
+        '2025-10-22T10:00:00.000Z',
+        '2025-10-22T10:00:00.000Z',
+        taskIds[0],
+        2,
+      ]);
+    });
+
+    it('Returns 400 for a malformed cursor or one issued for another sort', async () => {
+      stubRows([
+        createMockTaskRow(taskIds[0], '2025-10-22T10:00:00.000Z'),
+        createMockTaskRow(taskIds[1], '2025-10-21T10:00:00.000Z'),
+      ]);
+      const { nextCursor } = await (await getMemos('?limit=1')).json() as any;
+
+      const malformed = await getMemos('?cursor=not-a-cursor');
+      const otherSort = await getMemos(`?sort=updated&cursor=${nextCursor}`);
+
+      expect([malformed.status, otherSort.status]).toEqual([400, 400]);
+    });
+  });
+
+  describe('🔎 Filters and sorting', () => {
+    it('Applies status, date range, open item filters and sort order', async () => {
+      stubRows([]);
+
+      const response = await getMemos(
+        '?status=pending,processing&from=2025-10-01&to=2025-11-01&hasOpenItems=true&sort=processingTime&order=asc&limit=50'
+      );
+
+      expect(response.status).toBe(200);
+      const { sql, params } = queries[0];
+      expect(sql).toContain('tasks.status IN (?, ?)');
+      expect(sql).toContain('tasks.createdAt >= ?');
+      expect(sql).toContain('tasks.createdAt < ?');
+      expect(sql).toContain('EXISTS (SELECT 1 FROM memo_items');
+      expect(sql).not.toContain('NOT EXISTS');
+      expect(sql).toContain('julianday(COALESCE(tasks.processedAt, tasks.updatedAt)) - julianday(tasks.createdAt)');
+      expect(sql).toContain('ORDER BY sortValue ASC, tasks.taskId ASC');
+      expect(params).toEqual([
+        'test-user-123',
+        'pending',
+        'processing',
+        '2025-10-01T00:00:00.000Z',
+        '2025-11-01T00:00:00.000Z',
+        51,
+      ]);
+    });
+
+    it('Measures processing time up to when processing finished, not later edits', async () => {
+      stubRows([
+        createMockTaskRow(taskIds[0], '2025-10-22T10:00:00.000Z', {
+          processedAt: '2025-10-22T10:00:42.000Z',
+          // Renamed a day later
+          updatedAt: '2025-10-23T10:00:00.000Z',
+        }),
+      ]);
+
+      const data = await (await getMemos()).json() as any;
+
+      expect(data.memos[0].processingTimeSeconds).toBe(42);
+    });
+
+    it('Filters by tag name and returns each memo\'s tags', async () => {
+      const tags = [{ tagId: taskIds[2], name: 'work', source: 'ai' }];
+      stubRows([createMockTaskRow(taskIds[0], '2025-10-22T10:00:00.000Z', { tagsJson: JSON.stringify(tags) })]);
+
+      const response = await getMemos('?tag=Work');
+
+      const data = await response.json() as any;
+      expect(data.memos[0].tags).toEqual(tags);
+      expect(data.memos[0]).not.toHaveProperty('tagsJson');
+      expect(queries[0].sql).toContain('AND tags.name = ?');
+      expect(queries[0].params).toEqual(['test-user-123', 'Work', 21]);
+    });
+
+    it('Returns 400 for invalid filter or sort values', async () => {
+      stubRows([]);
+
+      const responses = await Promise.all(
+        ['?status=done', '?from=yesterday', '?hasOpenItems=yes', '?sort=title', '?order=up', '?limit=0'].map(getMemos)
+      );
+
+      expect(responses.map((response) => response.status)).toEqual([400, 400, 400, 400, 400, 400]);
+      expect(queries).toHaveLength(0);
+    });
+  });
+
+  describe('🔐 Authentication', () => {
+    it('Returns 401 without a user', async () => {
+      mockContext.data.userId = undefined;
+
+      const response = await getMemos();
+
+      expect(response.status).toBe(401);
+    });
+  });
+});
@@ -0,0 +1,125 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { createMockContext, MockWorkerContext } from '../test-utils';
+import { handleSearchMemos, buildSearchQuery } from '../handlers/memos-search';
+
+const taskId = 'c7a2b0e8-5f6a-4b9a-8f0c-1b2d3c4e5f6a';
+
+/**
+ * Utility: Create a search hit row as returned by the FTS query
+ */
+function createMockHit(overrides: Partial<any> = {}) {
+  return {
+    taskId,
+    status: 'completed',
+    createdAt: '2025-10-22T10:00:00Z',
+    updatedAt: '2025-10-22T10:05:00Z',
+    transcriptionSnippet: '…renew the <mark>vendor</mark> <mark>contract</mark> before…',
+    itemsSnippet: 'Call the accountant',
+    rank: -4.2,
+    ...overrides,
+  };
+}
+
+describe('GET /api/v1/memos/search - Full-Text Search', () => {
+  let mockContext: MockWorkerContext;
+  let queries: Array<{ sql: string; params: any[] }>;
+
+  /**
+   * Utility: Serve `hits` from the search query and record bound statements
+   */
+  function stubHits(hits: any[]) {
+    (mockContext.env.DB.prepare as any).mockImplementation((sql: string) => ({
+      bind: vi.fn().mockImplementation((...params: any[]) => {
+        queries.push({ sql, params });
+        return { all: vi.fn().mockResolvedValue({ results: hits }) };
+      }),
+    }));
+  }
+
+  beforeEach(() => {
+    mockContext = createMockContext();
+    queries = [];
+  });
+
+  describe('🔍 Searching', () => {
+    it('Returns ranked hits with highlighted snippets', async () => {
+      stubHits([createMockHit()]);
+
+      const response = await handleSearchMemos(
+        new Request('http://localhost/api/v1/memos/search?q=vendor%20contract'),
+        mockContext
+      );
+
+      expect(response.status).toBe(200);
+      const data = await response.json() as any;
+      expect(data.query).toBe('vendor contract');
+      expect(data.results[0]).toMatchObject({
+        taskId,
+        transcriptionSnippet: '…renew the <mark>vendor</mark> <mark>contract</mark> before…',
+        score: 4.2,
+      });
+
+      expect(queries[0].sql).toContain('memo_search MATCH ?');
+      expect(queries[0].sql).toContain('JOIN tasks ON tasks.taskId = memo_search.taskId');
+      expect(queries[0].params).toEqual(['"vendor" "contract"*', 'test-user-123', 20, 0]);
+    });
+
+    it('Drops snippets for columns without a match', async () => {
+      stubHits([createMockHit()]);
+
+      const response = await handleSearchMemos(
+        new Request('http://localhost/api/v1/memos/search?q=vendor'),
+        mockContext
+      );
+
+      const data = await response.json() as any;
+      expect(data.results[0].taskSnippet).toBeNull();
+    });
+
+    it('Passes limit and offset through', async () => {
+      stubHits([]);
+
+      await handleSearchMemos(
+        new Request('http://localhost/api/v1/memos/search?q=vendor&limit=5&offset=10'),
+        mockContext
+      );
+
+      expect(queries[0].params.slice(-2)).toEqual([5, 10]);
+    });
+
+    it('Returns 400 for a missing query or bad paging', async () => {
+      stubHits([]);
+
+      const statuses = await Promise.all([
+        '',
+        'q=%20%20',
+        'q=%22*%22',
+        'q=vendor&limit=0',
+        'q=vendor&offset=-1',
+      ].map(async (query) => (await handleSearchMemos(new Request(`http://localhost/api/v1/memos/search?${query}`), mockContext)).status));
+
+      expect(statuses).toEqual([400, 400, 400, 400, 400]);
+      expect(queries).toEqual([]);
+    });
+
+    it('Returns 401 without a user', async () => {
+      mockContext.data.userId = undefined;
+
+      const response = await handleSearchMemos(
+        new Request('http://localhost/api/v1/memos/search?q=vendor'),
+        mockContext
+      );
+
+      expect(response.status).toBe(401);
+    });
+  });
+
+  describe('🧹 Query building', () => {
+    it('Quotes words so FTS syntax is searched literally', () => {
+      expect(buildSearchQuery('vendor AND "contract" OR NEAR(x)')).toBe('"vendor" "AND" "contract" "OR" "NEAR" "x"*');
+      expect(buildSearchQuery("don't")).toBe('"don" "t"*');
+      expect(buildSearchQuery('café Zürich')).toBe('"café" "Zürich"*');
+      expect(buildSearchQuery('--- ***')).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,208 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { createMockContext, MockWorkerContext } from '../test-utils';
+import { handleSemanticSearch, handleGetRelatedMemos } from '../handlers/memos-semantic';
+import {
+  LOCAL_EMBEDDING_MODEL,
+  buildEmbeddingInputs,
+  cosineSimilarity,
+  createLocalEmbedder,
+  createWorkersAiEmbedder,
+  decodeVector,
+  encodeVector,
+} from '../workflow/embed';
+
+const taskIds = [
+  'c7a2b0e8-5f6a-4b9a-8f0c-1b2d3c4e5f6a',
+  '0b5c7d9e-1f2a-4b3c-8d4e-5f6a7b8c9d0e',
+  '1c6d8e0f-2a3b-4c5d-9e6f-7a8b9c0d1e2f',
+];
+
+const embedder = createLocalEmbedder();
+
+/**
+ * Utility: Create a stored embedding row for `text` using the local embedder
+ */
+async function createMockEmbedding(taskId: string, text: string, segmentIndex: number | null = null) {
+  const [vector] = await embedder.embed([text]);
+  return {
+    taskId,
+    userId: 'test-user-123',
+    segmentIndex,
+    text,
+    model: LOCAL_EMBEDDING_MODEL,
+    vector: encodeVector(vector),
+    createdAt: '2025-10-22T10:00:00Z',
+    status: 'completed',
+    memoCreatedAt: '2025-10-22T09:00:00Z',
+  };
+}
+
+describe('Semantic Search & Related Memos', () => {
+  let mockContext: MockWorkerContext;
+  let queries: Array<{ sql: string; params: any[] }>;
+
+  /**
+   * Utility: Serve `embeddings` from list queries and `task` from single-row queries
+   * Whole-memo and segment queries get the matching rows; segment queries only for the bound memos
+   */
+  function stubDb({ embeddings = [], task = null }: { embeddings?: any[]; task?: any }) {
+    (mockContext.env.DB.prepare as any).mockImplementation((sql: string) => ({
+      bind: vi.fn().mockImplementation((...params: any[]) => {
+        queries.push({ sql, params });
+        const results = sql.includes('segmentIndex IS NOT NULL')
+          ? embeddings.filter((row) => row.segmentIndex !== null && params.slice(2).includes(row.taskId))
+          : embeddings.filter((row) => row.segmentIndex === null);
+        return {
+          first: vi.fn().mockResolvedValue(task),
+          all: vi.fn().mockResolvedValue({ results }),
+        };
+      }),
+    }));
+  }
+
+  beforeEach(() => {
+    mockContext = createMockContext();
+    mockContext.env.EMBEDDINGS_PROVIDER = 'local';
+    queries = [];
+  });
+
+  describe('🧭 GET /api/v1/memos/semantic', () => {
+    it('Ranks memos by their best-matching segment', async () => {
+      stubDb({
+        embeddings: [
+          await createMockEmbedding(taskIds[0], 'Groceries and a dentist appointment'),
+          await createMockEmbedding(taskIds[1], 'Weekly planning for the team'),
+          await createMockEmbedding(taskIds[1], 'renew the vendor contract with Acme', 0),
+        ],
+      });
+
+      const response = await handleSemanticSearch(
+        new Request('http://localhost/api/v1/memos/semantic?q=vendor%20contract'),
+        mockContext
+      );
+
+      expect(response.status).toBe(200);
+      const data = await response.json() as any;
+      expect(data.results.map((result: any) => result.taskId)).toEqual([taskIds[1], taskIds[0]]);
+      expect(data.results[0].match).toEqual({ text: 'renew the vendor contract with Acme', segmentIndex: 0 });
+      expect(queries[0].params).toEqual(['test-user-123', LOCAL_EMBEDDING_MODEL]);
+      expect(queries[1].sql).toContain('segmentIndex IS NOT NULL');
+    });
+
+    it('Only loads the segments of the memos whose whole-memo vector ranks highest', async () => {
+      const memoIds = Array.from({ length: 25 }, (_, idx) => `00000000-0000-4000-8000-${String(idx).padStart(12, '0')}`);
+      stubDb({
+        embeddings: await Promise.all(
+          memoIds.map((taskId, idx) => createMockEmbedding(taskId, idx === 3 ? 'vendor contract renewal' : `memo number ${idx}`))
+        ),
+      });
+
+      const response = await handleSemanticSearch(
+        new Request('http://localhost/api/v1/memos/semantic?q=vendor%20contract&limit=5'),
+        mockContext
+      );
+
+      const data = await response.json() as any;
+      expect(data.results).toHaveLength(5);
+      expect(data.results[0].taskId).toBe(memoIds[3]);
+      const segmentTaskIds = queries[1].params.slice(2);
+      expect(segmentTaskIds).toHaveLength(20);
+      expect(segmentTaskIds[0]).toBe(memoIds[3]);
+    });
+
+    it('Returns 400 without a query', async () => {
+      stubDb({});
+
+      const response = await handleSemanticSearch(
+        new Request('http://localhost/api/v1/memos/semantic?q=%20'),
+        mockContext
+      );
+
+      expect(response.status).toBe(400);
+    });
+  });
+
+  describe('🔗 GET /api/v1/memo/{taskId}/related', () => {
+    it('Returns similar memos, leaving out the memo itself and weak matches', async () => {
+      stubDb({
+        task: { taskId: taskIds[0] },
+        embeddings: [
+          await createMockEmbedding(taskIds[0], 'Call the vendor about the contract renewal'),
+          await createMockEmbedding(taskIds[1], 'The vendor contract renewal is due, call them'),
+          await createMockEmbedding(taskIds[2], 'Pick up groceries on the way home'),
+        ],
+      });
+
+      const response = await handleGetRelatedMemos(
+        new Request(`http://localhost/api/v1/memo/${taskIds[0]}/related`),
+        mockContext
+      );
+
+      expect(response.status).toBe(200);
+      const data = await response.json() as any;
+      expect(data.related.map((memo: any) => memo.taskId)).toEqual([taskIds[1]]);
+      expect(data.related[0].score).toBeGreaterThan(0.5);
+      expect(queries[1].sql).toContain('segmentIndex IS NULL');
+    });
+
+    it('Returns an empty list for a memo without embeddings', async () => {
+      stubDb({ task: { taskId: taskIds[0] }, embeddings: [] });
+
+      const response = await handleGetRelatedMemos(
+        new Request(`http://localhost/api/v1/memo/${taskIds[0]}/related`),
+        mockContext
+      );
+
+      const data = await response.json() as any;
+      expect(data.related).toEqual([]);
+    });
+
+    it('Returns 404 for another user\'s memo', async () => {
+      stubDb({ task: null });
+
+      const response = await handleGetRelatedMemos(
+        new Request(`http://localhost/api/v1/memo/${taskIds[0]}/related`),
+        mockContext
+      );
+
+      expect(response.status).toBe(404);
+    });
+  });
+
+  describe('🧮 Embeddings', () => {
+    it('Round-trips vectors through storage encoding', () => {
+      const decoded = decodeVector(encodeVector([0.25, -1.5, 3]));
+
+      expect(Array.from(decoded)).toEqual([0.25, -1.5, 3]);
+      expect(cosineSimilarity(decoded, [0.25, -1.5, 3])).toBeCloseTo(1);
+      expect(cosineSimilarity([1, 0], [0, 0])).toBe(0);
+    });
+
+    it('Embeds the whole memo with its tasks plus each non-empty segment', () => {
+      const inputs = buildEmbeddingInputs(
+        'Email the client. Buy milk.',
+        [
+          { start: 0, end: 2, text: ' Email the client. ' },
+          { start: 2, end: 3, text: ' ' },
+          { start: 3, end: 4, text: 'Buy milk.' },
+        ],
+        [{ task: 'Email client', due: null, generative_task_prompt: null }]
+      );
+
+      expect(inputs).toEqual([
+        { segmentIndex: null, text: 'Email the client. Buy milk.\nEmail client' },
+        { segmentIndex: 0, text: 'Email the client.' },
+        { segmentIndex: 2, text: 'Buy milk.' },
+      ]);
+    });
+
+    it('Calls the Workers AI embedding model in one batch', async () => {
+      const run = vi.fn().mockResolvedValue({ shape: [2, 3], data: [[1, 0, 0], [0, 1, 0]] });
+
+      const vectors = await createWorkersAiEmbedder({ run } as any).embed(['a', 'b']);
+
+      expect(vectors).toEqual([[1, 0, 0], [0, 1, 0]]);
+      expect(run).toHaveBeenCalledWith('@cf/baai/bge-small-en-v1.5', { text: ['a', 'b'] });
+    });
+  });
+});
@@ -0,0 +1,282 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { createMockContext, MockWorkerContext } from '../test-utils';
+import worker from '../index';
+import { generateApiKey, hashApiKey } from '../auth';
+
+/**
+ * Utility: Invoke the worker's fetch handler with a mock environment
+ */
+async function callWorker(
+  request: Request,
+  env: Record<string, unknown>,
+  ctx: Partial<ExecutionContext> = { waitUntil: vi.fn() }
+): Promise<Response> {
+  return worker.fetch!(request as any, env as any, ctx as ExecutionContext);
+}
+
+describe('Router authentication (AUTH_MODE)', () => {
+  let mockContext: MockWorkerContext;
+  let env: Record<string, any>;
+
+  /**
+   * Utility: Serve an api_keys row from D1 for key lookups, and empty results otherwise
+   */
+  async function stubApiKeyRecord(apiKey: string, overrides: Partial<any> = {}) {
+    const record = {
+      keyId: '3f1c2d4e-5a6b-4c7d-8e9f-0a1b2c3d4e5f',
+      userId: 'script-user',
+      name: 'CLI',
+      keyPrefix: apiKey.slice(0, 12),
+      keyHash: await hashApiKey(apiKey),
+      scopes: JSON.stringify(['memos:read', 'memos:write']),
+      createdAt: '2025-10-22T10:00:00Z',
+      lastUsedAt: null,
+      revokedAt: null,
+      ...overrides,
+    };
+    const runMock = vi.fn().mockResolvedValue({ success: true, meta: { changes: 1 } });
+
+    (mockContext.env.DB.prepare as any).mockImplementation((sql: string) => ({
+      bind: vi.fn((...params: any[]) => ({
+        first: vi.fn().mockResolvedValue(
+          sql.includes('FROM api_keys') && params[0] === record.keyHash ? record : null
+        ),
+        all: vi.fn().mockResolvedValue({ results: [] }),
+        run: runMock,
+      })),
+    }));
+
+    return { record, runMock };
+  }
+
+  beforeEach(() => {
+    mockContext = createMockContext();
+    env = {
+      ...mockContext.env,
+      ANALYTICS: { writeDataPoint: vi.fn() },
+      CLERK_ISSUER: 'https://clerk.example.com',
+    };
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  describe('🧪 dev-header mode', () => {
+    it('Accepts X-User-Id when dev-header is enabled outside production', async () => {
+      env.AUTH_MODE = 'clerk,dev-header';
+      env.ENVIRONMENT = 'development';
+      const request = new Request('http://localhost/api/v1/memos', {
+        headers: { 'X-User-Id': 'dev-user' },
+      });
+
+      const response = await callWorker(request, env);
+
+      expect(response.status).toBe(200);
+
+      // Query is scoped to the header's user
+      const bindMock = (mockContext.env.DB.prepare as any).mock.results[0].value.bind;
+      expect(bindMock.mock.calls[0][0]).toBe('dev-user');
+    });
+
+    it('Logs an audit event when a dev-header identity is accepted', async () => {
+      env.AUTH_MODE = 'clerk,dev-header';
+      env.ENVIRONMENT = 'development';
+      const request = new Request('http://localhost/api/v1/memos', {
+        headers: { 'X-User-Id': 'dev-user' },
+      });
+
+      await callWorker(request, env);
+
+      expect(env.ANALYTICS.writeDataPoint).toHaveBeenCalledOnce();
+      const dataPoint = env.ANALYTICS.writeDataPoint.mock.calls[0][0];
+      expect(dataPoint.indexes).toEqual(['auth_audit']);
+      expect(dataPoint.blobs.slice(0, 5)).toEqual(['dev-header', 'accepted', 'dev-user', 'GET', '/api/v1/memos']);
+    });
+
+    it('Rejects X-User-Id when dev-header mode is not enabled', async () => {
+      env.AUTH_MODE = 'clerk';
+      env.ENVIRONMENT = 'development';
+      const request = new Request('http://localhost/api/v1/memos', {
+        headers: { 'X-User-Id': 'dev-user' },
+      });
+
+      const response = await callWorker(request, env);
+
+      expect(response.status).toBe(401);
+      const data = await response.json() as any;
+      expect(data.message).toContain('disabled');
+      expect(mockContext.env.DB.prepare).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('🔒 Production', () => {
+    it('Rejects X-User-Id in production even if AUTH_MODE enables dev-header', async () => {
+      env.AUTH_MODE = 'clerk,dev-header';
+      env.ENVIRONMENT = 'production';
+      const request = new Request('http://localhost/api/v1/memos', {
+        headers: { 'X-User-Id': 'victim-user' },
+      });
+
+      const response = await callWorker(request, env);
+
+      expect(response.status).toBe(401);
+      const data = await response.json() as any;
+      expect(data.error).toBe('Unauthorized');
+      expect(data.message).toContain('not accepted in production');
+      expect(mockContext.env.DB.prepare).not.toHaveBeenCalled();
+
+      // Rejected impersonation attempts are audited too
+      const dataPoint = env.ANALYTICS.writeDataPoint.mock.calls[0][0];
+      expect(dataPoint.blobs.slice(0, 3)).toEqual(['dev-header', 'rejected', 'victim-user']);
+    });
+
+    it('Does not fall back to X-User-Id when the Bearer token is invalid', async () => {
+      env.AUTH_MODE = 'clerk,dev-header';
+      env.ENVIRONMENT = 'development';
+      const request = new Request('http://localhost/api/v1/memos', {
+        headers: { Authorization: 'Bearer not-a-jwt', 'X-User-Id': 'dev-user' },
+      });
+
+      const response = await callWorker(request, env);
+
+      expect(response.status).toBe(401);
+      expect(mockContext.env.DB.prepare).not.toHaveBeenCalled();
+    });
+
+    it('Rejects requests with no credentials', async () => {
+      env.ENVIRONMENT = 'production';
+      const request = new Request('http://localhost/api/v1/memos');
+
+      const response = await callWorker(request, env);
+
+      expect(response.status).toBe(401);
+      const data = await response.json() as any;
+      expect(data.message).toBe('Missing Authorization header');
+    });
+  });
+
+  describe('🔑 API keys', () => {
+    beforeEach(() => {
+      env.AUTH_MODE = 'clerk,api-key';
+      env.ENVIRONMENT = 'production';
+    });
+
+    it('Accepts a valid API key and records last use', async () => {
+      const apiKey = generateApiKey();
+      const { runMock } = await stubApiKeyRecord(apiKey);
+      const request = new Request('http://localhost/api/v1/memos', {
+        headers: { Authorization: `ApiKey ${apiKey}` },
+      });
+      const waitUntil = vi.fn();
+
+      const response = await callWorker(request, env, { waitUntil });
+
+      expect(response.status).toBe(200);
+      expect(waitUntil).toHaveBeenCalledTimes(1);
+      await waitUntil.mock.calls[0][0];
+      expect(runMock).toHaveBeenCalled();
+
+      const prepareCalls = (mockContext.env.DB.prepare as any).mock.calls.map((call: any[]) => call[0]);
+      expect(prepareCalls.some((sql: string) => sql.includes('SET lastUsedAt'))).toBe(true);
+
+      const dataPoint = env.ANALYTICS.writeDataPoint.mock.calls[0][0];
+      expect(dataPoint.blobs.slice(0, 3)).toEqual(['api-key', 'accepted', 'script-user']);
+    });
+
+    it('Does not hold up or fail the request when recording last use fails', async () => {
+      const apiKey = generateApiKey();
+      const { runMock } = await stubApiKeyRecord(apiKey);
+      runMock.mockRejectedValue(new Error('D1 is unavailable'));
+      const waitUntil = vi.fn();
+
+      const response = await callWorker(
+        new Request('http://localhost/api/v1/memos', { headers: { Authorization: `ApiKey ${apiKey}` } }),
+        env,
+        { waitUntil }
+      );
+
+      expect(response.status).toBe(200);
+      await expect(waitUntil.mock.calls[0][0]).resolves.toBeUndefined();
+      expect(console.error).toHaveBeenCalledWith(
+        expect.stringContaining('[Auth] Failed to record API key usage'),
+        expect.any(Error)
+      );
+    });
+
+    it('Rejects unknown and revoked API keys with 401', async () => {
+      const apiKey = generateApiKey();
+      await stubApiKeyRecord(apiKey, { revokedAt: '2025-10-23T10:00:00Z' });
+
+      const revoked = await callWorker(
+        new Request('http://localhost/api/v1/memos', { headers: { Authorization: `ApiKey ${apiKey}` } }),
+        env
+      );
+      expect(revoked.status).toBe(401);
+      expect(((await revoked.json()) as any).message).toBe('API key has been revoked');
+
+      const unknown = await callWorker(
+        new Request('http://localhost/api/v1/memos', { headers: { Authorization: `ApiKey ${generateApiKey()}` } }),
+        env
+      );
+      expect(unknown.status).toBe(401);
+      expect(((await unknown.json()) as any).message).toBe('Invalid API key');
+    });
+
+    it('Returns 403 when the API key lacks the required scope', async () => {
+      const apiKey = generateApiKey();
+      await stubApiKeyRecord(apiKey, { scopes: JSON.stringify(['memos:read']) });
+      const request = new Request('http://localhost/api/v1/memo/c7a2b0e8-5f6a-4b9a-8f0c-1b2d3c4e5f6a', {
+        method: 'DELETE',
+        headers: { Authorization: `ApiKey ${apiKey}` },
+      });
+
+      const response = await callWorker(request, env);
+
+      expect(response.status).toBe(403);
+      const data = await response.json() as any;
+      expect(data.error).toBe('Forbidden');
+      expect(data.message).toContain('memos:write');
+    });
+
+    it('Lets read-only API keys ask questions', async () => {
+      const apiKey = generateApiKey();
+      await stubApiKeyRecord(apiKey, { scopes: JSON.stringify(['memos:read']) });
+      env.EMBEDDINGS_PROVIDER = 'local';
+      const request = new Request('http://localhost/api/v1/ask', {
+        method: 'POST',
+        headers: { Authorization: `ApiKey ${apiKey}`, 'Content-Type': 'application/json' },
+        body: JSON.stringify({ question: 'What did I promise Sarah?' }),
+      });
+
+      const response = await callWorker(request, env);
+
+      expect(response.status).toBe(200);
+    });
+
+    it('Does not allow API keys to manage API keys', async () => {
+      const apiKey = generateApiKey();
+      await stubApiKeyRecord(apiKey);
+      const request = new Request('http://localhost/api/v1/api-keys', {
+        method: 'POST',
+        headers: { Authorization: `ApiKey ${apiKey}`, 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name: 'escalation' }),
+      });
+
+      const response = await callWorker(request, env);
+
+      expect(response.status).toBe(403);
+    });
+
+    it('Rejects API keys when api-key mode is not enabled', async () => {
+      env.AUTH_MODE = 'clerk';
+      const request = new Request('http://localhost/api/v1/memos', {
+        headers: { Authorization: `ApiKey ${generateApiKey()}` },
+      });
+
+      const response = await callWorker(request, env);
+
+      expect(response.status).toBe(401);
+      expect(((await response.json()) as any).message).toBe('API key authentication is disabled');
+      expect(mockContext.env.DB.prepare).not.toHaveBeenCalled();
+    });
+  });
+});
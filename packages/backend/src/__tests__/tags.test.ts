@@ -0,0 +1,141 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { createMockContext, MockWorkerContext } from '../test-utils';
+import { handleGetTags, handleGetMemoTags, handleAddMemoTag, handleRemoveMemoTag } from '../handlers/tags';
+
+const taskId = 'c7a2b0e8-5f6a-4b9a-8f0c-1b2d3c4e5f6a';
+const tagId = '0b5c7d9e-1f2a-4b3c-8d4e-5f6a7b8c9d0e';
+
+describe('Tags', () => {
+  let mockContext: MockWorkerContext;
+  let queries: Array<{ sql: string; params: any[] }>;
+
+  /**
+   * Utility: Serve `task` from lookups and `rows` from list queries, recording all bound statements
+   */
+  function stubDb({ task = { taskId, userId: 'test-user-123' } as any, rows = [] as any[], changes = 1 } = {}) {
+    (mockContext.env.DB.prepare as any).mockImplementation((sql: string) => ({
+      bind: vi.fn().mockImplementation((...params: any[]) => {
+        queries.push({ sql, params });
+        return {
+          sql,
+          params,
+          first: vi.fn().mockResolvedValue(task),
+          all: vi.fn().mockResolvedValue({ results: rows }),
+          run: vi.fn().mockResolvedValue({ success: true, meta: { changes } }),
+        };
+      }),
+    }));
+  }
+
+  function createTagRequest(method: string, path: string, body?: unknown): Request {
+    return new Request(`http://localhost${path}`, {
+      method,
+      headers: { 'Content-Type': 'application/json' },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+  }
+
+  beforeEach(() => {
+    mockContext = createMockContext();
+    queries = [];
+  });
+
+  describe('🏷️ GET /api/v1/tags', () => {
+    it('Lists the user\'s tags with memo counts', async () => {
+      stubDb({ rows: [{ tagId, name: 'work', memoCount: 3 }] });
+
+      const response = await handleGetTags(createTagRequest('GET', '/api/v1/tags'), mockContext);
+
+      expect(response.status).toBe(200);
+      const data = await response.json() as any;
+      expect(data.tags).toEqual([{ tagId, name: 'work', memoCount: 3 }]);
+      expect(queries[0].sql).toContain('COUNT(*) AS memoCount');
+      expect(queries[0].params).toEqual(['test-user-123']);
+    });
+
+    it('Returns 401 without a user', async () => {
+      mockContext.data.userId = undefined;
+
+      const response = await handleGetTags(createTagRequest('GET', '/api/v1/tags'), mockContext);
+
+      expect(response.status).toBe(401);
+    });
+  });
+
+  describe('➕ POST /api/v1/memo/:taskId/tags', () => {
+    it('Creates the tag if needed and attaches it as a user tag', async () => {
+      stubDb({ rows: [{ tagId, name: 'Work', source: 'user' }] });
+
+      const response = await handleAddMemoTag(
+        createTagRequest('POST', `/api/v1/memo/${taskId}/tags`, { name: '  #Work  ' }),
+        mockContext
+      );
+
+      expect(response.status).toBe(200);
+      const data = await response.json() as any;
+      expect(data).toEqual({ taskId, tags: [{ tagId, name: 'Work', source: 'user' }] });
+
+      const [createTag, attachTag] = (mockContext.env.DB.batch as any).mock.calls[0][0];
+      expect(createTag.sql).toContain('ON CONFLICT(userId, name) DO NOTHING');
+      expect(createTag.params.slice(1)).toEqual(['test-user-123', 'Work', expect.any(String)]);
+      expect(attachTag.params).toEqual([taskId, 'test-user-123', 'user', expect.any(String), 'test-user-123', 'Work']);
+    });
+
+    it('Returns 400 for an empty or overlong name and 404 for an unknown memo', async () => {
+      stubDb({ task: null });
+
+      const empty = await handleAddMemoTag(
+        createTagRequest('POST', `/api/v1/memo/${taskId}/tags`, { name: '#' }),
+        mockContext
+      );
+      const overlong = await handleAddMemoTag(
+        createTagRequest('POST', `/api/v1/memo/${taskId}/tags`, { name: 'x'.repeat(33) }),
+        mockContext
+      );
+      const unknownMemo = await handleAddMemoTag(
+        createTagRequest('POST', `/api/v1/memo/${taskId}/tags`, { name: 'work' }),
+        mockContext
+      );
+
+      expect([empty.status, overlong.status, unknownMemo.status]).toEqual([400, 400, 404]);
+      expect(mockContext.env.DB.batch).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('📋 GET /api/v1/memo/:taskId/tags', () => {
+    it('Returns the memo\'s tags', async () => {
+      stubDb({ rows: [{ tagId, name: 'work', source: 'ai' }] });
+
+      const response = await handleGetMemoTags(createTagRequest('GET', `/api/v1/memo/${taskId}/tags`), mockContext);
+
+      expect(response.status).toBe(200);
+      expect(await response.json()).toEqual({ taskId, tags: [{ tagId, name: 'work', source: 'ai' }] });
+    });
+  });
+
+  describe('➖ DELETE /api/v1/memo/:taskId/tags/:tagId', () => {
+    it('Removes the tag from the memo', async () => {
+      stubDb();
+
+      const response = await handleRemoveMemoTag(
+        createTagRequest('DELETE', `/api/v1/memo/${taskId}/tags/${tagId}`),
+        mockContext
+      );
+
+      expect(response.status).toBe(204);
+      expect(queries[0].sql).toContain('DELETE FROM memo_tags');
+      expect(queries[0].params).toEqual([taskId, tagId, 'test-user-123']);
+    });
+
+    it('Returns 404 when the memo does not have the tag', async () => {
+      stubDb({ changes: 0 });
+
+      const response = await handleRemoveMemoTag(
+        createTagRequest('DELETE', `/api/v1/memo/${taskId}/tags/${tagId}`),
+        mockContext
+      );
+
+      expect(response.status).toBe(404);
+    });
+  });
+});
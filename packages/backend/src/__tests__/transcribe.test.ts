@@ -0,0 +1,296 @@
+import { describe, it, expect, vi } from 'vitest';
+import { transcribeAudio } from '../workflow/transcribe';
+import { splitAudioIntoChunks, stitchTranscripts } from '../workflow/audio-chunks';
+import { createAudioBytes } from '../test-utils';
+import { mapWithConcurrency } from '../workflow/concurrency';
+import { linkTasksToSegments, mergeChunkSegments } from '../workflow/segments';
+
+/**
+ * Utility: Build a minimal WebM stream - an EBML header followed by clusters
+ * Each cluster is ID + 1-byte size + Timecode element + filler payload
+ */
+function createWebm(clusterPayloadSizes: number[]): { bytes: Uint8Array; headerLength: number } {
+  const header = [0x1a, 0x45, 0xdf, 0xa3, 0x84, 0x42, 0x86, 0x81, 0x01];
+  // Cluster timecodes are in the default 1ms TimecodeScale: cluster n starts at n * 5s
+  const clusters = clusterPayloadSizes.map((size, idx) => [
+    0x1f, 0x43, 0xb6, 0x75, 0x88, 0xe7, 0x82, ((idx * 5000) >> 8) & 0xff, (idx * 5000) & 0xff,
+    ...new Array(size).fill(0x10 + idx),
+  ]);
+  return { bytes: new Uint8Array([...header, ...clusters.flat()]), headerLength: header.length };
+}
+
+/**
+ * Utility: Build a 16-bit mono WAV file at 1000 bytes/second with `dataSize` bytes of samples
+ */
+function createWav(dataSize: number): Uint8Array {
+  const bytes = new Uint8Array(44 + dataSize);
+  const view = new DataView(bytes.buffer);
+  bytes.set(Buffer.from('RIFF'), 0);
+  view.setUint32(4, 36 + dataSize, true);
+  bytes.set(Buffer.from('WAVEfmt '), 8);
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, 1, true); // mono
+  view.setUint32(24, 500, true); // sample rate
+  view.setUint32(28, 1000, true); // byte rate
+  view.setUint16(32, 2, true); // block align
+  view.setUint16(34, 16, true);
+  bytes.set(Buffer.from('data'), 36);
+  view.setUint32(40, dataSize, true);
+  return bytes;
+}
+
+/**
+ * Utility: Create an AI binding whose Whisper responses are returned in call order
+ */
+function createMockAI(responses: Array<string | Record<string, unknown>>) {
+  const run = vi.fn();
+  responses.forEach((response) =>
+    run.mockResolvedValueOnce(typeof response === 'string' ? { text: response } : response)
+  );
+  return { AI: { run } as any };
+}
+
+describe('Long-audio Transcription - Chunking & Stitching', () => {
+  describe('✂️ splitAudioIntoChunks', () => {
+    it('Returns audio within the chunk size as a single chunk', () => {
+      const audio = new Uint8Array(100);
+
+      expect(splitAudioIntoChunks(audio, { chunkBytes: 100, overlapBytes: 10 })).toEqual([
+        { bytes: audio, startByte: 0, startSeconds: 0 },
+      ]);
+    });
+
+    it('Sends M4A, OGG and FLAC over the chunk size whole, since a piece could not be decoded', () => {
+      const formats = ['m4a', 'ogg', 'flac'] as const;
+
+      for (const format of formats) {
+        const audio = new Uint8Array(createAudioBytes(format, 250));
+        expect(splitAudioIntoChunks(audio, { chunkBytes: 100, overlapBytes: 10 })).toEqual([
+          { bytes: audio, startByte: 0, startSeconds: 0 },
+        ]);
+      }
+    });
+
+    it('Splits byte streams into overlapping chunks that cover the whole file', () => {
+      const audio = new Uint8Array(250).map((_, idx) => idx);
+
+      const chunks = splitAudioIntoChunks(audio, { chunkBytes: 100, overlapBytes: 20 });
+
+      expect(chunks.map((chunk) => [chunk.bytes[0], chunk.bytes.byteLength, chunk.startByte])).toEqual([
+        [0, 100, 0],
+        [80, 100, 80],
+        [160, 90, 160],
+      ]);
+    });
+
+    it('Splits WebM on cluster boundaries and repeats the header in every chunk', () => {
+      const { bytes, headerLength } = createWebm([40, 40, 40, 40]);
+      const header = Array.from(bytes.subarray(0, headerLength));
+
+      const chunks = splitAudioIntoChunks(bytes, { chunkBytes: 115, overlapBytes: 60 });
+
+      expect(chunks.length).toBe(3);
+      for (const { bytes: chunk } of chunks) {
+        expect(Array.from(chunk.subarray(0, headerLength))).toEqual(header);
+        // Every chunk's audio starts with a cluster
+        expect(Array.from(chunk.subarray(headerLength, headerLength + 4))).toEqual([0x1f, 0x43, 0xb6, 0x75]);
+      }
+
+      // The last cluster of one chunk is repeated at the start of the next as overlap,
+      // and each chunk knows when its first cluster starts
+      expect(chunks.map((chunk) => chunk.startSeconds)).toEqual([0, 5, 10]);
+    });
+
+    it('Splits WAV on whole samples and gives every chunk its own header', () => {
+      const audio = createWav(250);
+
+      const chunks = splitAudioIntoChunks(audio, { chunkBytes: 144, overlapBytes: 21 });
+
+      // 100 bytes of samples per chunk, 20 of them repeated from the previous chunk
+      expect(chunks.map((chunk) => [chunk.startByte, chunk.bytes.byteLength, chunk.startSeconds])).toEqual([
+        [44, 144, 0],
+        [124, 144, 0.08],
+        [204, 134, 0.16],
+      ]);
+      for (const { bytes: chunk } of chunks) {
+        const view = new DataView(chunk.buffer, chunk.byteOffset);
+        expect(Buffer.from(chunk.subarray(0, 4)).toString()).toBe('RIFF');
+        expect(view.getUint32(4, true)).toBe(chunk.byteLength - 8);
+        expect(view.getUint32(40, true)).toBe(chunk.byteLength - 44);
+      }
+    });
+
+    it('Sends containers that cannot be cut into pieces (M4A) whole', () => {
+      const audio = new Uint8Array(300);
+      audio.set([0x00, 0x00, 0x00, 0x20, ...Buffer.from('ftypM4A ')]);
+
+      expect(splitAudioIntoChunks(audio, { chunkBytes: 100, overlapBytes: 10 })).toEqual([
+        { bytes: audio, startByte: 0, startSeconds: 0 },
+      ]);
+    });
+
+    it('Keeps WebM without recognisable clusters in one piece', () => {
+      const bytes = new Uint8Array([0x1a, 0x45, 0xdf, 0xa3, ...new Array(300).fill(0x01)]);
+
+      expect(splitAudioIntoChunks(bytes, { chunkBytes: 100, overlapBytes: 10 })).toEqual([
+        { bytes, startByte: 0, startSeconds: 0 },
+      ]);
+    });
+  });
+
+  describe('🧵 stitchTranscripts', () => {
+    it('Removes words repeated across a chunk boundary', () => {
+      const transcript = stitchTranscripts([
+        'First we review the budget and then',
+        'the budget, and then we plan the launch.',
+      ]);
+
+      expect(transcript).toBe('First we review the budget and then we plan the launch.');
+    });
+
+    it('Keeps a single repeated word that is probably not overlap', () => {
+      expect(stitchTranscripts(['Call the', 'the client'])).toBe('Call the the client');
+    });
+
+    it('Skips empty chunks', () => {
+      expect(stitchTranscripts(['Hello there', '', '  ', 'general update'])).toBe('Hello there general update');
+    });
+  });
+
+  describe('🎙️ transcribeAudio', () => {
+    it('Sends short audio to Whisper in a single call and keeps its segments', async () => {
+      const env = createMockAI([{
+        text: 'Short memo. Call Sam.',
+        segments: [
+          { start: 0, end: 1.2, text: ' Short memo.', temperature: 0 },
+          { start: 1.2, end: 2.5, text: ' Call Sam.', temperature: 0 },
+        ],
+      }]);
+
+      const transcript = await transcribeAudio(new Uint8Array(50), env);
+
+      expect(transcript).toEqual({
+        text: 'Short memo. Call Sam.',
+        segments: [
+          { start: 0, end: 1.2, text: 'Short memo.' },
+          { start: 1.2, end: 2.5, text: 'Call Sam.' },
+        ],
+      });
+      expect(env.AI.run).toHaveBeenCalledTimes(1);
+    });
+
+    it('Transcribes each chunk, reports progress and stitches the result', async () => {
+      const env = createMockAI(['one two three four', 'three four five six', 'five six seven']);
+      const onChunkTranscribed = vi.fn();
+
+      const { text } = await transcribeAudio(new Uint8Array(250), env, {
+        chunking: { chunkBytes: 100, overlapBytes: 20 },
+        concurrency: 1,
+        onChunkTranscribed,
+      });
+
+      expect(text).toBe('one two three four five six seven');
+      expect(env.AI.run).toHaveBeenCalledTimes(3);
+      expect(onChunkTranscribed.mock.calls).toEqual([[1, 3], [2, 3], [3, 3]]);
+    });
+
+    it('Treats a silent chunk as empty text instead of failing the memo', async () => {
+      const env = createMockAI(['Start of meeting', '', 'end of meeting']);
+
+      const { text } = await transcribeAudio(new Uint8Array(250), env, {
+        chunking: { chunkBytes: 100, overlapBytes: 20 },
+        concurrency: 1,
+      });
+
+      expect(text).toBe('Start of meeting end of meeting');
+    });
+
+    it('Positions segments from byte-range chunks using the bitrate Whisper reports', async () => {
+      // 100-byte chunks of 10s each => 0.1s per byte, so chunk 2 (starting at byte 80) starts at 8s
+      const env = createMockAI([
+        { text: 'Hello team', segments: [{ start: 0, end: 9, text: 'Hello team' }], transcription_info: { duration: 10 } },
+        { text: 'Budget review', segments: [{ start: 0.2, end: 1, text: 'team' }, { start: 2, end: 9, text: 'Budget review' }], transcription_info: { duration: 10 } },
+      ]);
+
+      const { segments } = await transcribeAudio(new Uint8Array(180), env, {
+        chunking: { chunkBytes: 100, overlapBytes: 20 },
+        concurrency: 1,
+      });
+
+      expect(segments).toEqual([
+        { start: 0, end: 9, text: 'Hello team' },
+        { start: 10, end: 17, text: 'Budget review' },
+      ]);
+    });
+
+    it('Names the failing chunk when Whisper errors', async () => {
+      const run = vi.fn()
+        .mockResolvedValueOnce({ text: 'ok' })
+        .mockRejectedValueOnce(new Error('Timeout'));
+
+      await expect(
+        transcribeAudio(new Uint8Array(250), { AI: { run } as any }, {
+          chunking: { chunkBytes: 100, overlapBytes: 20 },
+          concurrency: 1,
+        })
+      ).rejects.toThrow('Whisper transcription failed (chunk 2/3): Timeout');
+    });
+  });
+
+  describe('🕒 Transcript segments', () => {
+    it('Shifts chunk segments to absolute time and drops repeats from the overlap', () => {
+      const merged = mergeChunkSegments([
+        { offsetSeconds: 0, segments: [{ start: 0, end: 4, text: 'A' }, { start: 4, end: 9, text: 'B' }] },
+        { offsetSeconds: 8, segments: [{ start: 0, end: 1, text: 'B' }, { start: 1.2, end: 3, text: 'C' }] },
+      ]);
+
+      expect(merged).toEqual([
+        { start: 0, end: 4, text: 'A' },
+        { start: 4, end: 9, text: 'B' },
+        { start: 9.2, end: 11, text: 'C' },
+      ]);
+    });
+
+    it('Links each task to the segment it was most likely said in', () => {
+      const tasks = linkTasksToSegments(
+        [
+          { task: 'Email client about proposal', due: null, generative_task_prompt: null },
+          { task: 'Book dentist appointment', due: null, generative_task_prompt: null },
+          { task: 'Water the plants', due: null, generative_task_prompt: null },
+        ],
+        [
+          { start: 0, end: 3, text: 'Okay, quick memo for tomorrow.' },
+          { start: 3, end: 7, text: 'I need to book a dentist appointment.' },
+          { start: 7, end: 12, text: 'And remind me to email the client about the proposal.' },
+        ]
+      );
+
+      expect(tasks.map((task) => task.segmentIndex)).toEqual([2, 1, null]);
+    });
+
+    it('Leaves tasks untouched when there are no segments', () => {
+      const tasks = [{ task: 'Email client', due: null, generative_task_prompt: null }];
+
+      expect(linkTasksToSegments(tasks, [])).toEqual(tasks);
+    });
+  });
+
+  describe('🚦 mapWithConcurrency', () => {
+    it('Never runs more than the limit at once and preserves order', async () => {
+      let running = 0;
+      let maxRunning = 0;
+
+      const results = await mapWithConcurrency([30, 10, 20, 5, 15], 2, async (delay, idx) => {
+        running++;
+        maxRunning = Math.max(maxRunning, running);
+        await new Promise((resolve) => setTimeout(resolve, delay));
+        running--;
+        return idx;
+      });
+
+      expect(results).toEqual([0, 1, 2, 3, 4]);
+      expect(maxRunning).toBe(2);
+    });
+  });
+});
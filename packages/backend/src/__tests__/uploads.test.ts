@@ -0,0 +1,403 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { createMockContext, createAudioBytes, createMp4Bytes, MockWorkerContext } from '../test-utils';
+import {
+  handleCreateUpload,
+  handleGetUpload,
+  handleUploadPart,
+  handleCompleteUpload,
+  UPLOAD_PART_SIZE,
+} from '../handlers/uploads';
+
+const uploadId = '3d7e9f1a-2b4c-4d5e-8f6a-7b8c9d0e1f2a';
+const taskId = 'c7a2b0e8-5f6a-4b9a-8f0c-1b2d3c4e5f6a';
+const r2Key = `uploads/test-user-123/${taskId}.webm`;
+
+/**
+ * Utility: Create an upload session row for a recording of `size` bytes
+ */
+function createMockSession(overrides: Partial<any> = {}) {
+  return {
+    uploadId,
+    userId: 'test-user-123',
+    taskId,
+    r2Key,
+    r2UploadId: 'r2-upload-1',
+    contentType: 'audio/webm',
+    format: 'webm',
+    completingAt: null,
+    size: UPLOAD_PART_SIZE * 2 + 100,
+    partSize: UPLOAD_PART_SIZE,
+    status: 'uploading',
+    createdAt: '2025-10-22T10:00:00Z',
+    updatedAt: '2025-10-22T10:00:00Z',
+    ...overrides,
+  };
+}
+
+function createUploadRequest(method: string, path: string, body?: BodyInit): Request {
+  return new Request(`http://localhost/api/v1/uploads${path}`, { method, body });
+}
+
+describe('/api/v1/uploads - Resumable Uploads', () => {
+  let mockContext: MockWorkerContext;
+  let queries: Array<{ sql: string; params: any[] }>;
+  let multipart: { uploadPart: any; complete: any };
+
+  /**
+   * Utility: Serve the session and `task` from lookups and `parts` from part listings, recording all bound statements
+   */
+  function stubDb({ session = createMockSession() as any, parts = [] as any[], changes = 1, task = { taskId } as any } = {}) {
+    (mockContext.env.DB.prepare as any).mockImplementation((sql: string) => ({
+      bind: vi.fn().mockImplementation((...params: any[]) => {
+        queries.push({ sql, params });
+        return {
+          sql,
+          params,
+          first: vi.fn().mockResolvedValue(sql.includes('FROM tasks') ? task : session),
+          all: vi.fn().mockResolvedValue({ results: parts }),
+          run: vi.fn().mockResolvedValue({ success: true, meta: { changes } }),
+        };
+      }),
+    }));
+  }
+
+  beforeEach(() => {
+    mockContext = createMockContext();
+    queries = [];
+    multipart = {
+      uploadPart: vi.fn().mockImplementation(async (partNumber: number) => ({ partNumber, etag: `etag-${partNumber}` })),
+      complete: vi.fn().mockResolvedValue({ key: r2Key }),
+    };
+    mockContext.env.R2_BUCKET.createMultipartUpload = vi.fn().mockResolvedValue({ uploadId: 'r2-upload-1' });
+    mockContext.env.R2_BUCKET.resumeMultipartUpload = vi.fn().mockReturnValue(multipart);
+    mockContext.env.VOICE_MEMO_QUEUE = { send: vi.fn().mockResolvedValue(undefined) };
+  });
+
+  describe('✅ POST /api/v1/uploads', () => {
+    it('Starts an R2 multipart upload and returns the part layout', async () => {
+      stubDb();
+      const size = UPLOAD_PART_SIZE * 2 + 100;
+
+      const response = await handleCreateUpload(
+        createUploadRequest('POST', '', JSON.stringify({ size, contentType: 'audio/webm', filename: 'memo.webm' })),
+        mockContext
+      );
+
+      expect(response.status).toBe(201);
+      const data = await response.json() as any;
+      expect(data).toMatchObject({ status: 'uploading', size, partSize: UPLOAD_PART_SIZE, partCount: 3, uploadedParts: [] });
+
+      const [key, options] = mockContext.env.R2_BUCKET.createMultipartUpload.mock.calls[0];
+      expect(key).toBe(`uploads/test-user-123/${data.taskId}.webm`);
+      expect(options.httpMetadata.contentType).toBe('audio/webm');
+
+      const insert = queries.find((query) => query.sql.includes('INSERT INTO upload_sessions'));
+      expect(insert?.params.slice(0, 5)).toEqual([data.uploadId, 'test-user-123', data.taskId, key, 'r2-upload-1']);
+    });
+
+    it('Rejects a missing size, an oversized recording and an unsupported type', async () => {
+      stubDb();
+
+      const responses = await Promise.all([
+        handleCreateUpload(createUploadRequest('POST', '', JSON.stringify({ contentType: 'audio/webm' })), mockContext),
+        handleCreateUpload(
+          createUploadRequest('POST', '', JSON.stringify({ size: 51 * 1024 * 1024, contentType: 'audio/webm' })),
+          mockContext
+        ),
+        handleCreateUpload(createUploadRequest('POST', '', JSON.stringify({ size: 100, contentType: 'video/mp4' })), mockContext),
+      ]);
+
+      expect(responses.map((response) => response.status)).toEqual([400, 413, 415]);
+      expect(mockContext.env.R2_BUCKET.createMultipartUpload).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('📦 PUT /api/v1/uploads/{uploadId}/parts/{partNumber}', () => {
+    it('Stores a part in R2 and records its etag', async () => {
+      stubDb();
+
+      const response = await handleUploadPart(
+        createUploadRequest('PUT', `/${uploadId}/parts/3`, new Uint8Array(100)),
+        mockContext
+      );
+
+      expect(response.status).toBe(200);
+      expect(mockContext.env.R2_BUCKET.resumeMultipartUpload).toHaveBeenCalledWith(r2Key, 'r2-upload-1');
+      expect(multipart.uploadPart.mock.calls[0][0]).toBe(3);
+
+      const [savePart] = (mockContext.env.DB.batch as any).mock.calls[0][0];
+      expect(savePart.sql).toContain('INSERT OR REPLACE INTO upload_parts');
+      expect(savePart.params).toEqual([uploadId, 3, 'etag-3', 100]);
+    });
+
+    it('Records the format detected from the first part\'s content', async () => {
+      stubDb({ session: createMockSession({ format: null }) });
+
+      const first = await handleUploadPart(
+        createUploadRequest('PUT', `/${uploadId}/parts/1`, createAudioBytes('webm', UPLOAD_PART_SIZE)),
+        mockContext
+      );
+      const last = await handleUploadPart(createUploadRequest('PUT', `/${uploadId}/parts/3`, new Uint8Array(100)), mockContext);
+
+      expect(first.status).toBe(200);
+      expect(last.status).toBe(200);
+      const sessionUpdates = (mockContext.env.DB.batch as any).mock.calls.map((call: any[]) => call[0][1]);
+      expect(sessionUpdates[0].sql).toContain('format = COALESCE(?, format)');
+      expect(sessionUpdates.map((update: any) => update.params[1])).toEqual(['webm', null]);
+    });
+
+    it('Rejects a part of the wrong size or outside the upload', async () => {
+      stubDb();
+
+      const wrongSize = await handleUploadPart(createUploadRequest('PUT', `/${uploadId}/parts/1`, new Uint8Array(100)), mockContext);
+      const outOfRange = await handleUploadPart(createUploadRequest('PUT', `/${uploadId}/parts/4`, new Uint8Array(100)), mockContext);
+
+      expect(wrongSize.status).toBe(400);
+      expect((await wrongSize.json() as any).message).toBe(`Part 1 must be ${UPLOAD_PART_SIZE} bytes, got 100`);
+      expect(outOfRange.status).toBe(400);
+      expect(multipart.uploadPart).not.toHaveBeenCalled();
+    });
+
+    it('Rejects a first part whose content does not match the declared type', async () => {
+      stubDb();
+
+      const response = await handleUploadPart(
+        createUploadRequest('PUT', `/${uploadId}/parts/1`, createAudioBytes('mp3', UPLOAD_PART_SIZE)),
+        mockContext
+      );
+
+      expect(response.status).toBe(415);
+      expect((await response.json() as any).message).toBe("File is declared as 'audio/webm' but its content is MP3 audio");
+      expect(multipart.uploadPart).not.toHaveBeenCalled();
+    });
+
+    it('Only sees an MP4 video track when the moov box is in the first part', async () => {
+      stubDb({ session: createMockSession({ contentType: 'audio/mp4', format: null }) });
+      const fastStart = createMp4Bytes(['vide'], UPLOAD_PART_SIZE);
+      // The ftyp box, then 16MB of media data running past the first part, so the moov box after it is never read
+      const moovLast = Buffer.alloc(UPLOAD_PART_SIZE);
+      moovLast.set(fastStart.subarray(0, 24));
+      moovLast.set([0x01, 0x00, 0x00, 0x00, ...Buffer.from('mdat')], 24);
+
+      const rejected = await handleUploadPart(createUploadRequest('PUT', `/${uploadId}/parts/1`, fastStart), mockContext);
+      const accepted = await handleUploadPart(createUploadRequest('PUT', `/${uploadId}/parts/1`, moovLast), mockContext);
+
+      expect(rejected.status).toBe(415);
+      expect((await rejected.json() as any).message).toContain('File content is an MP4 video');
+      expect(accepted.status).toBe(200);
+    });
+  });
+
+  describe('🔁 Resuming', () => {
+    it('Reports the parts stored so far', async () => {
+      stubDb({ parts: [{ partNumber: 1, etag: 'etag-1', size: UPLOAD_PART_SIZE }, { partNumber: 3, etag: 'etag-3', size: 100 }] });
+
+      const response = await handleGetUpload(createUploadRequest('GET', `/${uploadId}`), mockContext);
+
+      expect(response.status).toBe(200);
+      expect((await response.json() as any).uploadedParts).toEqual([1, 3]);
+    });
+
+    it('Returns 404 for another user\'s upload', async () => {
+      stubDb({ session: null });
+
+      const response = await handleGetUpload(createUploadRequest('GET', `/${uploadId}`), mockContext);
+
+      expect(response.status).toBe(404);
+      expect(queries[0].params).toEqual([uploadId, 'test-user-123']);
+    });
+  });
+
+  describe('🏁 POST /api/v1/uploads/{uploadId}/complete', () => {
+    const allParts = [
+      { partNumber: 1, etag: 'etag-1', size: UPLOAD_PART_SIZE },
+      { partNumber: 2, etag: 'etag-2', size: UPLOAD_PART_SIZE },
+      { partNumber: 3, etag: 'etag-3', size: 100 },
+    ];
+
+    it('Joins the parts, creates the memo and queues it for processing', async () => {
+      stubDb({ parts: allParts });
+
+      const response = await handleCompleteUpload(createUploadRequest('POST', `/${uploadId}/complete`), mockContext);
+
+      expect(response.status).toBe(202);
+      expect(await response.json()).toEqual({ taskId, status: 'pending', statusUrl: `/api/v1/memo/${taskId}` });
+      expect(multipart.complete).toHaveBeenCalledWith([
+        { partNumber: 1, etag: 'etag-1' },
+        { partNumber: 2, etag: 'etag-2' },
+        { partNumber: 3, etag: 'etag-3' },
+      ]);
+      expect(queries.find((query) => query.sql.includes('INSERT INTO tasks'))?.params.slice(0, 4)).toEqual([
+        taskId,
+        'test-user-123',
+        'pending',
+        r2Key,
+      ]);
+      expect(mockContext.env.VOICE_MEMO_QUEUE.send).toHaveBeenCalledWith(expect.objectContaining({ taskId, key: r2Key }));
+    });
+
+    it('Returns 409 listing the parts still missing', async () => {
+      stubDb({ parts: [allParts[0]] });
+
+      const response = await handleCompleteUpload(createUploadRequest('POST', `/${uploadId}/complete`), mockContext);
+
+      expect(response.status).toBe(409);
+      expect((await response.json() as any).message).toBe('Upload is missing parts: 2, 3');
+      expect(multipart.complete).not.toHaveBeenCalled();
+    });
+
+    it('Lets only one of two overlapping completes join the parts and create the memo', async () => {
+      stubDb({ parts: allParts });
+      const prepare = (mockContext.env.DB.prepare as any).getMockImplementation();
+      let claimed = false;
+      (mockContext.env.DB.prepare as any).mockImplementation((sql: string) => {
+        const statement = prepare(sql);
+        if (!sql.includes('SET completingAt = ?')) return statement;
+        return {
+          bind: (...params: any[]) => ({
+            ...statement.bind(...params),
+            // The conditional UPDATE matches for the first request only
+            run: vi.fn().mockImplementation(async () => {
+              const changes = claimed ? 0 : 1;
+              claimed = true;
+              return { success: true, meta: { changes } };
+            }),
+          }),
+        };
+      });
+
+      const responses = await Promise.all([
+        handleCompleteUpload(createUploadRequest('POST', `/${uploadId}/complete`), mockContext),
+        handleCompleteUpload(createUploadRequest('POST', `/${uploadId}/complete`), mockContext),
+      ]);
+
+      expect(responses.map((response) => response.status).sort()).toEqual([202, 409]);
+      expect(multipart.complete).toHaveBeenCalledTimes(1);
+      expect(mockContext.env.VOICE_MEMO_QUEUE.send).toHaveBeenCalledTimes(1);
+    });
+
+    it('Releases the claim when R2 cannot join the parts, so a retry can complete the upload', async () => {
+      stubDb({ parts: allParts });
+      multipart.complete.mockRejectedValue(new Error('R2 unavailable'));
+
+      const response = await handleCompleteUpload(createUploadRequest('POST', `/${uploadId}/complete`), mockContext);
+
+      expect(response.status).toBe(500);
+      expect(queries.some((query) => query.sql.includes('SET completingAt = NULL'))).toBe(true);
+      expect(queries.some((query) => query.sql.includes("SET status = 'completed'"))).toBe(false);
+    });
+
+    it('Takes over an abandoned claim whose parts were already joined', async () => {
+      stubDb({ session: createMockSession({ completingAt: '2025-10-22T10:00:00Z' }), parts: allParts });
+      multipart.complete.mockRejectedValue(new Error('The specified multipart upload does not exist'));
+      mockContext.env.R2_BUCKET.head.mockResolvedValue({ key: r2Key });
+
+      const response = await handleCompleteUpload(createUploadRequest('POST', `/${uploadId}/complete`), mockContext);
+
+      expect(response.status).toBe(202);
+      const claim = queries.find((query) => query.sql.includes('SET completingAt = ?'));
+      expect(claim?.params[2]).toBe(uploadId);
+      expect(mockContext.env.VOICE_MEMO_QUEUE.send).toHaveBeenCalledWith(expect.objectContaining({ taskId }));
+    });
+
+    it('Returns the same memo when a completed upload is completed again', async () => {
+      stubDb({ session: createMockSession({ status: 'completed' }) });
+
+      const response = await handleCompleteUpload(createUploadRequest('POST', `/${uploadId}/complete`), mockContext);
+
+      expect(response.status).toBe(202);
+      expect((await response.json() as any).taskId).toBe(taskId);
+      expect(multipart.complete).not.toHaveBeenCalled();
+      expect(mockContext.env.VOICE_MEMO_QUEUE.send).not.toHaveBeenCalled();
+    });
+
+    it('Discards the upload when the memo cannot be created, so a retry gets 404 instead of a missing memo', async () => {
+      stubDb({ parts: allParts });
+      const prepare = (mockContext.env.DB.prepare as any).getMockImplementation();
+      (mockContext.env.DB.prepare as any).mockImplementation((sql: string) => {
+        const statement = prepare(sql);
+        if (!sql.includes('INSERT INTO tasks')) return statement;
+        return {
+          bind: (...params: any[]) => ({ ...statement.bind(...params), run: vi.fn().mockRejectedValue(new Error('D1 unavailable')) }),
+        };
+      });
+      // Deleting the session makes later lookups miss
+      (mockContext.env.DB.batch as any).mockImplementation(async () => {
+        stubDb({ session: null });
+        return [];
+      });
+
+      const failed = await handleCompleteUpload(createUploadRequest('POST', `/${uploadId}/complete`), mockContext);
+      const retried = await handleCompleteUpload(createUploadRequest('POST', `/${uploadId}/complete`), mockContext);
+
+      expect(failed.status).toBe(500);
+      expect(mockContext.env.R2_BUCKET.delete).toHaveBeenCalledWith(r2Key);
+      const [deletes] = (mockContext.env.DB.batch as any).mock.calls[0];
+      expect(deletes.map((statement: any) => statement.sql)).toEqual([
+        expect.stringContaining('DELETE FROM upload_parts'),
+        expect.stringContaining('DELETE FROM upload_sessions'),
+      ]);
+      expect(retried.status).toBe(404);
+      expect(mockContext.env.VOICE_MEMO_QUEUE.send).not.toHaveBeenCalled();
+    });
+
+    it('Reports a completed upload without a memo as in progress, then discards it once abandoned', async () => {
+      const justCompleted = createMockSession({ status: 'completed', updatedAt: new Date().toISOString() });
+      stubDb({ session: justCompleted, task: null });
+
+      const inProgress = await handleCompleteUpload(createUploadRequest('POST', `/${uploadId}/complete`), mockContext);
+
+      expect(inProgress.status).toBe(409);
+      expect(mockContext.env.DB.batch).not.toHaveBeenCalled();
+
+      stubDb({ session: createMockSession({ status: 'completed' }), task: null });
+
+      const abandoned = await handleCompleteUpload(createUploadRequest('POST', `/${uploadId}/complete`), mockContext);
+
+      expect(abandoned.status).toBe(404);
+      expect(mockContext.env.R2_BUCKET.delete).toHaveBeenCalledWith(r2Key);
+      expect(mockContext.env.DB.batch).toHaveBeenCalled();
+    });
+
+    it('Discards a recording longer than the maximum duration with 413', async () => {
+      const size = UPLOAD_PART_SIZE * 2 + 100;
+      stubDb({ session: createMockSession({ contentType: 'audio/wav', format: 'wav', size }), parts: allParts });
+      mockContext.env.MAX_AUDIO_DURATION_SECONDS = '600';
+      // 8kHz 16-bit mono WAV: the rest of the file is 655.364 seconds of samples
+      const header = createAudioBytes('wav', 44);
+      const view = new DataView(header.buffer, header.byteOffset);
+      view.setUint32(16, 16, true);
+      view.setUint16(20, 1, true);
+      view.setUint16(22, 1, true);
+      view.setUint32(24, 8000, true);
+      view.setUint32(28, 16000, true);
+      header.set(Buffer.from('data'), 36);
+      view.setUint32(40, size - 44, true);
+      mockContext.env.R2_BUCKET.get.mockImplementation(async (_key: string, options: any) => {
+        const { offset, length } = options.range;
+        const bytes = Buffer.alloc(length);
+        if (offset === 0) bytes.set(header.subarray(0, length));
+        return { arrayBuffer: vi.fn().mockResolvedValue(bytes) };
+      });
+
+      const response = await handleCompleteUpload(createUploadRequest('POST', `/${uploadId}/complete`), mockContext);
+
+      expect(response.status).toBe(413);
+      expect((await response.json() as any).message).toBe('Recording is 655.364 seconds long; the maximum is 600 seconds');
+      // Only the start and end of the recording are read back
+      const ranges = mockContext.env.R2_BUCKET.get.mock.calls.map((call: any[]) => call[1].range);
+      expect(ranges).toEqual([
+        { offset: 0, length: 256 * 1024 },
+        { offset: size - 64 * 1024, length: 64 * 1024 },
+      ]);
+      expect(mockContext.env.R2_BUCKET.delete).toHaveBeenCalledWith(r2Key);
+      const [deletes] = (mockContext.env.DB.batch as any).mock.calls[0];
+      expect(deletes.map((statement: any) => statement.sql)).toEqual([
+        expect.stringContaining('DELETE FROM upload_parts'),
+        expect.stringContaining('DELETE FROM upload_sessions'),
+      ]);
+      expect(queries.some((query) => query.sql.includes('INSERT INTO tasks'))).toBe(false);
+      expect(mockContext.env.VOICE_MEMO_QUEUE.send).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,114 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { createMockContext, createFakeStepRunner, MockWorkerContext } from '../test-utils';
+
+vi.mock('../workflow', () => ({
+  processAudioWorkflow: vi.fn(),
+}));
+
+import { processAudioWorkflow } from '../workflow';
+import { AudioProcessingWorkflow, type AudioProcessingParams } from '../workflow-handler';
+import { handleQueueConsumer, type QueueMessage } from '../queue-consumer';
+
+const taskId = 'c7a2b0e8-5f6a-4b9a-8f0c-1b2d3c4e5f6a';
+const userId = 'test-user-123';
+const r2Key = `uploads/${userId}/${taskId}.webm`;
+
+const params: AudioProcessingParams = {
+  bucket: 'voice-memos',
+  key: r2Key,
+  eventName: 'memo-uploaded',
+  eventTimestamp: '2025-10-22T10:00:00.000Z',
+};
+
+/**
+ * Utility: Run the workflow class the way the Workflows runtime does
+ */
+function runWorkflow(env: any, payload: AudioProcessingParams, step = createFakeStepRunner()) {
+  const workflow = new AudioProcessingWorkflow({} as ExecutionContext, env);
+  return workflow.run(
+    { payload, timestamp: new Date(), instanceId: 'instance-1', workflowName: 'audio-processing' },
+    step as any
+  );
+}
+
+describe('AudioProcessingWorkflow - Workflows Entry Point', () => {
+  let mockContext: MockWorkerContext;
+
+  beforeEach(() => {
+    mockContext = createMockContext();
+    vi.mocked(processAudioWorkflow).mockReset();
+  });
+
+  describe('📬 Queue consumer', () => {
+    it('Creates a workflow instance for each message and acknowledges it', async () => {
+      const create = vi.fn().mockResolvedValue({ id: 'instance-1' });
+      mockContext.env.AUDIO_PROCESSING_WORKFLOW = { create };
+      const message = {
+        body: { ...params, taskId, userId, fromStage: 'extract' } as QueueMessage,
+        ack: vi.fn(),
+        retry: vi.fn(),
+      };
+
+      await handleQueueConsumer({ messages: [message] } as any, mockContext.env as any);
+
+      expect(create).toHaveBeenCalledWith({ params: { ...params, fromStage: 'extract' } });
+      expect(message.ack).toHaveBeenCalled();
+      expect(message.retry).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('🔁 run()', () => {
+    it('Runs the pipeline for the uploaded object through the durable step runner', async () => {
+      vi.mocked(processAudioWorkflow).mockResolvedValue({
+        status: 'completed',
+        taskId,
+        transcription: 'Buy milk',
+        processedTasks: [],
+      });
+      const step = createFakeStepRunner();
+
+      await runWorkflow(mockContext.env, params, step);
+
+      expect(processAudioWorkflow).toHaveBeenCalledWith(
+        { taskId, userId, r2Key },
+        expect.objectContaining({ data: { userId } }),
+        expect.objectContaining({ step })
+      );
+    });
+
+    it('Loads saved outputs in a step when reprocessing from a later stage', async () => {
+      vi.mocked(processAudioWorkflow).mockResolvedValue({
+        status: 'completed',
+        taskId,
+        transcription: 'Buy milk',
+        processedTasks: [],
+      });
+      (mockContext.env.DB.prepare as any).mockReturnValue({
+        bind: vi.fn().mockReturnValue({
+          first: vi.fn().mockResolvedValue({ transcription: 'Buy milk', transcriptSegments: null, processedTasks: null }),
+        }),
+      });
+      const step = createFakeStepRunner();
+
+      await runWorkflow(mockContext.env, { ...params, fromStage: 'extract' }, step);
+
+      expect(step.completed.get('load-saved-outputs')).toEqual({ transcription: 'Buy milk' });
+      expect(vi.mocked(processAudioWorkflow).mock.calls[0][0]).toEqual({ taskId, userId, r2Key, transcription: 'Buy milk' });
+    });
+
+    it('Throws when the pipeline fails, so the instance ends as errored', async () => {
+      vi.mocked(processAudioWorkflow).mockResolvedValue({ status: 'failed', taskId, error: 'No speech detected' });
+
+      await expect(runWorkflow(mockContext.env, params)).rejects.toThrow(
+        `Processing failed for task ${taskId}: No speech detected`
+      );
+    });
+
+    it('Throws for keys that do not belong to an upload', async () => {
+      await expect(runWorkflow(mockContext.env, { ...params, key: 'other/file.webm' })).rejects.toThrow(
+        'Invalid R2 object key format'
+      );
+      expect(processAudioWorkflow).not.toHaveBeenCalled();
+    });
+  });
+});
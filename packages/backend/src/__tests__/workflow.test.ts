@@ -1,5 +1,5 @@
 import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest';
-import { createMockContext, MockWorkerContext } from '../test-utils';
+import { createMockContext, createFakeStepRunner, MockWorkerContext } from '../test-utils';
 import type { ProcessingResult, WorkflowInput } from '../workflow';
 import type { ProcessedTask } from '../workflow/extract';
 
@@ -11,6 +11,10 @@ vi.mock('../workflow/generate');
 import {
   processAudioWorkflow,
 } from '../workflow';
+import {
+  DEFAULT_WORKFLOW_STEP_CONFIGS,
+  resolveWorkflowStepConfigs,
+} from '../workflow/steps';
 import {
   transcribeAudio,
 } from '../workflow/transcribe';
@@ -73,7 +77,7 @@ describe('Phase 2: Processing Workflow - Audio to Tasks Pipeline', () => {
       (mockContext.env.R2_BUCKET.get as any).mockResolvedValue(r2Object);
 
       // Step 2: Transcription
-      vi.mocked(transcribeAudio).mockResolvedValueOnce(transcriptionText);
+      vi.mocked(transcribeAudio).mockResolvedValueOnce({ text: transcriptionText, segments: [] });
 
       // Step 3: Task extraction
       vi.mocked(extractTasks).mockResolvedValueOnce(extractedTasks);
@@ -218,7 +222,7 @@ describe('Phase 2: Processing Workflow - Audio to Tasks Pipeline', () => {
         arrayBuffer: vi.fn().mockResolvedValue(audioBuffer.buffer),
       };
       (mockContext.env.R2_BUCKET.get as any).mockResolvedValue(r2Object);
-      vi.mocked(transcribeAudio).mockResolvedValueOnce('Some transcription');
+      vi.mocked(transcribeAudio).mockResolvedValueOnce({ text: 'Some transcription', segments: [] });
 
       // Mock extraction failure
       vi.mocked(extractTasks).mockRejectedValueOnce(
@@ -268,7 +272,7 @@ describe('Phase 2: Processing Workflow - Audio to Tasks Pipeline', () => {
         arrayBuffer: vi.fn().mockResolvedValue(audioBuffer.buffer),
       };
       (mockContext.env.R2_BUCKET.get as any).mockResolvedValue(r2Object);
-      vi.mocked(transcribeAudio).mockResolvedValueOnce(transcription);
+      vi.mocked(transcribeAudio).mockResolvedValueOnce({ text: transcription, segments: [] });
       vi.mocked(extractTasks).mockResolvedValueOnce(extractedTasks);
 
       // Mock first generation succeeds, second fails
@@ -321,7 +325,7 @@ describe('Phase 2: Processing Workflow - Audio to Tasks Pipeline', () => {
         arrayBuffer: vi.fn().mockResolvedValue(audioBuffer.buffer),
       };
       (mockContext.env.R2_BUCKET.get as any).mockResolvedValue(r2Object);
-      vi.mocked(transcribeAudio).mockResolvedValueOnce(transcription);
+      vi.mocked(transcribeAudio).mockResolvedValueOnce({ text: transcription, segments: [] });
       vi.mocked(extractTasks).mockResolvedValueOnce(extractedTasks);
 
       // Mock D1 update failure after everything else succeeds
@@ -346,4 +350,569 @@ describe('Phase 2: Processing Workflow - Audio to Tasks Pipeline', () => {
       expect(result.error).toContain('Database connection failed');
     });
   });
+
+  describe('🔁 Durable Steps & Retries', () => {
+    const taskId = 'task-123';
+    const userId = 'user-456';
+    const workflowInput: WorkflowInput = {
+      taskId,
+      userId,
+      r2Key: `uploads/${userId}/${taskId}.webm`,
+    };
+
+    beforeEach(() => {
+      // Drop any queued results left over from tests that failed before consuming them
+      vi.mocked(transcribeAudio).mockReset();
+      vi.mocked(extractTasks).mockReset();
+      vi.mocked(generateTaskContent).mockReset();
+
+      const r2Object = {
+        arrayBuffer: vi.fn().mockResolvedValue(Buffer.from('mock audio data').buffer),
+      };
+      (mockContext.env.R2_BUCKET.get as any).mockResolvedValue(r2Object);
+    });
+
+    it('Runs each stage in its own named step with the configured retry policy', async () => {
+      const step = createFakeStepRunner();
+      vi.mocked(transcribeAudio).mockResolvedValueOnce({ text: 'Draft an outline', segments: [] });
+      vi.mocked(extractTasks).mockResolvedValueOnce([
+        { task: 'Draft outline', due: null, generative_task_prompt: 'Draft an outline' },
+      ]);
+      vi.mocked(generateTaskContent).mockResolvedValueOnce('1. Intro');
+
+      const result = await processAudioWorkflow(workflowInput, mockContext, { step });
+
+      expect(result.status).toBe('completed');
+      const stepCalls = step.do.mock.calls.map((call: any[]) => [call[0], call[1]]);
+      expect(stepCalls).toEqual([
+        ['transcribe', DEFAULT_WORKFLOW_STEP_CONFIGS.transcribe],
+        ['save-transcription', DEFAULT_WORKFLOW_STEP_CONFIGS.db_update],
+        ['summarize', DEFAULT_WORKFLOW_STEP_CONFIGS.summarize],
+        ['extract', DEFAULT_WORKFLOW_STEP_CONFIGS.extract],
+        ['tag', DEFAULT_WORKFLOW_STEP_CONFIGS.tag],
+        ['generate-0', DEFAULT_WORKFLOW_STEP_CONFIGS.generate],
+        ['embed', DEFAULT_WORKFLOW_STEP_CONFIGS.embed],
+        ['db-update', DEFAULT_WORKFLOW_STEP_CONFIGS.db_update],
+      ]);
+    });
+
+    it('Retries a transient extraction failure without re-running transcription', async () => {
+      const step = createFakeStepRunner();
+      vi.mocked(transcribeAudio).mockResolvedValueOnce({ text: 'Email the client', segments: [] });
+      vi.mocked(extractTasks)
+        .mockRejectedValueOnce(new Error('Llama 503'))
+        .mockResolvedValueOnce([{ task: 'Email the client', due: null, generative_task_prompt: null }]);
+
+      const result = await processAudioWorkflow(workflowInput, mockContext, { step });
+
+      expect(result.status).toBe('completed');
+      if (result.status !== 'completed') {
+        throw new Error('Expected workflow to complete');
+      }
+      expect(result.processedTasks).toHaveLength(1);
+      expect(step.attempts.extract).toBe(2);
+      expect(step.attempts.transcribe).toBe(1);
+      expect(transcribeAudio).toHaveBeenCalledTimes(1);
+    });
+
+    it('Resumes at the failed stage when replayed, reusing persisted outputs', async () => {
+      const step = createFakeStepRunner();
+      vi.mocked(transcribeAudio).mockResolvedValueOnce({ text: 'Email the client', segments: [] });
+      vi.mocked(extractTasks).mockResolvedValueOnce([
+        { task: 'Email the client', due: null, generative_task_prompt: null },
+      ]);
+
+      // Every attempt at writing the final results fails on the first run
+      const prepareMock = mockContext.env.DB.prepare as any;
+      const defaultStatement = prepareMock();
+      prepareMock.mockClear();
+      prepareMock.mockImplementation((sql: string) =>
+        sql.includes('processedTasks = ?')
+          ? { bind: vi.fn().mockReturnValue({ run: vi.fn().mockRejectedValue(new Error('D1 unavailable')) }) }
+          : defaultStatement
+      );
+
+      const firstRun = await processAudioWorkflow(workflowInput, mockContext, { step });
+      expect(firstRun.status).toBe('failed');
+      expect(step.attempts['db-update']).toBe(DEFAULT_WORKFLOW_STEP_CONFIGS.db_update.retries!.limit + 1);
+
+      // D1 recovers; the replay only redoes the database write
+      prepareMock.mockImplementation(() => defaultStatement);
+
+      const secondRun = await processAudioWorkflow(workflowInput, mockContext, { step });
+
+      expect(secondRun.status).toBe('completed');
+      expect(transcribeAudio).toHaveBeenCalledTimes(1);
+      expect(extractTasks).toHaveBeenCalledTimes(1);
+      expect(step.attempts.transcribe).toBe(1);
+      expect(step.attempts.extract).toBe(1);
+    });
+
+    it('Does not retry when no speech is detected', async () => {
+      const step = createFakeStepRunner();
+      vi.mocked(transcribeAudio).mockResolvedValueOnce({ text: '   ', segments: [] });
+
+      const result = await processAudioWorkflow(workflowInput, mockContext, { step });
+
+      expect(result.status).toBe('failed');
+      if (result.status !== 'failed') {
+        throw new Error('Expected workflow to fail');
+      }
+      expect(result.error).toBe('No speech detected in audio');
+      expect(step.attempts.transcribe).toBe(1);
+    });
+
+    it('Merges WORKFLOW_STEP_CONFIG overrides over the defaults', () => {
+      const configs = resolveWorkflowStepConfigs(
+        JSON.stringify({ extract: { retries: { limit: 6, delay: '2 seconds', backoff: 'constant' } } })
+      );
+
+      expect(configs.extract.retries).toEqual({ limit: 6, delay: '2 seconds', backoff: 'constant' });
+      expect(configs.extract.timeout).toBe(DEFAULT_WORKFLOW_STEP_CONFIGS.extract.timeout);
+      expect(configs.transcribe).toEqual(DEFAULT_WORKFLOW_STEP_CONFIGS.transcribe);
+
+      vi.spyOn(console, 'error').mockImplementationOnce(() => {});
+      expect(resolveWorkflowStepConfigs('not json')).toBe(DEFAULT_WORKFLOW_STEP_CONFIGS);
+    });
+  });
+
+  describe('🕒 Transcript Segments', () => {
+    it('Saves segments with the transcription and links extracted tasks to them', async () => {
+      vi.mocked(transcribeAudio).mockReset();
+      vi.mocked(extractTasks).mockReset();
+      (mockContext.env.R2_BUCKET.get as any).mockResolvedValue({
+        arrayBuffer: vi.fn().mockResolvedValue(Buffer.from('mock audio data').buffer),
+      });
+      const segments = [
+        { start: 0, end: 3, text: 'Quick memo for tomorrow.' },
+        { start: 3, end: 8, text: 'Email the client about the proposal.' },
+      ];
+      vi.mocked(transcribeAudio).mockResolvedValueOnce({
+        text: 'Quick memo for tomorrow. Email the client about the proposal.',
+        segments,
+      });
+      vi.mocked(extractTasks).mockResolvedValueOnce([
+        { task: 'Email client about proposal', due: null, generative_task_prompt: null },
+      ]);
+
+      const result = await processAudioWorkflow(
+        { taskId: 'task-123', userId: 'user-456', r2Key: 'uploads/user-456/task-123.webm' },
+        mockContext
+      );
+
+      if (result.status !== 'completed') {
+        throw new Error('Expected workflow to complete');
+      }
+      expect(result.processedTasks[0].segmentIndex).toBe(1);
+
+      const prepareMock = mockContext.env.DB.prepare as any;
+      const sqlCalls = prepareMock.mock.calls.map((call: any[]) => call[0]);
+      expect(sqlCalls.some((sql: string) => sql.includes('transcriptSegments = ?'))).toBe(true);
+      const bindMock = prepareMock.mock.results[0].value.bind;
+      expect(bindMock).toHaveBeenCalledWith(
+        'Quick memo for tomorrow. Email the client about the proposal.',
+        JSON.stringify(segments),
+        expect.any(String),
+        'task-123'
+      );
+    });
+
+    it('Keeps stored segments when reusing a saved transcription', async () => {
+      vi.mocked(extractTasks).mockReset();
+      vi.mocked(extractTasks).mockResolvedValueOnce([
+        { task: 'Email client about proposal', due: null, generative_task_prompt: null },
+      ]);
+
+      const result = await processAudioWorkflow(
+        {
+          taskId: 'task-123',
+          userId: 'user-456',
+          r2Key: 'uploads/user-456/task-123.webm',
+          transcription: 'Email the client about the proposal.',
+          transcriptSegments: [{ start: 0, end: 4, text: 'Email the client about the proposal.' }],
+        },
+        mockContext
+      );
+
+      if (result.status !== 'completed') {
+        throw new Error('Expected workflow to complete');
+      }
+      expect(result.processedTasks[0].segmentIndex).toBe(0);
+      const sqlCalls = (mockContext.env.DB.prepare as any).mock.calls.map((call: any[]) => call[0]);
+      expect(sqlCalls.some((sql: string) => sql.includes('transcriptSegments'))).toBe(false);
+    });
+  });
+
+  describe('🧭 Embeddings', () => {
+    const workflowInput: WorkflowInput = {
+      taskId: 'task-123',
+      userId: 'user-456',
+      r2Key: 'uploads/user-456/task-123.webm',
+      transcription: 'Renew the vendor contract. Buy milk.',
+      transcriptSegments: [
+        { start: 0, end: 3, text: 'Renew the vendor contract.' },
+        { start: 3, end: 4, text: 'Buy milk.' },
+      ],
+    };
+
+    beforeEach(() => {
+      vi.mocked(extractTasks).mockReset();
+      vi.mocked(extractTasks).mockResolvedValueOnce([
+        { task: 'Renew vendor contract', due: null, generative_task_prompt: null },
+      ]);
+    });
+
+    it('Stores a whole-memo vector and one per segment', async () => {
+      mockContext.env.EMBEDDINGS_PROVIDER = 'local';
+      (mockContext.env.DB.prepare as any).mockImplementation((sql: string) => ({
+        bind: vi.fn().mockImplementation((...params: any[]) => ({
+          sql,
+          params,
+          run: vi.fn().mockResolvedValue({ success: true }),
+          all: vi.fn().mockResolvedValue({ results: [] }),
+        })),
+      }));
+
+      const result = await processAudioWorkflow(workflowInput, mockContext);
+
+      expect(result.status).toBe('completed');
+      const [remove, ...inserts] = (mockContext.env.DB.batch as any).mock.calls
+        .map((call: any[]) => call[0])
+        .find((statements: any[]) => statements[0].sql.includes('memo_embeddings'));
+      expect(remove.sql).toContain('DELETE FROM memo_embeddings');
+      expect(inserts.map((insert: any) => [insert.params[2], insert.params[4]])).toEqual([
+        [null, 'local-hash-v1'],
+        [0, 'local-hash-v1'],
+        [1, 'local-hash-v1'],
+      ]);
+    });
+
+    it('Completes the memo when embedding fails', async () => {
+      (mockContext.env.AI.run as any).mockRejectedValue(new Error('Embedding model unavailable'));
+
+      const result = await processAudioWorkflow(workflowInput, mockContext);
+
+      expect(result.status).toBe('completed');
+      const sqlCalls = (mockContext.env.DB.prepare as any).mock.calls.map((call: any[]) => call[0]);
+      expect(sqlCalls.some((sql: string) => sql.includes('UPDATE tasks SET status = ?'))).toBe(true);
+      expect(sqlCalls.some((sql: string) => sql.includes('memo_embeddings'))).toBe(false);
+    });
+  });
+
+  describe('📝 Summaries', () => {
+    const workflowInput: WorkflowInput = {
+      taskId: 'task-123',
+      userId: 'user-456',
+      r2Key: 'uploads/user-456/task-123.webm',
+      transcription: 'Renew the vendor contract before the budget review.',
+    };
+    let doFetch: ReturnType<typeof vi.fn>;
+
+    /**
+     * Utility: Stages and statuses published to the status Durable Object
+     */
+    async function publishedUpdates(): Promise<Array<[string, string]>> {
+      const updates = await Promise.all(
+        doFetch.mock.calls.map(async (call: any[]) => (call[0] as Request).json())
+      ) as any[];
+      return updates.map((update) => [update.stage, update.status]);
+    }
+
+    beforeEach(() => {
+      vi.mocked(extractTasks).mockReset();
+      vi.mocked(extractTasks).mockResolvedValueOnce([]);
+      doFetch = vi.fn().mockResolvedValue(new Response('{}'));
+      mockContext.env.TASK_STATUS_DO = {
+        idFromName: vi.fn().mockReturnValue('do-id'),
+        get: vi.fn().mockReturnValue({ fetch: doFetch }),
+      };
+    });
+
+    it('Saves the title, TL;DR and key points and publishes summarize updates', async () => {
+      (mockContext.env.AI.run as any).mockImplementation(async (_model: string, input: any) =>
+        input.prompt?.includes('You summarize a voice memo')
+          ? { response: '{"title": "\\"Vendor contract renewal.\\"", "tldr": "Renew the contract before the review.", "bullets": ["Renew the vendor contract", 42, " "]}' }
+          : { response: 'mock response' }
+      );
+
+      const result = await processAudioWorkflow(workflowInput, mockContext);
+
+      expect(result.status).toBe('completed');
+      const bound = (mockContext.env.DB.prepare as any).mock.results[0].value.bind.mock.calls;
+      const summaryUpdate = bound.find((params: any[]) => params[1] === 'Renew the contract before the review.');
+      expect(summaryUpdate).toEqual([
+        'Vendor contract renewal',
+        'Renew the contract before the review.',
+        JSON.stringify(['Renew the vendor contract']),
+        expect.any(String),
+        'task-123',
+      ]);
+      const summarizeUpdates = (await publishedUpdates()).filter(([stage]) => stage === 'summarize');
+      expect(summarizeUpdates).toEqual([['summarize', 'started'], ['summarize', 'completed']]);
+    });
+
+    it('Completes the memo when summarization fails', async () => {
+      (mockContext.env.AI.run as any).mockResolvedValue({ response: 'I cannot help with that.' });
+
+      const result = await processAudioWorkflow(workflowInput, mockContext);
+
+      expect(result.status).toBe('completed');
+      const prepared = (mockContext.env.DB.prepare as any).mock.calls.map((call: any[]) => call[0]);
+      expect(prepared.some((sql: string) => sql.includes('keyPoints'))).toBe(false);
+      const updates = await publishedUpdates();
+      expect(updates).toContainEqual(['summarize', 'failed']);
+      expect(updates).toContainEqual(['db_update', 'completed']);
+    });
+  });
+
+  describe('🏷️ Tags', () => {
+    const workflowInput: WorkflowInput = {
+      taskId: 'task-123',
+      userId: 'user-456',
+      r2Key: 'uploads/user-456/task-123.webm',
+      transcription: 'Renew the vendor contract before the budget review.',
+    };
+
+    beforeEach(() => {
+      vi.mocked(extractTasks).mockReset();
+      vi.mocked(extractTasks).mockResolvedValueOnce([
+        { task: 'Renew vendor contract', due: null, generative_task_prompt: null },
+      ]);
+      (mockContext.env.DB.prepare as any).mockImplementation((sql: string) => ({
+        bind: vi.fn().mockImplementation((...params: any[]) => ({
+          sql,
+          params,
+          run: vi.fn().mockResolvedValue({ success: true }),
+          all: vi.fn().mockResolvedValue({ results: sql.includes('memoCount') ? [{ name: 'Work' }] : [] }),
+        })),
+      }));
+    });
+
+    it('Replaces the memo\'s AI tags with tidied suggestions, offering existing tags for reuse', async () => {
+      (mockContext.env.AI.run as any).mockImplementation(async (_model: string, input: any) =>
+        input.prompt?.includes('topic tags')
+          ? { response: 'Sure! {"tags": ["Work", "#contracts", "work", "budget", "finance"]}' }
+          : { response: 'mock response' }
+      );
+
+      const result = await processAudioWorkflow(workflowInput, mockContext);
+
+      expect(result.status).toBe('completed');
+      const tagPrompt = (mockContext.env.AI.run as any).mock.calls
+        .map((call: any[]) => call[1].prompt)
+        .find((prompt?: string) => prompt?.includes('topic tags'));
+      expect(tagPrompt).toContain('existing tags when one fits: Work');
+
+      const [remove, ...inserts] = (mockContext.env.DB.batch as any).mock.calls
+        .map((call: any[]) => call[0])
+        .find((statements: any[]) => statements[0].sql.includes('memo_tags'));
+      expect(remove.sql).toContain("DELETE FROM memo_tags WHERE taskId = ? AND source = 'ai'");
+      const attached = inserts.filter((statement: any) => statement.sql.includes('INSERT INTO memo_tags'));
+      expect(attached.map((statement: any) => [statement.params[2], statement.params[5]])).toEqual([
+        ['ai', 'work'],
+        ['ai', 'contracts'],
+        ['ai', 'budget'],
+      ]);
+    });
+
+    it('Completes the memo when tagging fails', async () => {
+      (mockContext.env.AI.run as any).mockResolvedValue({ response: 'I cannot help with that.' });
+
+      const result = await processAudioWorkflow(workflowInput, mockContext);
+
+      expect(result.status).toBe('completed');
+      const batches = (mockContext.env.DB.batch as any).mock.calls.map((call: any[]) => call[0]);
+      expect(batches.some((statements: any[]) => statements[0].sql.includes('memo_tags'))).toBe(false);
+    });
+  });
+
+  describe('⚡ Parallel Generation', () => {
+    const generativeTasks: ProcessedTask[] = [1, 2, 3, 4].map((n) => ({
+      task: `Task ${n}`,
+      due: null,
+      generative_task_prompt: `Prompt ${n}`,
+    }));
+
+    beforeEach(() => {
+      vi.mocked(extractTasks).mockReset();
+      vi.mocked(generateTaskContent).mockReset();
+      vi.mocked(extractTasks).mockResolvedValueOnce(generativeTasks);
+    });
+
+    it('Generates several tasks at once, up to the concurrency limit, keeping task order', async () => {
+      let inFlight = 0;
+      let maxInFlight = 0;
+      vi.mocked(generateTaskContent).mockImplementation(async (prompt) => {
+        inFlight++;
+        maxInFlight = Math.max(maxInFlight, inFlight);
+        // Later tasks finish first
+        await new Promise((resolve) => setTimeout(resolve, 20 - Number(prompt.slice(-1)) * 5));
+        inFlight--;
+        return `Content for ${prompt}`;
+      });
+
+      const result = await processAudioWorkflow(
+        { taskId: 'task-123', userId: 'user-456', r2Key: 'uploads/user-456/task-123.webm', transcription: 'Four drafts' },
+        mockContext,
+        { generateConcurrency: 2 }
+      );
+
+      if (result.status !== 'completed') {
+        throw new Error('Expected workflow to complete');
+      }
+      expect(maxInFlight).toBe(2);
+      expect(result.processedTasks.map((task) => task.generated_content)).toEqual([
+        'Content for Prompt 1',
+        'Content for Prompt 2',
+        'Content for Prompt 3',
+        'Content for Prompt 4',
+      ]);
+    });
+
+    it('Fails only the task whose generation times out', async () => {
+      const doFetch = vi.fn().mockResolvedValue(new Response('{}'));
+      mockContext.env.TASK_STATUS_DO = {
+        idFromName: vi.fn().mockReturnValue('do-id'),
+        get: vi.fn().mockReturnValue({ fetch: doFetch }),
+      };
+      vi.mocked(generateTaskContent).mockImplementation(async (prompt) =>
+        prompt === 'Prompt 2' ? new Promise<string>(() => {}) : `Content for ${prompt}`
+      );
+
+      const result = await processAudioWorkflow(
+        { taskId: 'task-123', userId: 'user-456', r2Key: 'uploads/user-456/task-123.webm', transcription: 'Four drafts' },
+        mockContext,
+        { generateTimeoutMs: 10 }
+      );
+
+      if (result.status !== 'completed') {
+        throw new Error('Expected workflow to complete');
+      }
+      expect(result.processedTasks.map((task) => task.generated_content)).toEqual([
+        'Content for Prompt 1',
+        undefined,
+        'Content for Prompt 3',
+        'Content for Prompt 4',
+      ]);
+
+      const published = await Promise.all(
+        doFetch.mock.calls.map(async (call: any[]) => (call[0] as Request).json())
+      ) as any[];
+      expect(published).toContainEqual(expect.objectContaining({
+        stage: 'generate',
+        status: 'failed',
+        itemIndex: 1,
+        error_message: 'Content generation for task 2 timed out after 10ms',
+      }));
+    });
+  });
+
+  describe('📡 Status Updates', () => {
+    it('Publishes a progress update for each transcribed chunk of a long recording', async () => {
+      vi.mocked(transcribeAudio).mockReset();
+      vi.mocked(extractTasks).mockReset();
+      const doFetch = vi.fn().mockResolvedValue(new Response('{}'));
+      mockContext.env.TASK_STATUS_DO = {
+        idFromName: vi.fn().mockReturnValue('do-id'),
+        get: vi.fn().mockReturnValue({ fetch: doFetch }),
+      };
+      (mockContext.env.R2_BUCKET.get as any).mockResolvedValue({
+        arrayBuffer: vi.fn().mockResolvedValue(Buffer.from('mock audio data').buffer),
+      });
+      vi.mocked(transcribeAudio).mockImplementationOnce(async (_audio, _env, options) => {
+        options?.onChunkTranscribed?.(1, 2);
+        options?.onChunkTranscribed?.(2, 2);
+        return { text: 'A long meeting', segments: [] };
+      });
+      vi.mocked(extractTasks).mockResolvedValueOnce([]);
+
+      await processAudioWorkflow(
+        { taskId: 'task-123', userId: 'user-456', r2Key: 'uploads/user-456/task-123.webm' },
+        mockContext
+      );
+
+      const published = await Promise.all(
+        doFetch.mock.calls.map(async (call: any[]) => (call[0] as Request).json())
+      ) as any[];
+      const progress = published.filter((update) => update.status === 'progress');
+      expect(progress).toEqual([
+        expect.objectContaining({ stage: 'transcribe', progress: { completed: 1, total: 2 } }),
+        expect.objectContaining({ stage: 'transcribe', progress: { completed: 2, total: 2 } }),
+      ]);
+    });
+
+    it('Streams generated content as coalesced delta updates for the task being generated', async () => {
+      vi.mocked(extractTasks).mockReset();
+      vi.mocked(generateTaskContent).mockReset();
+      const doFetch = vi.fn().mockResolvedValue(new Response('{}'));
+      mockContext.env.TASK_STATUS_DO = {
+        idFromName: vi.fn().mockReturnValue('do-id'),
+        get: vi.fn().mockReturnValue({ fetch: doFetch }),
+      };
+      vi.mocked(extractTasks).mockResolvedValueOnce([
+        { task: 'Call the bank', due: null, generative_task_prompt: null },
+        { task: 'Draft outline', due: null, generative_task_prompt: 'Draft an outline' },
+      ]);
+      vi.mocked(generateTaskContent).mockImplementationOnce(async (_prompt, _env, options) => {
+        options?.onDelta?.('# Out');
+        options?.onDelta?.('line');
+        options?.onDelta?.('x'.repeat(64));
+        options?.onDelta?.('\n- Intro');
+        return '# Outline';
+      });
+
+      await processAudioWorkflow(
+        { taskId: 'task-123', userId: 'user-456', r2Key: 'uploads/user-456/task-123.webm', transcription: 'Draft an outline' },
+        mockContext
+      );
+
+      const published = await Promise.all(
+        doFetch.mock.calls.map(async (call: any[]) => (call[0] as Request).json())
+      ) as any[];
+      const generateUpdates = published.filter((update) => update.stage === 'generate');
+      expect(generateUpdates.map((update) => [update.status, update.itemIndex, update.delta])).toEqual([
+        ['started', 1, undefined],
+        ['delta', 1, `# Outline${'x'.repeat(64)}`],
+        ['delta', 1, '\n- Intro'],
+        ['completed', 1, undefined],
+      ]);
+    });
+
+    it('Labels each task\'s generate updates with the task and how many tasks are generating', async () => {
+      vi.mocked(extractTasks).mockReset();
+      vi.mocked(generateTaskContent).mockReset();
+      const doFetch = vi.fn().mockResolvedValue(new Response('{}'));
+      mockContext.env.TASK_STATUS_DO = {
+        idFromName: vi.fn().mockReturnValue('do-id'),
+        get: vi.fn().mockReturnValue({ fetch: doFetch }),
+      };
+      vi.mocked(extractTasks).mockResolvedValueOnce([
+        { task: 'Draft email', due: null, generative_task_prompt: 'Draft an email' },
+        { task: 'Call the bank', due: null, generative_task_prompt: null },
+        { task: 'Draft outline', due: null, generative_task_prompt: 'Draft an outline' },
+      ]);
+      vi.mocked(generateTaskContent)
+        .mockResolvedValueOnce('Dear team,')
+        .mockRejectedValueOnce(new Error('Model overloaded'));
+
+      await processAudioWorkflow(
+        { taskId: 'task-123', userId: 'user-456', r2Key: 'uploads/user-456/task-123.webm', transcription: 'Two drafts' },
+        mockContext
+      );
+
+      const published = await Promise.all(
+        doFetch.mock.calls.map(async (call: any[]) => (call[0] as Request).json())
+      ) as any[];
+      const generateUpdates = published.filter((update) => update.stage === 'generate' && update.status !== 'delta');
+      expect(generateUpdates.map((update) => [update.itemIndex, update.status, update.itemTask, update.itemCount])).toEqual(
+        expect.arrayContaining([
+          [0, 'started', 'Draft email', 2],
+          [0, 'completed', 'Draft email', 2],
+          [2, 'started', 'Draft outline', 2],
+          [2, 'failed', 'Draft outline', 2],
+        ])
+      );
+      expect(generateUpdates).toHaveLength(4);
+    });
+  });
 });
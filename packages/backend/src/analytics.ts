@@ -10,14 +10,18 @@ export interface PipelineEvent {
     | 'upload'
     | 'queue'
     | 'transcribe'
+    | 'summarize'
     | 'extract'
+    | 'tag'
     | 'generate'
+    | 'embed'
     | 'db_update';
   duration_ms: number;
   status: 'completed' | 'failed';
   metadata?: {
     audioSize?: number;
     taskCount?: number;
+    tagCount?: number;
     errorMessage?: string;
   };
 }
@@ -41,3 +45,45 @@ export async function logPipelineEvent(
     console.warn('[Analytics] Failed to log event:', error);
   }
 }
+
+export interface AuthAuditEvent {
+  timestamp: number;
+  userId: string;
+  authMode: 'dev-header' | 'api-key';
+  outcome: 'accepted' | 'rejected';
+  method: string;
+  path: string;
+  environment: string;
+  reason?: string;
+}
+
+/**
+ * Record an audit event for a request authenticated without Clerk
+ * Written to Analytics Engine and to the worker logs so it survives either sink failing
+ * @param analytics Analytics Engine binding
+ * @param event Audit event to log
+ */
+export function logAuthAuditEvent(
+  analytics: AnalyticsEngineDataset | undefined,
+  event: AuthAuditEvent
+): void {
+  console.warn('[Audit] Non-Clerk authentication:', JSON.stringify(event));
+
+  try {
+    analytics?.writeDataPoint({
+      indexes: ['auth_audit'],
+      blobs: [
+        event.authMode,
+        event.outcome,
+        event.userId,
+        event.method,
+        event.path,
+        event.environment,
+        event.reason || '',
+      ],
+      doubles: [event.timestamp],
+    });
+  } catch (error) {
+    console.warn('[Analytics] Failed to log audit event:', error);
+  }
+}
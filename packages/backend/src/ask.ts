@@ -0,0 +1,186 @@
+/**
+ * Retrieval-augmented question answering over a user's memos
+ * Finds the transcript passages closest to the question by embedding similarity,
+ * then asks Llama to answer from those passages and cite them
+ */
+
+import type { Ai } from '@cloudflare/workers-types';
+import { getTask, type MemoEmbeddingWithMemo } from './db';
+import { getCandidateEmbeddings } from './retrieval';
+import { cosineSimilarity, decodeVector, type Embedder } from './workflow/embed';
+import { getAskSystemPrompt } from './workflow/prompts';
+import type { TranscriptSegment } from './workflow/segments';
+
+const ASK_MODEL = '@cf/meta/llama-3-8b-instruct';
+const MAX_PASSAGES = 8;
+// Segments are single sentences; include this many neighbours on each side for context
+const PASSAGE_CONTEXT_SEGMENTS = 1;
+
+/**
+ * A transcript passage given to the model, numbered from 1 for citations
+ * start/end are seconds into the recording (null when the memo has no timestamps)
+ */
+export interface AskPassage {
+  ref: number;
+  taskId: string;
+  memoCreatedAt: string;
+  start: number | null;
+  end: number | null;
+  text: string;
+  score: number;
+}
+
+/**
+ * Earlier turn of the conversation, so follow-up questions have context
+ */
+export interface AskMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+/**
+ * Select the passages most relevant to a question
+ * Segment matches are widened with their neighbouring segments; memos without
+ * segments fall back to their whole-memo text. Overlapping passages are merged.
+ */
+export async function retrievePassages(
+  db: D1Database,
+  userId: string,
+  question: string,
+  embedder: Embedder
+): Promise<AskPassage[]> {
+  const [questionVector] = await embedder.embed([question]);
+  const embeddings = await getCandidateEmbeddings(db, userId, embedder.model, questionVector);
+
+  const memosWithSegments = new Set(
+    embeddings.filter((embedding) => embedding.segmentIndex !== null).map((embedding) => embedding.taskId)
+  );
+  const ranked = embeddings
+    .filter((embedding) => embedding.segmentIndex !== null || !memosWithSegments.has(embedding.taskId))
+    .map((embedding) => ({ embedding, score: cosineSimilarity(decodeVector(embedding.vector), questionVector) }))
+    .sort((a, b) => b.score - a.score);
+
+  const segmentsByMemo = new Map<string, TranscriptSegment[]>();
+  const windowsByMemo = new Map<string, Array<[number, number]>>();
+  const passages: AskPassage[] = [];
+
+  for (const { embedding, score } of ranked) {
+    if (passages.length >= MAX_PASSAGES) {
+      break;
+    }
+
+    const { segmentIndex } = embedding;
+    if (segmentIndex === null) {
+      passages.push(toPassage(passages.length + 1, embedding, score, embedding.text, null, null));
+      continue;
+    }
+
+    const windows = windowsByMemo.get(embedding.taskId) ?? [];
+    if (windows.some(([from, to]) => segmentIndex >= from && segmentIndex <= to)) {
+      continue;
+    }
+
+    let segments = segmentsByMemo.get(embedding.taskId);
+    if (!segments) {
+      const task = await getTask(db, embedding.taskId, userId);
+      segments = task?.transcriptSegments ? (JSON.parse(task.transcriptSegments) as TranscriptSegment[]) : [];
+      segmentsByMemo.set(embedding.taskId, segments);
+    }
+
+    const from = Math.max(0, segmentIndex - PASSAGE_CONTEXT_SEGMENTS);
+    const to = Math.min(segments.length - 1, segmentIndex + PASSAGE_CONTEXT_SEGMENTS);
+    const window = segments.slice(from, to + 1);
+    if (window.length === 0) {
+      // Segments were replaced since embedding; use the stored text on its own
+      passages.push(toPassage(passages.length + 1, embedding, score, embedding.text, null, null));
+      continue;
+    }
+
+    windows.push([from, to]);
+    windowsByMemo.set(embedding.taskId, windows);
+    passages.push(
+      toPassage(
+        passages.length + 1,
+        embedding,
+        score,
+        window.map((segment) => segment.text.trim()).join(' '),
+        window[0].start,
+        window[window.length - 1].end
+      )
+    );
+  }
+
+  return passages;
+}
+
+/**
+ * Build the chat messages for the model: instructions with passages, earlier turns, then the question
+ */
+export function buildAskMessages(
+  question: string,
+  passages: AskPassage[],
+  history: AskMessage[] = []
+): Array<{ role: 'system' | 'user' | 'assistant'; content: string }> {
+  const passageText = passages
+    .map((passage) => `[${passage.ref}] (memo recorded ${passage.memoCreatedAt}) ${passage.text}`)
+    .join('\n');
+
+  return [
+    { role: 'system', content: getAskSystemPrompt(passageText) },
+    ...history.map(({ role, content }) => ({ role, content })),
+    { role: 'user', content: question },
+  ];
+}
+
+/**
+ * Ask Llama to answer the question from the passages
+ */
+export async function generateAnswer(
+  question: string,
+  passages: AskPassage[],
+  history: AskMessage[],
+  env: { AI?: Ai }
+): Promise<string> {
+  if (!env.AI) {
+    throw new Error('Cloudflare Workers AI not available. Please configure AI binding in wrangler.toml');
+  }
+
+  const response = await env.AI.run(ASK_MODEL, {
+    messages: buildAskMessages(question, passages, history),
+    max_tokens: 512,
+  }) as { response?: string };
+
+  if (!response?.response) {
+    throw new Error('Llama 3 returned empty response');
+  }
+
+  return response.response.trim();
+}
+
+/**
+ * Passages the answer cites as [n], in order of first citation
+ * References to passages that don't exist are ignored
+ */
+export function getCitedPassages(answer: string, passages: AskPassage[]): AskPassage[] {
+  const cited: AskPassage[] = [];
+
+  for (const match of answer.matchAll(/\[(\d+)\]/g)) {
+    const passage = passages.find((candidate) => candidate.ref === Number(match[1]));
+    if (passage && !cited.includes(passage)) {
+      cited.push(passage);
+    }
+  }
+
+  return cited;
+}
+
+function toPassage(
+  ref: number,
+  embedding: MemoEmbeddingWithMemo,
+  score: number,
+  text: string,
+  start: number | null,
+  end: number | null
+): AskPassage {
+  return { ref, taskId: embedding.taskId, memoCreatedAt: embedding.memoCreatedAt, start, end, text, score };
+}
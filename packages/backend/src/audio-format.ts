@@ -0,0 +1,264 @@
+/**
+ * Audio container detection from file content (magic bytes)
+ * The declared MIME type and filename come from the client, so the stored extension
+ * and Content-Type are taken from what the bytes actually are
+ */
+
+import { findMp4Box, getId3TagLength, readMpegFrameHeader } from './audio-metadata';
+
+export type AudioFormat = 'webm' | 'mp3' | 'wav' | 'ogg' | 'flac' | 'm4a';
+
+export interface AudioFormatInfo {
+  label: string;
+  contentType: string;
+  extension: string;
+  /** Declared MIME types that mean this format (browsers and OSes disagree) */
+  mimeTypes: string[];
+}
+
+export const AUDIO_FORMATS: Record<AudioFormat, AudioFormatInfo> = {
+  webm: { label: 'WebM', contentType: 'audio/webm', extension: '.webm', mimeTypes: ['audio/webm', 'video/webm', 'audio/x-matroska'] },
+  mp3: { label: 'MP3', contentType: 'audio/mpeg', extension: '.mp3', mimeTypes: ['audio/mpeg', 'audio/mp3', 'audio/mpeg3'] },
+  wav: { label: 'WAV', contentType: 'audio/wav', extension: '.wav', mimeTypes: ['audio/wav', 'audio/x-wav', 'audio/wave', 'audio/vnd.wave'] },
+  ogg: { label: 'OGG', contentType: 'audio/ogg', extension: '.ogg', mimeTypes: ['audio/ogg', 'application/ogg'] },
+  flac: { label: 'FLAC', contentType: 'audio/flac', extension: '.flac', mimeTypes: ['audio/flac', 'audio/x-flac'] },
+  m4a: { label: 'M4A', contentType: 'audio/mp4', extension: '.m4a', mimeTypes: ['audio/mp4', 'audio/x-m4a', 'audio/m4a', 'audio/aac'] },
+};
+
+/**
+ * Formats accepted for upload
+ */
+export const SUPPORTED_AUDIO_FORMATS: AudioFormat[] = ['webm', 'mp3', 'wav', 'm4a', 'ogg', 'flac'];
+
+/**
+ * Declared types that say nothing about the format, so only the content is checked
+ */
+const GENERIC_MIME_TYPES = ['', 'application/octet-stream'];
+
+export interface DetectedAudio {
+  format: AudioFormat;
+  /** Why the header is invalid, when the file starts like this format but is damaged */
+  corrupt?: string;
+  /** What the file is instead, when its container is shared with non-audio files (e.g. "a HEIC image") */
+  notAudio?: string;
+}
+
+/**
+ * ISO base media brands (ftyp major or compatible) that hold M4A audio
+ * mp42, isom and dash are generic, but they are what many recorders write for audio-only files,
+ * so files with these brands are also checked for a video track
+ */
+const MP4_AUDIO_BRANDS = ['M4A ', 'M4B ', 'M4P ', 'F4A ', 'F4B ', 'mp41', 'mp42', 'isom', 'iso2', 'iso5', 'iso6', 'dash'];
+
+/**
+ * Major brands of images and videos in the same container, by what to call them
+ */
+const MP4_NON_AUDIO_BRANDS: Record<string, string> = {
+  heic: 'a HEIC image',
+  heix: 'a HEIC image',
+  hevc: 'a HEIC image sequence',
+  mif1: 'a HEIF image',
+  msf1: 'a HEIF image sequence',
+  avif: 'an AVIF image',
+  avis: 'an AVIF image sequence',
+  'M4V ': 'an M4V video',
+  'qt  ': 'a QuickTime movie',
+  '3gp4': 'a 3GP video',
+  '3gp5': 'a 3GP video',
+  '3gp6': 'a 3GP video',
+  '3g2a': 'a 3GP video',
+};
+
+/**
+ * Detect the audio container from the first bytes of a file
+ * Returns null when the content is not a recognized audio format
+ */
+export function detectAudioFormat(bytes: Uint8Array): DetectedAudio | null {
+  if (startsWith(bytes, [0x1a, 0x45, 0xdf, 0xa3])) {
+    return { format: 'webm' };
+  }
+
+  if (startsWith(bytes, ascii('ID3'))) {
+    return detectId3Mp3(bytes);
+  }
+
+  if (startsWith(bytes, ascii('RIFF'))) {
+    if (bytes.length < 12) return { format: 'wav', corrupt: 'RIFF header is truncated' };
+    if (!matchesAt(bytes, 8, ascii('WAVE'))) return { format: 'wav', corrupt: 'RIFF file is not WAVE audio' };
+    return { format: 'wav' };
+  }
+
+  if (startsWith(bytes, ascii('OggS'))) {
+    return { format: 'ogg' };
+  }
+
+  if (startsWith(bytes, ascii('fLaC'))) {
+    return { format: 'flac' };
+  }
+
+  if (matchesAt(bytes, 4, ascii('ftyp'))) {
+    return detectMp4Brand(bytes);
+  }
+
+  if (readMpegFrameHeader(bytes, 0)) {
+    return { format: 'mp3' };
+  }
+
+  return null;
+}
+
+/**
+ * Map a declared MIME type to a format, ignoring parameters such as ";codecs=opus"
+ */
+export function getAudioFormatForMimeType(mimeType: string): AudioFormat | null {
+  const baseType = normalizeMimeType(mimeType);
+  const entry = Object.entries(AUDIO_FORMATS).find(([, info]) => info.mimeTypes.includes(baseType));
+  return entry ? (entry[0] as AudioFormat) : null;
+}
+
+/**
+ * Whether a declared MIME type is acceptable before the content is seen
+ */
+export function isSupportedAudioMimeType(mimeType: string): boolean {
+  const format = getAudioFormatForMimeType(mimeType);
+  return format !== null && SUPPORTED_AUDIO_FORMATS.includes(format);
+}
+
+/**
+ * Check a file's content against its declared MIME type and the supported formats
+ * Returns the detected format, or the reason to reject the file with 415
+ */
+export function checkAudioContent(
+  bytes: Uint8Array,
+  declaredType: string
+): { format: AudioFormat } | { error: string } {
+  const declared = normalizeMimeType(declaredType);
+  const isGeneric = GENERIC_MIME_TYPES.includes(declared);
+  if (!isGeneric && !isSupportedAudioMimeType(declared)) {
+    return { error: `Audio file type '${declaredType}' is not supported. Supported formats: ${describeSupportedFormats()}` };
+  }
+
+  const detected = detectAudioFormat(bytes);
+  if (!detected) {
+    return { error: `File content is not a recognized audio format. Supported formats: ${describeSupportedFormats()}` };
+  }
+
+  const { label } = AUDIO_FORMATS[detected.format];
+  if (detected.corrupt) {
+    return { error: `File looks like ${label} audio but is corrupt: ${detected.corrupt}` };
+  }
+
+  if (detected.notAudio) {
+    return { error: `File content is ${detected.notAudio}, which is not supported. Supported formats: ${describeSupportedFormats()}` };
+  }
+
+  if (!SUPPORTED_AUDIO_FORMATS.includes(detected.format)) {
+    return { error: `File content is ${label} audio, which is not supported. Supported formats: ${describeSupportedFormats()}` };
+  }
+
+  if (!isGeneric && getAudioFormatForMimeType(declared) !== detected.format) {
+    return { error: `File is declared as '${declaredType}' but its content is ${label} audio` };
+  }
+
+  return { format: detected.format };
+}
+
+/**
+ * "WebM (audio/webm) and MP3 (audio/mpeg)"
+ */
+export function describeSupportedFormats(): string {
+  const names = SUPPORTED_AUDIO_FORMATS.map((format) => `${AUDIO_FORMATS[format].label} (${AUDIO_FORMATS[format].contentType})`);
+  return names.length > 1 ? `${names.slice(0, -1).join(', ')} and ${names[names.length - 1]}` : names.join('');
+}
+
+/**
+ * An ID3v2 tag must be followed by an MPEG frame
+ * When the tag is longer than the bytes we have, the tag header alone decides
+ */
+function detectId3Mp3(bytes: Uint8Array): DetectedAudio {
+  if (bytes.length < 10) {
+    return { format: 'mp3', corrupt: 'ID3 tag header is truncated' };
+  }
+
+  const sizeBytes = bytes.subarray(6, 10);
+  if (bytes[3] === 0xff || bytes[4] === 0xff || sizeBytes.some((byte) => byte & 0x80)) {
+    return { format: 'mp3', corrupt: 'ID3 tag header is invalid' };
+  }
+
+  const frameOffset = getId3TagLength(bytes);
+  if (frameOffset + 4 <= bytes.length && !readMpegFrameHeader(bytes, frameOffset)) {
+    return { format: 'mp3', corrupt: 'no MPEG audio frame after the ID3 tag' };
+  }
+
+  return { format: 'mp3' };
+}
+
+/**
+ * MP4 video, 3GP and HEIC images share the M4A container; the ftyp brands say which it is
+ * The major brand decides, unless it is unknown and a compatible brand is an audio one
+ * Generic brands are shared with video, so a video track in the moov box also rejects the file
+ */
+function detectMp4Brand(bytes: Uint8Array): DetectedAudio {
+  if (bytes.length < 12) {
+    return { format: 'm4a', corrupt: 'ftyp box is truncated' };
+  }
+
+  const majorBrand = String.fromCharCode(...bytes.subarray(8, 12));
+  if (MP4_NON_AUDIO_BRANDS[majorBrand]) {
+    return { format: 'm4a', notAudio: MP4_NON_AUDIO_BRANDS[majorBrand] };
+  }
+
+  // Compatible brands follow the major brand and minor version, to the end of the box
+  const boxEnd = Math.min((bytes[0] << 24) | (bytes[1] << 16) | (bytes[2] << 8) | bytes[3], bytes.length);
+  const brands = [majorBrand];
+  for (let offset = 16; offset + 4 <= boxEnd; offset += 4) {
+    brands.push(String.fromCharCode(...bytes.subarray(offset, offset + 4)));
+  }
+
+  if (!brands.some((brand) => MP4_AUDIO_BRANDS.includes(brand))) {
+    return { format: 'm4a', notAudio: `an MP4 file of type '${majorBrand.trim()}'` };
+  }
+  if (hasMp4VideoTrack(bytes)) {
+    return { format: 'm4a', notAudio: 'an MP4 video' };
+  }
+  return { format: 'm4a' };
+}
+
+/**
+ * Whether any track in the moov box has a video handler (hdlr type 'vide')
+ * Only a moov box within the given bytes is seen; when it is written after the media data
+ * (no "fast start") and the bytes are just the start of the file, a video is not detected here
+ */
+function hasMp4VideoTrack(bytes: Uint8Array): boolean {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const moov = findMp4Box(bytes, view, ['moov']);
+  if (!moov) return false;
+
+  for (
+    let trak = findMp4Box(bytes, view, ['trak'], moov.start, moov.end);
+    trak;
+    trak = findMp4Box(bytes, view, ['trak'], trak.end, moov.end)
+  ) {
+    // Full box header and pre_defined, then the handler type
+    const hdlr = findMp4Box(bytes, view, ['mdia', 'hdlr'], trak.start, trak.end);
+    if (hdlr && matchesAt(bytes, hdlr.start + 8, ascii('vide'))) return true;
+  }
+  return false;
+}
+
+function normalizeMimeType(mimeType: string): string {
+  return mimeType.split(';')[0].trim().toLowerCase();
+}
+
+function ascii(text: string): number[] {
+  return Array.from(text, (char) => char.charCodeAt(0));
+}
+
+function startsWith(bytes: Uint8Array, signature: number[]): boolean {
+  return matchesAt(bytes, 0, signature);
+}
+
+function matchesAt(bytes: Uint8Array, offset: number, signature: number[]): boolean {
+  if (offset + signature.length > bytes.length) return false;
+  return signature.every((byte, idx) => bytes[offset + idx] === byte);
+}
@@ -0,0 +1,716 @@
+/**
+ * Audio metadata read from container headers at upload
+ * Parsing is best effort: the file has already passed format detection, so a field
+ * that can't be read is left null rather than failing the upload
+ */
+
+import { AUDIO_FORMATS, type AudioFormat } from './audio-format';
+
+export interface AudioMetadata {
+  durationSeconds: number | null;
+  sampleRate: number | null;
+  channels: number | null;
+  codec: string | null; // e.g. 'opus', 'aac', 'mp3', 'pcm'
+}
+
+const EMPTY_METADATA: AudioMetadata = { durationSeconds: null, sampleRate: null, channels: null, codec: null };
+
+/**
+ * What the parsers need of a file that isn't all in memory, besides its first bytes:
+ * its length, and its last bytes (an OGG's last page, a WebM's last Cluster)
+ */
+export interface AudioFileTail {
+  size: number;
+  tail: Uint8Array;
+}
+
+/**
+ * Reads `length` bytes of a stored file starting at `offset`
+ */
+export type ByteRangeReader = (offset: number, length: number) => Promise<Uint8Array>;
+
+// How much of the start and end of a stored file to read for its metadata
+export const METADATA_HEAD_BYTES = 256 * 1024;
+export const METADATA_TAIL_BYTES = 64 * 1024;
+
+interface FileEnd {
+  size: number;
+  tail: Uint8Array;
+  tailView: DataView;
+  /** Whether the tail is separate from the parsed bytes, rather than their own end */
+  partial: boolean;
+}
+
+/**
+ * Longest recording accepted at upload, unless the MAX_AUDIO_DURATION_SECONDS env var overrides it
+ * Recordings whose duration can't be read are accepted
+ */
+export const DEFAULT_MAX_AUDIO_DURATION_SECONDS = 60 * 60;
+
+/**
+ * Formats the transcriber can't split into chunks (see workflow/audio-chunks): their recordings go
+ * to Whisper in one request, so they are limited to what one request can handle
+ */
+export const UNSPLIT_AUDIO_FORMATS: AudioFormat[] = ['m4a', 'ogg', 'flac'];
+export const MAX_UNSPLIT_AUDIO_DURATION_SECONDS = 10 * 60;
+
+/**
+ * Maximum recording length from the MAX_AUDIO_DURATION_SECONDS env var, falling back to the default
+ */
+export function resolveMaxAudioDuration(value: string | undefined): number {
+  if (!value) {
+    return DEFAULT_MAX_AUDIO_DURATION_SECONDS;
+  }
+
+  const seconds = Number(value);
+  if (!Number.isFinite(seconds) || seconds <= 0) {
+    console.error('Ignoring invalid MAX_AUDIO_DURATION_SECONDS:', value);
+    return DEFAULT_MAX_AUDIO_DURATION_SECONDS;
+  }
+  return seconds;
+}
+
+/**
+ * Reason to reject a recording longer than maxSeconds, or null if it's short enough (or its length is unknown)
+ * Formats that can't be split for transcription are held to the lower of maxSeconds and MAX_UNSPLIT_AUDIO_DURATION_SECONDS
+ */
+export function checkAudioDuration(metadata: AudioMetadata, maxSeconds: number, format?: AudioFormat): string | null {
+  const { durationSeconds } = metadata;
+  if (durationSeconds === null) {
+    return null;
+  }
+
+  const unsplitLimit = Math.min(maxSeconds, MAX_UNSPLIT_AUDIO_DURATION_SECONDS);
+  if (format && UNSPLIT_AUDIO_FORMATS.includes(format) && durationSeconds > unsplitLimit) {
+    return (
+      `Recording is ${durationSeconds} seconds long; ${AUDIO_FORMATS[format].label} recordings are transcribed in one piece, ` +
+      `so the maximum is ${unsplitLimit} seconds. Convert it to WebM, MP3 or WAV to upload a longer recording`
+    );
+  }
+
+  if (durationSeconds <= maxSeconds) {
+    return null;
+  }
+  return `Recording is ${durationSeconds} seconds long; the maximum is ${maxSeconds} seconds`;
+}
+
+/**
+ * Read duration, sample rate, channel count and codec from a file's container headers
+ * `bytes` is the whole file, or only its start when `file` gives its size and last bytes
+ */
+export function parseAudioMetadata(bytes: Uint8Array, format: AudioFormat, file?: AudioFileTail): AudioMetadata {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const tail = file?.tail ?? bytes;
+  const fileEnd: FileEnd = {
+    size: file?.size ?? bytes.length,
+    tail,
+    tailView: new DataView(tail.buffer, tail.byteOffset, tail.byteLength),
+    partial: file !== undefined,
+  };
+
+  try {
+    const metadata = METADATA_PARSERS[format](bytes, view, fileEnd);
+    return {
+      durationSeconds: isPositive(metadata.durationSeconds) ? Math.round(metadata.durationSeconds * 1000) / 1000 : null,
+      sampleRate: isPositive(metadata.sampleRate) ? metadata.sampleRate : null,
+      channels: isPositive(metadata.channels) ? metadata.channels : null,
+      codec: metadata.codec,
+    };
+  } catch {
+    // Truncated or malformed header: reads ran past the end of the file
+    return EMPTY_METADATA;
+  }
+}
+
+const METADATA_PARSERS: Record<AudioFormat, (bytes: Uint8Array, view: DataView, file: FileEnd) => AudioMetadata> = {
+  webm: parseWebmMetadata,
+  mp3: parseMp3Metadata,
+  wav: parseWavMetadata,
+  ogg: parseOggMetadata,
+  flac: parseFlacMetadata,
+  m4a: parseMp4Metadata,
+};
+
+/**
+ * Read the metadata of a stored file from ranged reads of its start and end, without loading all of it
+ * An M4A's moov box can sit anywhere after the audio, so its position is found from the top-level box headers
+ */
+export async function readAudioMetadata(read: ByteRangeReader, size: number, format: AudioFormat): Promise<AudioMetadata> {
+  const head = await read(0, Math.min(size, METADATA_HEAD_BYTES));
+  if (size <= head.length) {
+    return parseAudioMetadata(head, format);
+  }
+
+  if (format === 'm4a') {
+    const moov = await findMp4MoovOffset(read, head, size);
+    const inHead = moov !== null && moov + 8 <= head.length;
+    return parseAudioMetadata(
+      moov === null || inHead ? head : await read(moov, Math.min(size - moov, METADATA_HEAD_BYTES)),
+      format
+    );
+  }
+
+  const tailLength = Math.min(size - head.length, METADATA_TAIL_BYTES);
+  return parseAudioMetadata(head, format, { size, tail: await read(size - tailLength, tailLength) });
+}
+
+export interface MpegFrameHeader {
+  version: 1 | 2 | 2.5;
+  layer: 1 | 2 | 3;
+  bitrateKbps: number; // 0 for free-format streams
+  sampleRate: number;
+  samplesPerFrame: number;
+  mono: boolean;
+}
+
+// Bitrates in kbps by bitrate index, for MPEG-1 and MPEG-2/2.5 layers I, II and III
+const MPEG1_BITRATES: Record<number, number[]> = {
+  1: [0, 32, 64, 96, 128, 160, 192, 224, 256, 288, 320, 352, 384, 416, 448],
+  2: [0, 32, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320, 384],
+  3: [0, 32, 40, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320],
+};
+const MPEG2_BITRATES: Record<number, number[]> = {
+  1: [0, 32, 48, 56, 64, 80, 96, 112, 128, 144, 160, 176, 192, 224, 256],
+  2: [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160],
+  3: [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160],
+};
+const MPEG_SAMPLE_RATES = { 1: [44100, 48000, 32000], 2: [22050, 24000, 16000], 2.5: [11025, 12000, 8000] };
+
+/**
+ * Read an MPEG audio frame header: 11 sync bits, then version, layer, bitrate and sample rate
+ * Returns null when the bytes at `offset` are not a valid frame header
+ */
+export function readMpegFrameHeader(bytes: Uint8Array, offset: number): MpegFrameHeader | null {
+  if (offset + 4 > bytes.length) return null;
+
+  const [b0, b1, b2, b3] = [bytes[offset], bytes[offset + 1], bytes[offset + 2], bytes[offset + 3]];
+  const versionBits = (b1 >> 3) & 0x03;
+  const layerBits = (b1 >> 1) & 0x03;
+  const bitrateIndex = b2 >> 4;
+  const sampleRateIndex = (b2 >> 2) & 0x03;
+
+  if (b0 !== 0xff || (b1 & 0xe0) !== 0xe0 || versionBits === 0x01 || layerBits === 0x00) return null;
+  if (bitrateIndex === 0x0f || sampleRateIndex === 0x03) return null;
+
+  const version = versionBits === 0x03 ? 1 : versionBits === 0x02 ? 2 : 2.5;
+  const layer = (4 - layerBits) as 1 | 2 | 3;
+
+  return {
+    version,
+    layer,
+    bitrateKbps: (version === 1 ? MPEG1_BITRATES : MPEG2_BITRATES)[layer][bitrateIndex],
+    sampleRate: MPEG_SAMPLE_RATES[version][sampleRateIndex],
+    samplesPerFrame: layer === 1 ? 384 : layer === 3 && version !== 1 ? 576 : 1152,
+    mono: b3 >> 6 === 0x03,
+  };
+}
+
+/**
+ * Total length of an ID3v2 tag at the start of the file (header, syncsafe size and optional footer)
+ */
+export function getId3TagLength(bytes: Uint8Array): number {
+  const size = (bytes[6] << 21) | (bytes[7] << 14) | (bytes[8] << 7) | bytes[9];
+  return 10 + size + (bytes[5] & 0x10 ? 10 : 0);
+}
+
+/**
+ * VBR files count their frames in a Xing/Info or VBRI header inside the first frame;
+ * constant bitrate files are timed from their size
+ */
+function parseMp3Metadata(bytes: Uint8Array, view: DataView, file: FileEnd): AudioMetadata {
+  const audioStart = matchesAscii(bytes, 0, 'ID3') ? getId3TagLength(bytes) : 0;
+  const frame = readMpegFrameHeader(bytes, audioStart);
+  if (!frame) return EMPTY_METADATA;
+
+  const sideInfoLength = frame.version === 1 ? (frame.mono ? 17 : 32) : frame.mono ? 9 : 17;
+  const xingOffset = audioStart + 4 + sideInfoLength;
+  const vbriOffset = audioStart + 36;
+
+  let frameCount: number | null = null;
+  if (matchesAscii(bytes, xingOffset, 'Xing') || matchesAscii(bytes, xingOffset, 'Info')) {
+    const flags = view.getUint32(xingOffset + 4);
+    if (flags & 0x01) frameCount = view.getUint32(xingOffset + 8);
+  } else if (matchesAscii(bytes, vbriOffset, 'VBRI')) {
+    frameCount = view.getUint32(vbriOffset + 14);
+  }
+
+  let durationSeconds: number | null = null;
+  if (frameCount !== null) {
+    durationSeconds = (frameCount * frame.samplesPerFrame) / frame.sampleRate;
+  } else if (frame.bitrateKbps > 0) {
+    durationSeconds = ((file.size - audioStart) * 8) / (frame.bitrateKbps * 1000);
+  }
+
+  return {
+    durationSeconds,
+    sampleRate: frame.sampleRate,
+    channels: frame.mono ? 1 : 2,
+    codec: `mp${frame.layer}`,
+  };
+}
+
+// WAVE format tags; 0xfffe (extensible) carries its real format in a GUID, almost always PCM
+const WAV_CODECS: Record<number, string> = { 0x0001: 'pcm', 0x0003: 'pcm_float', 0x0006: 'alaw', 0x0007: 'mulaw', 0xfffe: 'pcm' };
+
+/**
+ * Walk the RIFF chunks: 'fmt ' holds the format, channels and rates, 'data' the samples
+ */
+function parseWavMetadata(bytes: Uint8Array, view: DataView, file: FileEnd): AudioMetadata {
+  let sampleRate: number | null = null;
+  let channels: number | null = null;
+  let codec: string | null = null;
+  let byteRate = 0;
+  let durationSeconds: number | null = null;
+
+  for (let offset = 12; offset + 8 <= bytes.length; ) {
+    const chunkSize = view.getUint32(offset + 4, true);
+
+    if (matchesAscii(bytes, offset, 'fmt ')) {
+      codec = WAV_CODECS[view.getUint16(offset + 8, true)] ?? null;
+      channels = view.getUint16(offset + 10, true);
+      sampleRate = view.getUint32(offset + 12, true);
+      byteRate = view.getUint32(offset + 16, true);
+    } else if (matchesAscii(bytes, offset, 'data')) {
+      // Streaming writers leave the size unset, so never count past the end of the file
+      const dataSize = Math.min(chunkSize, file.size - offset - 8);
+      durationSeconds = byteRate > 0 ? dataSize / byteRate : null;
+      break;
+    }
+
+    // Chunks are padded to an even length
+    offset += 8 + chunkSize + (chunkSize % 2);
+  }
+
+  return { durationSeconds, sampleRate, channels, codec };
+}
+
+/**
+ * STREAMINFO is always the first metadata block, right after the "fLaC" marker
+ */
+function parseFlacMetadata(bytes: Uint8Array, view: DataView): AudioMetadata {
+  if ((bytes[4] & 0x7f) !== 0) return EMPTY_METADATA;
+
+  // 20-bit sample rate, 3-bit channels, 5-bit bits per sample, then a 36-bit sample count
+  const info = 8;
+  const sampleRate = (bytes[info + 10] << 12) | (bytes[info + 11] << 4) | (bytes[info + 12] >> 4);
+  const totalSamples = (bytes[info + 13] & 0x0f) * 2 ** 32 + view.getUint32(info + 14);
+
+  return {
+    durationSeconds: sampleRate > 0 && totalSamples > 0 ? totalSamples / sampleRate : null,
+    sampleRate,
+    channels: ((bytes[info + 12] >> 1) & 0x07) + 1,
+    codec: 'flac',
+  };
+}
+
+/**
+ * The first page carries the codec's identification header; the last page's
+ * granule position is the number of samples in the stream
+ */
+function parseOggMetadata(bytes: Uint8Array, view: DataView, file: FileEnd): AudioMetadata {
+  const packet = 27 + bytes[26];
+  let sampleRate: number | null = null;
+  let channels: number | null = null;
+  let codec: string | null = null;
+  let granuleRate: number | null = null;
+  let preSkip = 0;
+
+  if (matchesAscii(bytes, packet, 'OpusHead')) {
+    // Opus always decodes at 48kHz; the header also records the rate of the original input
+    codec = 'opus';
+    channels = bytes[packet + 9];
+    preSkip = view.getUint16(packet + 10, true);
+    sampleRate = view.getUint32(packet + 12, true) || 48000;
+    granuleRate = 48000;
+  } else if (bytes[packet] === 0x01 && matchesAscii(bytes, packet + 1, 'vorbis')) {
+    codec = 'vorbis';
+    channels = bytes[packet + 11];
+    sampleRate = view.getUint32(packet + 12, true);
+    granuleRate = sampleRate;
+  }
+
+  let durationSeconds: number | null = null;
+  const lastPage = findLastOggPage(file.tail);
+  if (granuleRate && lastPage >= 0) {
+    const granuleHigh = file.tailView.getUint32(lastPage + 10, true);
+    const granule = granuleHigh * 2 ** 32 + file.tailView.getUint32(lastPage + 6, true);
+    // A granule of -1 marks a page on which no packet ends
+    if (granuleHigh !== 0xffffffff) {
+      durationSeconds = Math.max(granule - preSkip, 0) / granuleRate;
+    }
+  }
+
+  return { durationSeconds, sampleRate, channels, codec };
+}
+
+function findLastOggPage(bytes: Uint8Array): number {
+  for (let offset = bytes.length - 27; offset >= 0; offset--) {
+    if (matchesAscii(bytes, offset, 'OggS') && bytes[offset + 4] === 0) return offset;
+  }
+  return -1;
+}
+
+// Sample entry types; anything else is reported by its own (lowercased) name
+const MP4_CODECS: Record<string, string> = { mp4a: 'aac', alac: 'alac', Opus: 'opus', fLaC: 'flac', '.mp3': 'mp3' };
+
+/**
+ * Duration from the movie header (mvhd); codec, channels and sample rate from the first track's sample entry
+ */
+function parseMp4Metadata(bytes: Uint8Array, view: DataView): AudioMetadata {
+  let durationSeconds: number | null = null;
+  let sampleRate: number | null = null;
+  let channels: number | null = null;
+  let codec: string | null = null;
+
+  const mvhd = findMp4Box(bytes, view, ['moov', 'mvhd']);
+  if (mvhd) {
+    const version = bytes[mvhd.start];
+    const timescale = view.getUint32(mvhd.start + (version === 1 ? 20 : 12));
+    const duration =
+      version === 1
+        ? view.getUint32(mvhd.start + 24) * 2 ** 32 + view.getUint32(mvhd.start + 28)
+        : view.getUint32(mvhd.start + 16);
+    durationSeconds = timescale > 0 ? duration / timescale : null;
+  }
+
+  const stsd = findMp4Box(bytes, view, ['moov', 'trak', 'mdia', 'minf', 'stbl', 'stsd']);
+  if (stsd) {
+    // Full box header and entry count, then the entry's box header, reserved bytes and
+    // data reference index; the audio sample entry's rate is 16.16 fixed point
+    const entry = stsd.start + 8;
+    const entryType = String.fromCharCode(...bytes.subarray(entry + 4, entry + 8));
+    codec = MP4_CODECS[entryType] ?? entryType.trim().toLowerCase();
+    channels = view.getUint16(entry + 24);
+    sampleRate = view.getUint16(entry + 32);
+  }
+
+  return { durationSeconds, sampleRate, channels, codec };
+}
+
+/**
+ * Walk the top-level box headers to the moov box, reading headers past the head as needed
+ * Returns null when there is no moov box or the headers don't add up
+ */
+async function findMp4MoovOffset(read: ByteRangeReader, head: Uint8Array, size: number): Promise<number | null> {
+  for (let offset = 0, boxes = 0; offset + 8 <= size && boxes < 64; boxes++) {
+    const header = offset + 16 <= head.length ? head.subarray(offset, offset + 16) : await read(offset, Math.min(16, size - offset));
+    const view = new DataView(header.buffer, header.byteOffset, header.byteLength);
+
+    if (matchesAscii(header, 4, 'moov')) return offset;
+
+    let boxSize = view.getUint32(0);
+    if (boxSize === 1 && header.length >= 16) {
+      boxSize = view.getUint32(8) * 2 ** 32 + view.getUint32(12);
+    } else if (boxSize === 0) {
+      // Box runs to the end of the file
+      return null;
+    }
+    if (boxSize < 8) return null;
+    offset += boxSize;
+  }
+  return null;
+}
+
+/**
+ * Find a box by its path from the top level, returning where its content starts and ends
+ */
+export function findMp4Box(
+  bytes: Uint8Array,
+  view: DataView,
+  path: string[],
+  start: number = 0,
+  end: number = bytes.length
+): { start: number; end: number } | null {
+  for (let offset = start; offset + 8 <= end; ) {
+    let size = view.getUint32(offset);
+    let headerLength = 8;
+    if (size === 1) {
+      // 64-bit size follows the type
+      if (offset + 16 > end) return null;
+      size = view.getUint32(offset + 8) * 2 ** 32 + view.getUint32(offset + 12);
+      headerLength = 16;
+    } else if (size === 0) {
+      // Box runs to the end of its parent
+      size = end - offset;
+    }
+    if (size < headerLength) return null;
+
+    const boxEnd = Math.min(offset + size, end);
+    if (matchesAscii(bytes, offset + 4, path[0])) {
+      const content = { start: offset + headerLength, end: boxEnd };
+      return path.length === 1 ? content : findMp4Box(bytes, view, path.slice(1), content.start, content.end);
+    }
+    offset = boxEnd;
+  }
+  return null;
+}
+
+const SEGMENT_ID = 0x18538067;
+const INFO_ID = 0x1549a966;
+const TIMECODE_SCALE_ID = 0x2ad7b1;
+const DURATION_ID = 0x4489;
+const TRACKS_ID = 0x1654ae6b;
+const TRACK_ENTRY_ID = 0xae;
+const CODEC_ID_ID = 0x86;
+const AUDIO_ID = 0xe1;
+const SAMPLING_FREQUENCY_ID = 0xb5;
+const CHANNELS_ID = 0x9f;
+const CLUSTER_ID = 0x1f43b675;
+const CLUSTER_TIMECODE_ID = 0xe7;
+const SIMPLE_BLOCK_ID = 0xa3;
+const BLOCK_GROUP_ID = 0xa0;
+const BLOCK_ID = 0xa1;
+
+// Top-level Segment children: an element of unknown size (a live-recorded Cluster) ends where one starts
+const LEVEL1_IDS = [
+  0x114d9b74, // SeekHead
+  INFO_ID,
+  TRACKS_ID,
+  CLUSTER_ID,
+  0x1c53bb6b, // Cues
+  0x1043a770, // Chapters
+  0x1254c367, // Tags
+  0x1941a469, // Attachments
+];
+
+const DEFAULT_TIMECODE_SCALE_NS = 1_000_000;
+
+// Matroska CodecIDs; others are reported without their "A_" prefix, lowercased
+const WEBM_CODECS: Record<string, string> = {
+  A_OPUS: 'opus',
+  A_VORBIS: 'vorbis',
+  A_AAC: 'aac',
+  A_FLAC: 'flac',
+  'A_MPEG/L3': 'mp3',
+  'A_PCM/INT/LIT': 'pcm',
+  'A_PCM/FLOAT/IEEE': 'pcm_float',
+};
+
+interface EbmlElement {
+  id: number;
+  dataStart: number;
+  dataEnd: number;
+  unknownSize: boolean;
+}
+
+/**
+ * Duration comes from Segment Info; browser recordings (MediaRecorder) don't write one,
+ * so the start of the last block in the last Cluster is used instead
+ */
+function parseWebmMetadata(bytes: Uint8Array, view: DataView, file: FileEnd): AudioMetadata {
+  const ebmlHeader = readEbmlElement(bytes, 0, bytes.length);
+  const segment = ebmlHeader && readEbmlElement(bytes, ebmlHeader.dataEnd, bytes.length);
+  if (!segment || segment.id !== SEGMENT_ID) return EMPTY_METADATA;
+
+  let timecodeScale = DEFAULT_TIMECODE_SCALE_NS;
+  let durationTicks: number | null = null;
+  let lastBlockTicks: number | null = null;
+  let track: Pick<AudioMetadata, 'sampleRate' | 'channels' | 'codec'> | null = null;
+
+  for (let offset = segment.dataStart; offset < segment.dataEnd; ) {
+    const element = readEbmlElement(bytes, offset, segment.dataEnd);
+    if (!element) break;
+
+    if (element.id === INFO_ID) {
+      for (const child of readEbmlChildren(bytes, element).children) {
+        if (child.id === TIMECODE_SCALE_ID) timecodeScale = readEbmlUint(bytes, child) || DEFAULT_TIMECODE_SCALE_NS;
+        if (child.id === DURATION_ID) durationTicks = readEbmlFloat(view, child);
+      }
+    } else if (element.id === TRACKS_ID && track === null) {
+      track = readWebmAudioTrack(bytes, view, element);
+    } else if (element.id === CLUSTER_ID) {
+      const cluster = readWebmCluster(bytes, view, element);
+      if (cluster.lastBlockTicks !== null) {
+        lastBlockTicks = Math.max(lastBlockTicks ?? 0, cluster.lastBlockTicks);
+      }
+      offset = cluster.end;
+      continue;
+    }
+
+    offset = element.dataEnd;
+  }
+
+  // Only the start of the file was parsed: the last Cluster is in the tail
+  if (durationTicks === null && file.partial) {
+    const lastCluster = findLastWebmCluster(file.tail, file.tailView);
+    if (lastCluster !== null) {
+      lastBlockTicks = Math.max(lastBlockTicks ?? 0, lastCluster);
+    }
+  }
+
+  const ticks = durationTicks ?? lastBlockTicks;
+  return {
+    durationSeconds: ticks !== null ? (ticks * timecodeScale) / 1e9 : null,
+    sampleRate: track?.sampleRate ?? null,
+    channels: track?.channels ?? null,
+    codec: track?.codec ?? null,
+  };
+}
+
+/**
+ * Timecode of a Cluster's last block, and where the Cluster ends (for Clusters of unknown size)
+ */
+function readWebmCluster(
+  bytes: Uint8Array,
+  view: DataView,
+  element: EbmlElement
+): { lastBlockTicks: number | null; end: number } {
+  const { children, end } = readEbmlChildren(bytes, element);
+  const timecode = children.find((child) => child.id === CLUSTER_TIMECODE_ID);
+  let lastBlockTicks: number | null = null;
+
+  for (const child of children) {
+    const block =
+      child.id === SIMPLE_BLOCK_ID
+        ? child
+        : child.id === BLOCK_GROUP_ID
+          ? readEbmlChildren(bytes, child).children.find((grandchild) => grandchild.id === BLOCK_ID)
+          : undefined;
+    // A block cut off by the end of the bytes we have may not hold its timecode yet
+    if (block && timecode && block.dataStart + 3 <= bytes.length) {
+      // Block: track number (vint), then a signed 16-bit timecode relative to the Cluster
+      const trackNumber = readVint(bytes, block.dataStart, false);
+      if (trackNumber) {
+        const blockTicks = readEbmlUint(bytes, timecode) + view.getInt16(block.dataStart + trackNumber.length);
+        lastBlockTicks = Math.max(lastBlockTicks ?? 0, blockTicks);
+      }
+    }
+  }
+
+  return { lastBlockTicks, end };
+}
+
+/**
+ * Search the end of a file backwards for the last Cluster that starts with its Timecode
+ */
+function findLastWebmCluster(tail: Uint8Array, view: DataView): number | null {
+  for (let offset = tail.length - 4; offset >= 0; offset--) {
+    if (tail[offset] !== 0x1f || view.getUint32(offset) !== CLUSTER_ID) continue;
+
+    const element = readEbmlElement(tail, offset, tail.length);
+    const firstChild = element && readEbmlElement(tail, element.dataStart, element.dataEnd);
+    if (element && firstChild?.id === CLUSTER_TIMECODE_ID) {
+      const cluster = readWebmCluster(tail, view, { ...element, unknownSize: true });
+      if (cluster.lastBlockTicks !== null) return cluster.lastBlockTicks;
+    }
+  }
+  return null;
+}
+
+/**
+ * Codec (TrackEntry → CodecID) and Audio → SamplingFrequency, Channels of the first audio track
+ */
+function readWebmAudioTrack(
+  bytes: Uint8Array,
+  view: DataView,
+  tracks: EbmlElement
+): Pick<AudioMetadata, 'sampleRate' | 'channels' | 'codec'> | null {
+  for (const entry of readEbmlChildren(bytes, tracks).children) {
+    if (entry.id !== TRACK_ENTRY_ID) continue;
+
+    const entryChildren = readEbmlChildren(bytes, entry).children;
+    const audio = entryChildren.find((child) => child.id === AUDIO_ID);
+    if (!audio) continue;
+
+    const audioChildren = readEbmlChildren(bytes, audio).children;
+    const frequency = audioChildren.find((child) => child.id === SAMPLING_FREQUENCY_ID);
+    const channels = audioChildren.find((child) => child.id === CHANNELS_ID);
+    const codecId = entryChildren.find((child) => child.id === CODEC_ID_ID);
+    // EBML strings may be padded with zero bytes
+    const codecName = codecId
+      ? String.fromCharCode(...bytes.subarray(codecId.dataStart, codecId.dataEnd)).replace(/\0+$/, '')
+      : null;
+
+    return {
+      sampleRate: frequency ? Math.round(readEbmlFloat(view, frequency) ?? 0) : null,
+      // Channels defaults to 1 when absent
+      channels: channels ? readEbmlUint(bytes, channels) : 1,
+      codec: codecName ? WEBM_CODECS[codecName] ?? codecName.replace(/^A_/, '').toLowerCase() : null,
+    };
+  }
+  return null;
+}
+
+/**
+ * Read an element's ID and size; content of unknown size runs to `limit`
+ */
+function readEbmlElement(bytes: Uint8Array, offset: number, limit: number): EbmlElement | null {
+  const id = readVint(bytes, offset, true);
+  const size = id && readVint(bytes, offset + id.length, false);
+  if (!id || !size) return null;
+
+  const dataStart = offset + id.length + size.length;
+  return {
+    id: id.value,
+    dataStart,
+    dataEnd: size.unknown ? limit : Math.min(dataStart + size.value, limit),
+    unknownSize: size.unknown,
+  };
+}
+
+/**
+ * Read an element's children, and where they end (for elements of unknown size)
+ */
+function readEbmlChildren(bytes: Uint8Array, parent: EbmlElement): { children: EbmlElement[]; end: number } {
+  const children: EbmlElement[] = [];
+  let offset = parent.dataStart;
+
+  while (offset < parent.dataEnd) {
+    const child = readEbmlElement(bytes, offset, parent.dataEnd);
+    if (!child || (parent.unknownSize && LEVEL1_IDS.includes(child.id))) break;
+    children.push(child);
+    offset = child.dataEnd;
+  }
+
+  return { children, end: offset };
+}
+
+/**
+ * EBML variable-size integer: the number of leading zero bits gives its length
+ * IDs keep the length marker bit; sizes drop it, and a size of all ones means "unknown"
+ */
+function readVint(
+  bytes: Uint8Array,
+  offset: number,
+  keepMarker: boolean
+): { value: number; length: number; unknown: boolean } | null {
+  const first = bytes[offset];
+  if (!first) return null;
+
+  const length = Math.clz32(first) - 23;
+  if (length > 8 || offset + length > bytes.length) return null;
+
+  let value = keepMarker ? first : first & (0xff >> length);
+  for (let i = 1; i < length; i++) {
+    value = value * 256 + bytes[offset + i];
+  }
+
+  return { value, length, unknown: !keepMarker && value === 2 ** (7 * length) - 1 };
+}
+
+function readEbmlUint(bytes: Uint8Array, element: EbmlElement | undefined): number {
+  let value = 0;
+  for (let offset = element?.dataStart ?? 0; element && offset < element.dataEnd; offset++) {
+    value = value * 256 + bytes[offset];
+  }
+  return value;
+}
+
+function readEbmlFloat(view: DataView, element: EbmlElement): number | null {
+  const length = element.dataEnd - element.dataStart;
+  if (length === 4) return view.getFloat32(element.dataStart);
+  if (length === 8) return view.getFloat64(element.dataStart);
+  return null;
+}
+
+function matchesAscii(bytes: Uint8Array, offset: number, text: string): boolean {
+  if (offset < 0 || offset + text.length > bytes.length) return false;
+  for (let i = 0; i < text.length; i++) {
+    if (bytes[offset + i] !== text.charCodeAt(i)) return false;
+  }
+  return true;
+}
+
+function isPositive(value: number | null): value is number {
+  return value !== null && Number.isFinite(value) && value > 0;
+}
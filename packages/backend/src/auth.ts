@@ -1,20 +1,97 @@
 /**
  * Clerk JWT Authentication Middleware
- * Validates Clerk tokens and extracts user information
+ * Validates Clerk tokens and personal API keys and extracts user information
  */
 
+import { getApiKeyByHash, touchApiKeyLastUsed } from './db';
+
+/**
+ * Represents decoded JWT header
+ */
+interface JWTHeader {
+  alg: string;
+  kid?: string;
+  typ?: string;
+}
+
 /**
  * Represents decoded JWT payload
  */
 interface JWTPayload {
   sub: string; // Clerk user ID
   iss?: string;
-  aud?: string[];
+  aud?: string | string[];
   iat?: number;
+  nbf?: number;
   exp?: number;
   [key: string]: any;
 }
 
+/**
+ * A JWT split into its verified-against parts
+ */
+interface DecodedJWT {
+  header: JWTHeader;
+  payload: JWTPayload;
+  signingInput: string; // `${header}.${payload}` as it appeared on the wire
+  signature: Uint8Array;
+}
+
+/**
+ * Configuration for verifying Clerk-issued tokens
+ */
+export interface ClerkAuthConfig {
+  jwksUrl: string;
+  issuer?: string;
+  audience?: string[];
+  clockSkewSeconds?: number;
+}
+
+/**
+ * Authentication methods the router can accept
+ * - clerk: Clerk session JWT in a Bearer Authorization header
+ * - dev-header: X-User-Id header, for local development only
+ * - api-key: personal API keys for scripted uploads
+ */
+export type AuthMode = 'clerk' | 'dev-header' | 'api-key';
+
+const AUTH_MODES: AuthMode[] = ['clerk', 'dev-header', 'api-key'];
+
+/**
+ * Permissions that can be granted to a personal API key
+ * - memos:read: list, fetch, download and ask questions about memos
+ * - memos:write: upload and delete memos
+ */
+export type ApiKeyScope = 'memos:read' | 'memos:write';
+
+export const API_KEY_SCOPES: ApiKeyScope[] = ['memos:read', 'memos:write'];
+
+/**
+ * Identity resolved from a valid API key
+ */
+export interface ApiKeyIdentity {
+  userId: string;
+  keyId: string;
+  scopes: ApiKeyScope[];
+}
+
+/**
+ * Environment variables used to resolve the enabled auth modes
+ */
+export interface AuthModeEnv {
+  AUTH_MODE?: string;
+  ENVIRONMENT?: string;
+}
+
+/**
+ * Environment variables used to build the Clerk auth configuration
+ */
+export interface ClerkAuthEnv {
+  CLERK_JWKS_URL?: string;
+  CLERK_ISSUER?: string;
+  CLERK_AUDIENCE?: string;
+}
+
 /**
  * Error thrown during auth validation
  */
@@ -28,71 +105,328 @@ export class AuthError extends Error {
   }
 }
 
+// Personal API keys look like `vmk_<43 base64url chars>` (32 random bytes)
+const API_KEY_PREFIX = 'vmk_';
+const API_KEY_PATTERN = /^vmk_[A-Za-z0-9_-]{43}$/;
+
+// Number of leading characters kept in plaintext so users can tell keys apart
+const API_KEY_DISPLAY_PREFIX_LENGTH = 12;
+
+// Allow 60 second clock skew between Clerk and the worker
+const DEFAULT_CLOCK_SKEW_SECONDS = 60;
+
+// Signing keys rarely change, so cache them for an hour
+const JWKS_CACHE_TTL_MS = 60 * 60 * 1000;
+
+// When a token references an unknown kid we refetch the JWKS (key rotation),
+// but never more often than this to avoid hammering Clerk with forged kids
+const JWKS_MIN_REFRESH_INTERVAL_MS = 30 * 1000;
+
 /**
- * Decode JWT payload without verification
- * NOTE: This trusts that the frontend validated the token with Clerk SDK
- * In production, consider verifying the signature using Clerk's public keys
+ * Cached signing keys for a single JWKS endpoint
  */
-function decodeJWT(token: string): JWTPayload {
+interface JWKSCacheEntry {
+  keys: Map<string, CryptoKey>;
+  fetchedAt: number;
+}
+
+const jwksCache = new Map<string, JWKSCacheEntry>();
+const jwksInflight = new Map<string, Promise<JWKSCacheEntry>>();
+
+/**
+ * Clear cached signing keys
+ * Used by tests to start from a cold cache
+ */
+export function clearJWKSCache(): void {
+  jwksCache.clear();
+  jwksInflight.clear();
+}
+
+/**
+ * Build the Clerk auth configuration from environment variables
+ * CLERK_JWKS_URL defaults to the issuer's well-known JWKS endpoint
+ * CLERK_AUDIENCE accepts a comma-separated list
+ */
+export function getClerkAuthConfig(env: ClerkAuthEnv): ClerkAuthConfig {
+  const issuer = env.CLERK_ISSUER?.replace(/\/$/, '') || undefined;
+  const jwksUrl = env.CLERK_JWKS_URL || (issuer ? `${issuer}/.well-known/jwks.json` : undefined);
+
+  if (!jwksUrl) {
+    console.error('[Auth] Neither CLERK_JWKS_URL nor CLERK_ISSUER is configured');
+    throw new AuthError('Authentication is not configured', 500);
+  }
+
+  const audience = env.CLERK_AUDIENCE
+    ? env.CLERK_AUDIENCE.split(',').map((aud) => aud.trim()).filter(Boolean)
+    : undefined;
+
+  return {
+    jwksUrl,
+    issuer,
+    audience: audience && audience.length > 0 ? audience : undefined,
+  };
+}
+
+/**
+ * Whether the worker is running in the production environment
+ */
+export function isProductionEnvironment(env: AuthModeEnv): boolean {
+  return env.ENVIRONMENT === 'production';
+}
+
+/**
+ * Resolve the enabled auth modes from AUTH_MODE (comma-separated, defaults to 'clerk')
+ * 'dev-header' is dropped in production regardless of configuration
+ */
+export function getAuthModes(env: AuthModeEnv): AuthMode[] {
+  const requested = (env.AUTH_MODE || 'clerk')
+    .split(',')
+    .map((mode) => mode.trim())
+    .filter(Boolean);
+
+  const modes: AuthMode[] = [];
+  for (const mode of requested) {
+    if (!AUTH_MODES.includes(mode as AuthMode)) {
+      console.error(`[Auth] Ignoring unknown AUTH_MODE value: ${mode}`);
+      continue;
+    }
+    if (mode === 'dev-header' && isProductionEnvironment(env)) {
+      console.error('[Auth] dev-header auth mode is not allowed in production, ignoring');
+      continue;
+    }
+    if (!modes.includes(mode as AuthMode)) {
+      modes.push(mode as AuthMode);
+    }
+  }
+
+  return modes;
+}
+
+/**
+ * Base64url decode to raw bytes
+ */
+function base64UrlToBytes(value: string): Uint8Array {
+  const binary = atob(
+    value
+      .replace(/-/g, '+')
+      .replace(/_/g, '/')
+      .padEnd(value.length + (4 - (value.length % 4)) % 4, '=')
+  );
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+/**
+ * Base64url decode a JSON segment of the token
+ */
+function decodeSegment<T>(segment: string): T {
+  return JSON.parse(new TextDecoder().decode(base64UrlToBytes(segment))) as T;
+}
+
+/**
+ * Split a JWT into header, payload and signature
+ * Does not verify anything - see verifySignature and the claim validators
+ */
+function decodeJWT(token: string): DecodedJWT {
   const parts = token.split('.');
   if (parts.length !== 3) {
     console.error('[Auth] Invalid token format - expected 3 parts, got', parts.length);
     throw new AuthError('Invalid token format', 401);
   }
 
-  const payload = parts[1];
-  if (!payload) {
+  const [headerSegment, payloadSegment, signatureSegment] = parts;
+  if (!headerSegment || !payloadSegment || !signatureSegment) {
     throw new AuthError('Invalid token format', 401);
   }
 
   try {
-    // Base64url decode
-    const decoded = atob(
-      payload
-        .replace(/-/g, '+')
-        .replace(/_/g, '/')
-        .padEnd(payload.length + (4 - (payload.length % 4)) % 4, '=')
-    );
-    const parsed = JSON.parse(decoded) as JWTPayload;
-    // console.log('[Auth] Token payload:', {
-    //   sub: parsed.sub,
-    //   iss: parsed.iss,
-    //   exp: parsed.exp,
-    //   iat: parsed.iat,
-    // });
-    return parsed;
+    return {
+      header: decodeSegment<JWTHeader>(headerSegment),
+      payload: decodeSegment<JWTPayload>(payloadSegment),
+      signingInput: `${headerSegment}.${payloadSegment}`,
+      signature: base64UrlToBytes(signatureSegment),
+    };
   } catch (error) {
     console.error('[Auth] Failed to decode token:', error);
     throw new AuthError('Failed to decode token', 401);
   }
 }
 
+/**
+ * Fetch the JWKS and import every RS256 signing key it contains
+ */
+async function fetchJWKS(jwksUrl: string): Promise<JWKSCacheEntry> {
+  let response: Response;
+  try {
+    response = await fetch(jwksUrl, { headers: { Accept: 'application/json' } });
+  } catch (error) {
+    console.error('[Auth] Failed to reach JWKS endpoint:', error);
+    throw new AuthError('Unable to fetch token signing keys', 503);
+  }
+
+  if (!response.ok) {
+    console.error(`[Auth] JWKS endpoint returned HTTP ${response.status}`);
+    throw new AuthError('Unable to fetch token signing keys', 503);
+  }
+
+  let body: { keys?: (JsonWebKey & { kid?: string })[] };
+  try {
+    body = await response.json();
+  } catch {
+    throw new AuthError('Invalid JWKS response', 503);
+  }
+
+  const keys = new Map<string, CryptoKey>();
+  for (const jwk of body.keys || []) {
+    if (!jwk.kid || jwk.kty !== 'RSA') continue;
+    if (jwk.alg && jwk.alg !== 'RS256') continue;
+    if (jwk.use && jwk.use !== 'sig') continue;
+
+    try {
+      const key = await crypto.subtle.importKey(
+        'jwk',
+        jwk,
+        { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-256' },
+        false,
+        ['verify']
+      );
+      keys.set(jwk.kid, key);
+    } catch (error) {
+      console.warn(`[Auth] Skipping unusable JWK ${jwk.kid}:`, error);
+    }
+  }
+
+  console.log(`[Auth] Loaded ${keys.size} signing key(s) from JWKS`);
+  return { keys, fetchedAt: Date.now() };
+}
+
+/**
+ * Refresh the cached JWKS, sharing a single request between concurrent callers
+ */
+async function refreshJWKS(jwksUrl: string): Promise<JWKSCacheEntry> {
+  let inflight = jwksInflight.get(jwksUrl);
+  if (!inflight) {
+    inflight = fetchJWKS(jwksUrl)
+      .then((entry) => {
+        jwksCache.set(jwksUrl, entry);
+        return entry;
+      })
+      .finally(() => {
+        jwksInflight.delete(jwksUrl);
+      });
+    jwksInflight.set(jwksUrl, inflight);
+  }
+  return inflight;
+}
+
+/**
+ * Resolve the public key for a token's kid
+ * Refetches the JWKS when the cache is stale or the kid is unknown (key rotation)
+ */
+async function getSigningKey(jwksUrl: string, kid: string): Promise<CryptoKey> {
+  const now = Date.now();
+  let entry = jwksCache.get(jwksUrl);
+
+  const isStale = !entry || now - entry.fetchedAt > JWKS_CACHE_TTL_MS;
+  const isUnknownKid = !!entry && !entry.keys.has(kid);
+  const mayRefresh = !entry || now - entry.fetchedAt > JWKS_MIN_REFRESH_INTERVAL_MS;
+
+  if (isStale || (isUnknownKid && mayRefresh)) {
+    entry = await refreshJWKS(jwksUrl);
+  }
+
+  const key = entry?.keys.get(kid);
+  if (!key) {
+    throw new AuthError('Token signed with unknown key', 401);
+  }
+
+  return key;
+}
+
+/**
+ * Verify the RS256 signature of a decoded token against the JWKS
+ */
+async function verifySignature(decoded: DecodedJWT, config: ClerkAuthConfig): Promise<void> {
+  if (decoded.header.alg !== 'RS256') {
+    throw new AuthError(`Unsupported token algorithm: ${decoded.header.alg}`, 401);
+  }
+
+  if (!decoded.header.kid) {
+    throw new AuthError('Token missing key ID', 401);
+  }
+
+  const key = await getSigningKey(config.jwksUrl, decoded.header.kid);
+
+  const isValid = await crypto.subtle.verify(
+    'RSASSA-PKCS1-v1_5',
+    key,
+    decoded.signature,
+    new TextEncoder().encode(decoded.signingInput)
+  );
+
+  if (!isValid) {
+    throw new AuthError('Invalid token signature', 401);
+  }
+}
+
 /**
  * Validate JWT expiration
  */
-function validateExpiration(payload: JWTPayload): void {
-  if (!payload.exp) {
-    console.warn('[Auth] Token missing expiration claim, skipping expiration validation');
+function validateExpiration(payload: JWTPayload, clockSkew: number): void {
+  if (typeof payload.exp !== 'number') {
+    throw new AuthError('Token missing expiration claim', 401);
+  }
+
+  const now = Math.floor(Date.now() / 1000);
+  const secondsUntilExpiry = payload.exp - now;
+
+  if (now > payload.exp + clockSkew) {
+    throw new AuthError(`Token expired (${-secondsUntilExpiry} seconds ago)`, 401);
+  }
+}
+
+/**
+ * Validate JWT not-before claim
+ */
+function validateNotBefore(payload: JWTPayload, clockSkew: number): void {
+  if (payload.nbf === undefined) {
     return;
   }
 
   const now = Math.floor(Date.now() / 1000);
-  const expirationTime = payload.exp;
-  const secondsUntilExpiry = expirationTime - now;
+  if (typeof payload.nbf !== 'number' || now + clockSkew < payload.nbf) {
+    throw new AuthError('Token not yet valid', 401);
+  }
+}
 
-  // Allow 60 second clock skew (increased for development)
-  const clockSkew = 60;
+/**
+ * Validate JWT issuer against the configured Clerk instance
+ */
+function validateIssuer(payload: JWTPayload, issuer?: string): void {
+  if (!issuer) {
+    return;
+  }
 
-  // console.log('[Auth] Token expiration check:', {
-  //   now,
-  //   expirationTime,
-  //   secondsUntilExpiry,
-  //   clockSkew,
-  //   isExpired: secondsUntilExpiry < -clockSkew,
-  // });
+  if (payload.iss?.replace(/\/$/, '') !== issuer) {
+    throw new AuthError('Invalid token issuer', 401);
+  }
+}
 
-  if (now > expirationTime + clockSkew) {
-    throw new AuthError(`Token expired (${-secondsUntilExpiry} seconds ago)`, 401);
+/**
+ * Validate JWT audience when one is configured
+ * Clerk session tokens carry no aud by default, so this is opt-in
+ */
+function validateAudience(payload: JWTPayload, audience?: string[]): void {
+  if (!audience) {
+    return;
+  }
+
+  const tokenAudience = Array.isArray(payload.aud) ? payload.aud : payload.aud ? [payload.aud] : [];
+  if (!tokenAudience.some((aud) => audience.includes(aud))) {
+    throw new AuthError('Invalid token audience', 401);
   }
 }
 
@@ -140,35 +474,37 @@ export function extractBearerToken(authHeader: string | null): string {
  * Validate Clerk JWT and extract userId
  *
  * Security Notes:
- * - Verifies JWT structure (3 parts)
- * - Validates expiration claim with 30-second clock skew
+ * - Verifies the RS256 signature against Clerk's JWKS (cached, refetched on key rotation)
+ * - Validates exp and nbf with a 60-second clock skew
+ * - Validates iss and aud when configured
  * - Extracts userId from 'sub' claim
- * - Does NOT verify JWT signature (assumes frontend validated with Clerk SDK)
- *
- * For production with stricter requirements:
- * - Add signature verification using Clerk's public JWKS keys
- * - Fetch keys from: https://clerk.com/.well-known/jwks.json
- * - Use SubtleCrypto API for RS256 verification
  */
-export function validateClerkToken(token: string): string {
+export async function validateClerkToken(token: string, config: ClerkAuthConfig): Promise<string> {
   try {
-    const payload = decodeJWT(token);
-    validateExpiration(payload);
-    return extractUserId(payload);
+    const decoded = decodeJWT(token);
+    await verifySignature(decoded, config);
+
+    const clockSkew = config.clockSkewSeconds ?? DEFAULT_CLOCK_SKEW_SECONDS;
+    validateExpiration(decoded.payload, clockSkew);
+    validateNotBefore(decoded.payload, clockSkew);
+    validateIssuer(decoded.payload, config.issuer);
+    validateAudience(decoded.payload, config.audience);
+
+    return extractUserId(decoded.payload);
   } catch (error) {
     if (error instanceof AuthError) {
       throw error;
     }
+    console.error('[Auth] Unexpected token validation error:', error);
     throw new AuthError('Token validation failed', 401);
   }
 }
 
 /**
  * Middleware to extract and validate user from request
- * Sets userId in context.data if token is valid
  * Throws AuthError if validation fails
  */
-export function extractUserFromRequest(request: Request): string {
+export async function extractUserFromRequest(request: Request, config: ClerkAuthConfig): Promise<string> {
   const authHeader = request.headers.get('Authorization');
 
   if (!authHeader) {
@@ -176,14 +512,126 @@ export function extractUserFromRequest(request: Request): string {
   }
 
   const token = extractBearerToken(authHeader);
-  return validateClerkToken(token);
+  return validateClerkToken(token, config);
 }
 
 /**
- * Legacy support: Check for X-User-Id header if present
- * Used for backward compatibility and testing
- * In production, this should be removed
+ * Dev-only: Read the X-User-Id header used by local scripts and integration tests
+ * Only honoured when the 'dev-header' auth mode is enabled outside production
  */
-export function extractUserIdLegacy(request: Request): string | undefined {
+export function extractDevHeaderUserId(request: Request): string | undefined {
   return request.headers.get('X-User-Id') || undefined;
 }
+
+/**
+ * Generate a new personal API key
+ * The plaintext is returned to the user once and only its hash is persisted
+ */
+export function generateApiKey(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(32));
+  const base64 = btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+  return `${API_KEY_PREFIX}${base64}`;
+}
+
+/**
+ * Hash an API key for storage and lookup (hex-encoded SHA-256)
+ * Keys are 256 bits of randomness, so an unsalted fast hash is sufficient
+ */
+export async function hashApiKey(apiKey: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(apiKey));
+  return Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+/**
+ * Non-secret leading characters of an API key, shown in key listings
+ */
+export function getApiKeyDisplayPrefix(apiKey: string): string {
+  return apiKey.slice(0, API_KEY_DISPLAY_PREFIX_LENGTH);
+}
+
+/**
+ * Check whether an Authorization header uses the ApiKey scheme
+ */
+export function isApiKeyAuthorization(authHeader: string | null): boolean {
+  return !!authHeader && authHeader.startsWith('ApiKey ');
+}
+
+/**
+ * Parse an API key from an `Authorization: ApiKey <key>` header
+ */
+export function extractApiKey(authHeader: string | null): string {
+  if (!authHeader) {
+    throw new AuthError('Missing Authorization header', 401);
+  }
+
+  const parts = authHeader.split(' ');
+  if (parts.length !== 2 || parts[0] !== 'ApiKey') {
+    throw new AuthError('Invalid Authorization header format', 401);
+  }
+
+  const apiKey = parts[1];
+  if (!apiKey) {
+    throw new AuthError('Empty API key', 401);
+  }
+
+  return apiKey;
+}
+
+/**
+ * Validate a personal API key and resolve its owner and scopes
+ *
+ * Security Notes:
+ * - Keys are looked up by SHA-256 hash; plaintext keys are never stored
+ * - Revoked keys are rejected
+ * - Last-used time is recorded best-effort through ctx.waitUntil and never blocks the request
+ */
+export async function validateApiKey(
+  db: D1Database,
+  apiKey: string,
+  ctx: Pick<ExecutionContext, 'waitUntil'>
+): Promise<ApiKeyIdentity> {
+  if (!API_KEY_PATTERN.test(apiKey)) {
+    throw new AuthError('Invalid API key', 401);
+  }
+
+  const record = await getApiKeyByHash(db, await hashApiKey(apiKey));
+  if (!record) {
+    throw new AuthError('Invalid API key', 401);
+  }
+
+  if (record.revokedAt) {
+    throw new AuthError('API key has been revoked', 401);
+  }
+
+  ctx.waitUntil(
+    touchApiKeyLastUsed(db, record.keyId).catch((error) => {
+      console.error(`[Auth] Failed to record API key usage (keyId: ${record.keyId}):`, error);
+    })
+  );
+
+  return {
+    userId: record.userId,
+    keyId: record.keyId,
+    scopes: parseApiKeyScopes(record.scopes),
+  };
+}
+
+/**
+ * Parse the stored JSON scope list, ignoring anything unrecognised
+ */
+function parseApiKeyScopes(scopes: string): ApiKeyScope[] {
+  try {
+    const parsed = JSON.parse(scopes);
+    if (!Array.isArray(parsed)) {
+      return [];
+    }
+    return parsed.filter((scope): scope is ApiKeyScope => API_KEY_SCOPES.includes(scope));
+  } catch {
+    return [];
+  }
+}
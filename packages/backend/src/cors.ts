@@ -52,8 +52,8 @@ export function handleCORSPreflight(request: Request, allowedOriginEnv?: string)
     status: 204,
     headers: {
       'Access-Control-Allow-Origin': isAllowed ? origin! : '',
-      'Access-Control-Allow-Methods': 'GET, POST, DELETE, OPTIONS',
-      'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+      'Access-Control-Allow-Methods': 'GET, POST, PUT, PATCH, DELETE, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type, Authorization, Range, If-Range, If-None-Match',
       'Access-Control-Max-Age': '86400', // 24 hours
     },
   });
@@ -78,8 +78,9 @@ export function addCORSHeaders(response: Response, request: Request, allowedOrig
   if (allowedOrigin) {
     newResponse.headers.set('Access-Control-Allow-Origin', allowedOrigin);
   }
-  newResponse.headers.set('Access-Control-Allow-Methods', 'GET, POST, DELETE, OPTIONS');
-  newResponse.headers.set('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+  newResponse.headers.set('Access-Control-Allow-Methods', 'GET, POST, PUT, PATCH, DELETE, OPTIONS');
+  newResponse.headers.set('Access-Control-Allow-Headers', 'Content-Type, Authorization, Range, If-Range, If-None-Match');
+  newResponse.headers.set('Access-Control-Expose-Headers', 'Content-Range, Accept-Ranges, ETag');
   newResponse.headers.set('Access-Control-Max-Age', '86400');
 
   return newResponse;
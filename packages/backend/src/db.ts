@@ -2,18 +2,39 @@
  * Database utility functions for D1
  */
 
+import type { ProcessedTask } from './workflow/extract';
+import type { AudioMetadata } from './audio-metadata';
+import type { AudioFormat } from './audio-format';
+
 export interface Task {
   taskId: string;
   userId: string;
   status: 'pending' | 'processing' | 'completed' | 'failed';
   r2Key: string | null;
   transcription: string | null;
+  transcriptSegments: string | null;
+  originalTranscription: string | null;
+  title: string | null;
+  titleEdited: number;
+  summary: string | null;
+  keyPoints: string | null;
   processedTasks: string | null;
   errorMessage: string | null;
+  audioDurationSeconds: number | null;
+  audioSampleRate: number | null;
+  audioChannels: number | null;
+  audioCodec: string | null;
+  audioSizeBytes: number | null;
+  processedAt: string | null; // when processing last completed or failed
   createdAt: string;
   updatedAt: string;
 }
 
+/**
+ * Details of a memo's recording: what its container headers say, plus the file size
+ */
+export type TaskAudio = AudioMetadata & { sizeBytes: number };
+
 /**
  * Insert a new task record into the database
  */
@@ -21,18 +42,35 @@ export async function createTask(
   db: D1Database,
   taskId: string,
   userId: string,
-  r2Key: string
+  r2Key: string,
+  audio?: TaskAudio
 ): Promise<void> {
   const now = new Date().toISOString();
 
   const query = `
-    INSERT INTO tasks (taskId, userId, status, r2Key, createdAt, updatedAt)
-    VALUES (?, ?, ?, ?, ?, ?)
+    INSERT INTO tasks (
+      taskId, userId, status, r2Key,
+      audioDurationSeconds, audioSampleRate, audioChannels, audioCodec, audioSizeBytes,
+      createdAt, updatedAt
+    )
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
   `;
 
   await db
     .prepare(query)
-    .bind(taskId, userId, 'pending', r2Key, now, now)
+    .bind(
+      taskId,
+      userId,
+      'pending',
+      r2Key,
+      audio?.durationSeconds ?? null,
+      audio?.sampleRate ?? null,
+      audio?.channels ?? null,
+      audio?.codec ?? null,
+      audio?.sizeBytes ?? null,
+      now,
+      now
+    )
     .run();
 }
 
@@ -75,14 +113,27 @@ export async function updateTaskStatus(
 
 /**
  * Update task with transcription only (save as soon as available)
+ * Timestamped segments (JSON) are replaced only when provided, i.e. for a fresh Whisper transcript,
+ * which also supersedes any user correction (originalTranscription is cleared)
  */
 export async function updateTaskTranscription(
   db: D1Database,
   taskId: string,
-  transcription: string
+  transcription: string,
+  transcriptSegments?: string
 ): Promise<void> {
   const now = new Date().toISOString();
 
+  if (transcriptSegments !== undefined) {
+    const query = `UPDATE tasks SET transcription = ?, transcriptSegments = ?, originalTranscription = NULL, updatedAt = ? WHERE taskId = ?`;
+
+    await db
+      .prepare(query)
+      .bind(transcription, transcriptSegments, now, taskId)
+      .run();
+    return;
+  }
+
   const query = `UPDATE tasks SET transcription = ?, updatedAt = ? WHERE taskId = ?`;
 
   await db
@@ -91,6 +142,48 @@ export async function updateTaskTranscription(
     .run();
 }
 
+/**
+ * Save the AI-generated summary of a memo
+ * The title is only replaced if the user has not renamed the memo
+ */
+export async function updateTaskSummary(
+  db: D1Database,
+  taskId: string,
+  summary: { title: string; summary: string; keyPoints: string[] }
+): Promise<void> {
+  const now = new Date().toISOString();
+
+  const query = `
+    UPDATE tasks
+    SET title = CASE WHEN titleEdited = 1 THEN title ELSE ? END, summary = ?, keyPoints = ?, updatedAt = ?
+    WHERE taskId = ?
+  `;
+
+  await db
+    .prepare(query)
+    .bind(summary.title, summary.summary, JSON.stringify(summary.keyPoints), now, taskId)
+    .run();
+}
+
+/**
+ * Rename a memo; the title is kept when the summary is regenerated
+ * Returns false if the task does not exist or belongs to another user
+ */
+export async function updateTaskTitle(
+  db: D1Database,
+  taskId: string,
+  userId: string,
+  title: string
+): Promise<boolean> {
+  const now = new Date().toISOString();
+
+  const query = `UPDATE tasks SET title = ?, titleEdited = 1, updatedAt = ? WHERE taskId = ? AND userId = ?`;
+
+  const result = await db.prepare(query).bind(title, now, taskId, userId).run();
+
+  return (result.meta?.changes ?? 0) > 0;
+}
+
 /**
  * Update task with transcription and processed tasks
  */
@@ -102,11 +195,11 @@ export async function updateTaskResults(
 ): Promise<void> {
   const now = new Date().toISOString();
 
-  const query = `UPDATE tasks SET status = ?, transcription = ?, processedTasks = ?, updatedAt = ? WHERE taskId = ?`;
+  const query = `UPDATE tasks SET status = ?, transcription = ?, processedTasks = ?, processedAt = ?, updatedAt = ? WHERE taskId = ?`;
 
   await db
     .prepare(query)
-    .bind('completed', transcription, processedTasks, now, taskId)
+    .bind('completed', transcription, processedTasks, now, now, taskId)
     .run();
 }
 
@@ -120,12 +213,102 @@ export async function updateTaskError(
 ): Promise<void> {
   const now = new Date().toISOString();
 
-  const query = `UPDATE tasks SET status = ?, errorMessage = ?, updatedAt = ? WHERE taskId = ?`;
+  const query = `UPDATE tasks SET status = ?, errorMessage = ?, processedAt = ?, updatedAt = ? WHERE taskId = ?`;
 
   await db
     .prepare(query)
-    .bind('failed', errorMessage, now, taskId)
+    .bind('failed', errorMessage, now, now, taskId)
+    .run();
+}
+
+/**
+ * Reset a finished task to 'pending' so the pipeline can run again
+ * Only completed or failed tasks can be reset, so an in-flight run is never restarted
+ * Returns false if the task does not exist, belongs to another user, or is still processing
+ */
+export async function resetTaskForReprocessing(
+  db: D1Database,
+  taskId: string,
+  userId: string
+): Promise<boolean> {
+  const now = new Date().toISOString();
+
+  const query = `
+    UPDATE tasks
+    SET status = ?, errorMessage = NULL, processedAt = NULL, updatedAt = ?
+    WHERE taskId = ? AND userId = ? AND status IN ('completed', 'failed')
+  `;
+
+  const result = await db.prepare(query).bind('pending', now, taskId, userId).run();
+
+  return (result.meta?.changes ?? 0) > 0;
+}
+
+export interface TranscriptionRevision {
+  revisionId: string;
+  taskId: string;
+  userId: string;
+  transcription: string;
+  createdAt: string;
+}
+
+/**
+ * Replace a finished task's transcription with a user correction and record it as a revision
+ * The first edit copies the Whisper transcript to originalTranscription so it's never lost
+ * Returns null if the task does not exist, belongs to another user, or is still processing
+ */
+export async function saveTranscriptionRevision(
+  db: D1Database,
+  taskId: string,
+  userId: string,
+  transcription: string
+): Promise<TranscriptionRevision | null> {
+  const now = new Date().toISOString();
+
+  const query = `
+    UPDATE tasks
+    SET originalTranscription = COALESCE(originalTranscription, transcription), transcription = ?, updatedAt = ?
+    WHERE taskId = ? AND userId = ? AND status IN ('completed', 'failed')
+  `;
+
+  const result = await db.prepare(query).bind(transcription, now, taskId, userId).run();
+  if ((result.meta?.changes ?? 0) === 0) {
+    return null;
+  }
+
+  const revision: TranscriptionRevision = {
+    revisionId: crypto.randomUUID(),
+    taskId,
+    userId,
+    transcription,
+    createdAt: now,
+  };
+
+  await db
+    .prepare(`INSERT INTO transcription_revisions (revisionId, taskId, userId, transcription, createdAt) VALUES (?, ?, ?, ?, ?)`)
+    .bind(revision.revisionId, taskId, userId, transcription, now)
     .run();
+
+  return revision;
+}
+
+/**
+ * Get a task's transcription revisions, oldest first
+ */
+export async function getTranscriptionRevisions(
+  db: D1Database,
+  taskId: string,
+  userId: string
+): Promise<TranscriptionRevision[]> {
+  const query = `
+    SELECT * FROM transcription_revisions
+    WHERE taskId = ? AND userId = ?
+    ORDER BY createdAt ASC
+  `;
+
+  const results = await db.prepare(query).bind(taskId, userId).all<TranscriptionRevision>();
+
+  return results.results || [];
 }
 
 /**
@@ -144,42 +327,167 @@ export async function getUserTasks(db: D1Database, userId: string): Promise<Task
 }
 
 /**
- * Get paginated tasks for a user with limit and offset
+ * Sort orders for listing a user's memos
+ * - created: createdAt
+ * - updated: updatedAt
+ * - processingTime: seconds between createdAt and processedAt (up to updatedAt for memos still processing)
+ */
+export type TaskSortField = 'created' | 'updated' | 'processingTime';
+
+const TASK_SORT_EXPRESSIONS: Record<TaskSortField, string> = {
+  created: 'tasks.createdAt',
+  updated: 'tasks.updatedAt',
+  processingTime: 'ROUND((julianday(COALESCE(tasks.processedAt, tasks.updatedAt)) - julianday(tasks.createdAt)) * 86400, 3)',
+};
+
+/**
+ * Position after the last memo of a page: its sort value, with taskId to break ties
+ */
+export interface TaskPageCursor {
+  value: string | number;
+  taskId: string;
+}
+
+/**
+ * Filters and sort for one page of a user's memos
+ * - createdFrom/createdTo: ISO timestamps; createdFrom is inclusive, createdTo exclusive
+ * - hasOpenItems: only memos with (true) or without (false) an uncompleted item
+ * - tag: only memos carrying the tag with this name (ignoring case)
+ * - after: continue from the end of the previous page (same filters and sort)
+ */
+export interface TaskPageOptions {
+  statuses?: Task['status'][];
+  createdFrom?: string;
+  createdTo?: string;
+  hasOpenItems?: boolean;
+  tag?: string;
+  sort: TaskSortField;
+  order: 'asc' | 'desc';
+  after?: TaskPageCursor;
+  limit: number;
+}
+
+/**
+ * Get one page of a user's memos using keyset pagination, each with its tags
+ * Fetches one extra row to tell whether another page exists, so no COUNT is needed.
+ * `next` is the cursor for the following page, or null on the last page.
  */
-export async function getUserTasksPaginated(
+export async function getUserTasksPage(
   db: D1Database,
   userId: string,
-  limit: number = 100,
-  offset: number = 0
-): Promise<{ tasks: Task[]; total: number }> {
-  // Validate pagination params
-  const validLimit = Math.min(Math.max(1, limit), 100); // 1-100
-  const validOffset = Math.max(0, offset);
+  options: TaskPageOptions
+): Promise<{ tasks: Array<Task & { tags: MemoTag[] }>; next: TaskPageCursor | null }> {
+  const sortExpression = TASK_SORT_EXPRESSIONS[options.sort];
+  const direction = options.order === 'asc' ? 'ASC' : 'DESC';
+  const conditions: string[] = ['tasks.userId = ?'];
+  const params: any[] = [userId];
+
+  if (options.statuses && options.statuses.length > 0) {
+    conditions.push(`tasks.status IN (${options.statuses.map(() => '?').join(', ')})`);
+    params.push(...options.statuses);
+  }
+  if (options.createdFrom) {
+    conditions.push('tasks.createdAt >= ?');
+    params.push(options.createdFrom);
+  }
+  if (options.createdTo) {
+    conditions.push('tasks.createdAt < ?');
+    params.push(options.createdTo);
+  }
+  if (options.hasOpenItems !== undefined) {
+    conditions.push(
+      `${options.hasOpenItems ? '' : 'NOT '}EXISTS (SELECT 1 FROM memo_items WHERE memo_items.taskId = tasks.taskId AND memo_items.completed = 0)`
+    );
+  }
+  if (options.tag) {
+    conditions.push(
+      'EXISTS (SELECT 1 FROM memo_tags JOIN tags ON tags.tagId = memo_tags.tagId WHERE memo_tags.taskId = tasks.taskId AND tags.name = ?)'
+    );
+    params.push(options.tag);
+  }
+  if (options.after) {
+    const comparison = options.order === 'asc' ? '>' : '<';
+    conditions.push(
+      `(${sortExpression} ${comparison} ? OR (${sortExpression} = ? AND tasks.taskId ${comparison} ?))`
+    );
+    params.push(options.after.value, options.after.value, options.after.taskId);
+  }
 
-  // Get paginated results
   const query = `
-    SELECT * FROM tasks
-    WHERE userId = ?
-    ORDER BY createdAt DESC
-    LIMIT ? OFFSET ?
+    SELECT tasks.*, ${sortExpression} AS sortValue,
+      (
+        SELECT json_group_array(json_object('tagId', tags.tagId, 'name', tags.name, 'source', memo_tags.source))
+        FROM memo_tags JOIN tags ON tags.tagId = memo_tags.tagId
+        WHERE memo_tags.taskId = tasks.taskId
+      ) AS tagsJson
+    FROM tasks
+    WHERE ${conditions.join(' AND ')}
+    ORDER BY sortValue ${direction}, tasks.taskId ${direction}
+    LIMIT ?
   `;
 
   const results = await db
     .prepare(query)
-    .bind(userId, validLimit, validOffset)
-    .all<Task>();
+    .bind(...params, options.limit + 1)
+    .all<Task & { sortValue: string | number; tagsJson?: string | null }>();
 
-  // Get total count
-  const countQuery = `SELECT COUNT(*) as count FROM tasks WHERE userId = ?`;
-  const countResult = await db.prepare(countQuery).bind(userId).first<{ count: number }>();
-  const total = countResult?.count || 0;
+  const rows = results.results || [];
+  const hasMore = rows.length > options.limit;
+  const page = rows.slice(0, options.limit);
+  const last = page[page.length - 1];
 
   return {
-    tasks: results.results || [],
-    total,
+    tasks: page.map(({ sortValue, tagsJson, ...task }) => ({
+      ...task,
+      tags: tagsJson ? (JSON.parse(tagsJson) as MemoTag[]) : [],
+    })),
+    next: hasMore && last ? { value: last.sortValue, taskId: last.taskId } : null,
   };
 }
 
+/**
+ * Full-text search hit, with matches in the snippets wrapped in <mark></mark>
+ */
+export interface TaskSearchHit {
+  taskId: string;
+  status: Task['status'];
+  createdAt: string;
+  updatedAt: string;
+  transcriptionSnippet: string | null;
+  itemsSnippet: string | null;
+  rank: number;
+}
+
+/**
+ * Search a user's memos by transcription and extracted task text
+ * `matchQuery` must be a valid FTS5 query (see buildSearchQuery in handlers/memos-search)
+ * Results are ordered by BM25 relevance, best first
+ */
+export async function searchUserTasks(
+  db: D1Database,
+  userId: string,
+  matchQuery: string,
+  limit: number,
+  offset: number
+): Promise<TaskSearchHit[]> {
+  const results = await db
+    .prepare(
+      `SELECT tasks.taskId, tasks.status, tasks.createdAt, tasks.updatedAt,
+        snippet(memo_search, 2, '<mark>', '</mark>', '…', 16) AS transcriptionSnippet,
+        snippet(memo_search, 3, '<mark>', '</mark>', '…', 16) AS itemsSnippet,
+        bm25(memo_search) AS rank
+       FROM memo_search
+       JOIN tasks ON tasks.taskId = memo_search.taskId
+       WHERE memo_search MATCH ? AND memo_search.userId = ?
+       ORDER BY rank
+       LIMIT ? OFFSET ?`
+    )
+    .bind(matchQuery, userId, limit, offset)
+    .all<TaskSearchHit>();
+
+  return results.results || [];
+}
+
 /**
  * Delete a task by ID and user ID (security: must verify user owns task)
  * Checks that task is not still being processed before deleting
@@ -203,3 +511,985 @@ export async function deleteTask(db: D1Database, taskId: string, userId: string)
 
   return task;
 }
+
+export interface MemoItem {
+  itemId: string;
+  taskId: string;
+  userId: string;
+  position: number;
+  text: string;
+  originalText: string; // text as extracted, before any user edit
+  due: string | null;
+  completed: number; // 0 or 1
+  completedAt: string | null;
+  generativeTaskPrompt: string | null;
+  generatedContent: string | null;
+  segmentIndex: number | null;
+  createdAt: string;
+  updatedAt: string;
+  userAdded: number; // 1 for items the user added, 0 for extracted ones
+}
+
+/**
+ * Fields of a memo item the user can change
+ */
+export interface MemoItemUpdate {
+  text?: string;
+  due?: string | null;
+  completed?: boolean;
+}
+
+/**
+ * Get a memo's items in display order
+ */
+export async function getMemoItems(db: D1Database, taskId: string, userId: string): Promise<MemoItem[]> {
+  const query = `
+    SELECT * FROM memo_items
+    WHERE taskId = ? AND userId = ?
+    ORDER BY position ASC
+  `;
+
+  const results = await db.prepare(query).bind(taskId, userId).all<MemoItem>();
+
+  return results.results || [];
+}
+
+/**
+ * Get a single memo item (security: must belong to the user's memo)
+ */
+export async function getMemoItem(
+  db: D1Database,
+  itemId: string,
+  taskId: string,
+  userId: string
+): Promise<MemoItem | null> {
+  const query = `SELECT * FROM memo_items WHERE itemId = ? AND taskId = ? AND userId = ?`;
+
+  const result = await db.prepare(query).bind(itemId, taskId, userId).first<MemoItem>();
+
+  return result || null;
+}
+
+/**
+ * Replace a memo's extracted items with the tasks from a pipeline run
+ * Items whose extracted text is unchanged keep their id, completion state and user edits,
+ * so rerunning generation doesn't undo work the user already did. Repeated tasks are matched
+ * in order; a task reworded by a transcript edit keeps the item at its position (and with it
+ * its drafts). Items the user added stay where they were.
+ */
+export async function replaceMemoItems(
+  db: D1Database,
+  taskId: string,
+  userId: string,
+  tasks: ProcessedTask[]
+): Promise<void> {
+  const now = new Date().toISOString();
+  const previousItems = await getMemoItems(db, taskId, userId);
+  const extracted = previousItems.filter((item) => item.userAdded !== 1);
+
+  const byText = new Map<string, MemoItem[]>();
+  for (const item of extracted) {
+    byText.set(item.originalText, [...(byText.get(item.originalText) ?? []), item]);
+  }
+  const matches: Array<MemoItem | undefined> = tasks.map((task) => byText.get(task.task)?.shift());
+
+  const unmatched = new Set(extracted.filter((item) => !matches.includes(item)));
+  tasks.forEach((_, position) => {
+    const previous = extracted[position];
+    if (!matches[position] && previous && unmatched.has(previous)) {
+      matches[position] = previous;
+      unmatched.delete(previous);
+    }
+  });
+
+  const items: MemoItem[] = tasks.map((task, position) => {
+    const previous = matches[position];
+    const sameTask = previous?.originalText === task.task;
+    const edited = previous !== undefined && previous.text !== previous.originalText;
+
+    return {
+      itemId: previous?.itemId ?? crypto.randomUUID(),
+      taskId,
+      userId,
+      position,
+      text: previous && (sameTask || edited) ? previous.text : task.task,
+      originalText: task.task,
+      due: previous && sameTask ? previous.due : task.due,
+      completed: previous?.completed ?? 0,
+      completedAt: previous?.completedAt ?? null,
+      generativeTaskPrompt: task.generative_task_prompt,
+      generatedContent: task.generated_content ?? null,
+      segmentIndex: task.segmentIndex ?? null,
+      createdAt: previous?.createdAt ?? now,
+      updatedAt: now,
+      userAdded: 0,
+    };
+  });
+  for (const item of previousItems.filter((item) => item.userAdded === 1)) {
+    items.splice(Math.min(item.position, items.length), 0, item);
+  }
+
+  const insertQuery = `
+    INSERT INTO memo_items (
+      itemId, taskId, userId, position, text, originalText, due, completed, completedAt,
+      generativeTaskPrompt, generatedContent, segmentIndex, createdAt, updatedAt, userAdded
+    )
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `;
+
+  const inserts = items.map((item, position) =>
+    db.prepare(insertQuery).bind(
+      item.itemId,
+      taskId,
+      userId,
+      position,
+      item.text,
+      item.originalText,
+      item.due,
+      item.completed,
+      item.completedAt,
+      item.generativeTaskPrompt,
+      item.generatedContent,
+      item.segmentIndex,
+      item.createdAt,
+      item.updatedAt,
+      item.userAdded
+    )
+  );
+
+  // Drafts of items that are gone go with them
+  const removedIds = [...unmatched].map((item) => item.itemId);
+  const removeDrafts = removedIds.length > 0
+    ? [
+        db
+          .prepare(
+            `DELETE FROM generated_content_versions WHERE userId = ? AND itemId IN (${removedIds.map(() => '?').join(', ')})`
+          )
+          .bind(userId, ...removedIds),
+      ]
+    : [];
+
+  await db.batch([
+    db.prepare(`DELETE FROM memo_items WHERE taskId = ? AND userId = ?`).bind(taskId, userId),
+    ...inserts,
+    ...removeDrafts,
+  ]);
+}
+
+/**
+ * Add an item to the end of a memo's list
+ */
+export async function createMemoItem(
+  db: D1Database,
+  taskId: string,
+  userId: string,
+  text: string,
+  due: string | null
+): Promise<MemoItem> {
+  const now = new Date().toISOString();
+  const itemId = crypto.randomUUID();
+
+  const query = `
+    INSERT INTO memo_items (itemId, taskId, userId, position, text, originalText, due, createdAt, updatedAt, userAdded)
+    SELECT ?, ?, ?, COALESCE(MAX(position) + 1, 0), ?, ?, ?, ?, ?, 1
+    FROM memo_items WHERE taskId = ?
+  `;
+
+  await db.prepare(query).bind(itemId, taskId, userId, text, text, due, now, now, taskId).run();
+
+  const item = await getMemoItem(db, itemId, taskId, userId);
+  if (!item) {
+    throw new Error('Failed to create memo item');
+  }
+  return item;
+}
+
+/**
+ * Update an item's text, due date and/or completion state
+ * Returns the updated item, or null if it does not exist or belongs to another user
+ */
+export async function updateMemoItem(
+  db: D1Database,
+  itemId: string,
+  taskId: string,
+  userId: string,
+  update: MemoItemUpdate
+): Promise<MemoItem | null> {
+  const { assignments, params } = buildMemoItemAssignments(update);
+
+  const query = `UPDATE memo_items SET ${assignments} WHERE itemId = ? AND taskId = ? AND userId = ?`;
+  const result = await db.prepare(query).bind(...params, itemId, taskId, userId).run();
+  if ((result.meta?.changes ?? 0) === 0) {
+    return null;
+  }
+
+  return getMemoItem(db, itemId, taskId, userId);
+}
+
+/**
+ * Apply the same update to several of a user's items at once (e.g. bulk complete or snooze)
+ * Items that don't exist or belong to another user are skipped; returns the updated items
+ */
+export async function bulkUpdateMemoItems(
+  db: D1Database,
+  itemIds: string[],
+  userId: string,
+  update: MemoItemUpdate
+): Promise<MemoItem[]> {
+  const { assignments, params } = buildMemoItemAssignments(update);
+  const placeholders = itemIds.map(() => '?').join(', ');
+
+  await db
+    .prepare(`UPDATE memo_items SET ${assignments} WHERE userId = ? AND itemId IN (${placeholders})`)
+    .bind(...params, userId, ...itemIds)
+    .run();
+
+  const results = await db
+    .prepare(`SELECT * FROM memo_items WHERE userId = ? AND itemId IN (${placeholders})`)
+    .bind(userId, ...itemIds)
+    .all<MemoItem>();
+
+  return results.results || [];
+}
+
+/**
+ * SET clause and parameters for a memo item update (updatedAt is always bumped)
+ */
+function buildMemoItemAssignments(update: MemoItemUpdate): { assignments: string; params: any[] } {
+  const now = new Date().toISOString();
+  const assignments: string[] = ['updatedAt = ?'];
+  const params: any[] = [now];
+
+  if (update.text !== undefined) {
+    assignments.push('text = ?');
+    params.push(update.text);
+  }
+  if (update.due !== undefined) {
+    assignments.push('due = ?');
+    params.push(update.due);
+  }
+  if (update.completed !== undefined) {
+    assignments.push('completed = ?', 'completedAt = ?');
+    params.push(update.completed ? 1 : 0, update.completed ? now : null);
+  }
+
+  return { assignments: assignments.join(', '), params };
+}
+
+/**
+ * Filters for listing a user's items across memos
+ * - dueFrom/dueTo: inclusive calendar dates (YYYY-MM-DD); items without a due date never match a range
+ * - hasDue: only items with (true) or without (false) a due date
+ */
+export interface MemoItemFilters {
+  status: 'open' | 'completed' | 'all';
+  dueFrom?: string;
+  dueTo?: string;
+  hasDue?: boolean;
+  taskId?: string;
+  limit: number;
+}
+
+export interface MemoItemWithMemo extends MemoItem {
+  memoCreatedAt: string;
+}
+
+/**
+ * Get a user's items across all memos
+ * Ordered by due date (undated last), then newest memo first, then list position
+ */
+export async function getUserMemoItems(
+  db: D1Database,
+  userId: string,
+  filters: MemoItemFilters
+): Promise<MemoItemWithMemo[]> {
+  const conditions: string[] = ['memo_items.userId = ?'];
+  const params: any[] = [userId];
+
+  if (filters.status !== 'all') {
+    conditions.push('memo_items.completed = ?');
+    params.push(filters.status === 'completed' ? 1 : 0);
+  }
+  if (filters.dueFrom) {
+    conditions.push('date(memo_items.due) >= date(?)');
+    params.push(filters.dueFrom);
+  }
+  if (filters.dueTo) {
+    conditions.push('date(memo_items.due) <= date(?)');
+    params.push(filters.dueTo);
+  }
+  if (filters.hasDue !== undefined) {
+    conditions.push(filters.hasDue ? 'memo_items.due IS NOT NULL' : 'memo_items.due IS NULL');
+  }
+  if (filters.taskId) {
+    conditions.push('memo_items.taskId = ?');
+    params.push(filters.taskId);
+  }
+
+  const query = `
+    SELECT memo_items.*, tasks.createdAt AS memoCreatedAt
+    FROM memo_items
+    JOIN tasks ON tasks.taskId = memo_items.taskId
+    WHERE ${conditions.join(' AND ')}
+    ORDER BY memo_items.due IS NULL, date(memo_items.due) ASC, tasks.createdAt DESC, memo_items.position ASC
+    LIMIT ?
+  `;
+
+  const results = await db.prepare(query).bind(...params, filters.limit).all<MemoItemWithMemo>();
+
+  return results.results || [];
+}
+
+/**
+ * Move an item to a new index in its memo's list, renumbering the others
+ * Returns the reordered items, or null if the item does not exist or belongs to another user
+ */
+export async function moveMemoItem(
+  db: D1Database,
+  itemId: string,
+  taskId: string,
+  userId: string,
+  position: number
+): Promise<MemoItem[] | null> {
+  const items = await getMemoItems(db, taskId, userId);
+  const from = items.findIndex((item) => item.itemId === itemId);
+  if (from === -1) {
+    return null;
+  }
+
+  const [moved] = items.splice(from, 1);
+  items.splice(Math.min(position, items.length), 0, moved);
+
+  const now = new Date().toISOString();
+  const updates = items
+    .map((item, index) => ({ item, index }))
+    .filter(({ item, index }) => item.position !== index)
+    .map(({ item, index }) => {
+      item.position = index;
+      item.updatedAt = now;
+      return db
+        .prepare(`UPDATE memo_items SET position = ?, updatedAt = ? WHERE itemId = ?`)
+        .bind(index, now, item.itemId);
+    });
+
+  if (updates.length > 0) {
+    await db.batch(updates);
+  }
+  return items;
+}
+
+/**
+ * Delete a memo item
+ * Returns false if the item does not exist or belongs to another user
+ */
+export async function deleteMemoItem(
+  db: D1Database,
+  itemId: string,
+  taskId: string,
+  userId: string
+): Promise<boolean> {
+  const query = `DELETE FROM memo_items WHERE itemId = ? AND taskId = ? AND userId = ?`;
+
+  const result = await db.prepare(query).bind(itemId, taskId, userId).run();
+  if ((result.meta?.changes ?? 0) === 0) {
+    return false;
+  }
+
+  // Drafts of its generated content go with it
+  await db
+    .prepare(`DELETE FROM generated_content_versions WHERE itemId = ? AND userId = ?`)
+    .bind(itemId, userId)
+    .run();
+
+  return true;
+}
+
+/**
+ * Get the item at a zero-based position in a memo's list
+ */
+export async function getMemoItemAtPosition(
+  db: D1Database,
+  taskId: string,
+  userId: string,
+  position: number
+): Promise<MemoItem | null> {
+  const query = `SELECT * FROM memo_items WHERE taskId = ? AND userId = ? AND position = ?`;
+
+  const result = await db.prepare(query).bind(taskId, userId, position).first<MemoItem>();
+
+  return result || null;
+}
+
+/**
+ * A draft of an item's generated content
+ */
+export interface GeneratedContentVersion {
+  versionId: string;
+  itemId: string;
+  taskId: string;
+  userId: string;
+  content: string;
+  instruction: string | null; // refinement the user asked for; null for a plain (re)generation
+  createdAt: string;
+}
+
+/**
+ * Get every draft of an item's generated content, oldest first
+ */
+export async function getGeneratedContentVersions(
+  db: D1Database,
+  itemId: string,
+  userId: string
+): Promise<GeneratedContentVersion[]> {
+  const query = `
+    SELECT * FROM generated_content_versions
+    WHERE itemId = ? AND userId = ?
+    ORDER BY createdAt ASC
+  `;
+
+  const results = await db.prepare(query).bind(itemId, userId).all<GeneratedContentVersion>();
+
+  return results.results || [];
+}
+
+/**
+ * Save a new draft of an item's generated content and make it the current content
+ * The content it replaces is kept as a version first (it may be the pipeline's draft,
+ * which is not stored as a version until the user regenerates)
+ */
+export async function saveGeneratedContentVersion(
+  db: D1Database,
+  item: MemoItem,
+  content: string,
+  instruction: string | null
+): Promise<GeneratedContentVersion> {
+  const now = new Date().toISOString();
+  const version: GeneratedContentVersion = {
+    versionId: crypto.randomUUID(),
+    itemId: item.itemId,
+    taskId: item.taskId,
+    userId: item.userId,
+    content,
+    instruction,
+    createdAt: now,
+  };
+
+  const insertQuery = `
+    INSERT INTO generated_content_versions (versionId, itemId, taskId, userId, content, instruction, createdAt)
+    VALUES (?, ?, ?, ?, ?, ?, ?)
+  `;
+  const statements = [
+    db.prepare(insertQuery).bind(
+      version.versionId, version.itemId, version.taskId, version.userId, content, instruction, now
+    ),
+    db
+      .prepare(`UPDATE memo_items SET generatedContent = ?, updatedAt = ? WHERE itemId = ? AND userId = ?`)
+      .bind(content, now, item.itemId, item.userId),
+  ];
+
+  if (item.generatedContent) {
+    statements.unshift(
+      db.prepare(`
+        INSERT INTO generated_content_versions (versionId, itemId, taskId, userId, content, instruction, createdAt)
+        SELECT ?, ?, ?, ?, ?, NULL, ?
+        WHERE NOT EXISTS (SELECT 1 FROM generated_content_versions WHERE itemId = ? AND content = ?)
+      `).bind(
+        crypto.randomUUID(),
+        item.itemId,
+        item.taskId,
+        item.userId,
+        item.generatedContent,
+        item.updatedAt,
+        item.itemId,
+        item.generatedContent
+      )
+    );
+  }
+
+  await db.batch(statements);
+
+  return version;
+}
+
+/**
+ * Make an earlier draft the item's current generated content
+ * Returns false if the version does not exist or belongs to another item or user
+ */
+export async function selectGeneratedContentVersion(
+  db: D1Database,
+  item: MemoItem,
+  versionId: string
+): Promise<boolean> {
+  const now = new Date().toISOString();
+
+  const query = `
+    UPDATE memo_items
+    SET generatedContent = (SELECT content FROM generated_content_versions WHERE versionId = ? AND itemId = ?),
+      updatedAt = ?
+    WHERE itemId = ? AND userId = ?
+      AND EXISTS (SELECT 1 FROM generated_content_versions WHERE versionId = ? AND itemId = ?)
+  `;
+
+  const result = await db
+    .prepare(query)
+    .bind(versionId, item.itemId, now, item.itemId, item.userId, versionId, item.itemId)
+    .run();
+
+  return (result.meta?.changes ?? 0) > 0;
+}
+
+/**
+ * Tag attached to a memo; source is 'ai' for tags suggested by the pipeline
+ */
+export interface MemoTag {
+  tagId: string;
+  name: string;
+  source: 'user' | 'ai';
+}
+
+/**
+ * Tag with the number of the user's memos carrying it
+ */
+export interface TagCount {
+  tagId: string;
+  name: string;
+  memoCount: number;
+}
+
+/**
+ * Get a memo's tags, alphabetically
+ */
+export async function getMemoTags(db: D1Database, taskId: string, userId: string): Promise<MemoTag[]> {
+  const query = `
+    SELECT tags.tagId, tags.name, memo_tags.source
+    FROM memo_tags
+    JOIN tags ON tags.tagId = memo_tags.tagId
+    WHERE memo_tags.taskId = ? AND memo_tags.userId = ?
+    ORDER BY tags.name
+  `;
+
+  const results = await db.prepare(query).bind(taskId, userId).all<MemoTag>();
+
+  return results.results || [];
+}
+
+/**
+ * Statements that attach a tag to a memo by name, creating the tag if the user doesn't have it yet
+ * A user tag replaces an AI suggestion of the same name; an AI suggestion never replaces a user tag
+ */
+function buildAddMemoTagStatements(
+  db: D1Database,
+  taskId: string,
+  userId: string,
+  name: string,
+  source: MemoTag['source'],
+  now: string
+): D1PreparedStatement[] {
+  return [
+    db
+      .prepare(`INSERT INTO tags (tagId, userId, name, createdAt) VALUES (?, ?, ?, ?) ON CONFLICT(userId, name) DO NOTHING`)
+      .bind(crypto.randomUUID(), userId, name, now),
+    db
+      .prepare(
+        `INSERT INTO memo_tags (taskId, tagId, userId, source, createdAt)
+         SELECT ?, tagId, ?, ?, ? FROM tags WHERE userId = ? AND name = ?
+         ON CONFLICT(taskId, tagId) DO UPDATE SET source = excluded.source WHERE excluded.source = 'user'`
+      )
+      .bind(taskId, userId, source, now, userId, name),
+  ];
+}
+
+/**
+ * Tag a memo by hand
+ * Returns the memo's tags afterwards
+ */
+export async function addMemoTag(db: D1Database, taskId: string, userId: string, name: string): Promise<MemoTag[]> {
+  await db.batch(buildAddMemoTagStatements(db, taskId, userId, name, 'user', new Date().toISOString()));
+
+  return getMemoTags(db, taskId, userId);
+}
+
+/**
+ * Remove a tag from a memo (the tag itself stays, for reuse)
+ * Returns false if the memo didn't have the tag or belongs to another user
+ */
+export async function removeMemoTag(db: D1Database, taskId: string, tagId: string, userId: string): Promise<boolean> {
+  const result = await db
+    .prepare(`DELETE FROM memo_tags WHERE taskId = ? AND tagId = ? AND userId = ?`)
+    .bind(taskId, tagId, userId)
+    .run();
+
+  return (result.meta?.changes ?? 0) > 0;
+}
+
+/**
+ * Replace a memo's AI-suggested tags in one batch, keeping the ones the user added
+ */
+export async function replaceAiMemoTags(
+  db: D1Database,
+  taskId: string,
+  userId: string,
+  names: string[]
+): Promise<void> {
+  const now = new Date().toISOString();
+
+  await db.batch([
+    db.prepare(`DELETE FROM memo_tags WHERE taskId = ? AND source = 'ai'`).bind(taskId),
+    ...names.flatMap((name) => buildAddMemoTagStatements(db, taskId, userId, name, 'ai', now)),
+  ]);
+}
+
+/**
+ * Get a user's tags with how many memos carry each, most used first
+ * Tags no longer on any memo are left out
+ */
+export async function getUserTagCounts(db: D1Database, userId: string): Promise<TagCount[]> {
+  const query = `
+    SELECT tags.tagId, tags.name, COUNT(*) AS memoCount
+    FROM tags
+    JOIN memo_tags ON memo_tags.tagId = tags.tagId
+    WHERE tags.userId = ?
+    GROUP BY tags.tagId
+    ORDER BY memoCount DESC, tags.name
+  `;
+
+  const results = await db.prepare(query).bind(userId).all<TagCount>();
+
+  return results.results || [];
+}
+
+/**
+ * Embedding row as stored in D1
+ * segmentIndex is null for the whole-memo vector; vector is base64 float32 (see workflow/embed)
+ */
+export interface MemoEmbeddingRow {
+  taskId: string;
+  userId: string;
+  segmentIndex: number | null;
+  text: string;
+  model: string;
+  vector: string;
+  createdAt: string;
+}
+
+/**
+ * Embedding joined with the memo it belongs to, for ranking across memos
+ */
+export interface MemoEmbeddingWithMemo extends MemoEmbeddingRow {
+  status: Task['status'];
+  memoCreatedAt: string;
+}
+
+/**
+ * Replace all of a memo's embeddings in one batch
+ */
+export async function replaceMemoEmbeddings(
+  db: D1Database,
+  taskId: string,
+  userId: string,
+  model: string,
+  embeddings: Array<Pick<MemoEmbeddingRow, 'segmentIndex' | 'text' | 'vector'>>
+): Promise<void> {
+  const now = new Date().toISOString();
+
+  await db.batch([
+    db.prepare(`DELETE FROM memo_embeddings WHERE taskId = ?`).bind(taskId),
+    ...embeddings.map((embedding) =>
+      db
+        .prepare(
+          `INSERT INTO memo_embeddings (taskId, userId, segmentIndex, text, model, vector, createdAt)
+           VALUES (?, ?, ?, ?, ?, ?, ?)`
+        )
+        .bind(taskId, userId, embedding.segmentIndex, embedding.text, model, embedding.vector, now)
+    ),
+  ]);
+}
+
+/**
+ * Get the whole-memo embeddings (one per memo) of a user's memos for one model
+ */
+export async function getUserMemoEmbeddings(
+  db: D1Database,
+  userId: string,
+  model: string
+): Promise<MemoEmbeddingWithMemo[]> {
+  const query = `
+    SELECT memo_embeddings.*, tasks.status, tasks.createdAt AS memoCreatedAt
+    FROM memo_embeddings
+    JOIN tasks ON tasks.taskId = memo_embeddings.taskId
+    WHERE memo_embeddings.userId = ? AND memo_embeddings.model = ?
+      AND memo_embeddings.segmentIndex IS NULL
+  `;
+
+  const results = await db.prepare(query).bind(userId, model).all<MemoEmbeddingWithMemo>();
+
+  return results.results || [];
+}
+
+/**
+ * Get the per-segment embeddings of some of a user's memos for one model
+ */
+export async function getMemoSegmentEmbeddings(
+  db: D1Database,
+  userId: string,
+  model: string,
+  taskIds: string[]
+): Promise<MemoEmbeddingWithMemo[]> {
+  if (taskIds.length === 0) {
+    return [];
+  }
+
+  const placeholders = taskIds.map(() => '?').join(', ');
+  const query = `
+    SELECT memo_embeddings.*, tasks.status, tasks.createdAt AS memoCreatedAt
+    FROM memo_embeddings
+    JOIN tasks ON tasks.taskId = memo_embeddings.taskId
+    WHERE memo_embeddings.userId = ? AND memo_embeddings.model = ?
+      AND memo_embeddings.segmentIndex IS NOT NULL
+      AND memo_embeddings.taskId IN (${placeholders})
+  `;
+
+  const results = await db.prepare(query).bind(userId, model, ...taskIds).all<MemoEmbeddingWithMemo>();
+
+  return results.results || [];
+}
+
+export interface ApiKey {
+  keyId: string;
+  userId: string;
+  name: string;
+  keyPrefix: string;
+  keyHash: string;
+  scopes: string; // JSON array of ApiKeyScope
+  createdAt: string;
+  lastUsedAt: string | null;
+  revokedAt: string | null;
+}
+
+// Only record lastUsedAt once per minute so busy scripts don't write on every request
+const API_KEY_LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+/**
+ * Insert a new API key record (the plaintext key is never stored)
+ */
+export async function createApiKey(
+  db: D1Database,
+  apiKey: Pick<ApiKey, 'keyId' | 'userId' | 'name' | 'keyPrefix' | 'keyHash' | 'scopes' | 'createdAt'>
+): Promise<void> {
+  const query = `
+    INSERT INTO api_keys (keyId, userId, name, keyPrefix, keyHash, scopes, createdAt)
+    VALUES (?, ?, ?, ?, ?, ?, ?)
+  `;
+
+  await db
+    .prepare(query)
+    .bind(apiKey.keyId, apiKey.userId, apiKey.name, apiKey.keyPrefix, apiKey.keyHash, apiKey.scopes, apiKey.createdAt)
+    .run();
+}
+
+/**
+ * Look up an API key by the SHA-256 hash of its plaintext
+ */
+export async function getApiKeyByHash(db: D1Database, keyHash: string): Promise<ApiKey | null> {
+  const query = `SELECT * FROM api_keys WHERE keyHash = ?`;
+
+  const result = await db.prepare(query).bind(keyHash).first<ApiKey>();
+
+  return result || null;
+}
+
+/**
+ * Get all API keys for a user, including revoked keys
+ */
+export async function getUserApiKeys(db: D1Database, userId: string): Promise<ApiKey[]> {
+  const query = `
+    SELECT * FROM api_keys
+    WHERE userId = ?
+    ORDER BY createdAt DESC
+  `;
+
+  const results = await db.prepare(query).bind(userId).all<ApiKey>();
+
+  return results.results || [];
+}
+
+/**
+ * Revoke an API key by ID and user ID (security: must verify user owns key)
+ * Returns false if the key does not exist, belongs to another user, or is already revoked
+ */
+export async function revokeApiKey(db: D1Database, keyId: string, userId: string): Promise<boolean> {
+  const now = new Date().toISOString();
+
+  const query = `UPDATE api_keys SET revokedAt = ? WHERE keyId = ? AND userId = ? AND revokedAt IS NULL`;
+
+  const result = await db.prepare(query).bind(now, keyId, userId).run();
+
+  return (result.meta?.changes ?? 0) > 0;
+}
+
+/**
+ * Record that an API key was just used
+ */
+export async function touchApiKeyLastUsed(db: D1Database, keyId: string): Promise<void> {
+  const now = new Date();
+  const threshold = new Date(now.getTime() - API_KEY_LAST_USED_RESOLUTION_MS).toISOString();
+
+  const query = `
+    UPDATE api_keys
+    SET lastUsedAt = ?
+    WHERE keyId = ? AND (lastUsedAt IS NULL OR lastUsedAt < ?)
+  `;
+
+  await db.prepare(query).bind(now.toISOString(), keyId, threshold).run();
+}
+
+export interface UploadSession {
+  uploadId: string;
+  userId: string;
+  taskId: string; // reserved for the memo created when the upload completes
+  r2Key: string;
+  r2UploadId: string; // R2 multipart upload ID
+  contentType: string;
+  format: AudioFormat | null; // detected from part 1's content once it arrives
+  completingAt: string | null; // when a complete request claimed the session
+  size: number; // total bytes the client declared
+  partSize: number;
+  status: 'uploading' | 'completed';
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface UploadPart {
+  partNumber: number;
+  etag: string;
+  size: number;
+}
+
+/**
+ * Insert a new upload session
+ */
+export async function createUploadSession(db: D1Database, session: UploadSession): Promise<void> {
+  const query = `
+    INSERT INTO upload_sessions (
+      uploadId, userId, taskId, r2Key, r2UploadId, contentType, size, partSize, status, createdAt, updatedAt
+    )
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `;
+
+  await db
+    .prepare(query)
+    .bind(
+      session.uploadId,
+      session.userId,
+      session.taskId,
+      session.r2Key,
+      session.r2UploadId,
+      session.contentType,
+      session.size,
+      session.partSize,
+      session.status,
+      session.createdAt,
+      session.updatedAt
+    )
+    .run();
+}
+
+/**
+ * Get an upload session by ID and user ID (security: must verify user owns the upload)
+ */
+export async function getUploadSession(db: D1Database, uploadId: string, userId: string): Promise<UploadSession | null> {
+  const query = `SELECT * FROM upload_sessions WHERE uploadId = ? AND userId = ?`;
+
+  const result = await db.prepare(query).bind(uploadId, userId).first<UploadSession>();
+
+  return result || null;
+}
+
+/**
+ * Get the parts stored so far for an upload, in part order
+ */
+export async function getUploadParts(db: D1Database, uploadId: string): Promise<UploadPart[]> {
+  const query = `
+    SELECT partNumber, etag, size FROM upload_parts
+    WHERE uploadId = ?
+    ORDER BY partNumber ASC
+  `;
+
+  const results = await db.prepare(query).bind(uploadId).all<UploadPart>();
+
+  return results.results || [];
+}
+
+/**
+ * Record a part stored in R2; a re-sent part replaces the earlier attempt
+ * Part 1 also records the audio format detected from its content
+ */
+export async function saveUploadPart(
+  db: D1Database,
+  uploadId: string,
+  part: UploadPart,
+  format?: AudioFormat
+): Promise<void> {
+  const now = new Date().toISOString();
+
+  await db.batch([
+    db
+      .prepare(`INSERT OR REPLACE INTO upload_parts (uploadId, partNumber, etag, size) VALUES (?, ?, ?, ?)`)
+      .bind(uploadId, part.partNumber, part.etag, part.size),
+    db
+      .prepare(`UPDATE upload_sessions SET updatedAt = ?, format = COALESCE(?, format) WHERE uploadId = ?`)
+      .bind(now, format ?? null, uploadId),
+  ]);
+}
+
+/**
+ * Claim an upload session for completion, so only one request joins its parts in R2
+ * A claim made before staleBefore belongs to a request that died, and is taken over
+ * Returns false if another request holds the claim or the session is already completed
+ */
+export async function claimUploadSession(db: D1Database, uploadId: string, staleBefore: string): Promise<boolean> {
+  const now = new Date().toISOString();
+
+  const query = `
+    UPDATE upload_sessions SET completingAt = ?, updatedAt = ?
+    WHERE uploadId = ? AND status = 'uploading' AND (completingAt IS NULL OR completingAt < ?)
+  `;
+
+  const result = await db.prepare(query).bind(now, now, uploadId, staleBefore).run();
+
+  return (result.meta?.changes ?? 0) > 0;
+}
+
+/**
+ * Drop a completion claim whose R2 join failed, so a retry can complete the upload
+ */
+export async function releaseUploadSession(db: D1Database, uploadId: string): Promise<void> {
+  await db
+    .prepare(`UPDATE upload_sessions SET completingAt = NULL WHERE uploadId = ? AND status = 'uploading'`)
+    .bind(uploadId)
+    .run();
+}
+
+/**
+ * Mark an upload session as completed
+ * Returns false if it was already completed (e.g. a retried complete request)
+ */
+export async function completeUploadSession(db: D1Database, uploadId: string): Promise<boolean> {
+  const now = new Date().toISOString();
+
+  const query = `UPDATE upload_sessions SET status = 'completed', updatedAt = ? WHERE uploadId = ? AND status = 'uploading'`;
+
+  const result = await db.prepare(query).bind(now, uploadId).run();
+
+  return (result.meta?.changes ?? 0) > 0;
+}
+
+/**
+ * Delete an upload session and its parts, for a completed recording that was rejected
+ */
+export async function deleteUploadSession(db: D1Database, uploadId: string): Promise<void> {
+  await db.batch([
+    db.prepare(`DELETE FROM upload_parts WHERE uploadId = ?`).bind(uploadId),
+    db.prepare(`DELETE FROM upload_sessions WHERE uploadId = ?`).bind(uploadId),
+  ]);
+}
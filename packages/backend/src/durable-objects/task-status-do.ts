@@ -10,15 +10,25 @@
 
 export interface StatusUpdate {
   taskId: string;
-  stage: 'workflow' | 'transcribe' | 'extract' | 'generate' | 'db_update';
-  status: 'started' | 'completed' | 'failed';
+  stage: 'workflow' | 'transcribe' | 'summarize' | 'extract' | 'generate' | 'db_update';
+  status: 'started' | 'progress' | 'delta' | 'completed' | 'failed';
   timestamp: number; // unix ms
+  progress?: { completed: number; total: number }; // only for progress events (e.g. transcribed chunks)
+  itemIndex?: number; // generate stage: index of the extracted task whose content is being generated
+  itemCount?: number; // generate stage: how many tasks have content to generate (not sent with deltas)
+  itemTask?: string; // generate stage: text of the task being generated, so clients can label it (not sent with deltas)
+  delta?: string; // only for delta events: the next piece of streamed content
   duration_ms?: number; // only for completed events
   error_message?: string; // only for failed events
   overallStatus?: 'processing' | 'completed' | 'failed'; // overall workflow status
   transcription?: string; // transcription text (included when transcribe completes)
 }
 
+/**
+ * Number of status updates kept for clients that connect mid-workflow
+ */
+const MAX_HISTORY = 50;
+
 export class TaskStatusDO {
   private state: DurableObjectState;
   private connections: Set<WebSocket> = new Set(); // IN-MEMORY ONLY
@@ -65,6 +75,11 @@ export class TaskStatusDO {
       return this.handlePublish(request);
     }
 
+    // Clear update history before a memo is reprocessed (called by the reprocess endpoint)
+    if (pathname === '/reset' && request.method === 'POST') {
+      return this.handleReset();
+    }
+
     // Get update history endpoint (called by clients or for diagnostics)
     if (pathname === '/history' && request.method === 'GET') {
       return this.handleGetHistory(request);
@@ -164,29 +179,40 @@ export class TaskStatusDO {
         });
       }
 
-      // Store in in-memory updates list - keep last 20 updates to preserve full workflow history
-      // Workflow generates ~8 updates per task (start/complete pairs for 4 stages)
-      // Keeping 20 ensures we have complete history even with retries
-      this.updates.push(update);
-
-      if (this.updates.length > 20) {
-        this.updates.shift();
-      }
+      // Streamed content (delta) is only broadcast: it would flood the history, and a client that
+      // reconnects mid-generation gets the full content when the memo completes
+      if (update.status !== 'delta') {
+        // Store in in-memory updates list - keep the last MAX_HISTORY updates to preserve full workflow history
+        // Workflow generates ~10 updates per memo (start/complete pairs for each stage) plus a
+        // start/complete pair per generated task, so this covers a memo with many tasks even with retries
+        // Progress updates replace the stage's previous progress update so long recordings
+        // with many chunks don't push the start/complete events out of history
+        const last = this.updates[this.updates.length - 1];
+        if (update.status === 'progress' && last?.status === 'progress' && last.stage === update.stage) {
+          this.updates[this.updates.length - 1] = update;
+        } else {
+          this.updates.push(update);
+        }
 
-      console.log(`[DO:${this.taskId}] 📚 Updates stored in memory: ${this.updates.length} total`);
+        if (this.updates.length > MAX_HISTORY) {
+          this.updates.shift();
+        }
 
-      // Persist to storage asynchronously (non-blocking)
-      this.state.storage.put('updates', this.updates).catch((err) => {
-        console.error(`[DO:${this.taskId}] ❌ Failed to persist updates:`, err);
-      });
+        console.log(`[DO:${this.taskId}] 📚 Updates stored in memory: ${this.updates.length} total`);
 
-      // Mark task as completed if this is a final update
-      if (update.overallStatus === 'completed' || update.overallStatus === 'failed') {
-        this.taskCompleted = true;
-        console.log(`[DO:${this.taskId}] ✅ Task marked as ${update.overallStatus}`);
-        this.state.storage.put('taskCompleted', true).catch((err) => {
-          console.error(`[DO:${this.taskId}] ❌ Failed to persist taskCompleted:`, err);
+        // Persist to storage asynchronously (non-blocking)
+        this.state.storage.put('updates', this.updates).catch((err) => {
+          console.error(`[DO:${this.taskId}] ❌ Failed to persist updates:`, err);
         });
+
+        // Mark task as completed if this is a final update
+        if (update.overallStatus === 'completed' || update.overallStatus === 'failed') {
+          this.taskCompleted = true;
+          console.log(`[DO:${this.taskId}] ✅ Task marked as ${update.overallStatus}`);
+          this.state.storage.put('taskCompleted', true).catch((err) => {
+            console.error(`[DO:${this.taskId}] ❌ Failed to persist taskCompleted:`, err);
+          });
+        }
       }
 
       // Broadcast to all connected clients (already filtered by DO instance)
@@ -242,6 +268,23 @@ export class TaskStatusDO {
     }
   }
 
+  /**
+   * Clear update history and completion state so a reprocessed memo starts fresh
+   * Otherwise reconnecting clients would replay the previous run's completion
+   */
+  private async handleReset(): Promise<Response> {
+    this.updates = [];
+    this.taskCompleted = false;
+    await this.state.storage.delete(['updates', 'taskCompleted']);
+
+    console.log(`[DO:${this.taskId}] 🔄 History reset for reprocessing`);
+
+    return new Response(JSON.stringify({ success: true }), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+
   /**
    * Return update history for clients or diagnostics
    */
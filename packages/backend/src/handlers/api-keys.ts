@@ -0,0 +1,205 @@
+/**
+ * /api/v1/api-keys - Mint, list and revoke personal API keys
+ */
+
+import type { WorkerContext } from '../index';
+import { jsonError, isValidUuid, isJsonObject } from '../http';
+import { createApiKey, getUserApiKeys, revokeApiKey, type ApiKey } from '../db';
+import {
+  API_KEY_SCOPES,
+  generateApiKey,
+  hashApiKey,
+  getApiKeyDisplayPrefix,
+  type ApiKeyScope,
+} from '../auth';
+
+const MAX_API_KEY_NAME_LENGTH = 100;
+
+/**
+ * API key as returned to clients (never includes the hash)
+ */
+interface ApiKeySummary {
+  keyId: string;
+  name: string;
+  keyPrefix: string;
+  scopes: ApiKeyScope[];
+  createdAt: string;
+  lastUsedAt: string | null;
+  revokedAt: string | null;
+}
+
+/**
+ * Handler for POST /api/v1/api-keys
+ * Creates a new API key and returns the plaintext key exactly once
+ *
+ * Request body: { name: string, scopes?: ApiKeyScope[] } (scopes default to all)
+ */
+export async function handleCreateApiKey(
+  request: Request,
+  context: WorkerContext
+): Promise<Response> {
+  try {
+    const userId = context.data.userId;
+    if (!userId) {
+      return jsonError(401, 'Unauthorized', 'User ID not found. Please authenticate.');
+    }
+
+    const { DB: db } = context.env;
+    if (!db) {
+      return jsonError(500, 'Internal Server Error', 'Database not configured');
+    }
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return jsonError(400, 'Bad Request', 'Request body must be valid JSON');
+    }
+
+    if (!isJsonObject(body)) {
+      return jsonError(400, 'Bad Request', 'Request body must be a JSON object');
+    }
+
+    const name = typeof body.name === 'string' ? body.name.trim() : '';
+    if (!name) {
+      return jsonError(400, 'Bad Request', 'API key name is required');
+    }
+    if (name.length > MAX_API_KEY_NAME_LENGTH) {
+      return jsonError(400, 'Bad Request', `API key name must be at most ${MAX_API_KEY_NAME_LENGTH} characters`);
+    }
+
+    const scopes = body.scopes === undefined ? API_KEY_SCOPES : body.scopes;
+    if (!isValidScopeList(scopes)) {
+      return jsonError(400, 'Bad Request', `Scopes must be a non-empty list of: ${API_KEY_SCOPES.join(', ')}`);
+    }
+
+    const apiKey = generateApiKey();
+    const record = {
+      keyId: crypto.randomUUID(),
+      userId,
+      name,
+      keyPrefix: getApiKeyDisplayPrefix(apiKey),
+      keyHash: await hashApiKey(apiKey),
+      scopes: JSON.stringify([...new Set(scopes)]),
+      createdAt: new Date().toISOString(),
+    };
+
+    await createApiKey(db, record);
+
+    return new Response(
+      JSON.stringify({
+        ...toApiKeySummary({ ...record, lastUsedAt: null, revokedAt: null }),
+        key: apiKey,
+      }),
+      {
+        status: 201,
+        headers: { 'Content-Type': 'application/json' },
+      }
+    );
+  } catch (error) {
+    console.error('Error in handleCreateApiKey:', error);
+    return jsonError(500, 'Internal Server Error', error instanceof Error ? error.message : 'An unexpected error occurred');
+  }
+}
+
+/**
+ * Handler for GET /api/v1/api-keys
+ * Lists the user's API keys, including revoked keys
+ */
+export async function handleGetApiKeys(
+  request: Request,
+  context: WorkerContext
+): Promise<Response> {
+  try {
+    const userId = context.data.userId;
+    if (!userId) {
+      return jsonError(401, 'Unauthorized', 'User ID not found. Please authenticate.');
+    }
+
+    const { DB: db } = context.env;
+    if (!db) {
+      return jsonError(500, 'Internal Server Error', 'Database not configured');
+    }
+
+    const apiKeys = await getUserApiKeys(db, userId);
+
+    return new Response(
+      JSON.stringify({
+        apiKeys: apiKeys.map(toApiKeySummary),
+      }),
+      {
+        status: 200,
+        headers: { 'Content-Type': 'application/json' },
+      }
+    );
+  } catch (error) {
+    console.error('Error in handleGetApiKeys:', error);
+    return jsonError(500, 'Internal Server Error', error instanceof Error ? error.message : 'An unexpected error occurred');
+  }
+}
+
+/**
+ * Handler for DELETE /api/v1/api-keys/{keyId}
+ * Revokes an API key; revoked keys stay listed so their history remains visible
+ */
+export async function handleRevokeApiKey(
+  request: Request,
+  context: WorkerContext
+): Promise<Response> {
+  try {
+    const url = new URL(request.url);
+    const keyId = url.pathname.split('/').pop();
+
+    if (!keyId || !isValidUuid(keyId)) {
+      return jsonError(400, 'Bad Request', 'Invalid API key ID format');
+    }
+
+    const userId = context.data.userId;
+    if (!userId) {
+      return jsonError(401, 'Unauthorized', 'User ID not found. Please authenticate.');
+    }
+
+    const { DB: db } = context.env;
+    if (!db) {
+      return jsonError(500, 'Internal Server Error', 'Database not configured');
+    }
+
+    const revoked = await revokeApiKey(db, keyId, userId);
+    if (!revoked) {
+      return jsonError(404, 'Not Found', 'API key not found or already revoked');
+    }
+
+    return new Response(null, {
+      status: 204,
+    });
+  } catch (error) {
+    console.error('Error in handleRevokeApiKey:', error);
+    return jsonError(500, 'Internal Server Error', error instanceof Error ? error.message : 'An unexpected error occurred');
+  }
+}
+
+/**
+ * Strip the key hash and decode scopes for API responses
+ */
+function toApiKeySummary(apiKey: Omit<ApiKey, 'keyHash' | 'userId'>): ApiKeySummary {
+  return {
+    keyId: apiKey.keyId,
+    name: apiKey.name,
+    keyPrefix: apiKey.keyPrefix,
+    scopes: JSON.parse(apiKey.scopes),
+    createdAt: apiKey.createdAt,
+    lastUsedAt: apiKey.lastUsedAt,
+    revokedAt: apiKey.revokedAt,
+  };
+}
+
+/**
+ * Validate a requested scope list
+ */
+function isValidScopeList(scopes: unknown): scopes is ApiKeyScope[] {
+  return (
+    Array.isArray(scopes) &&
+    scopes.length > 0 &&
+    scopes.every((scope) => API_KEY_SCOPES.includes(scope))
+  );
+}
@@ -0,0 +1,109 @@
+/**
+ * POST /api/v1/ask - Answer a question from the user's memos, with citations
+ */
+
+import type { WorkerContext } from '../index';
+import { jsonError, isJsonObject } from '../http';
+import { generateAnswer, getCitedPassages, retrievePassages, type AskMessage } from '../ask';
+import { getEmbedder } from '../workflow/embed';
+
+const MAX_QUESTION_LENGTH = 1000;
+const MAX_HISTORY_MESSAGES = 10;
+const MAX_HISTORY_MESSAGE_LENGTH = 4000;
+const NO_PASSAGES_ANSWER = "I couldn't find anything about that in your memos.";
+
+/**
+ * Handler for POST /api/v1/ask
+ *
+ * Request body: { question: string, history?: { role: 'user' | 'assistant', content: string }[] }
+ * - history: earlier turns of the conversation (at most 10), for follow-up questions
+ *
+ * Response: { answer, citations }
+ * - answer cites passages as [n]; citations[i].ref is that n
+ * - each citation points at a memo (taskId) and, when known, the seconds into the recording
+ */
+export async function handleAsk(
+  request: Request,
+  context: WorkerContext
+): Promise<Response> {
+  try {
+    const userId = context.data.userId;
+    if (!userId) {
+      return jsonError(401, 'Unauthorized', 'User ID not found. Please authenticate.');
+    }
+
+    const { DB: db } = context.env;
+    if (!db) {
+      return jsonError(500, 'Internal Server Error', 'Database not configured');
+    }
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return jsonError(400, 'Bad Request', 'Request body must be valid JSON');
+    }
+
+    if (!isJsonObject(body)) {
+      return jsonError(400, 'Bad Request', 'Request body must be a JSON object');
+    }
+
+    const question = typeof body.question === 'string' ? body.question.trim() : '';
+    if (!question) {
+      return jsonError(400, 'Bad Request', 'question is required');
+    }
+    if (question.length > MAX_QUESTION_LENGTH) {
+      return jsonError(400, 'Bad Request', `question must be at most ${MAX_QUESTION_LENGTH} characters`);
+    }
+
+    const history = body.history ?? [];
+    if (!isValidHistory(history)) {
+      return jsonError(
+        400,
+        'Bad Request',
+        `history must be a list of at most ${MAX_HISTORY_MESSAGES} { role: 'user' | 'assistant', content } messages`
+      );
+    }
+
+    const passages = await retrievePassages(db, userId, question, getEmbedder(context.env));
+
+    // Nothing to answer from; don't let the model guess
+    const answer = passages.length > 0
+      ? await generateAnswer(question, passages, history, context.env)
+      : NO_PASSAGES_ANSWER;
+
+    return new Response(
+      JSON.stringify({
+        answer,
+        citations: getCitedPassages(answer, passages).map(({ ref, taskId, memoCreatedAt, start, end, text }) => ({
+          ref,
+          taskId,
+          memoCreatedAt,
+          start,
+          end,
+          text,
+        })),
+      }),
+      {
+        status: 200,
+        headers: { 'Content-Type': 'application/json' },
+      }
+    );
+  } catch (error) {
+    console.error('Error in handleAsk:', error);
+    return jsonError(500, 'Internal Server Error', error instanceof Error ? error.message : 'An unexpected error occurred');
+  }
+}
+
+function isValidHistory(history: unknown): history is AskMessage[] {
+  return (
+    Array.isArray(history) &&
+    history.length <= MAX_HISTORY_MESSAGES &&
+    history.every(
+      (message) =>
+        (message?.role === 'user' || message?.role === 'assistant') &&
+        typeof message.content === 'string' &&
+        message.content.length <= MAX_HISTORY_MESSAGE_LENGTH
+    )
+  );
+}
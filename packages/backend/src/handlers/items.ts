@@ -0,0 +1,176 @@
+/**
+ * /api/v1/items - Action items across all of a user's memos (the task inbox)
+ */
+
+import type { WorkerContext } from '../index';
+import { jsonError, isValidUuid, isJsonObject } from '../http';
+import { bulkUpdateMemoItems, getUserMemoItems, type MemoItemFilters, type MemoItemUpdate } from '../db';
+import { toMemoItemSummary } from './memo-items';
+
+const ITEM_STATUSES = ['open', 'completed', 'all'] as const;
+const DEFAULT_ITEMS_LIMIT = 200;
+const MAX_ITEMS_LIMIT = 500;
+const MAX_BULK_ITEMS = 100;
+
+/**
+ * Handler for GET /api/v1/items
+ * Lists the user's items across memos, soonest due first (undated last)
+ *
+ * Query parameters (all optional):
+ * - status: 'open' (default) | 'completed' | 'all'
+ * - dueFrom, dueTo: inclusive date range (YYYY-MM-DD)
+ * - hasDue: 'true' | 'false' - only items with/without a due date
+ * - taskId: only items from one memo
+ * - limit: 1-500 (default 200)
+ */
+export async function handleGetItems(
+  request: Request,
+  context: WorkerContext
+): Promise<Response> {
+  try {
+    const userId = context.data.userId;
+    if (!userId) {
+      return jsonError(401, 'Unauthorized', 'User ID not found. Please authenticate.');
+    }
+
+    const { DB: db } = context.env;
+    if (!db) {
+      return jsonError(500, 'Internal Server Error', 'Database not configured');
+    }
+
+    const params = new URL(request.url).searchParams;
+
+    const status = params.get('status') ?? 'open';
+    if (!ITEM_STATUSES.includes(status as MemoItemFilters['status'])) {
+      return jsonError(400, 'Bad Request', `status must be one of: ${ITEM_STATUSES.join(', ')}`);
+    }
+
+    const dueFrom = params.get('dueFrom') ?? undefined;
+    const dueTo = params.get('dueTo') ?? undefined;
+    if ((dueFrom && !isValidDate(dueFrom)) || (dueTo && !isValidDate(dueTo))) {
+      return jsonError(400, 'Bad Request', 'dueFrom and dueTo must be dates in YYYY-MM-DD format');
+    }
+
+    const hasDueParam = params.get('hasDue');
+    if (hasDueParam !== null && hasDueParam !== 'true' && hasDueParam !== 'false') {
+      return jsonError(400, 'Bad Request', "hasDue must be 'true' or 'false'");
+    }
+
+    const taskId = params.get('taskId') ?? undefined;
+    if (taskId && !isValidUuid(taskId)) {
+      return jsonError(400, 'Bad Request', 'Invalid task ID format');
+    }
+
+    const limitParam = params.get('limit');
+    const limit = limitParam === null ? DEFAULT_ITEMS_LIMIT : Number(limitParam);
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_ITEMS_LIMIT) {
+      return jsonError(400, 'Bad Request', `limit must be an integer between 1 and ${MAX_ITEMS_LIMIT}`);
+    }
+
+    const items = await getUserMemoItems(db, userId, {
+      status: status as MemoItemFilters['status'],
+      dueFrom,
+      dueTo,
+      hasDue: hasDueParam === null ? undefined : hasDueParam === 'true',
+      taskId,
+      limit,
+    });
+
+    return new Response(
+      JSON.stringify({
+        items: items.map((item) => ({ ...toMemoItemSummary(item), memoCreatedAt: item.memoCreatedAt })),
+        count: items.length,
+      }),
+      {
+        status: 200,
+        headers: { 'Content-Type': 'application/json' },
+      }
+    );
+  } catch (error) {
+    console.error('Error in handleGetItems:', error);
+    return jsonError(500, 'Internal Server Error', error instanceof Error ? error.message : 'An unexpected error occurred');
+  }
+}
+
+/**
+ * Handler for PATCH /api/v1/items
+ * Applies one update to many items, for bulk complete and snooze
+ *
+ * Request body: { itemIds: string[], completed?: boolean, due?: string | null }
+ * - Snoozing is setting a later due date
+ * - Unknown item IDs (or other users' items) are ignored and left out of the response
+ */
+export async function handleBulkUpdateItems(
+  request: Request,
+  context: WorkerContext
+): Promise<Response> {
+  try {
+    const userId = context.data.userId;
+    if (!userId) {
+      return jsonError(401, 'Unauthorized', 'User ID not found. Please authenticate.');
+    }
+
+    const { DB: db } = context.env;
+    if (!db) {
+      return jsonError(500, 'Internal Server Error', 'Database not configured');
+    }
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return jsonError(400, 'Bad Request', 'Request body must be valid JSON');
+    }
+
+    if (!isJsonObject(body)) {
+      return jsonError(400, 'Bad Request', 'Request body must be a JSON object');
+    }
+
+    const itemIds = body.itemIds;
+    if (
+      !Array.isArray(itemIds) ||
+      itemIds.length === 0 ||
+      itemIds.length > MAX_BULK_ITEMS ||
+      !itemIds.every((id) => typeof id === 'string' && isValidUuid(id))
+    ) {
+      return jsonError(400, 'Bad Request', `itemIds must be a list of 1-${MAX_BULK_ITEMS} item IDs`);
+    }
+
+    const update: MemoItemUpdate = {};
+    if (body.completed !== undefined) {
+      if (typeof body.completed !== 'boolean') {
+        return jsonError(400, 'Bad Request', 'completed must be a boolean');
+      }
+      update.completed = body.completed;
+    }
+    if (body.due !== undefined) {
+      if (body.due !== null && (typeof body.due !== 'string' || Number.isNaN(Date.parse(body.due)))) {
+        return jsonError(400, 'Bad Request', 'due must be an ISO 8601 date or null');
+      }
+      update.due = body.due;
+    }
+    if (Object.keys(update).length === 0) {
+      return jsonError(400, 'Bad Request', 'Provide completed and/or due');
+    }
+
+    const items = await bulkUpdateMemoItems(db, [...new Set<string>(itemIds)], userId, update);
+
+    return new Response(
+      JSON.stringify({
+        items: items.map(toMemoItemSummary),
+        updated: items.length,
+      }),
+      {
+        status: 200,
+        headers: { 'Content-Type': 'application/json' },
+      }
+    );
+  } catch (error) {
+    console.error('Error in handleBulkUpdateItems:', error);
+    return jsonError(500, 'Internal Server Error', error instanceof Error ? error.message : 'An unexpected error occurred');
+  }
+}
+
+function isValidDate(value: string): boolean {
+  return /^\d{4}-\d{2}-\d{2}$/.test(value) && !Number.isNaN(Date.parse(value));
+}
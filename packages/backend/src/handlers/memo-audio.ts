@@ -1,5 +1,6 @@
 /**
  * GET /api/v1/memo/audio/{taskId} - Retrieve audio file from R2
+ * Supports Range requests (206) so players can seek, and ETag revalidation (304)
  */
 
 import type { WorkerContext } from '../index';
@@ -16,10 +17,82 @@ function getMimeType(r2Key: string): string {
     wav: 'audio/wav',
     ogg: 'audio/ogg',
     flac: 'audio/flac',
+    m4a: 'audio/mp4',
   };
   return mimeMap[ext] || 'audio/webm';
 }
 
+/**
+ * Inclusive byte range to serve, resolved against the object size
+ */
+interface ByteRange {
+  start: number;
+  end: number;
+}
+
+/**
+ * Resolve a Range header against the object size
+ * Returns null to serve the whole file (no header, a unit other than bytes, malformed or multiple ranges)
+ * and 'unsatisfiable' when the range starts past the end of the file
+ */
+function parseRangeHeader(header: string | null, size: number): ByteRange | 'unsatisfiable' | null {
+  const match = header?.trim().match(/^bytes=\s*(\d*)-(\d*)\s*$/);
+  if (!match || (!match[1] && !match[2])) {
+    return null;
+  }
+
+  // Suffix range: the last N bytes
+  if (!match[1]) {
+    const suffix = Number(match[2]);
+    if (suffix === 0 || size === 0) return 'unsatisfiable';
+    return { start: Math.max(size - suffix, 0), end: size - 1 };
+  }
+
+  const start = Number(match[1]);
+  const end = match[2] ? Number(match[2]) : Infinity;
+  if (end < start) return null;
+  if (start >= size) return 'unsatisfiable';
+  return { start, end: Math.min(end, size - 1) };
+}
+
+/**
+ * If-None-Match uses weak comparison: W/"abc" matches "abc"
+ */
+function matchesIfNoneMatch(header: string, httpEtag: string): boolean {
+  const stripWeak = (tag: string) => tag.trim().replace(/^W\//, '');
+  return header.trim() === '*' || header.split(',').some((tag) => stripWeak(tag) === stripWeak(httpEtag));
+}
+
+/**
+ * If-Range holds an ETag (strong comparison) or the Last-Modified date
+ * The range is only honoured when the file hasn't changed since the client cached the rest of it
+ */
+function matchesIfRange(header: string, object: R2Object): boolean {
+  const value = header.trim();
+  if (value.startsWith('"') || value.startsWith('W/')) {
+    return value === object.httpEtag;
+  }
+  return value === object.uploaded.toUTCString();
+}
+
+/**
+ * Headers shared by full, partial and not-modified responses
+ */
+function getAudioHeaders(r2Key: string, object: R2Object): Record<string, string> {
+  const headers: Record<string, string> = {
+    'Content-Type': getMimeType(r2Key),
+    'Cache-Control': 'public, max-age=31536000, immutable',
+    'Accept-Ranges': 'bytes',
+  };
+  if (object.httpEtag) {
+    headers['ETag'] = object.httpEtag;
+  }
+  if (object.uploaded) {
+    headers['Last-Modified'] = object.uploaded.toUTCString();
+  }
+  return headers;
+}
+
 export async function handleGetAudio(
   request: Request,
   context: WorkerContext
@@ -104,7 +177,58 @@ export async function handleGetAudio(
       );
     }
 
-    const r2Object = await r2Bucket.get(r2Key);
+    // Conditional and range requests need the size and ETag before choosing what to read
+    const rangeHeader = request.headers.get('Range');
+    const ifNoneMatch = request.headers.get('If-None-Match');
+    const ifRange = request.headers.get('If-Range');
+    let range: ByteRange | null = null;
+
+    if (rangeHeader || ifNoneMatch) {
+      const head = await r2Bucket.head(r2Key);
+      if (!head) {
+        return new Response(
+          JSON.stringify({
+            error: 'Not Found',
+            message: 'Audio file not found in storage',
+          }),
+          {
+            status: 404,
+            headers: { 'Content-Type': 'application/json' },
+          }
+        );
+      }
+
+      // The client's cached copy is current
+      if (ifNoneMatch && matchesIfNoneMatch(ifNoneMatch, head.httpEtag)) {
+        return new Response(null, {
+          status: 304,
+          headers: getAudioHeaders(r2Key, head),
+        });
+      }
+
+      // A stale If-Range means the client's other bytes are from an older file: send it all
+      const parsedRange = ifRange && !matchesIfRange(ifRange, head) ? null : parseRangeHeader(rangeHeader, head.size);
+      if (parsedRange === 'unsatisfiable') {
+        return new Response(
+          JSON.stringify({
+            error: 'Range Not Satisfiable',
+            message: `Requested range is outside the ${head.size}-byte audio file`,
+          }),
+          {
+            status: 416,
+            headers: {
+              'Content-Type': 'application/json',
+              'Content-Range': `bytes */${head.size}`,
+            },
+          }
+        );
+      }
+      range = parsedRange;
+    }
+
+    const r2Object = range
+      ? await r2Bucket.get(r2Key, { range: { offset: range.start, length: range.end - range.start + 1 } })
+      : await r2Bucket.get(r2Key);
 
     // File not found in R2
     if (!r2Object) {
@@ -120,24 +244,24 @@ export async function handleGetAudio(
       );
     }
 
-    // Get audio data
-    const audioBuffer = await r2Object.arrayBuffer();
+    const headers = getAudioHeaders(r2Key, r2Object);
 
-    // Determine MIME type from file extension
-    const mimeType = getMimeType(r2Key);
-
-    // Build response headers
-    const headers: Record<string, string> = {
-      'Content-Type': mimeType,
-      'Cache-Control': 'public, max-age=31536000, immutable',
-    };
+    // Stream the body rather than buffering the whole recording
+    if (range) {
+      headers['Content-Range'] = `bytes ${range.start}-${range.end}/${r2Object.size}`;
+      headers['Content-Length'] = (range.end - range.start + 1).toString();
+      return new Response(r2Object.body, {
+        status: 206,
+        headers,
+      });
+    }
 
     // Set Content-Length if available
     if (r2Object.size !== undefined) {
       headers['Content-Length'] = r2Object.size.toString();
     }
 
-    return new Response(audioBuffer, {
+    return new Response(r2Object.body, {
       status: 200,
       headers,
     });
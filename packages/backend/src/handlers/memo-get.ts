@@ -81,11 +81,45 @@ export async function handleGetMemo(
       updatedAt: task.updatedAt,
     };
 
+    // AI summary (and the title the user may have edited), saved once summarization finishes
+    if (task.title) {
+      responseData.title = task.title;
+    }
+    if (task.summary) {
+      responseData.summary = task.summary;
+      responseData.keyPoints = task.keyPoints ? JSON.parse(task.keyPoints) : [];
+    }
+
+    // Recording details read from the audio's container headers at upload
+    if (task.audioDurationSeconds) {
+      responseData.durationSeconds = task.audioDurationSeconds;
+    }
+    if (task.audioSampleRate) {
+      responseData.sampleRate = task.audioSampleRate;
+    }
+    if (task.audioChannels) {
+      responseData.channels = task.audioChannels;
+    }
+    if (task.audioCodec) {
+      responseData.codec = task.audioCodec;
+    }
+    if (task.audioSizeBytes) {
+      responseData.sizeBytes = task.audioSizeBytes;
+    }
+
     // Include results only for completed tasks
     if (task.status === 'completed' && task.transcription && task.processedTasks) {
       responseData.transcription = task.transcription;
       // Parse processedTasks JSON string into array
       responseData.processedTasks = JSON.parse(task.processedTasks);
+      // Timestamped segments, for memos transcribed after segments were introduced
+      if (task.transcriptSegments) {
+        responseData.transcriptSegments = JSON.parse(task.transcriptSegments);
+      }
+      // Whisper's transcript, when the user has corrected it
+      if (task.originalTranscription) {
+        responseData.originalTranscription = task.originalTranscription;
+      }
       responseData.originalAudioUrl = `/api/v1/memo/audio/${task.taskId}`;
     }
 
@@ -0,0 +1,231 @@
+/**
+ * Regenerate or refine one task's generated content, keeping every draft
+ * - POST /api/v1/memo/{taskId}/items/{index}/generate - write a new draft
+ * - GET /api/v1/memo/{taskId}/items/{index}/versions - list the drafts
+ * - POST /api/v1/memo/{taskId}/items/{index}/versions/{versionId}/select - go back to a draft
+ *
+ * {index} is the task's zero-based position in the memo's list
+ */
+
+import type { WorkerContext } from '../index';
+import { jsonResponse, jsonError, isValidUuid, isJsonObject } from '../http';
+import {
+  getGeneratedContentVersions,
+  getMemoItemAtPosition,
+  getTask,
+  saveGeneratedContentVersion,
+  selectGeneratedContentVersion,
+  type GeneratedContentVersion,
+  type MemoItem,
+} from '../db';
+import { generateTaskContent } from '../workflow/generate';
+import { toMemoItemSummary } from './memo-items';
+
+const MAX_INSTRUCTION_LENGTH = 500;
+
+/**
+ * Handler for POST /api/v1/memo/{taskId}/items/{index}/generate
+ * Generates the task's content again and makes the new draft current; earlier drafts are kept
+ *
+ * Request body (optional): { instruction?: string }
+ * - instruction: how to revise the current content, e.g. "make it shorter" or "more formal"
+ *
+ * Returns the updated item and all of its drafts, oldest first
+ */
+export async function handleGenerateMemoItem(
+  request: Request,
+  context: WorkerContext
+): Promise<Response> {
+  try {
+    const { taskId, index } = extractIds(request);
+    const checked = validateRequest(taskId, index, context);
+    if (checked instanceof Response) {
+      return checked;
+    }
+    const { db, userId, position } = checked;
+
+    // The body is optional; an empty one is a plain regeneration
+    let body: unknown = {};
+    const rawBody = await request.text();
+    if (rawBody.trim()) {
+      try {
+        body = JSON.parse(rawBody);
+      } catch {
+        return jsonError(400, 'Bad Request', 'Request body must be valid JSON');
+      }
+    }
+
+    if (!isJsonObject(body)) {
+      return jsonError(400, 'Bad Request', 'Request body must be a JSON object');
+    }
+
+    const instruction = body.instruction;
+    if (instruction !== undefined && (typeof instruction !== 'string' || !instruction.trim())) {
+      return jsonError(400, 'Bad Request', 'instruction must be a non-empty string');
+    }
+    if (typeof instruction === 'string' && instruction.trim().length > MAX_INSTRUCTION_LENGTH) {
+      return jsonError(400, 'Bad Request', `instruction must be at most ${MAX_INSTRUCTION_LENGTH} characters`);
+    }
+
+    // Fetch task with security check (both taskId and userId)
+    const task = await getTask(db, taskId, userId);
+    if (!task) {
+      return jsonError(404, 'Not Found', 'Task not found');
+    }
+    if (task.status === 'pending' || task.status === 'processing') {
+      return jsonError(409, 'Conflict', 'Memo is still being processed');
+    }
+
+    const item = await getMemoItemAtPosition(db, taskId, userId, position);
+    if (!item) {
+      return jsonError(404, 'Not Found', 'Item not found');
+    }
+    if (!item.generativeTaskPrompt) {
+      return jsonError(409, 'Conflict', 'This task has no content to generate');
+    }
+    if (instruction !== undefined && !item.generatedContent) {
+      return jsonError(409, 'Conflict', 'This task has no content to refine yet');
+    }
+
+    const refine = instruction !== undefined && item.generatedContent
+      ? { previousContent: item.generatedContent, instruction: instruction.trim() }
+      : undefined;
+    const content = await generateTaskContent(item.generativeTaskPrompt, context.env, { refine });
+    await saveGeneratedContentVersion(db, item, content, instruction?.trim() ?? null);
+
+    const versions = await getGeneratedContentVersions(db, item.itemId, userId);
+
+    return jsonResponse(200, {
+      item: toMemoItemSummary({ ...item, generatedContent: content }),
+      versions: versions.map(toVersionSummary),
+    });
+  } catch (error) {
+    console.error('Error in handleGenerateMemoItem:', error);
+    return jsonError(500, 'Internal Server Error', error instanceof Error ? error.message : 'An unexpected error occurred');
+  }
+}
+
+/**
+ * Handler for GET /api/v1/memo/{taskId}/items/{index}/versions
+ * Returns the item and every stored draft of its content, oldest first
+ * (empty until the content is first regenerated)
+ */
+export async function handleGetMemoItemVersions(
+  request: Request,
+  context: WorkerContext
+): Promise<Response> {
+  try {
+    const { taskId, index } = extractIds(request);
+    const checked = validateRequest(taskId, index, context);
+    if (checked instanceof Response) {
+      return checked;
+    }
+    const { db, userId, position } = checked;
+
+    const item = await getMemoItemAtPosition(db, taskId, userId, position);
+    if (!item) {
+      return jsonError(404, 'Not Found', 'Item not found');
+    }
+
+    const versions = await getGeneratedContentVersions(db, item.itemId, userId);
+
+    return jsonResponse(200, {
+      item: toMemoItemSummary(item),
+      versions: versions.map(toVersionSummary),
+    });
+  } catch (error) {
+    console.error('Error in handleGetMemoItemVersions:', error);
+    return jsonError(500, 'Internal Server Error', error instanceof Error ? error.message : 'An unexpected error occurred');
+  }
+}
+
+/**
+ * Handler for POST /api/v1/memo/{taskId}/items/{index}/versions/{versionId}/select
+ * Makes an earlier draft the task's current content
+ */
+export async function handleSelectMemoItemVersion(
+  request: Request,
+  context: WorkerContext
+): Promise<Response> {
+  try {
+    const { taskId, index, versionId } = extractIds(request);
+    const checked = validateRequest(taskId, index, context);
+    if (checked instanceof Response) {
+      return checked;
+    }
+    const { db, userId, position } = checked;
+    if (!versionId || !isValidUuid(versionId)) {
+      return jsonError(400, 'Bad Request', 'Invalid version ID format');
+    }
+
+    const item = await getMemoItemAtPosition(db, taskId, userId, position);
+    if (!item) {
+      return jsonError(404, 'Not Found', 'Item not found');
+    }
+
+    const versions = await getGeneratedContentVersions(db, item.itemId, userId);
+    const selected = versions.find((version) => version.versionId === versionId);
+    if (!selected || !(await selectGeneratedContentVersion(db, item, versionId))) {
+      return jsonError(404, 'Not Found', 'Version not found');
+    }
+
+    const updated: MemoItem = { ...item, generatedContent: selected.content };
+    return jsonResponse(200, {
+      item: toMemoItemSummary(updated),
+      versions: versions.map(toVersionSummary),
+    });
+  } catch (error) {
+    console.error('Error in handleSelectMemoItemVersion:', error);
+    return jsonError(500, 'Internal Server Error', error instanceof Error ? error.message : 'An unexpected error occurred');
+  }
+}
+
+/**
+ * Convert a stored draft to the client-facing shape
+ */
+function toVersionSummary(version: GeneratedContentVersion) {
+  return {
+    versionId: version.versionId,
+    content: version.content,
+    instruction: version.instruction,
+    createdAt: version.createdAt,
+  };
+}
+
+/**
+ * Extract IDs from URL: /api/v1/memo/{taskId}/items/{index}/(generate|versions[/{versionId}/select])
+ */
+function extractIds(request: Request): { taskId: string; index: string; versionId?: string } {
+  const pathParts = new URL(request.url).pathname.split('/');
+  const memoIndex = pathParts.indexOf('memo');
+  return { taskId: pathParts[memoIndex + 1], index: pathParts[memoIndex + 3], versionId: pathParts[memoIndex + 5] };
+}
+
+/**
+ * Checks shared by every route: task ID and index format, authentication and database binding
+ * Returns the database, user and position, or the error response to send
+ */
+function validateRequest(
+  taskId: string,
+  index: string,
+  context: WorkerContext
+): { db: D1Database; userId: string; position: number } | Response {
+  if (!taskId || !isValidUuid(taskId)) {
+    return jsonError(400, 'Bad Request', 'Invalid task ID format');
+  }
+  if (!/^\d+$/.test(index ?? '')) {
+    return jsonError(400, 'Bad Request', 'Item index must be a non-negative integer');
+  }
+
+  // Get authenticated user
+  const userId = context.data.userId;
+  if (!userId) {
+    return jsonError(401, 'Unauthorized', 'User ID not found. Please authenticate.');
+  }
+
+  const db = context.env.DB;
+  if (!db) {
+    return jsonError(500, 'Internal Server Error', 'Database not configured');
+  }
+  return { db, userId, position: Number(index) };
+}
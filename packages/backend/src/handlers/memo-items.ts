@@ -0,0 +1,308 @@
+/**
+ * /api/v1/memo/{taskId}/items - List, add, edit, reorder and delete a memo's tasks
+ */
+
+import type { WorkerContext } from '../index';
+import { jsonResponse, jsonError, isValidUuid, isJsonObject } from '../http';
+import {
+  createMemoItem,
+  deleteMemoItem,
+  getMemoItems,
+  getTask,
+  moveMemoItem,
+  updateMemoItem,
+  type MemoItem,
+  type MemoItemUpdate,
+} from '../db';
+
+const MAX_ITEM_TEXT_LENGTH = 500;
+
+/**
+ * Memo item as returned to clients
+ */
+export interface MemoItemSummary {
+  itemId: string;
+  taskId: string;
+  position: number;
+  text: string;
+  originalText: string;
+  due: string | null;
+  completed: boolean;
+  completedAt: string | null;
+  generativeTaskPrompt: string | null;
+  generatedContent: string | null;
+  segmentIndex: number | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Handler for GET /api/v1/memo/{taskId}/items
+ * Returns the memo's items in display order
+ */
+export async function handleGetMemoItems(
+  request: Request,
+  context: WorkerContext
+): Promise<Response> {
+  try {
+    const { taskId } = extractIds(request);
+    const checked = validateRequest(taskId, context);
+    if (checked instanceof Response) {
+      return checked;
+    }
+    const { db, userId } = checked;
+
+    // Fetch task with security check (both taskId and userId)
+    const task = await getTask(db, taskId, userId);
+    if (!task) {
+      return jsonError(404, 'Not Found', 'Task not found');
+    }
+
+    const items = await getMemoItems(db, taskId, userId);
+
+    return jsonResponse(200, { taskId, items: items.map(toMemoItemSummary) });
+  } catch (error) {
+    console.error('Error in handleGetMemoItems:', error);
+    return jsonError(500, 'Internal Server Error', error instanceof Error ? error.message : 'An unexpected error occurred');
+  }
+}
+
+/**
+ * Handler for POST /api/v1/memo/{taskId}/items
+ * Adds a task the user wrote themselves to the end of the memo's list
+ *
+ * Request body: { text: string, due?: string | null }
+ */
+export async function handleCreateMemoItem(
+  request: Request,
+  context: WorkerContext
+): Promise<Response> {
+  try {
+    const { taskId } = extractIds(request);
+    const checked = validateRequest(taskId, context);
+    if (checked instanceof Response) {
+      return checked;
+    }
+    const { db, userId } = checked;
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return jsonError(400, 'Bad Request', 'Request body must be valid JSON');
+    }
+
+    if (!isJsonObject(body)) {
+      return jsonError(400, 'Bad Request', 'Request body must be a JSON object');
+    }
+
+    const text = parseText(body.text);
+    if ('error' in text) {
+      return jsonError(400, 'Bad Request', text.error);
+    }
+    if (body.due !== undefined && !isValidDue(body.due)) {
+      return jsonError(400, 'Bad Request', 'due must be an ISO 8601 date or null');
+    }
+
+    const task = await getTask(db, taskId, userId);
+    if (!task) {
+      return jsonError(404, 'Not Found', 'Task not found');
+    }
+
+    const item = await createMemoItem(db, taskId, userId, text.text, body.due ?? null);
+
+    return jsonResponse(201, toMemoItemSummary(item));
+  } catch (error) {
+    console.error('Error in handleCreateMemoItem:', error);
+    return jsonError(500, 'Internal Server Error', error instanceof Error ? error.message : 'An unexpected error occurred');
+  }
+}
+
+/**
+ * Handler for PATCH /api/v1/memo/{taskId}/items/{itemId}
+ * Edits an item's text or due date, completes/uncompletes it, or moves it
+ *
+ * Request body: { text?: string, due?: string | null, completed?: boolean, position?: number }
+ * - position: new zero-based index in the list; the other items shift to make room
+ */
+export async function handleUpdateMemoItem(
+  request: Request,
+  context: WorkerContext
+): Promise<Response> {
+  try {
+    const { taskId, itemId } = extractIds(request);
+    const checked = validateRequest(taskId, context);
+    if (checked instanceof Response) {
+      return checked;
+    }
+    const { db, userId } = checked;
+    if (!itemId || !isValidUuid(itemId)) {
+      return jsonError(400, 'Bad Request', 'Invalid item ID format');
+    }
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return jsonError(400, 'Bad Request', 'Request body must be valid JSON');
+    }
+
+    if (!isJsonObject(body)) {
+      return jsonError(400, 'Bad Request', 'Request body must be a JSON object');
+    }
+
+    const update: MemoItemUpdate = {};
+    if (body.text !== undefined) {
+      const text = parseText(body.text);
+      if ('error' in text) {
+        return jsonError(400, 'Bad Request', text.error);
+      }
+      update.text = text.text;
+    }
+    if (body.due !== undefined) {
+      if (!isValidDue(body.due)) {
+        return jsonError(400, 'Bad Request', 'due must be an ISO 8601 date or null');
+      }
+      update.due = body.due;
+    }
+    if (body.completed !== undefined) {
+      if (typeof body.completed !== 'boolean') {
+        return jsonError(400, 'Bad Request', 'completed must be a boolean');
+      }
+      update.completed = body.completed;
+    }
+    const position = body.position;
+    if (position !== undefined && (typeof position !== 'number' || !Number.isInteger(position) || position < 0)) {
+      return jsonError(400, 'Bad Request', 'position must be a non-negative integer');
+    }
+    if (Object.keys(update).length === 0 && position === undefined) {
+      return jsonError(400, 'Bad Request', 'Provide at least one of: text, due, completed, position');
+    }
+
+    let item: MemoItem | null = null;
+    if (Object.keys(update).length > 0) {
+      item = await updateMemoItem(db, itemId, taskId, userId, update);
+      if (!item) {
+        return jsonError(404, 'Not Found', 'Item not found');
+      }
+    }
+
+    if (position !== undefined) {
+      const items = await moveMemoItem(db, itemId, taskId, userId, position);
+      item = items?.find((candidate) => candidate.itemId === itemId) ?? null;
+    }
+
+    if (!item) {
+      return jsonError(404, 'Not Found', 'Item not found');
+    }
+
+    return jsonResponse(200, toMemoItemSummary(item));
+  } catch (error) {
+    console.error('Error in handleUpdateMemoItem:', error);
+    return jsonError(500, 'Internal Server Error', error instanceof Error ? error.message : 'An unexpected error occurred');
+  }
+}
+
+/**
+ * Handler for DELETE /api/v1/memo/{taskId}/items/{itemId}
+ */
+export async function handleDeleteMemoItem(
+  request: Request,
+  context: WorkerContext
+): Promise<Response> {
+  try {
+    const { taskId, itemId } = extractIds(request);
+    const checked = validateRequest(taskId, context);
+    if (checked instanceof Response) {
+      return checked;
+    }
+    const { db, userId } = checked;
+    if (!itemId || !isValidUuid(itemId)) {
+      return jsonError(400, 'Bad Request', 'Invalid item ID format');
+    }
+
+    const deleted = await deleteMemoItem(db, itemId, taskId, userId);
+    if (!deleted) {
+      return jsonError(404, 'Not Found', 'Item not found');
+    }
+
+    return new Response(null, {
+      status: 204,
+    });
+  } catch (error) {
+    console.error('Error in handleDeleteMemoItem:', error);
+    return jsonError(500, 'Internal Server Error', error instanceof Error ? error.message : 'An unexpected error occurred');
+  }
+}
+
+/**
+ * Convert a database row to the client-facing shape
+ */
+export function toMemoItemSummary(item: MemoItem): MemoItemSummary {
+  return {
+    itemId: item.itemId,
+    taskId: item.taskId,
+    position: item.position,
+    text: item.text,
+    originalText: item.originalText,
+    due: item.due,
+    completed: item.completed === 1,
+    completedAt: item.completedAt,
+    generativeTaskPrompt: item.generativeTaskPrompt,
+    generatedContent: item.generatedContent,
+    segmentIndex: item.segmentIndex,
+    createdAt: item.createdAt,
+    updatedAt: item.updatedAt,
+  };
+}
+
+/**
+ * Extract IDs from URL: /api/v1/memo/{taskId}/items[/{itemId}]
+ */
+function extractIds(request: Request): { taskId: string; itemId?: string } {
+  const pathParts = new URL(request.url).pathname.split('/');
+  const memoIndex = pathParts.indexOf('memo');
+  return { taskId: pathParts[memoIndex + 1], itemId: pathParts[memoIndex + 3] };
+}
+
+/**
+ * Checks shared by every items route: task ID format, authentication and database binding
+ * Returns the database and user, or the error response to send
+ */
+function validateRequest(
+  taskId: string,
+  context: WorkerContext
+): { db: D1Database; userId: string } | Response {
+  if (!taskId || !isValidUuid(taskId)) {
+    return jsonError(400, 'Bad Request', 'Invalid task ID format');
+  }
+
+  // Get authenticated user
+  const userId = context.data.userId;
+  if (!userId) {
+    return jsonError(401, 'Unauthorized', 'User ID not found. Please authenticate.');
+  }
+
+  const db = context.env.DB;
+  if (!db) {
+    return jsonError(500, 'Internal Server Error', 'Database not configured');
+  }
+  return { db, userId };
+}
+
+/**
+ * The trimmed item text, or why it is invalid
+ */
+function parseText(text: unknown): { text: string } | { error: string } {
+  if (typeof text !== 'string' || !text.trim()) {
+    return { error: 'text must be a non-empty string' };
+  }
+  if (text.trim().length > MAX_ITEM_TEXT_LENGTH) {
+    return { error: `text must be at most ${MAX_ITEM_TEXT_LENGTH} characters` };
+  }
+  return { text: text.trim() };
+}
+
+function isValidDue(due: unknown): due is string | null {
+  return due === null || (typeof due === 'string' && !Number.isNaN(Date.parse(due)));
+}
@@ -0,0 +1,181 @@
+/**
+ * POST /api/v1/memo/{taskId}/reprocess - Rerun the pipeline on an existing memo
+ */
+
+import type { WorkerContext } from '../index';
+import { jsonError, isValidUuid, isJsonObject } from '../http';
+import { getTask, resetTaskForReprocessing, updateTaskError, type Task } from '../db';
+import { REPROCESS_STAGES, type ReprocessStage } from '../workflow-handler';
+
+/**
+ * Handler for POST /api/v1/memo/{taskId}/reprocess
+ * Resets a completed or failed memo to 'pending' and queues the pipeline again,
+ * reusing the stored audio or the saved transcription/tasks depending on fromStage
+ *
+ * Request body (optional): { fromStage?: 'transcribe' | 'extract' | 'generate' } (defaults to 'transcribe')
+ *
+ * Progress is published through TaskStatusDO exactly like a fresh upload
+ */
+export async function handleReprocessMemo(
+  request: Request,
+  context: WorkerContext
+): Promise<Response> {
+  try {
+    // Extract taskId from URL: /api/v1/memo/{taskId}/reprocess
+    const url = new URL(request.url);
+    const pathParts = url.pathname.split('/');
+    const taskId = pathParts[pathParts.length - 2];
+
+    if (!taskId || !isValidUuid(taskId)) {
+      return jsonError(400, 'Bad Request', 'Invalid task ID format');
+    }
+
+    // Get authenticated user
+    const userId = context.data.userId;
+    if (!userId) {
+      return jsonError(401, 'Unauthorized', 'User ID not found. Please authenticate.');
+    }
+
+    const { DB: db, VOICE_MEMO_QUEUE: queue } = context.env;
+    if (!db) {
+      return jsonError(500, 'Internal Server Error', 'Database not configured');
+    }
+    if (!queue) {
+      return jsonError(500, 'Internal Server Error', 'Queue not configured');
+    }
+
+    // Parse optional JSON body
+    let body: unknown = {};
+    const rawBody = await request.text();
+    if (rawBody.trim()) {
+      try {
+        body = JSON.parse(rawBody);
+      } catch {
+        return jsonError(400, 'Bad Request', 'Request body must be valid JSON');
+      }
+    }
+
+    if (!isJsonObject(body)) {
+      return jsonError(400, 'Bad Request', 'Request body must be a JSON object');
+    }
+
+    const fromStage = body.fromStage ?? 'transcribe';
+    if (!isReprocessStage(fromStage)) {
+      return jsonError(400, 'Bad Request', `fromStage must be one of: ${REPROCESS_STAGES.join(', ')}`);
+    }
+
+    // Fetch task with security check (both taskId and userId)
+    const task = await getTask(db, taskId, userId);
+    if (!task) {
+      return jsonError(404, 'Not Found', 'Task not found');
+    }
+
+    if (task.status === 'pending' || task.status === 'processing') {
+      return jsonError(409, 'Conflict', 'Memo is already being processed');
+    }
+
+    // The workflow derives the task from the audio key, so it's needed for every stage
+    if (!task.r2Key) {
+      return jsonError(409, 'Conflict', 'Original audio is no longer available');
+    }
+
+    if (fromStage !== 'transcribe' && !task.transcription) {
+      return jsonError(409, 'Conflict', "Memo has no saved transcription. Reprocess from 'transcribe' instead.");
+    }
+
+    if (fromStage === 'generate' && !task.processedTasks) {
+      return jsonError(409, 'Conflict', "Memo has no saved tasks. Reprocess from 'extract' instead.");
+    }
+
+    const queueError = await queueReprocessing(context, task, fromStage);
+    if (queueError) {
+      return queueError;
+    }
+
+    return new Response(
+      JSON.stringify({
+        taskId,
+        status: 'pending',
+        fromStage,
+        statusUrl: `/api/v1/memo/${taskId}`,
+      }),
+      {
+        status: 202,
+        statusText: 'Accepted',
+        headers: { 'Content-Type': 'application/json' },
+      }
+    );
+  } catch (error) {
+    console.error('Error in handleReprocessMemo:', error);
+    return jsonError(500, 'Internal Server Error', error instanceof Error ? error.message : 'An unexpected error occurred');
+  }
+}
+
+/**
+ * Reset a finished memo to 'pending' and queue the pipeline from fromStage
+ * Returns an error response if the memo can't be queued, or null once it has been
+ */
+export async function queueReprocessing(
+  context: WorkerContext,
+  task: Task,
+  fromStage: ReprocessStage
+): Promise<Response | null> {
+  const { DB: db, VOICE_MEMO_QUEUE: queue } = context.env;
+  if (!db || !queue) {
+    return jsonError(500, 'Internal Server Error', 'Queue not configured');
+  }
+
+  // Reset status (guards against a concurrent reprocess of the same memo)
+  const reset = await resetTaskForReprocessing(db, task.taskId, task.userId);
+  if (!reset) {
+    return jsonError(409, 'Conflict', 'Memo is already being processed');
+  }
+
+  // Clear the previous run's status history so clients don't replay its completion
+  await resetTaskStatusHistory(task.taskId, context.env);
+
+  // Send message to queue to trigger workflow asynchronously (same path as a fresh upload)
+  try {
+    await queue.send({
+      bucket: 'voice-memos',
+      key: task.r2Key,
+      eventName: 'reprocess',
+      eventTimestamp: new Date().toISOString(),
+      taskId: task.taskId,
+      userId: task.userId,
+      fromStage,
+    });
+    console.log(`✅ Queued reprocessing of task ${task.taskId} from ${fromStage}`);
+  } catch (queueError) {
+    // Unlike uploads, nothing else will pick this memo up, so don't leave it stuck in 'pending'
+    console.error('Failed to queue reprocessing:', queueError);
+    await updateTaskError(db, task.taskId, 'Failed to queue reprocessing');
+    return jsonError(500, 'Internal Server Error', 'Failed to queue reprocessing');
+  }
+
+  return null;
+}
+
+/**
+ * Clear the task's status history in TaskStatusDO
+ * Failures are logged but don't block reprocessing - status updates are non-critical
+ */
+async function resetTaskStatusHistory(taskId: string, env: WorkerContext['env']): Promise<void> {
+  const doId = env.TASK_STATUS_DO?.idFromName?.(taskId);
+  if (!doId || !env.TASK_STATUS_DO?.get) {
+    console.warn(`[StatusUpdate] ⚠️  TASK_STATUS_DO not available for task ${taskId}, skipping history reset`);
+    return;
+  }
+
+  try {
+    await env.TASK_STATUS_DO.get(doId).fetch(
+      new Request('https://do/reset', { method: 'POST' })
+    );
+  } catch (error) {
+    console.error(`[StatusUpdate] ❌ Failed to reset status history for task ${taskId}:`, error);
+  }
+}
+
+function isReprocessStage(value: unknown): value is ReprocessStage {
+  return REPROCESS_STAGES.includes(value as ReprocessStage);
+}
@@ -0,0 +1,78 @@
+/**
+ * PATCH /api/v1/memo/{taskId}/title - Rename a memo
+ */
+
+import type { WorkerContext } from '../index';
+import { jsonError, isValidUuid, isJsonObject } from '../http';
+import { updateTaskTitle } from '../db';
+import { MAX_TITLE_LENGTH } from '../workflow/summarize';
+
+/**
+ * Handler for PATCH /api/v1/memo/{taskId}/title
+ * Replaces the memo's title; an edited title is kept when the summary is regenerated
+ *
+ * Request body: { title: string }
+ */
+export async function handleUpdateTitle(
+  request: Request,
+  context: WorkerContext
+): Promise<Response> {
+  try {
+    const taskId = extractTaskId(request);
+    if (!taskId || !isValidUuid(taskId)) {
+      return jsonError(400, 'Bad Request', 'Invalid task ID format');
+    }
+
+    // Get authenticated user
+    const userId = context.data.userId;
+    if (!userId) {
+      return jsonError(401, 'Unauthorized', 'User ID not found. Please authenticate.');
+    }
+
+    const db = context.env.DB;
+    if (!db) {
+      return jsonError(500, 'Internal Server Error', 'Database not configured');
+    }
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return jsonError(400, 'Bad Request', 'Request body must be valid JSON');
+    }
+
+    if (!isJsonObject(body)) {
+      return jsonError(400, 'Bad Request', 'Request body must be a JSON object');
+    }
+
+    const title = typeof body.title === 'string' ? body.title.replace(/\s+/g, ' ').trim() : '';
+    if (!title) {
+      return jsonError(400, 'Bad Request', 'title must be a non-empty string');
+    }
+    if (title.length > MAX_TITLE_LENGTH) {
+      return jsonError(400, 'Bad Request', `title must be at most ${MAX_TITLE_LENGTH} characters`);
+    }
+
+    // Security check is part of the update (both taskId and userId)
+    const updated = await updateTaskTitle(db, taskId, userId, title);
+    if (!updated) {
+      return jsonError(404, 'Not Found', 'Task not found');
+    }
+
+    return new Response(JSON.stringify({ taskId, title }), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('Error in handleUpdateTitle:', error);
+    return jsonError(500, 'Internal Server Error', error instanceof Error ? error.message : 'An unexpected error occurred');
+  }
+}
+
+/**
+ * Extract taskId from URL: /api/v1/memo/{taskId}/title
+ */
+function extractTaskId(request: Request): string | undefined {
+  const pathParts = new URL(request.url).pathname.split('/');
+  return pathParts[pathParts.indexOf('memo') + 1];
+}
@@ -0,0 +1,183 @@
+/**
+ * Transcription editing endpoints
+ * - PATCH /api/v1/memo/{taskId}/transcription - Save a corrected transcript
+ * - GET /api/v1/memo/{taskId}/transcription/revisions - List the transcript's edit history
+ */
+
+import type { WorkerContext } from '../index';
+import { jsonError, isValidUuid, isJsonObject } from '../http';
+import { getTask, getTranscriptionRevisions, saveTranscriptionRevision } from '../db';
+import { queueReprocessing } from './memo-reprocess';
+
+/**
+ * Longest transcript accepted from an edit (about 3 hours of speech)
+ */
+const MAX_TRANSCRIPTION_LENGTH = 100_000;
+
+/**
+ * Handler for PATCH /api/v1/memo/{taskId}/transcription
+ * Replaces the transcript of a completed or failed memo with a user correction.
+ * The Whisper transcript is kept as originalTranscription, and every edit is stored as a revision
+ *
+ * Request body: { transcription: string, reextract?: boolean }
+ * - reextract: rerun the pipeline from 'extract' so tasks are rebuilt from the corrected text
+ *
+ * Returns 200 with the saved revision, or 202 when re-extraction was queued
+ */
+export async function handleUpdateTranscription(
+  request: Request,
+  context: WorkerContext
+): Promise<Response> {
+  try {
+    const taskId = extractTaskId(request);
+    if (!taskId || !isValidUuid(taskId)) {
+      return jsonError(400, 'Bad Request', 'Invalid task ID format');
+    }
+
+    // Get authenticated user
+    const userId = context.data.userId;
+    if (!userId) {
+      return jsonError(401, 'Unauthorized', 'User ID not found. Please authenticate.');
+    }
+
+    const db = context.env.DB;
+    if (!db) {
+      return jsonError(500, 'Internal Server Error', 'Database not configured');
+    }
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return jsonError(400, 'Bad Request', 'Request body must be valid JSON');
+    }
+
+    if (!isJsonObject(body)) {
+      return jsonError(400, 'Bad Request', 'Request body must be a JSON object');
+    }
+
+    const transcription = typeof body.transcription === 'string' ? body.transcription.trim() : '';
+    if (!transcription) {
+      return jsonError(400, 'Bad Request', 'transcription must be a non-empty string');
+    }
+    if (transcription.length > MAX_TRANSCRIPTION_LENGTH) {
+      return jsonError(400, 'Bad Request', `transcription must be at most ${MAX_TRANSCRIPTION_LENGTH} characters`);
+    }
+    if (body.reextract !== undefined && typeof body.reextract !== 'boolean') {
+      return jsonError(400, 'Bad Request', 'reextract must be a boolean');
+    }
+    const reextract = body.reextract === true;
+
+    // Fetch task with security check (both taskId and userId)
+    const task = await getTask(db, taskId, userId);
+    if (!task) {
+      return jsonError(404, 'Not Found', 'Task not found');
+    }
+
+    if (task.status === 'pending' || task.status === 'processing') {
+      return jsonError(409, 'Conflict', 'Memo is still being processed');
+    }
+
+    if (reextract && !task.r2Key) {
+      return jsonError(409, 'Conflict', 'Original audio is no longer available');
+    }
+
+    const revision = await saveTranscriptionRevision(db, taskId, userId, transcription);
+    if (!revision) {
+      return jsonError(409, 'Conflict', 'Memo is still being processed');
+    }
+
+    if (reextract) {
+      const queueError = await queueReprocessing(context, task, 'extract');
+      if (queueError) {
+        return queueError;
+      }
+    }
+
+    return new Response(
+      JSON.stringify({
+        taskId,
+        transcription,
+        originalTranscription: task.originalTranscription ?? task.transcription,
+        revision: {
+          revisionId: revision.revisionId,
+          transcription: revision.transcription,
+          createdAt: revision.createdAt,
+        },
+        reextracting: reextract,
+        ...(reextract ? { status: 'pending', statusUrl: `/api/v1/memo/${taskId}` } : {}),
+      }),
+      {
+        status: reextract ? 202 : 200,
+        headers: { 'Content-Type': 'application/json' },
+      }
+    );
+  } catch (error) {
+    console.error('Error in handleUpdateTranscription:', error);
+    return jsonError(500, 'Internal Server Error', error instanceof Error ? error.message : 'An unexpected error occurred');
+  }
+}
+
+/**
+ * Handler for GET /api/v1/memo/{taskId}/transcription/revisions
+ * Returns the Whisper transcript and every user edit, oldest first
+ */
+export async function handleGetTranscriptionRevisions(
+  request: Request,
+  context: WorkerContext
+): Promise<Response> {
+  try {
+    const taskId = extractTaskId(request);
+    if (!taskId || !isValidUuid(taskId)) {
+      return jsonError(400, 'Bad Request', 'Invalid task ID format');
+    }
+
+    // Get authenticated user
+    const userId = context.data.userId;
+    if (!userId) {
+      return jsonError(401, 'Unauthorized', 'User ID not found. Please authenticate.');
+    }
+
+    const db = context.env.DB;
+    if (!db) {
+      return jsonError(500, 'Internal Server Error', 'Database not configured');
+    }
+
+    // Fetch task with security check (both taskId and userId)
+    const task = await getTask(db, taskId, userId);
+    if (!task) {
+      return jsonError(404, 'Not Found', 'Task not found');
+    }
+
+    const revisions = await getTranscriptionRevisions(db, taskId, userId);
+
+    return new Response(
+      JSON.stringify({
+        taskId,
+        transcription: task.transcription,
+        // Unedited memos have no separate original - the current transcript is Whisper's
+        originalTranscription: task.originalTranscription ?? task.transcription,
+        revisions: revisions.map((revision) => ({
+          revisionId: revision.revisionId,
+          transcription: revision.transcription,
+          createdAt: revision.createdAt,
+        })),
+      }),
+      {
+        status: 200,
+        headers: { 'Content-Type': 'application/json' },
+      }
+    );
+  } catch (error) {
+    console.error('Error in handleGetTranscriptionRevisions:', error);
+    return jsonError(500, 'Internal Server Error', error instanceof Error ? error.message : 'An unexpected error occurred');
+  }
+}
+
+/**
+ * Extract taskId from URL: /api/v1/memo/{taskId}/transcription[/revisions]
+ */
+function extractTaskId(request: Request): string | undefined {
+  const pathParts = new URL(request.url).pathname.split('/');
+  return pathParts[pathParts.indexOf('memo') + 1];
+}
@@ -1,7 +1,9 @@
 import { v4 as uuidv4 } from 'uuid';
-import { createTask } from '../db';
+import { createTask, type TaskAudio } from '../db';
 import { uploadAudioToR2, deleteAudioFromR2 } from '../r2';
 import { logPipelineEvent } from '../analytics';
+import { checkAudioContent } from '../audio-format';
+import { checkAudioDuration, parseAudioMetadata, resolveMaxAudioDuration } from '../audio-metadata';
 
 interface WorkerContext {
   env: {
@@ -9,19 +11,14 @@ interface WorkerContext {
     R2_BUCKET: R2Bucket;
     VOICE_MEMO_QUEUE?: Queue;
     ANALYTICS: AnalyticsEngineDataset;
+    MAX_AUDIO_DURATION_SECONDS?: string;
   };
   data: {
     userId?: string;
   };
 }
 
-/**
- * Supported audio formats:
- * - WebM: Modern, efficient format with best compression (preferred for web)
- * - MP3: Universal compatibility with older clients and native apps
- */
-const ALLOWED_MIME_TYPES = ['audio/webm', 'audio/mpeg'];
-const MAX_FILE_SIZE = 50 * 1024 * 1024; // 50MB
+export const MAX_FILE_SIZE = 50 * 1024 * 1024; // 50MB
 
 /**
  * Handler for POST /api/v1/memo
@@ -129,12 +126,14 @@ export async function handlePostMemo(
       );
     }
 
-    // 7. Validate file MIME type
-    if (!ALLOWED_MIME_TYPES.includes(audio.type)) {
+    // 7. Detect the audio format from the file's content and check it matches the declared type
+    const audioBuffer = await audio.arrayBuffer();
+    const audioCheck = checkAudioContent(new Uint8Array(audioBuffer), audio.type);
+    if ('error' in audioCheck) {
       return new Response(
         JSON.stringify({
           error: 'Unsupported Media Type',
-          message: `Audio file type '${audio.type}' is not supported. Supported formats: WebM (audio/webm) and MP3 (audio/mpeg)`,
+          message: audioCheck.error,
         }),
         {
           status: 415,
@@ -143,10 +142,33 @@ export async function handlePostMemo(
       );
     }
 
-    // 8. Generate task ID
+    // 8. Read the recording's details from its headers and enforce the maximum duration
+    const audioDetails: TaskAudio = {
+      ...parseAudioMetadata(new Uint8Array(audioBuffer), audioCheck.format),
+      sizeBytes: audio.size,
+    };
+    const durationError = checkAudioDuration(
+      audioDetails,
+      resolveMaxAudioDuration(context.env.MAX_AUDIO_DURATION_SECONDS),
+      audioCheck.format
+    );
+    if (durationError) {
+      return new Response(
+        JSON.stringify({
+          error: 'Payload Too Large',
+          message: durationError,
+        }),
+        {
+          status: 413,
+          headers: { 'Content-Type': 'application/json' },
+        }
+      );
+    }
+
+    // 9. Generate task ID
     taskId = uuidv4();
 
-    // 9. Validate services are available
+    // 10. Validate services are available
     const { DB: db, R2_BUCKET: r2Bucket, ANALYTICS: analytics } = context.env;
 
     if (!db || !r2Bucket) {
@@ -162,8 +184,7 @@ export async function handlePostMemo(
       );
     }
 
-    // 10. Upload to R2
-    const audioBuffer = await audio.arrayBuffer();
+    // 11. Upload to R2
     const r2UploadStartTime = performance.now();
 
     uploadedR2Key = await uploadAudioToR2(
@@ -171,7 +192,8 @@ export async function handlePostMemo(
       userId,
       taskId,
       audioBuffer,
-      audio.name || 'audio.webm'
+      audioCheck.format,
+      audio.name || 'audio'
     );
 
     const r2UploadDuration = performance.now() - r2UploadStartTime;
@@ -187,38 +209,8 @@ export async function handlePostMemo(
       },
     });
 
-    // 11. Create database record
-    try {
-      await createTask(db, taskId, userId, uploadedR2Key);
-    } catch (dbError) {
-      // Cleanup: Delete orphaned R2 file
-      console.error('Database insert failed, cleaning up R2 file:', uploadedR2Key);
-      try {
-        await deleteAudioFromR2(r2Bucket, uploadedR2Key);
-      } catch (cleanupError) {
-        console.error('Failed to cleanup R2 file:', cleanupError);
-      }
-      throw dbError;
-    }
-
-    // 12. Send message to queue to trigger workflow asynchronously
-    try {
-      const queueMessage = {
-        bucket: 'voice-memos',
-        key: uploadedR2Key,
-        eventName: 'object-created',
-        eventTimestamp: new Date().toISOString(),
-        taskId,
-        userId,
-      };
-
-      await context.env.VOICE_MEMO_QUEUE.send(queueMessage);
-      console.log(`✅ Queued workflow trigger for task ${taskId}`);
-    } catch (queueError) {
-      console.error('Failed to queue workflow trigger:', queueError);
-      // Don't fail the upload if queueing fails - the file is already in R2 and DB
-      // The queue might retry or we can manually trigger the workflow later
-    }
+    // 12. Create database record and queue the workflow
+    await startMemoProcessing(context, taskId, userId, uploadedR2Key, audioDetails);
 
     // 13. Return 202 Accepted response
     const uploadDuration = performance.now() - uploadStartTime;
@@ -272,3 +264,48 @@ export async function handlePostMemo(
     );
   }
 }
+
+/**
+ * Create the task for audio already stored in R2 and queue it for processing
+ * Shared by direct uploads and completed upload sessions
+ * The R2 object is deleted if the task can't be created; a queueing failure is only logged
+ */
+export async function startMemoProcessing(
+  context: WorkerContext,
+  taskId: string,
+  userId: string,
+  r2Key: string,
+  audio?: TaskAudio
+): Promise<void> {
+  try {
+    await createTask(context.env.DB, taskId, userId, r2Key, audio);
+  } catch (dbError) {
+    // Cleanup: Delete orphaned R2 file
+    console.error('Database insert failed, cleaning up R2 file:', r2Key);
+    try {
+      await deleteAudioFromR2(context.env.R2_BUCKET, r2Key);
+    } catch (cleanupError) {
+      console.error('Failed to cleanup R2 file:', cleanupError);
+    }
+    throw dbError;
+  }
+
+  // Send message to queue to trigger workflow asynchronously
+  try {
+    const queueMessage = {
+      bucket: 'voice-memos',
+      key: r2Key,
+      eventName: 'object-created',
+      eventTimestamp: new Date().toISOString(),
+      taskId,
+      userId,
+    };
+
+    await context.env.VOICE_MEMO_QUEUE.send(queueMessage);
+    console.log(`✅ Queued workflow trigger for task ${taskId}`);
+  } catch (queueError) {
+    console.error('Failed to queue workflow trigger:', queueError);
+    // Don't fail the upload if queueing fails - the file is already in R2 and DB
+    // The queue might retry or we can manually trigger the workflow later
+  }
+}
@@ -1,199 +1,240 @@
 /**
- * GET /api/v1/memos - Retrieve paginated list of user's memos
+ * GET /api/v1/memos - Retrieve a page of the user's memos, with filters and sorting
  */
 
 import type { WorkerContext } from '../index';
-import { getUserTasksPaginated } from '../db';
+import { jsonError } from '../http';
+import { getUserTasksPage, type MemoTag, type Task, type TaskPageCursor, type TaskSortField } from '../db';
 
 /**
  * Memo summary for list view
  */
 interface MemoSummary {
   taskId: string;
-  status: 'pending' | 'processing' | 'completed' | 'failed';
+  status: Task['status'];
   createdAt: string;
   updatedAt: string;
+  title?: string;
+  summary?: string;
+  keyPoints?: string[];
   transcription?: string;
   taskCount?: number;
   processingTimeSeconds?: number;
+  durationSeconds?: number;
+  sampleRate?: number;
+  channels?: number;
+  codec?: string;
+  sizeBytes?: number;
+  tags: MemoTag[];
 }
 
+const MEMO_STATUSES: Task['status'][] = ['pending', 'processing', 'completed', 'failed'];
+const SORT_FIELDS: TaskSortField[] = ['created', 'updated', 'processingTime'];
+const DEFAULT_MEMOS_LIMIT = 20;
+const MAX_MEMOS_LIMIT = 100;
+
 /**
  * Handler for GET /api/v1/memos
- * Returns paginated list of user's memos
+ * Returns one page of the user's memos, newest first by default
+ *
+ * Query parameters (all optional):
+ * - status: comma-separated statuses, e.g. 'pending,processing'
+ * - from, to: ISO dates or timestamps bounding createdAt (from inclusive, to exclusive)
+ * - hasOpenItems: 'true' | 'false' - only memos with/without uncompleted items
+ * - tag: only memos with this tag (by name, ignoring case)
+ * - sort: 'created' (default) | 'updated' | 'processingTime'
+ * - order: 'desc' (default) | 'asc'
+ * - limit: 1-100 (default 20)
+ * - cursor: nextCursor from the previous page; keep the other parameters unchanged
+ *
+ * Response: { memos, nextCursor, hasMore } - nextCursor is null on the last page
  */
 export async function handleGetMemos(
   request: Request,
   context: WorkerContext
 ): Promise<Response> {
   try {
-    console.log('[GetMemos] Starting handler');
-
-    // Get authenticated user
     const userId = context.data.userId;
-    console.log('[GetMemos] userId:', userId);
-
     if (!userId) {
-      console.warn('[GetMemos] No userId provided');
-      return new Response(
-        JSON.stringify({
-          error: 'Unauthorized',
-          message: 'User ID not found. Please authenticate.',
-        }),
-        {
-          status: 401,
-          headers: { 'Content-Type': 'application/json' },
-        }
-      );
+      return jsonError(401, 'Unauthorized', 'User ID not found. Please authenticate.');
     }
 
-    // Get database
     const { DB: db } = context.env;
-    console.log('[GetMemos] db binding available:', !!db);
-
     if (!db) {
-      console.error('[GetMemos] Database not available');
-      return new Response(
-        JSON.stringify({
-          error: 'Internal Server Error',
-          message: 'Database not configured',
-        }),
-        {
-          status: 500,
-          headers: { 'Content-Type': 'application/json' },
-        }
-      );
+      return jsonError(500, 'Internal Server Error', 'Database not configured');
     }
 
-    // Parse pagination query params
-    const url = new URL(request.url);
-    const limit = parsePaginationParam(url.searchParams.get('limit'), 100);
-    const offset = parsePaginationParam(url.searchParams.get('offset'), 0);
-    console.log('[GetMemos] pagination:', { limit, offset });
-
-    if (limit < 1 || limit > 100) {
-      console.warn('[GetMemos] Invalid limit:', limit);
-      return new Response(
-        JSON.stringify({
-          error: 'Bad Request',
-          message: 'Limit must be between 1 and 100',
-        }),
-        {
-          status: 400,
-          headers: { 'Content-Type': 'application/json' },
-        }
-      );
+    const params = new URL(request.url).searchParams;
+
+    const statusParam = params.get('status');
+    const statuses = statusParam
+      ? (statusParam.split(',').map((status) => status.trim()) as Task['status'][])
+      : undefined;
+    if (statuses && !statuses.every((status) => MEMO_STATUSES.includes(status))) {
+      return jsonError(400, 'Bad Request', `status must be a comma-separated list of: ${MEMO_STATUSES.join(', ')}`);
     }
 
-    if (offset < 0) {
-      console.warn('[GetMemos] Invalid offset:', offset);
-      return new Response(
-        JSON.stringify({
-          error: 'Bad Request',
-          message: 'Offset must be >= 0',
-        }),
-        {
-          status: 400,
-          headers: { 'Content-Type': 'application/json' },
-        }
-      );
+    const createdFrom = parseDateParam(params.get('from'));
+    const createdTo = parseDateParam(params.get('to'));
+    if (createdFrom === null || createdTo === null) {
+      return jsonError(400, 'Bad Request', 'from and to must be ISO 8601 dates or timestamps');
     }
 
-    // Fetch paginated tasks
-    console.log('[GetMemos] Calling getUserTasksPaginated...');
-    const { tasks, total } = await getUserTasksPaginated(db, userId, limit, offset);
-    console.log('[GetMemos] Query successful. tasks:', tasks.length, 'total:', total);
-
-    // Build response with summaries
-    console.log('[GetMemos] Building response summaries...');
-    const memos: MemoSummary[] = tasks.map((task) => {
-      const summary: MemoSummary = {
-        taskId: task.taskId,
-        status: task.status,
-        createdAt: task.createdAt,
-        updatedAt: task.updatedAt,
-      };
-
-      // Include transcription if available
-      if (task.transcription) {
-        summary.transcription = task.transcription;
-      }
+    const hasOpenItemsParam = params.get('hasOpenItems');
+    if (hasOpenItemsParam !== null && hasOpenItemsParam !== 'true' && hasOpenItemsParam !== 'false') {
+      return jsonError(400, 'Bad Request', "hasOpenItems must be 'true' or 'false'");
+    }
 
-      // Include task count for completed tasks
-      if (task.processedTasks) {
-        try {
-          const parsedTasks = JSON.parse(task.processedTasks);
-          summary.taskCount = Array.isArray(parsedTasks) ? parsedTasks.length : 0;
-        } catch (parseError) {
-          console.warn('[GetMemos] Failed to parse processedTasks for task:', task.taskId);
-          summary.taskCount = 0;
-        }
-      }
+    const tag = params.get('tag')?.trim() || undefined;
 
-      // Calculate processing time in seconds
-      if (task.status === 'completed' || task.status === 'failed') {
-        const createdTime = new Date(task.createdAt).getTime();
-        const updatedTime = new Date(task.updatedAt).getTime();
-        summary.processingTimeSeconds = Math.round((updatedTime - createdTime) / 1000);
-      }
+    const sort = (params.get('sort') ?? 'created') as TaskSortField;
+    if (!SORT_FIELDS.includes(sort)) {
+      return jsonError(400, 'Bad Request', `sort must be one of: ${SORT_FIELDS.join(', ')}`);
+    }
 
-      return summary;
-    });
+    const order = params.get('order') ?? 'desc';
+    if (order !== 'asc' && order !== 'desc') {
+      return jsonError(400, 'Bad Request', "order must be 'asc' or 'desc'");
+    }
 
-    // Calculate pagination metadata
-    const hasMore = offset + limit < total;
-    console.log('[GetMemos] Response ready. hasMore:', hasMore);
-
-    // Return response
-    const response = {
-      memos,
-      total,
-      hasMore,
-    };
-    console.log('[GetMemos] ✓ Returning successful response');
-
-    return new Response(JSON.stringify(response), {
-      status: 200,
-      headers: { 'Content-Type': 'application/json' },
-    });
-  } catch (error) {
-    console.error('[GetMemos] ✗ ERROR caught:', error);
-
-    if (error instanceof Error) {
-      console.error('[GetMemos] Error details:', {
-        name: error.name,
-        message: error.message,
-        stack: error.stack,
-      });
+    const limitParam = params.get('limit');
+    const limit = limitParam === null ? DEFAULT_MEMOS_LIMIT : Number(limitParam);
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_MEMOS_LIMIT) {
+      return jsonError(400, 'Bad Request', `limit must be an integer between 1 and ${MAX_MEMOS_LIMIT}`);
+    }
+
+    const cursorParam = params.get('cursor');
+    const after = cursorParam ? decodeCursor(cursorParam, sort, order) : undefined;
+    if (after === null) {
+      return jsonError(400, 'Bad Request', 'cursor is invalid or was issued for a different sort order');
     }
 
-    const errorMessage = error instanceof Error ? error.message : 'An unexpected error occurred';
-    console.error('[GetMemos] Returning 500 error:', errorMessage);
+    const { tasks, next } = await getUserTasksPage(db, userId, {
+      statuses,
+      createdFrom,
+      createdTo,
+      hasOpenItems: hasOpenItemsParam === null ? undefined : hasOpenItemsParam === 'true',
+      tag,
+      sort,
+      order,
+      after,
+      limit,
+    });
 
     return new Response(
       JSON.stringify({
-        error: 'Internal Server Error',
-        message: errorMessage,
+        memos: tasks.map(toMemoSummary),
+        nextCursor: next ? encodeCursor(next, sort, order) : null,
+        hasMore: next !== null,
       }),
       {
-        status: 500,
+        status: 200,
         headers: { 'Content-Type': 'application/json' },
       }
     );
+  } catch (error) {
+    console.error('Error in handleGetMemos:', error);
+    return jsonError(500, 'Internal Server Error', error instanceof Error ? error.message : 'An unexpected error occurred');
+  }
+}
+
+/**
+ * Build the list view summary of a memo
+ */
+function toMemoSummary(task: Task & { tags: MemoTag[] }): MemoSummary {
+  const summary: MemoSummary = {
+    taskId: task.taskId,
+    status: task.status,
+    createdAt: task.createdAt,
+    updatedAt: task.updatedAt,
+    tags: task.tags,
+  };
+
+  // Include the AI summary once the memo has been summarized
+  if (task.title) {
+    summary.title = task.title;
   }
+  if (task.summary) {
+    summary.summary = task.summary;
+    summary.keyPoints = task.keyPoints ? JSON.parse(task.keyPoints) : [];
+  }
+
+  // Include transcription if available
+  if (task.transcription) {
+    summary.transcription = task.transcription;
+  }
+
+  // Include task count for completed tasks
+  if (task.processedTasks) {
+    try {
+      const parsedTasks = JSON.parse(task.processedTasks);
+      summary.taskCount = Array.isArray(parsedTasks) ? parsedTasks.length : 0;
+    } catch {
+      summary.taskCount = 0;
+    }
+  }
+
+  // Calculate processing time in seconds (up to when processing finished, not later edits)
+  if ((task.status === 'completed' || task.status === 'failed') && task.processedAt) {
+    const createdTime = new Date(task.createdAt).getTime();
+    const processedTime = new Date(task.processedAt).getTime();
+    summary.processingTimeSeconds = Math.round((processedTime - createdTime) / 1000);
+  }
+
+  // Recording details read from the audio's container headers at upload
+  if (task.audioDurationSeconds) {
+    summary.durationSeconds = task.audioDurationSeconds;
+  }
+  if (task.audioSampleRate) {
+    summary.sampleRate = task.audioSampleRate;
+  }
+  if (task.audioChannels) {
+    summary.channels = task.audioChannels;
+  }
+  if (task.audioCodec) {
+    summary.codec = task.audioCodec;
+  }
+  if (task.audioSizeBytes) {
+    summary.sizeBytes = task.audioSizeBytes;
+  }
+
+  return summary;
 }
 
 /**
- * Parse and validate pagination parameter
+ * Parse an optional date query parameter into an ISO timestamp
+ * Returns undefined when absent and null when malformed
  */
-function parsePaginationParam(value: string | null, defaultValue: number): number {
-  if (!value) return defaultValue;
+function parseDateParam(value: string | null): string | undefined | null {
+  if (!value) return undefined;
+  const time = Date.parse(value);
+  return Number.isNaN(time) ? null : new Date(time).toISOString();
+}
 
+/**
+ * Cursors are opaque to clients: base64url-encoded JSON carrying the sort they were issued for
+ */
+function encodeCursor(cursor: TaskPageCursor, sort: TaskSortField, order: string): string {
+  const json = JSON.stringify({ s: sort, o: order, v: cursor.value, id: cursor.taskId });
+  return btoa(json).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+/**
+ * Decode a cursor, or return null if it is malformed or belongs to another sort order
+ */
+function decodeCursor(value: string, sort: TaskSortField, order: string): TaskPageCursor | null {
   try {
-    const parsed = parseInt(value, 10);
-    if (isNaN(parsed)) return defaultValue;
-    return parsed;
+    const decoded = JSON.parse(atob(value.replace(/-/g, '+').replace(/_/g, '/')));
+    if (
+      decoded?.s !== sort ||
+      decoded.o !== order ||
+      (typeof decoded.v !== 'string' && typeof decoded.v !== 'number') ||
+      typeof decoded.id !== 'string'
+    ) {
+      return null;
+    }
+    return { value: decoded.v, taskId: decoded.id };
   } catch {
-    return defaultValue;
+    return null;
   }
 }
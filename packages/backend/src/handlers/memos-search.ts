@@ -0,0 +1,109 @@
+/**
+ * GET /api/v1/memos/search - Full-text search across a user's memos
+ */
+
+import type { WorkerContext } from '../index';
+import { jsonError } from '../http';
+import { searchUserTasks } from '../db';
+
+const DEFAULT_SEARCH_LIMIT = 20;
+const MAX_SEARCH_LIMIT = 50;
+const MAX_QUERY_LENGTH = 200;
+const MATCH_MARKER = '<mark>';
+
+/**
+ * Handler for GET /api/v1/memos/search
+ * Returns memos whose transcription or tasks match the query, best match first
+ *
+ * Query parameters:
+ * - q: search text (required). Every word must match; the last word also matches as a prefix
+ * - limit: 1-50 (default 20)
+ * - offset: default 0
+ *
+ * Snippets wrap matched words in <mark></mark>. The rest of the snippet is raw
+ * memo text, not escaped HTML.
+ */
+export async function handleSearchMemos(
+  request: Request,
+  context: WorkerContext
+): Promise<Response> {
+  try {
+    const userId = context.data.userId;
+    if (!userId) {
+      return jsonError(401, 'Unauthorized', 'User ID not found. Please authenticate.');
+    }
+
+    const { DB: db } = context.env;
+    if (!db) {
+      return jsonError(500, 'Internal Server Error', 'Database not configured');
+    }
+
+    const params = new URL(request.url).searchParams;
+
+    const query = (params.get('q') ?? '').trim();
+    if (query.length > MAX_QUERY_LENGTH) {
+      return jsonError(400, 'Bad Request', `q must be at most ${MAX_QUERY_LENGTH} characters`);
+    }
+
+    const matchQuery = buildSearchQuery(query);
+    if (!matchQuery) {
+      return jsonError(400, 'Bad Request', 'q must contain at least one word to search for');
+    }
+
+    const limitParam = params.get('limit');
+    const limit = limitParam === null ? DEFAULT_SEARCH_LIMIT : Number(limitParam);
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_SEARCH_LIMIT) {
+      return jsonError(400, 'Bad Request', `limit must be an integer between 1 and ${MAX_SEARCH_LIMIT}`);
+    }
+
+    const offsetParam = params.get('offset');
+    const offset = offsetParam === null ? 0 : Number(offsetParam);
+    if (!Number.isInteger(offset) || offset < 0) {
+      return jsonError(400, 'Bad Request', 'offset must be a non-negative integer');
+    }
+
+    const hits = await searchUserTasks(db, userId, matchQuery, limit, offset);
+
+    return new Response(
+      JSON.stringify({
+        query,
+        results: hits.map((hit) => ({
+          taskId: hit.taskId,
+          status: hit.status,
+          createdAt: hit.createdAt,
+          updatedAt: hit.updatedAt,
+          // snippet() returns the start of a column even when it has no match
+          transcriptionSnippet: hit.transcriptionSnippet?.includes(MATCH_MARKER) ? hit.transcriptionSnippet : null,
+          taskSnippet: hit.itemsSnippet?.includes(MATCH_MARKER) ? hit.itemsSnippet : null,
+          score: -hit.rank,
+        })),
+        limit,
+        offset,
+      }),
+      {
+        status: 200,
+        headers: { 'Content-Type': 'application/json' },
+      }
+    );
+  } catch (error) {
+    console.error('Error in handleSearchMemos:', error);
+    return jsonError(500, 'Internal Server Error', error instanceof Error ? error.message : 'An unexpected error occurred');
+  }
+}
+
+/**
+ * Turn free text into an FTS5 query that cannot fail to parse
+ * Each word is quoted so operators and punctuation are searched literally,
+ * and the last word gets a prefix match so results update while typing.
+ * Returns null when the text has no searchable words.
+ */
+export function buildSearchQuery(text: string): string | null {
+  const words = text.match(/[\p{L}\p{N}]+/gu);
+  if (!words) {
+    return null;
+  }
+
+  return words
+    .map((word, idx) => (idx === words.length - 1 ? `"${word}"*` : `"${word}"`))
+    .join(' ');
+}
@@ -0,0 +1,198 @@
+/**
+ * Semantic search and related memos, ranked by cosine similarity of embeddings
+ * - GET /api/v1/memos/semantic?q= - memos whose meaning matches the query
+ * - GET /api/v1/memo/{taskId}/related - memos most similar to one memo
+ */
+
+import type { WorkerContext } from '../index';
+import { jsonError, isValidUuid } from '../http';
+import { getTask, getUserMemoEmbeddings, type MemoEmbeddingWithMemo } from '../db';
+import { DEFAULT_CANDIDATE_MEMOS, getCandidateEmbeddings } from '../retrieval';
+import { cosineSimilarity, decodeVector, getEmbedder } from '../workflow/embed';
+
+const DEFAULT_SEMANTIC_LIMIT = 10;
+const MAX_SEMANTIC_LIMIT = 50;
+const MAX_QUERY_LENGTH = 500;
+const DEFAULT_RELATED_LIMIT = 5;
+const MAX_RELATED_LIMIT = 20;
+// Below this, "related" memos are mostly noise
+const RELATED_MIN_SCORE = 0.5;
+const PREVIEW_LENGTH = 160;
+
+/**
+ * Handler for GET /api/v1/memos/semantic
+ * Embeds the query and ranks memos by their best-matching vector (the whole memo or one segment)
+ * Segments are only compared for the memos whose whole-memo vector ranks highest
+ *
+ * Query parameters:
+ * - q: search text (required)
+ * - limit: 1-50 (default 10)
+ */
+export async function handleSemanticSearch(
+  request: Request,
+  context: WorkerContext
+): Promise<Response> {
+  try {
+    const userId = context.data.userId;
+    if (!userId) {
+      return jsonError(401, 'Unauthorized', 'User ID not found. Please authenticate.');
+    }
+
+    const { DB: db } = context.env;
+    if (!db) {
+      return jsonError(500, 'Internal Server Error', 'Database not configured');
+    }
+
+    const params = new URL(request.url).searchParams;
+
+    const query = (params.get('q') ?? '').trim();
+    if (!query) {
+      return jsonError(400, 'Bad Request', 'q is required');
+    }
+    if (query.length > MAX_QUERY_LENGTH) {
+      return jsonError(400, 'Bad Request', `q must be at most ${MAX_QUERY_LENGTH} characters`);
+    }
+
+    const limitParam = params.get('limit');
+    const limit = limitParam === null ? DEFAULT_SEMANTIC_LIMIT : Number(limitParam);
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_SEMANTIC_LIMIT) {
+      return jsonError(400, 'Bad Request', `limit must be an integer between 1 and ${MAX_SEMANTIC_LIMIT}`);
+    }
+
+    const embedder = getEmbedder(context.env);
+    const [queryVector] = await embedder.embed([query]);
+    const embeddings = await getCandidateEmbeddings(
+      db,
+      userId,
+      embedder.model,
+      queryVector,
+      Math.max(limit, DEFAULT_CANDIDATE_MEMOS)
+    );
+
+    const results = rankMemos(embeddings, queryVector)
+      .slice(0, limit)
+      .map(({ embedding, score }) => ({
+        taskId: embedding.taskId,
+        status: embedding.status,
+        createdAt: embedding.memoCreatedAt,
+        score,
+        match: {
+          text: embedding.text,
+          segmentIndex: embedding.segmentIndex,
+        },
+      }));
+
+    return new Response(
+      JSON.stringify({ query, results, model: embedder.model }),
+      {
+        status: 200,
+        headers: { 'Content-Type': 'application/json' },
+      }
+    );
+  } catch (error) {
+    console.error('Error in handleSemanticSearch:', error);
+    return jsonError(500, 'Internal Server Error', error instanceof Error ? error.message : 'An unexpected error occurred');
+  }
+}
+
+/**
+ * Handler for GET /api/v1/memo/{taskId}/related
+ * Compares the memo's whole-memo vector with the user's other memos
+ * Returns an empty list when the memo has not been embedded yet
+ *
+ * Query parameters:
+ * - limit: 1-20 (default 5)
+ */
+export async function handleGetRelatedMemos(
+  request: Request,
+  context: WorkerContext
+): Promise<Response> {
+  try {
+    const url = new URL(request.url);
+    const taskId = extractTaskId(url.pathname);
+    if (!taskId || !isValidUuid(taskId)) {
+      return jsonError(400, 'Bad Request', 'Invalid task ID format');
+    }
+
+    const userId = context.data.userId;
+    if (!userId) {
+      return jsonError(401, 'Unauthorized', 'User ID not found. Please authenticate.');
+    }
+
+    const { DB: db } = context.env;
+    if (!db) {
+      return jsonError(500, 'Internal Server Error', 'Database not configured');
+    }
+
+    const limitParam = url.searchParams.get('limit');
+    const limit = limitParam === null ? DEFAULT_RELATED_LIMIT : Number(limitParam);
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_RELATED_LIMIT) {
+      return jsonError(400, 'Bad Request', `limit must be an integer between 1 and ${MAX_RELATED_LIMIT}`);
+    }
+
+    const task = await getTask(db, taskId, userId);
+    if (!task) {
+      return jsonError(404, 'Not Found', 'Task not found');
+    }
+
+    const model = getEmbedder(context.env).model;
+    const embeddings = await getUserMemoEmbeddings(db, userId, model);
+    const source = embeddings.find((embedding) => embedding.taskId === taskId);
+
+    const related = source
+      ? rankMemos(
+          embeddings.filter((embedding) => embedding.taskId !== taskId),
+          decodeVector(source.vector)
+        )
+          .filter(({ score }) => score >= RELATED_MIN_SCORE)
+          .slice(0, limit)
+          .map(({ embedding, score }) => ({
+            taskId: embedding.taskId,
+            status: embedding.status,
+            createdAt: embedding.memoCreatedAt,
+            score,
+            preview: embedding.text.slice(0, PREVIEW_LENGTH),
+          }))
+      : [];
+
+    return new Response(
+      JSON.stringify({ taskId, related }),
+      {
+        status: 200,
+        headers: { 'Content-Type': 'application/json' },
+      }
+    );
+  } catch (error) {
+    console.error('Error in handleGetRelatedMemos:', error);
+    return jsonError(500, 'Internal Server Error', error instanceof Error ? error.message : 'An unexpected error occurred');
+  }
+}
+
+/**
+ * Score every embedding against a vector and keep each memo's best match, best first
+ */
+function rankMemos(
+  embeddings: MemoEmbeddingWithMemo[],
+  vector: ArrayLike<number>
+): Array<{ embedding: MemoEmbeddingWithMemo; score: number }> {
+  const best = new Map<string, { embedding: MemoEmbeddingWithMemo; score: number }>();
+
+  for (const embedding of embeddings) {
+    const score = cosineSimilarity(decodeVector(embedding.vector), vector);
+    const current = best.get(embedding.taskId);
+    if (!current || score > current.score) {
+      best.set(embedding.taskId, { embedding, score });
+    }
+  }
+
+  return [...best.values()].sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Extract task ID from URL path: /api/v1/memo/{taskId}/related
+ */
+function extractTaskId(pathname: string): string | null {
+  const parts = pathname.split('/');
+  const memoIndex = parts.indexOf('memo');
+  return memoIndex !== -1 ? parts[memoIndex + 1] || null : null;
+}
@@ -0,0 +1,204 @@
+/**
+ * Tags for organizing memos
+ * - GET /api/v1/tags - the user's tags with memo counts
+ * - GET/POST /api/v1/memo/{taskId}/tags - a memo's tags / tag a memo
+ * - DELETE /api/v1/memo/{taskId}/tags/{tagId} - untag a memo
+ */
+
+import type { WorkerContext } from '../index';
+import { jsonError, isValidUuid, isJsonObject } from '../http';
+import { addMemoTag, getMemoTags, getTask, getUserTagCounts, removeMemoTag } from '../db';
+import { MAX_TAG_LENGTH, normalizeTagName } from '../workflow/tags';
+
+const MAX_TAGS_PER_MEMO = 20;
+
+/**
+ * Handler for GET /api/v1/tags
+ * Returns the user's tags that are on at least one memo, most used first
+ */
+export async function handleGetTags(
+  _request: Request,
+  context: WorkerContext
+): Promise<Response> {
+  try {
+    const userId = context.data.userId;
+    if (!userId) {
+      return jsonError(401, 'Unauthorized', 'User ID not found. Please authenticate.');
+    }
+
+    const { DB: db } = context.env;
+    if (!db) {
+      return jsonError(500, 'Internal Server Error', 'Database not configured');
+    }
+
+    const tags = await getUserTagCounts(db, userId);
+
+    return new Response(JSON.stringify({ tags }), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('Error in handleGetTags:', error);
+    return jsonError(500, 'Internal Server Error', error instanceof Error ? error.message : 'An unexpected error occurred');
+  }
+}
+
+/**
+ * Handler for GET /api/v1/memo/{taskId}/tags
+ */
+export async function handleGetMemoTags(
+  request: Request,
+  context: WorkerContext
+): Promise<Response> {
+  try {
+    const { taskId } = extractIds(request);
+    const checked = validateRequest(taskId, context);
+    if (checked instanceof Response) {
+      return checked;
+    }
+    const { db, userId } = checked;
+
+    // Fetch task with security check (both taskId and userId)
+    const task = await getTask(db, taskId, userId);
+    if (!task) {
+      return jsonError(404, 'Not Found', 'Task not found');
+    }
+
+    const tags = await getMemoTags(db, taskId, userId);
+
+    return new Response(JSON.stringify({ taskId, tags }), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('Error in handleGetMemoTags:', error);
+    return jsonError(500, 'Internal Server Error', error instanceof Error ? error.message : 'An unexpected error occurred');
+  }
+}
+
+/**
+ * Handler for POST /api/v1/memo/{taskId}/tags
+ * Tags a memo by name, creating the tag if needed (names are matched ignoring case)
+ * Tagging a memo with an AI-suggested tag it already has marks it as the user's own
+ *
+ * Request body: { name: string }
+ * Response: { taskId, tags } - all of the memo's tags afterwards
+ */
+export async function handleAddMemoTag(
+  request: Request,
+  context: WorkerContext
+): Promise<Response> {
+  try {
+    const { taskId } = extractIds(request);
+    const checked = validateRequest(taskId, context);
+    if (checked instanceof Response) {
+      return checked;
+    }
+    const { db, userId } = checked;
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return jsonError(400, 'Bad Request', 'Request body must be valid JSON');
+    }
+
+    if (!isJsonObject(body)) {
+      return jsonError(400, 'Bad Request', 'Request body must be a JSON object');
+    }
+
+    const name = typeof body.name === 'string' ? normalizeTagName(body.name) : null;
+    if (!name) {
+      return jsonError(400, 'Bad Request', `name must be a non-empty string of at most ${MAX_TAG_LENGTH} characters`);
+    }
+
+    const task = await getTask(db, taskId, userId);
+    if (!task) {
+      return jsonError(404, 'Not Found', 'Task not found');
+    }
+
+    const existing = await getMemoTags(db, taskId, userId);
+    const alreadyTagged = existing.some((tag) => tag.name.toLowerCase() === name.toLowerCase());
+    if (!alreadyTagged && existing.length >= MAX_TAGS_PER_MEMO) {
+      return jsonError(400, 'Bad Request', `A memo can have at most ${MAX_TAGS_PER_MEMO} tags`);
+    }
+
+    const tags = await addMemoTag(db, taskId, userId, name);
+
+    return new Response(JSON.stringify({ taskId, tags }), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('Error in handleAddMemoTag:', error);
+    return jsonError(500, 'Internal Server Error', error instanceof Error ? error.message : 'An unexpected error occurred');
+  }
+}
+
+/**
+ * Handler for DELETE /api/v1/memo/{taskId}/tags/{tagId}
+ */
+export async function handleRemoveMemoTag(
+  request: Request,
+  context: WorkerContext
+): Promise<Response> {
+  try {
+    const { taskId, tagId } = extractIds(request);
+    const checked = validateRequest(taskId, context);
+    if (checked instanceof Response) {
+      return checked;
+    }
+    const { db, userId } = checked;
+
+    if (!tagId || !isValidUuid(tagId)) {
+      return jsonError(400, 'Bad Request', 'Invalid tag ID format');
+    }
+
+    const removed = await removeMemoTag(db, taskId, tagId, userId);
+    if (!removed) {
+      return jsonError(404, 'Not Found', 'Tag not found on this memo');
+    }
+
+    return new Response(null, {
+      status: 204,
+    });
+  } catch (error) {
+    console.error('Error in handleRemoveMemoTag:', error);
+    return jsonError(500, 'Internal Server Error', error instanceof Error ? error.message : 'An unexpected error occurred');
+  }
+}
+
+/**
+ * Extract IDs from URL: /api/v1/memo/{taskId}/tags[/{tagId}]
+ */
+function extractIds(request: Request): { taskId: string; tagId?: string } {
+  const pathParts = new URL(request.url).pathname.split('/');
+  const memoIndex = pathParts.indexOf('memo');
+  return { taskId: pathParts[memoIndex + 1], tagId: pathParts[memoIndex + 3] };
+}
+
+/**
+ * Checks shared by the memo tag routes: task ID format, authentication and database binding
+ * Returns the database and user, or the error response to send
+ */
+function validateRequest(
+  taskId: string,
+  context: WorkerContext
+): { db: D1Database; userId: string } | Response {
+  if (!taskId || !isValidUuid(taskId)) {
+    return jsonError(400, 'Bad Request', 'Invalid task ID format');
+  }
+
+  // Get authenticated user
+  const userId = context.data.userId;
+  if (!userId) {
+    return jsonError(401, 'Unauthorized', 'User ID not found. Please authenticate.');
+  }
+
+  const db = context.env.DB;
+  if (!db) {
+    return jsonError(500, 'Internal Server Error', 'Database not configured');
+  }
+
+  return { db, userId };
+}
@@ -0,0 +1,440 @@
+/**
+ * Resumable uploads for large recordings, backed by R2 multipart uploads
+ * - POST /api/v1/uploads - start an upload session
+ * - GET /api/v1/uploads/{uploadId} - which parts are stored so far (to resume)
+ * - PUT /api/v1/uploads/{uploadId}/parts/{partNumber} - store one part (raw bytes)
+ * - POST /api/v1/uploads/{uploadId}/complete - join the parts and queue the memo for processing
+ *
+ * Parts are numbered from 1 and, except for the last, exactly partSize bytes long.
+ * A failed or interrupted part is simply sent again.
+ * Part 1 holds the file header, so its content must match the declared contentType.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import type { WorkerContext } from '../index';
+import { jsonResponse, jsonError, isValidUuid, isJsonObject } from '../http';
+import {
+  createUploadSession,
+  getUploadSession,
+  getUploadParts,
+  saveUploadPart,
+  claimUploadSession,
+  releaseUploadSession,
+  completeUploadSession,
+  deleteUploadSession,
+  getTask,
+  type TaskAudio,
+  type UploadSession,
+  type UploadPart,
+} from '../db';
+import {
+  createAudioMultipartUpload,
+  uploadAudioPart,
+  completeAudioMultipartUpload,
+  audioExistsInR2,
+  getAudioRangeFromR2,
+  deleteAudioFromR2,
+} from '../r2';
+import { MAX_FILE_SIZE, startMemoProcessing } from './memo';
+import { logPipelineEvent } from '../analytics';
+import {
+  checkAudioContent,
+  describeSupportedFormats,
+  getAudioFormatForMimeType,
+  isSupportedAudioMimeType,
+  type AudioFormat,
+} from '../audio-format';
+import { checkAudioDuration, readAudioMetadata, resolveMaxAudioDuration } from '../audio-metadata';
+
+/**
+ * Bytes per part: R2 requires every part but the last to be at least 5MiB
+ */
+export const UPLOAD_PART_SIZE = 5 * 1024 * 1024;
+
+/**
+ * How long a completion claim, or a completed session without its memo, may last before it is treated as abandoned
+ */
+const UPLOAD_COMPLETION_TIMEOUT_MS = 60 * 1000;
+
+/**
+ * Handler for POST /api/v1/uploads
+ * Starts an upload session for a recording of a known size
+ *
+ * Request body: { size: number, contentType: string, filename?: string }
+ */
+export async function handleCreateUpload(
+  request: Request,
+  context: WorkerContext
+): Promise<Response> {
+  try {
+    // Get authenticated user
+    const userId = context.data.userId;
+    if (!userId) {
+      return jsonError(401, 'Unauthorized', 'User ID not found. Please authenticate.');
+    }
+
+    const { DB: db, R2_BUCKET: r2Bucket } = context.env;
+    if (!db || !r2Bucket) {
+      return jsonError(500, 'Internal Server Error', 'Database or R2 bucket not configured');
+    }
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return jsonError(400, 'Bad Request', 'Request body must be valid JSON');
+    }
+
+    if (!isJsonObject(body)) {
+      return jsonError(400, 'Bad Request', 'Request body must be a JSON object');
+    }
+
+    const size = body.size;
+    if (typeof size !== 'number' || !Number.isInteger(size) || size <= 0) {
+      return jsonError(400, 'Bad Request', 'size must be a positive integer (bytes)');
+    }
+    if (size > MAX_FILE_SIZE) {
+      return jsonError(413, 'Payload Too Large', `Audio file exceeds maximum size of ${MAX_FILE_SIZE / 1024 / 1024}MB`);
+    }
+
+    const contentType = body.contentType;
+    if (typeof contentType !== 'string' || !isSupportedAudioMimeType(contentType)) {
+      return jsonError(
+        415,
+        'Unsupported Media Type',
+        `Audio file type '${contentType}' is not supported. Supported formats: ${describeSupportedFormats()}`
+      );
+    }
+
+    const filename = typeof body.filename === 'string' && body.filename ? body.filename : 'audio';
+
+    const taskId = uuidv4();
+    const { r2Key, r2UploadId } = await createAudioMultipartUpload(
+      r2Bucket,
+      userId,
+      taskId,
+      getAudioFormatForMimeType(contentType)!,
+      filename
+    );
+
+    const now = new Date().toISOString();
+    const session: UploadSession = {
+      uploadId: uuidv4(),
+      userId,
+      taskId,
+      r2Key,
+      r2UploadId,
+      contentType,
+      format: null,
+      completingAt: null,
+      size,
+      partSize: UPLOAD_PART_SIZE,
+      status: 'uploading',
+      createdAt: now,
+      updatedAt: now,
+    };
+    await createUploadSession(db, session);
+
+    return jsonResponse(201, toUploadStatus(session, []));
+  } catch (error) {
+    console.error('Error in handleCreateUpload:', error);
+    return jsonError(500, 'Internal Server Error', error instanceof Error ? error.message : 'An unexpected error occurred');
+  }
+}
+
+/**
+ * Handler for GET /api/v1/uploads/{uploadId}
+ * Reports which parts are already stored so an interrupted upload can send only the rest
+ */
+export async function handleGetUpload(
+  request: Request,
+  context: WorkerContext
+): Promise<Response> {
+  try {
+    const { uploadId } = extractIds(request);
+    const invalid = validateRequest(uploadId, context);
+    if (invalid) return invalid;
+
+    const db = context.env.DB;
+    const session = await getUploadSession(db, uploadId, context.data.userId!);
+    if (!session) {
+      return jsonError(404, 'Not Found', 'Upload not found');
+    }
+
+    const parts = await getUploadParts(db, uploadId);
+
+    return jsonResponse(200, toUploadStatus(session, parts));
+  } catch (error) {
+    console.error('Error in handleGetUpload:', error);
+    return jsonError(500, 'Internal Server Error', error instanceof Error ? error.message : 'An unexpected error occurred');
+  }
+}
+
+/**
+ * Handler for PUT /api/v1/uploads/{uploadId}/parts/{partNumber}
+ * Stores one part; sending a part again replaces it
+ *
+ * Request body: the part's raw bytes
+ */
+export async function handleUploadPart(
+  request: Request,
+  context: WorkerContext
+): Promise<Response> {
+  try {
+    const { uploadId, partNumber: rawPartNumber } = extractIds(request);
+    const invalid = validateRequest(uploadId, context);
+    if (invalid) return invalid;
+
+    const db = context.env.DB;
+    const session = await getUploadSession(db, uploadId, context.data.userId!);
+    if (!session) {
+      return jsonError(404, 'Not Found', 'Upload not found');
+    }
+    if (session.status !== 'uploading') {
+      return jsonError(409, 'Conflict', 'This upload is already complete');
+    }
+    if (session.completingAt) {
+      return jsonError(409, 'Conflict', 'This upload is being completed');
+    }
+
+    const partCount = getPartCount(session);
+    const partNumber = Number(rawPartNumber);
+    if (!/^\d+$/.test(rawPartNumber ?? '') || partNumber < 1 || partNumber > partCount) {
+      return jsonError(400, 'Bad Request', `Part number must be between 1 and ${partCount}`);
+    }
+
+    const data = await request.arrayBuffer();
+    const expectedSize = getPartSize(session, partNumber);
+    if (data.byteLength !== expectedSize) {
+      return jsonError(
+        400,
+        'Bad Request',
+        `Part ${partNumber} must be ${expectedSize} bytes, got ${data.byteLength}`
+      );
+    }
+
+    let format: AudioFormat | undefined;
+    if (partNumber === 1) {
+      const audioCheck = checkAudioContent(new Uint8Array(data), session.contentType);
+      if ('error' in audioCheck) {
+        return jsonError(415, 'Unsupported Media Type', audioCheck.error);
+      }
+      format = audioCheck.format;
+    }
+
+    const uploaded = await uploadAudioPart(context.env.R2_BUCKET, session.r2Key, session.r2UploadId, partNumber, data);
+    await saveUploadPart(db, uploadId, { partNumber, etag: uploaded.etag, size: data.byteLength }, format);
+
+    return jsonResponse(200, { uploadId, partNumber, size: data.byteLength });
+  } catch (error) {
+    console.error('Error in handleUploadPart:', error);
+    return jsonError(500, 'Internal Server Error', error instanceof Error ? error.message : 'An unexpected error occurred');
+  }
+}
+
+/**
+ * Handler for POST /api/v1/uploads/{uploadId}/complete
+ * Joins the parts into the recording and queues it for processing, like POST /api/v1/memo
+ * Completing an already completed upload returns the same memo, so the request can be retried safely
+ */
+export async function handleCompleteUpload(
+  request: Request,
+  context: WorkerContext
+): Promise<Response> {
+  const uploadStartTime = performance.now();
+
+  try {
+    const { uploadId } = extractIds(request);
+    const invalid = validateRequest(uploadId, context);
+    if (invalid) return invalid;
+
+    const userId = context.data.userId!;
+    const db = context.env.DB;
+    const session = await getUploadSession(db, uploadId, userId);
+    if (!session) {
+      return jsonError(404, 'Not Found', 'Upload not found');
+    }
+
+    if (session.status === 'uploading') {
+      const parts = await getUploadParts(db, uploadId);
+      const stored = new Set(parts.map((part) => part.partNumber));
+      const missing = Array.from({ length: getPartCount(session) }, (_, idx) => idx + 1).filter(
+        (partNumber) => !stored.has(partNumber)
+      );
+      if (missing.length > 0) {
+        return jsonError(409, 'Conflict', `Upload is missing parts: ${missing.join(', ')}`);
+      }
+
+      // Claim the session before touching R2: overlapping completes (a timed-out request and its retry)
+      // would otherwise both join the parts, and the second would fail on the finished multipart upload
+      const staleBefore = new Date(Date.now() - UPLOAD_COMPLETION_TIMEOUT_MS).toISOString();
+      if (!(await claimUploadSession(db, uploadId, staleBefore))) {
+        return jsonError(409, 'Conflict', 'This upload is still being completed');
+      }
+
+      try {
+        await joinUploadParts(context.env.R2_BUCKET, session, parts);
+      } catch (error) {
+        await releaseUploadSession(db, uploadId);
+        throw error;
+      }
+
+      // Only the request that completes the session creates the memo
+      if (await completeUploadSession(db, uploadId)) {
+        try {
+          const audio = await readUploadedAudio(context.env.R2_BUCKET, session);
+
+          // Too long to process: discard the recording and the session, so retries get 404
+          const maxSeconds = resolveMaxAudioDuration(context.env.MAX_AUDIO_DURATION_SECONDS);
+          const durationError = audio && checkAudioDuration(audio, maxSeconds, session.format ?? undefined);
+          if (durationError) {
+            await discardUpload(context, session);
+            return jsonError(413, 'Payload Too Large', durationError);
+          }
+
+          await startMemoProcessing(context, session.taskId, userId, session.r2Key, audio);
+        } catch (error) {
+          // The session is completed but has no memo: discard it so retries get 404, not a taskId that doesn't exist
+          await discardUpload(context, session);
+          throw error;
+        }
+
+        await logPipelineEvent(context.env.ANALYTICS, {
+          timestamp: Date.now(),
+          taskId: session.taskId,
+          userId,
+          stage: 'upload',
+          duration_ms: performance.now() - uploadStartTime,
+          status: 'completed',
+          metadata: {
+            audioSize: session.size,
+          },
+        });
+      }
+    } else if (!(await getTask(db, session.taskId, userId))) {
+      // Completed without a memo: another request is still creating it, or died before it could
+      if (Date.now() - new Date(session.updatedAt).getTime() < UPLOAD_COMPLETION_TIMEOUT_MS) {
+        return jsonError(409, 'Conflict', 'This upload is still being completed');
+      }
+      await discardUpload(context, session);
+      return jsonError(404, 'Not Found', 'Upload not found');
+    }
+
+    return jsonResponse(202, {
+      taskId: session.taskId,
+      status: 'pending',
+      statusUrl: `/api/v1/memo/${session.taskId}`,
+    });
+  } catch (error) {
+    console.error('Error in handleCompleteUpload:', error);
+    return jsonError(500, 'Internal Server Error', error instanceof Error ? error.message : 'An unexpected error occurred');
+  }
+}
+
+/**
+ * Join the stored parts into the recording in R2
+ * A claim taken over from a request that died may find them already joined: the multipart
+ * upload is gone but the recording exists, which counts as done
+ */
+async function joinUploadParts(bucket: R2Bucket, session: UploadSession, parts: UploadPart[]): Promise<void> {
+  try {
+    await completeAudioMultipartUpload(
+      bucket,
+      session.r2Key,
+      session.r2UploadId,
+      parts.map(({ partNumber, etag }) => ({ partNumber, etag }))
+    );
+  } catch (error) {
+    if (!(session.completingAt && (await audioExistsInR2(bucket, session.r2Key)))) {
+      throw error;
+    }
+  }
+}
+
+/**
+ * Details of a completed upload, from ranged reads of its start and end in R2
+ * The end matters too: an OGG's last page or a trailing M4A moov box sits there
+ * Parsed as the format detected from part 1's content, which is what was validated
+ */
+async function readUploadedAudio(bucket: R2Bucket, session: UploadSession): Promise<TaskAudio | undefined> {
+  const format = session.format;
+  if (!format) return undefined;
+  try {
+    const read = (offset: number, length: number) => getAudioRangeFromR2(bucket, session.r2Key, offset, length);
+    return { ...(await readAudioMetadata(read, session.size, format)), sizeBytes: session.size };
+  } catch (error) {
+    // The memo is still processed without them
+    console.warn(`Could not read audio metadata for upload ${session.uploadId}:`, error);
+    return undefined;
+  }
+}
+
+/**
+ * Delete a completed recording and its session when no memo can be made from it
+ * The R2 object may already be gone: startMemoProcessing removes it when the task can't be created
+ */
+async function discardUpload(context: WorkerContext, session: UploadSession): Promise<void> {
+  try {
+    await deleteAudioFromR2(context.env.R2_BUCKET, session.r2Key);
+  } catch (cleanupError) {
+    console.error(`Failed to delete audio for upload ${session.uploadId}:`, cleanupError);
+  }
+  await deleteUploadSession(context.env.DB, session.uploadId);
+}
+
+/**
+ * Shape an upload session for API responses
+ */
+function toUploadStatus(session: UploadSession, parts: UploadPart[]) {
+  return {
+    uploadId: session.uploadId,
+    taskId: session.taskId,
+    status: session.status === 'uploading' && session.completingAt ? 'completing' : session.status,
+    size: session.size,
+    partSize: session.partSize,
+    partCount: getPartCount(session),
+    uploadedParts: parts.map((part) => part.partNumber),
+  };
+}
+
+function getPartCount(session: UploadSession): number {
+  return Math.ceil(session.size / session.partSize);
+}
+
+/**
+ * Expected size of a part: partSize, except the last part holds whatever is left
+ */
+function getPartSize(session: UploadSession, partNumber: number): number {
+  return Math.min(session.partSize, session.size - (partNumber - 1) * session.partSize);
+}
+
+/**
+ * Extract IDs from URL: /api/v1/uploads/{uploadId}[/parts/{partNumber}|/complete]
+ */
+function extractIds(request: Request): { uploadId: string; partNumber?: string } {
+  const pathParts = new URL(request.url).pathname.split('/');
+  const uploadsIndex = pathParts.indexOf('uploads');
+  return {
+    uploadId: pathParts[uploadsIndex + 1] ?? '',
+    partNumber: pathParts[uploadsIndex + 2] === 'parts' ? pathParts[uploadsIndex + 3] : undefined,
+  };
+}
+
+/**
+ * Validate the upload ID and authentication shared by every session route
+ */
+function validateRequest(uploadId: string, context: WorkerContext): Response | null {
+  if (!uploadId || !isValidUuid(uploadId)) {
+    return jsonError(400, 'Bad Request', 'Invalid upload ID format');
+  }
+
+  if (!context.data.userId) {
+    return jsonError(401, 'Unauthorized', 'User ID not found. Please authenticate.');
+  }
+
+  if (!context.env.DB || !context.env.R2_BUCKET) {
+    return jsonError(500, 'Internal Server Error', 'Database or R2 bucket not configured');
+  }
+
+  return null;
+}
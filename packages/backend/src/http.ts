@@ -0,0 +1,35 @@
+/**
+ * JSON response and request validation helpers shared by the API handlers
+ */
+
+/**
+ * Build a JSON response
+ */
+export function jsonResponse(status: number, data: unknown): Response {
+  return new Response(JSON.stringify(data), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+/**
+ * Build a JSON error response
+ */
+export function jsonError(status: number, error: string, message: string): Response {
+  return jsonResponse(status, { error, message });
+}
+
+/**
+ * Validate UUID format: xxxxxxxx-xxxx-xxxx-xxxx-xxxxxxxxxxxx
+ */
+export function isValidUuid(value: string): boolean {
+  const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+  return uuidRegex.test(value);
+}
+
+/**
+ * Whether a parsed JSON body is an object (not null, an array or a primitive)
+ */
+export function isJsonObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -1,11 +1,46 @@
 import { handlePostMemo } from './handlers/memo';
+import { handleCreateUpload, handleGetUpload, handleUploadPart, handleCompleteUpload } from './handlers/uploads';
 import { handleGetMemo } from './handlers/memo-get';
 import { handleGetMemos } from './handlers/memos-list';
+import { handleSearchMemos } from './handlers/memos-search';
+import { handleSemanticSearch, handleGetRelatedMemos } from './handlers/memos-semantic';
 import { handleDeleteMemo } from './handlers/memo-delete';
 import { handleGetAudio } from './handlers/memo-audio';
-import { AudioProcessingWorkflow } from './workflow-handler';
+import { handleReprocessMemo } from './handlers/memo-reprocess';
+import { handleUpdateTranscription, handleGetTranscriptionRevisions } from './handlers/memo-transcription';
+import { handleUpdateTitle } from './handlers/memo-title';
+import {
+  handleGetMemoItems,
+  handleCreateMemoItem,
+  handleUpdateMemoItem,
+  handleDeleteMemoItem,
+} from './handlers/memo-items';
+import {
+  handleGenerateMemoItem,
+  handleGetMemoItemVersions,
+  handleSelectMemoItemVersion,
+} from './handlers/memo-item-generate';
+import { handleGetItems, handleBulkUpdateItems } from './handlers/items';
+import { handleGetTags, handleGetMemoTags, handleAddMemoTag, handleRemoveMemoTag } from './handlers/tags';
+import { handleAsk } from './handlers/ask';
+import { handleCreateApiKey, handleGetApiKeys, handleRevokeApiKey } from './handlers/api-keys';
+import { AudioProcessingWorkflow, type AudioProcessingParams } from './workflow-handler';
 import { handleQueueConsumer } from './queue-consumer';
-import { extractUserFromRequest, extractUserIdLegacy, AuthError, validateClerkToken } from './auth';
+import {
+  extractUserFromRequest,
+  extractDevHeaderUserId,
+  AuthError,
+  validateClerkToken,
+  getClerkAuthConfig,
+  getAuthModes,
+  isProductionEnvironment,
+  isApiKeyAuthorization,
+  extractApiKey,
+  validateApiKey,
+  type AuthMode,
+  type ApiKeyScope,
+} from './auth';
+import { logAuthAuditEvent } from './analytics';
 import { handleCORSPreflight, addCORSHeaders } from './cors';
 import { TaskStatusDO } from './durable-objects/task-status-do';
 import { getTask } from './db';
@@ -13,13 +48,20 @@ import { getTask } from './db';
 export interface Env {
   DB: D1Database;
   R2_BUCKET: R2Bucket;
-  AUDIO_PROCESSING_WORKFLOW: Workflow;
+  AUDIO_PROCESSING_WORKFLOW: Workflow<AudioProcessingParams>;
   AI: Ai;
   VOICE_MEMO_QUEUE?: Queue;
   ANALYTICS: AnalyticsEngineDataset;
   TASK_STATUS_DO: DurableObjectNamespace;
   ENVIRONMENT: string;
   ALLOWED_ORIGIN?: string;
+  AUTH_MODE?: string;
+  CLERK_JWKS_URL?: string;
+  CLERK_ISSUER?: string;
+  CLERK_AUDIENCE?: string;
+  WORKFLOW_STEP_CONFIG?: string;
+  EMBEDDINGS_PROVIDER?: string;
+  MAX_AUDIO_DURATION_SECONDS?: string;
 }
 
 export interface WorkerContext {
@@ -30,28 +72,107 @@ export interface WorkerContext {
 }
 
 /**
- * Extract user ID from request using Clerk JWT or legacy X-User-Id header
- * Throws AuthError if neither is valid
+ * Map an AuthError status to the error label used in JSON error responses
  */
-function extractUserIdFromRequest(request: Request): string {
-  try {
-    // Try Clerk JWT first (preferred)
-    return extractUserFromRequest(request);
-  } catch (error) {
-    if (!(error instanceof AuthError)) {
-      throw error;
+function getAuthErrorLabel(status: number): string {
+  switch (status) {
+    case 401:
+      return 'Unauthorized';
+    case 403:
+      return 'Forbidden';
+    case 503:
+      return 'Service Unavailable';
+    default:
+      return 'Internal Server Error';
+  }
+}
+
+/**
+ * Identity resolved for a request, along with the auth mode that vouched for it
+ */
+interface AuthenticatedUser {
+  userId: string;
+  authMode: AuthMode;
+}
+
+/**
+ * Scope an API key needs for a request, or null if API keys may not be used at all
+ * API keys cannot manage API keys, so a leaked key can't mint or revoke others
+ */
+function getRequiredApiKeyScope(method: string, path: string): ApiKeyScope | null {
+  if (path.startsWith('/api/v1/api-keys')) {
+    return null;
+  }
+
+  // Asking is a POST but only reads memos
+  if (path === '/api/v1/ask') {
+    return 'memos:read';
+  }
+
+  return method === 'GET' ? 'memos:read' : 'memos:write';
+}
+
+/**
+ * Authenticate a request using the auth modes enabled by AUTH_MODE
+ *
+ * - `Authorization: ApiKey ...` is only accepted in 'api-key' mode, and the key must
+ *   carry the scope the route requires
+ * - Any other Authorization header is treated as Clerk; a bad credential never falls
+ *   through to another mode
+ * - A bare X-User-Id header is only accepted in 'dev-header' mode, which is never
+ *   enabled in production
+ *
+ * Throws AuthError if the request cannot be authenticated
+ */
+async function authenticateRequest(request: Request, env: Env, ctx: ExecutionContext): Promise<AuthenticatedUser> {
+  const modes = getAuthModes(env);
+  const devHeaderUserId = extractDevHeaderUserId(request);
+
+  if (devHeaderUserId && !request.headers.get('Authorization')) {
+    if (!modes.includes('dev-header')) {
+      const reason = isProductionEnvironment(env)
+        ? 'X-User-Id header is not accepted in production'
+        : 'X-User-Id header authentication is disabled';
+      logAuthAuditEvent(env.ANALYTICS, {
+        timestamp: Date.now(),
+        userId: devHeaderUserId,
+        authMode: 'dev-header',
+        outcome: 'rejected',
+        method: request.method,
+        path: new URL(request.url).pathname,
+        environment: env.ENVIRONMENT,
+        reason,
+      });
+      throw new AuthError(reason, 401);
+    }
+
+    return { userId: devHeaderUserId, authMode: 'dev-header' };
+  }
+
+  const authHeader = request.headers.get('Authorization');
+  if (isApiKeyAuthorization(authHeader)) {
+    if (!modes.includes('api-key')) {
+      throw new AuthError('API key authentication is disabled', 401);
     }
 
-    // TODO: Remove this
-    const legacyUserId = extractUserIdLegacy(request);
-    if (legacyUserId) {
-      console.warn('Using legacy X-User-Id header. Please update to use Clerk JWT.');
-      return legacyUserId;
+    const apiKey = await validateApiKey(env.DB, extractApiKey(authHeader), ctx);
+    const requiredScope = getRequiredApiKeyScope(request.method, new URL(request.url).pathname);
+    if (!requiredScope) {
+      throw new AuthError('API keys cannot be used to manage API keys', 403);
+    }
+    if (!apiKey.scopes.includes(requiredScope)) {
+      throw new AuthError(`API key is missing the '${requiredScope}' scope`, 403);
     }
 
-    // No valid auth method found
-    throw error;
+    return { userId: apiKey.userId, authMode: 'api-key' };
   }
+
+  if (!modes.includes('clerk')) {
+    throw new AuthError('Clerk authentication is disabled', 401);
+  }
+
+  const userId = await extractUserFromRequest(request, getClerkAuthConfig(env));
+  return { userId, authMode: 'clerk' };
 }
 
 /**
@@ -87,18 +208,21 @@ async function handleWebSocketUpgrade(
     // Validate token and extract userId
     let userId: string;
     try {
-      userId = validateClerkToken(token);
+      if (!getAuthModes(env).includes('clerk')) {
+        throw new AuthError('Clerk authentication is disabled', 401);
+      }
+      userId = await validateClerkToken(token, getClerkAuthConfig(env));
       console.log('[Auth] ✓ WebSocket user authenticated:', userId);
     } catch (error) {
       if (error instanceof AuthError) {
         console.warn('[Auth] ✗ WebSocket authentication failed:', error.message);
         return new Response(
           JSON.stringify({
-            error: 'Unauthorized',
+            error: getAuthErrorLabel(error.status),
             message: error.message
           }),
           {
-            status: 401,
+            status: error.status,
             headers: { 'Content-Type': 'application/json' }
           }
         );
@@ -164,18 +288,31 @@ export default {
     // Authenticate user for all other routes
     let userId: string | undefined;
     try {
-      userId = extractUserIdFromRequest(request);
-      console.log('[Auth] ✓ User authenticated:', userId);
+      const authenticated = await authenticateRequest(request, env, ctx);
+      userId = authenticated.userId;
+      console.log(`[Auth] ✓ User authenticated via ${authenticated.authMode}:`, userId);
+
+      if (authenticated.authMode !== 'clerk') {
+        logAuthAuditEvent(env.ANALYTICS, {
+          timestamp: Date.now(),
+          userId,
+          authMode: authenticated.authMode,
+          outcome: 'accepted',
+          method,
+          path,
+          environment: env.ENVIRONMENT,
+        });
+      }
     } catch (error) {
       if (error instanceof AuthError) {
         console.warn('[Auth] ✗ Authentication failed:', error.message);
         const response = new Response(
           JSON.stringify({
-            error: 'Unauthorized',
+            error: getAuthErrorLabel(error.status),
             message: error.message,
           }),
           {
-            status: 401,
+            status: error.status,
             headers: { 'Content-Type': 'application/json' },
           }
         );
@@ -199,12 +336,54 @@ export default {
       return addCORSHeaders(response, request, env.ALLOWED_ORIGIN);
     }
 
+    // Route: POST /api/v1/uploads (start a resumable upload)
+    if (method === 'POST' && path === '/api/v1/uploads') {
+      const response = await handleCreateUpload(request, context);
+      return addCORSHeaders(response, request, env.ALLOWED_ORIGIN);
+    }
+
+    // Route: GET /api/v1/uploads/:uploadId
+    if (method === 'GET' && path.match(/^\/api\/v1\/uploads\/[a-f0-9\-]+$/)) {
+      const response = await handleGetUpload(request, context);
+      return addCORSHeaders(response, request, env.ALLOWED_ORIGIN);
+    }
+
+    // Route: PUT /api/v1/uploads/:uploadId/parts/:partNumber
+    if (method === 'PUT' && path.match(/^\/api\/v1\/uploads\/[a-f0-9\-]+\/parts\/\d+$/)) {
+      const response = await handleUploadPart(request, context);
+      return addCORSHeaders(response, request, env.ALLOWED_ORIGIN);
+    }
+
+    // Route: POST /api/v1/uploads/:uploadId/complete
+    if (method === 'POST' && path.match(/^\/api\/v1\/uploads\/[a-f0-9\-]+\/complete$/)) {
+      const response = await handleCompleteUpload(request, context);
+      return addCORSHeaders(response, request, env.ALLOWED_ORIGIN);
+    }
+
     // Route: GET /api/v1/memos (list all memos with pagination)
     if (method === 'GET' && path === '/api/v1/memos') {
       const response = await handleGetMemos(request, context);
       return addCORSHeaders(response, request, env.ALLOWED_ORIGIN);
     }
 
+    // Route: GET /api/v1/memos/search (full-text search)
+    if (method === 'GET' && path === '/api/v1/memos/search') {
+      const response = await handleSearchMemos(request, context);
+      return addCORSHeaders(response, request, env.ALLOWED_ORIGIN);
+    }
+
+    // Route: GET /api/v1/memos/semantic (embedding search)
+    if (method === 'GET' && path === '/api/v1/memos/semantic') {
+      const response = await handleSemanticSearch(request, context);
+      return addCORSHeaders(response, request, env.ALLOWED_ORIGIN);
+    }
+
+    // Route: GET /api/v1/memo/:taskId/related
+    if (method === 'GET' && path.match(/^\/api\/v1\/memo\/[a-f0-9\-]+\/related$/)) {
+      const response = await handleGetRelatedMemos(request, context);
+      return addCORSHeaders(response, request, env.ALLOWED_ORIGIN);
+    }
+
     // Route: GET /api/v1/memo/:taskId
     if (method === 'GET' && path.match(/^\/api\/v1\/memo\/[a-f0-9\-]+$/) && !path.includes('/audio/')) {
       const response = await handleGetMemo(request, context);
@@ -217,12 +396,138 @@ export default {
       return addCORSHeaders(response, request, env.ALLOWED_ORIGIN);
     }
 
+    // Route: POST /api/v1/memo/:taskId/reprocess
+    if (method === 'POST' && path.match(/^\/api\/v1\/memo\/[a-f0-9\-]+\/reprocess$/)) {
+      const response = await handleReprocessMemo(request, context);
+      return addCORSHeaders(response, request, env.ALLOWED_ORIGIN);
+    }
+
+    // Route: PATCH /api/v1/memo/:taskId/transcription
+    if (method === 'PATCH' && path.match(/^\/api\/v1\/memo\/[a-f0-9\-]+\/transcription$/)) {
+      const response = await handleUpdateTranscription(request, context);
+      return addCORSHeaders(response, request, env.ALLOWED_ORIGIN);
+    }
+
+    // Route: PATCH /api/v1/memo/:taskId/title
+    if (method === 'PATCH' && path.match(/^\/api\/v1\/memo\/[a-f0-9\-]+\/title$/)) {
+      const response = await handleUpdateTitle(request, context);
+      return addCORSHeaders(response, request, env.ALLOWED_ORIGIN);
+    }
+
+    // Route: GET /api/v1/memo/:taskId/transcription/revisions
+    if (method === 'GET' && path.match(/^\/api\/v1\/memo\/[a-f0-9\-]+\/transcription\/revisions$/)) {
+      const response = await handleGetTranscriptionRevisions(request, context);
+      return addCORSHeaders(response, request, env.ALLOWED_ORIGIN);
+    }
+
+    // Route: GET /api/v1/memo/:taskId/items
+    if (method === 'GET' && path.match(/^\/api\/v1\/memo\/[a-f0-9\-]+\/items$/)) {
+      const response = await handleGetMemoItems(request, context);
+      return addCORSHeaders(response, request, env.ALLOWED_ORIGIN);
+    }
+
+    // Route: POST /api/v1/memo/:taskId/items
+    if (method === 'POST' && path.match(/^\/api\/v1\/memo\/[a-f0-9\-]+\/items$/)) {
+      const response = await handleCreateMemoItem(request, context);
+      return addCORSHeaders(response, request, env.ALLOWED_ORIGIN);
+    }
+
+    // Route: PATCH /api/v1/memo/:taskId/items/:itemId
+    if (method === 'PATCH' && path.match(/^\/api\/v1\/memo\/[a-f0-9\-]+\/items\/[a-f0-9\-]+$/)) {
+      const response = await handleUpdateMemoItem(request, context);
+      return addCORSHeaders(response, request, env.ALLOWED_ORIGIN);
+    }
+
+    // Route: DELETE /api/v1/memo/:taskId/items/:itemId
+    if (method === 'DELETE' && path.match(/^\/api\/v1\/memo\/[a-f0-9\-]+\/items\/[a-f0-9\-]+$/)) {
+      const response = await handleDeleteMemoItem(request, context);
+      return addCORSHeaders(response, request, env.ALLOWED_ORIGIN);
+    }
+
+    // Route: POST /api/v1/memo/:taskId/items/:index/generate
+    if (method === 'POST' && path.match(/^\/api\/v1\/memo\/[a-f0-9\-]+\/items\/\d+\/generate$/)) {
+      const response = await handleGenerateMemoItem(request, context);
+      return addCORSHeaders(response, request, env.ALLOWED_ORIGIN);
+    }
+
+    // Route: GET /api/v1/memo/:taskId/items/:index/versions
+    if (method === 'GET' && path.match(/^\/api\/v1\/memo\/[a-f0-9\-]+\/items\/\d+\/versions$/)) {
+      const response = await handleGetMemoItemVersions(request, context);
+      return addCORSHeaders(response, request, env.ALLOWED_ORIGIN);
+    }
+
+    // Route: POST /api/v1/memo/:taskId/items/:index/versions/:versionId/select
+    if (method === 'POST' && path.match(/^\/api\/v1\/memo\/[a-f0-9\-]+\/items\/\d+\/versions\/[a-f0-9\-]+\/select$/)) {
+      const response = await handleSelectMemoItemVersion(request, context);
+      return addCORSHeaders(response, request, env.ALLOWED_ORIGIN);
+    }
+
+    // Route: GET /api/v1/memo/:taskId/tags
+    if (method === 'GET' && path.match(/^\/api\/v1\/memo\/[a-f0-9\-]+\/tags$/)) {
+      const response = await handleGetMemoTags(request, context);
+      return addCORSHeaders(response, request, env.ALLOWED_ORIGIN);
+    }
+
+    // Route: POST /api/v1/memo/:taskId/tags
+    if (method === 'POST' && path.match(/^\/api\/v1\/memo\/[a-f0-9\-]+\/tags$/)) {
+      const response = await handleAddMemoTag(request, context);
+      return addCORSHeaders(response, request, env.ALLOWED_ORIGIN);
+    }
+
+    // Route: DELETE /api/v1/memo/:taskId/tags/:tagId
+    if (method === 'DELETE' && path.match(/^\/api\/v1\/memo\/[a-f0-9\-]+\/tags\/[a-f0-9\-]+$/)) {
+      const response = await handleRemoveMemoTag(request, context);
+      return addCORSHeaders(response, request, env.ALLOWED_ORIGIN);
+    }
+
     // Route: DELETE /api/v1/memo/:taskId
     if (method === 'DELETE' && path.match(/^\/api\/v1\/memo\/[a-f0-9\-]+$/)) {
       const response = await handleDeleteMemo(request, context);
       return addCORSHeaders(response, request, env.ALLOWED_ORIGIN);
     }
 
+    // Route: GET /api/v1/items (task inbox across memos)
+    if (method === 'GET' && path === '/api/v1/items') {
+      const response = await handleGetItems(request, context);
+      return addCORSHeaders(response, request, env.ALLOWED_ORIGIN);
+    }
+
+    // Route: PATCH /api/v1/items (bulk complete / snooze)
+    if (method === 'PATCH' && path === '/api/v1/items') {
+      const response = await handleBulkUpdateItems(request, context);
+      return addCORSHeaders(response, request, env.ALLOWED_ORIGIN);
+    }
+
+    // Route: GET /api/v1/tags (tags with memo counts)
+    if (method === 'GET' && path === '/api/v1/tags') {
+      const response = await handleGetTags(request, context);
+      return addCORSHeaders(response, request, env.ALLOWED_ORIGIN);
+    }
+
+    // Route: POST /api/v1/ask (question answering over memos)
+    if (method === 'POST' && path === '/api/v1/ask') {
+      const response = await handleAsk(request, context);
+      return addCORSHeaders(response, request, env.ALLOWED_ORIGIN);
+    }
+
+    // Route: POST /api/v1/api-keys
+    if (method === 'POST' && path === '/api/v1/api-keys') {
+      const response = await handleCreateApiKey(request, context);
+      return addCORSHeaders(response, request, env.ALLOWED_ORIGIN);
+    }
+
+    // Route: GET /api/v1/api-keys
+    if (method === 'GET' && path === '/api/v1/api-keys') {
+      const response = await handleGetApiKeys(request, context);
+      return addCORSHeaders(response, request, env.ALLOWED_ORIGIN);
+    }
+
+    // Route: DELETE /api/v1/api-keys/:keyId
+    if (method === 'DELETE' && path.match(/^\/api\/v1\/api-keys\/[a-f0-9\-]+$/)) {
+      const response = await handleRevokeApiKey(request, context);
+      return addCORSHeaders(response, request, env.ALLOWED_ORIGIN);
+    }
+
     // 404
     const notFoundResponse = new Response('Not Found', { status: 404 });
     return addCORSHeaders(notFoundResponse, request, env.ALLOWED_ORIGIN);
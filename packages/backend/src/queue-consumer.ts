@@ -2,7 +2,7 @@
  * Queue Consumer for R2 Event Notifications
  *
  * This worker consumes messages from the voice-memo-events queue
- * and triggers the audio processing workflow for each message.
+ * and starts an audio processing workflow instance for each message.
  *
  * Message format:
  * {
@@ -11,13 +11,13 @@
  *   eventName: string,
  *   eventTimestamp: string,
  *   taskId: string,
- *   userId: string
+ *   userId: string,
+ *   fromStage?: 'transcribe' | 'extract' | 'generate'  // set when reprocessing
  * }
  */
 
 import type { Env } from './index';
-import { handleAudioProcessingWorkflow } from './workflow-handler';
-import type { R2ObjectCreatedEvent } from './workflow-handler';
+import type { AudioProcessingParams, ReprocessStage } from './workflow-handler';
 import { logPipelineEvent } from './analytics';
 import type { StatusUpdate } from './durable-objects/task-status-do';
 
@@ -28,6 +28,7 @@ export interface QueueMessage {
   eventTimestamp: string;
   taskId: string;
   userId: string;
+  fromStage?: ReprocessStage;
 }
 
 /**
@@ -90,15 +91,18 @@ export async function handleQueueConsumer(
       publishWorkflowStartUpdate(queueMessage.taskId, env);
 
       // Convert queue message to R2 event format
-      const r2Event: R2ObjectCreatedEvent = {
+      const r2Event: AudioProcessingParams = {
         bucket: queueMessage.bucket,
         key: queueMessage.key,
         eventName: queueMessage.eventName,
         eventTimestamp: queueMessage.eventTimestamp,
+        fromStage: queueMessage.fromStage,
       };
 
-      // Trigger the workflow
-      await handleAudioProcessingWorkflow(r2Event, env);
+      // Start a durable workflow instance; its stages retry independently,
+      // so the message can be acknowledged as soon as the instance is created
+      const instance = await env.AUDIO_PROCESSING_WORKFLOW.create({ params: r2Event });
+      console.log(`Started workflow instance ${instance.id} for task: ${queueMessage.taskId}`);
 
       // Acknowledge the message (remove from queue)
       message.ack();
@@ -2,34 +2,77 @@
  * R2 storage utility functions
  */
 
+import { AUDIO_FORMATS, type AudioFormat } from './audio-format';
+
 /**
  * Upload an audio file to R2
+ * The key extension and Content-Type come from the detected format, not the client's filename
  */
 export async function uploadAudioToR2(
   bucket: R2Bucket,
   userId: string,
   taskId: string,
   audioData: ReadableStream<Uint8Array> | ArrayBuffer,
+  format: AudioFormat,
   filename: string
 ): Promise<string> {
-  const fileExtension = getFileExtension(filename);
-  const r2Key = `uploads/${userId}/${taskId}${fileExtension}`;
+  const r2Key = getAudioKey(userId, taskId, format);
 
-  await bucket.put(r2Key, audioData, {
-    httpMetadata: {
-      contentType: getMimeType(fileExtension),
-    },
-    customMetadata: {
-      uploadedAt: new Date().toISOString(),
-      originalName: filename,
-      taskId,
-      userId,
-    },
-  });
+  await bucket.put(r2Key, audioData, getAudioObjectOptions(userId, taskId, format, filename));
 
   return r2Key;
 }
 
+/**
+ * Start a multipart upload of an audio file to R2, for recordings sent in parts
+ * Returns the R2 key and the multipart upload ID needed to add parts and complete it
+ */
+export async function createAudioMultipartUpload(
+  bucket: R2Bucket,
+  userId: string,
+  taskId: string,
+  format: AudioFormat,
+  filename: string
+): Promise<{ r2Key: string; r2UploadId: string }> {
+  const r2Key = getAudioKey(userId, taskId, format);
+
+  const upload = await bucket.createMultipartUpload(r2Key, getAudioObjectOptions(userId, taskId, format, filename));
+
+  return { r2Key, r2UploadId: upload.uploadId };
+}
+
+/**
+ * Store one part of a multipart audio upload
+ */
+export async function uploadAudioPart(
+  bucket: R2Bucket,
+  r2Key: string,
+  r2UploadId: string,
+  partNumber: number,
+  data: ArrayBuffer
+): Promise<R2UploadedPart> {
+  return bucket.resumeMultipartUpload(r2Key, r2UploadId).uploadPart(partNumber, data);
+}
+
+/**
+ * Join the stored parts of a multipart audio upload into the final object
+ */
+export async function completeAudioMultipartUpload(
+  bucket: R2Bucket,
+  r2Key: string,
+  r2UploadId: string,
+  parts: R2UploadedPart[]
+): Promise<void> {
+  await bucket.resumeMultipartUpload(r2Key, r2UploadId).complete(parts);
+}
+
+/**
+ * Whether an audio file exists in R2
+ */
+export async function audioExistsInR2(bucket: R2Bucket, r2Key: string): Promise<boolean> {
+  return (await bucket.head(r2Key)) !== null;
+}
+
 /**
  * Retrieve an audio file from R2
  */
@@ -40,6 +83,22 @@ export async function getAudioFromR2(
   return await bucket.get(r2Key);
 }
 
+/**
+ * Read a byte range of an audio file from R2, without loading the rest of it
+ */
+export async function getAudioRangeFromR2(
+  bucket: R2Bucket,
+  r2Key: string,
+  offset: number,
+  length: number
+): Promise<Uint8Array> {
+  const object = await bucket.get(r2Key, { range: { offset, length } });
+  if (!object) {
+    throw new Error('Audio file not found in R2');
+  }
+  return new Uint8Array(await object.arrayBuffer());
+}
+
 /**
  * Delete an audio file from R2
  */
@@ -47,27 +106,23 @@ export async function deleteAudioFromR2(bucket: R2Bucket, r2Key: string): Promis
   await bucket.delete(r2Key);
 }
 
-/**
- * Get file extension from filename
- */
-function getFileExtension(filename: string): string {
-  const lastDot = filename.lastIndexOf('.');
-  if (lastDot === -1) return '.webm';
-  return filename.substring(lastDot);
+function getAudioKey(userId: string, taskId: string, format: AudioFormat): string {
+  return `uploads/${userId}/${taskId}${AUDIO_FORMATS[format].extension}`;
 }
 
 /**
- * Get MIME type based on file extension
+ * Content type and metadata stored with every audio object
  */
-function getMimeType(extension: string): string {
-  const mimeTypes: Record<string, string> = {
-    '.webm': 'audio/webm',
-    '.mp3': 'audio/mpeg',
-    '.wav': 'audio/wav',
-    '.m4a': 'audio/mp4',
-    '.flac': 'audio/flac',
-    '.ogg': 'audio/ogg',
+function getAudioObjectOptions(userId: string, taskId: string, format: AudioFormat, filename: string) {
+  return {
+    httpMetadata: {
+      contentType: AUDIO_FORMATS[format].contentType,
+    },
+    customMetadata: {
+      uploadedAt: new Date().toISOString(),
+      originalName: filename,
+      taskId,
+      userId,
+    },
   };
-
-  return mimeTypes[extension.toLowerCase()] || 'audio/webm';
 }
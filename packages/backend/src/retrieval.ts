@@ -0,0 +1,37 @@
+/**
+ * Embedding retrieval shared by semantic search and /ask
+ * Memos are ranked by their whole-memo vector first; only the best memos' segment
+ * vectors are loaded, so a query reads one vector per memo plus a bounded set of segments
+ */
+
+import { getMemoSegmentEmbeddings, getUserMemoEmbeddings, type MemoEmbeddingWithMemo } from './db';
+import { cosineSimilarity, decodeVector } from './workflow/embed';
+
+// A memo outside this many can't be found through one of its segments alone
+export const DEFAULT_CANDIDATE_MEMOS = 20;
+
+/**
+ * Get the whole-memo and segment embeddings of the memos closest to `vector`
+ */
+export async function getCandidateEmbeddings(
+  db: D1Database,
+  userId: string,
+  model: string,
+  vector: ArrayLike<number>,
+  memoLimit: number = DEFAULT_CANDIDATE_MEMOS
+): Promise<MemoEmbeddingWithMemo[]> {
+  const candidates = (await getUserMemoEmbeddings(db, userId, model))
+    .map((embedding) => ({ embedding, score: cosineSimilarity(decodeVector(embedding.vector), vector) }))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, memoLimit)
+    .map(({ embedding }) => embedding);
+
+  const segments = await getMemoSegmentEmbeddings(
+    db,
+    userId,
+    model,
+    candidates.map((embedding) => embedding.taskId)
+  );
+
+  return [...candidates, ...segments];
+}
@@ -1,4 +1,6 @@
 import { vi, Vitest } from 'vitest';
+import type { StepRunner } from './workflow/steps';
+import type { AudioFormat } from './audio-format';
 
 /**
  * Mock context for testing
@@ -12,7 +14,10 @@ export interface MockWorkerContext {
     AI: any;
     VOICE_MEMO_QUEUE?: any;
     ANALYTICS: any;
+    TASK_STATUS_DO: any;
     ENVIRONMENT: string;
+    EMBEDDINGS_PROVIDER?: string;
+    MAX_AUDIO_DURATION_SECONDS?: string;
   };
   data: {
     userId?: string;
@@ -52,10 +57,12 @@ export function createMockContext(): MockWorkerContext {
     env: {
       DB: {
         prepare: prepareMock,
+        batch: vi.fn().mockResolvedValue([]),
       } as any,
       R2_BUCKET: {
         put: putMock,
         get: getMock,
+        head: vi.fn(() => Promise.resolve(null)),
         delete: deleteMock,
       } as any,
       AUDIO_PROCESSING_WORKFLOW: {
@@ -66,6 +73,7 @@ export function createMockContext(): MockWorkerContext {
       } as any,
       VOICE_MEMO_QUEUE: undefined as any,
       ANALYTICS: undefined as any,
+      TASK_STATUS_DO: undefined as any,
       ENVIRONMENT: 'development',
     },
     data: {
@@ -74,11 +82,54 @@ export function createMockContext(): MockWorkerContext {
   };
 }
 
+/**
+ * Smallest file headers that pass audio content detection
+ */
+const AUDIO_HEADERS: Record<AudioFormat, number[]> = {
+  // EBML header with the "webm" DocType
+  webm: [0x1a, 0x45, 0xdf, 0xa3, 0x9f, 0x42, 0x82, 0x84, 0x77, 0x65, 0x62, 0x6d],
+  // Empty ID3v2.3 tag, then an MPEG-1 Layer III frame header (128kbps, 44.1kHz)
+  mp3: [0x49, 0x44, 0x33, 0x03, 0x00, 0x00, 0x00, 0x00, 0x00, 0x00, 0xff, 0xfb, 0x90, 0x64],
+  wav: [...Buffer.from('RIFF'), 0x24, 0x00, 0x00, 0x00, ...Buffer.from('WAVEfmt ')],
+  ogg: [...Buffer.from('OggS'), 0x00, 0x02],
+  flac: [...Buffer.from('fLaC'), 0x00, 0x00, 0x00, 0x22],
+  m4a: [0x00, 0x00, 0x00, 0x20, ...Buffer.from('ftypM4A ')],
+};
+
+/**
+ * Create audio file bytes of the given format: a valid header padded with zeros to `size`
+ */
+export function createAudioBytes(format: AudioFormat = 'webm', size: number = 64): Buffer {
+  const bytes = Buffer.alloc(Math.max(size, AUDIO_HEADERS[format].length));
+  bytes.set(AUDIO_HEADERS[format]);
+  return bytes;
+}
+
+/**
+ * Create an MP4 file with the generic 'mp42' brand and a moov box holding one track per handler type ('soun', 'vide')
+ */
+export function createMp4Bytes(handlerTypes: string[], size: number = 256): Buffer {
+  const box = (type: string, ...content: Buffer[]) => {
+    const header = Buffer.alloc(8);
+    header.writeUInt32BE(8 + content.reduce((total, part) => total + part.length, 0));
+    header.write(type, 4, 'latin1');
+    return Buffer.concat([header, ...content]);
+  };
+  // Version and flags, pre_defined, handler type, reserved and an empty name
+  const hdlr = (handlerType: string) => box('hdlr', Buffer.alloc(8), Buffer.from(handlerType), Buffer.alloc(13));
+
+  const file = Buffer.concat([
+    box('ftyp', Buffer.from('mp42'), Buffer.alloc(4), Buffer.from('mp42isom')),
+    box('moov', ...handlerTypes.map((handlerType) => box('trak', box('mdia', hdlr(handlerType))))),
+  ]);
+  return Buffer.concat([file, Buffer.alloc(Math.max(size - file.length, 0))]);
+}
+
 /**
  * Create a request with FormData containing an audio file
  */
 export function createAudioRequest(
-  audioData: Buffer | Blob = Buffer.from('mock audio data'),
+  audioData: Buffer | Blob = createAudioBytes(),
   filename: string = 'test.webm',
   mimeType: string = 'audio/webm'
 ): Request {
@@ -102,3 +153,46 @@ export function createAudioRequest(
     body: formData,
   });
 }
+
+/**
+ * Fake Cloudflare Workflows step runner for testing
+ * - Retries each callback up to config.retries.limit times, without waiting between attempts
+ * - Caches completed step outputs by name, so running a workflow again with the same runner
+ *   replays finished steps the way the Workflows runtime does
+ * - Records how many attempts each step took
+ */
+export function createFakeStepRunner(): StepRunner & {
+  do: ReturnType<typeof vi.fn>;
+  completed: Map<string, unknown>;
+  attempts: Record<string, number>;
+} {
+  const completed = new Map<string, unknown>();
+  const attempts: Record<string, number> = {};
+
+  const doMock = vi.fn(async (name: string, config: any, callback: () => Promise<unknown>) => {
+    if (completed.has(name)) {
+      return completed.get(name);
+    }
+
+    const limit = config?.retries?.limit ?? 0;
+    let lastError: unknown;
+    for (let attempt = 0; attempt <= limit; attempt++) {
+      attempts[name] = (attempts[name] || 0) + 1;
+      try {
+        const result = await callback();
+        completed.set(name, result);
+        return result;
+      } catch (error) {
+        lastError = error;
+      }
+    }
+
+    throw lastError;
+  });
+
+  return {
+    do: doMock as any,
+    completed,
+    attempts,
+  };
+}
@@ -4,8 +4,12 @@
  * It orchestrates the transcription, task extraction, and content generation pipeline
  */
 
+import { WorkflowEntrypoint, type WorkflowEvent, type WorkflowStep } from 'cloudflare:workers';
 import type { Env } from './index';
-import { processAudioWorkflow, type WorkflowInput } from './workflow';
+import { processAudioWorkflow, type WorkflowInput, type ProcessedTask } from './workflow';
+import type { TranscriptSegment } from './workflow/segments';
+import { getTask, type Task } from './db';
+import { inlineStepRunner, resolveWorkflowStepConfigs, type StepRunner } from './workflow/steps';
 import type { MockWorkerContext } from './test-utils';
 
 /**
@@ -18,6 +22,53 @@ export interface R2ObjectCreatedEvent {
   eventName: string;
 }
 
+/**
+ * Stage to restart the pipeline from when reprocessing an existing memo
+ * - transcribe: rerun everything from the stored audio
+ * - extract: reuse the saved transcription
+ * - generate: reuse the saved transcription and extracted tasks, regenerating content
+ */
+export type ReprocessStage = 'transcribe' | 'extract' | 'generate';
+
+export const REPROCESS_STAGES: ReprocessStage[] = ['transcribe', 'extract', 'generate'];
+
+/**
+ * Workflow params: the R2 event, plus the stage to restart from when reprocessing
+ */
+export interface AudioProcessingParams extends R2ObjectCreatedEvent {
+  fromStage?: ReprocessStage;
+}
+
+/**
+ * Saved outputs a reprocess run starts from
+ */
+type ReprocessInput = Pick<WorkflowInput, 'transcription' | 'transcriptSegments' | 'extractedTasks'>;
+
+/**
+ * Build the WorkflowInput short-circuits for a reprocess run from the task's saved outputs
+ * Falls back to earlier stages when the outputs a stage needs were never saved
+ */
+export function getReprocessInput(
+  task: Pick<Task, 'transcription' | 'transcriptSegments' | 'processedTasks'> | null,
+  fromStage: ReprocessStage
+): ReprocessInput {
+  if (fromStage === 'transcribe' || !task?.transcription) {
+    return {};
+  }
+
+  const saved: ReprocessInput = { transcription: task.transcription };
+  if (task.transcriptSegments) {
+    saved.transcriptSegments = JSON.parse(task.transcriptSegments) as TranscriptSegment[];
+  }
+
+  if (fromStage === 'generate' && task.processedTasks) {
+    const savedTasks = JSON.parse(task.processedTasks) as ProcessedTask[];
+    saved.extractedTasks = savedTasks.map(({ generated_content, ...extracted }) => extracted);
+  }
+
+  return saved;
+}
+
 /**
  * Extract userId and taskId from R2 object key
  * Key format: uploads/{userId}/{taskId}.webm
@@ -36,10 +87,13 @@ export function parseR2ObjectKey(key: string): { userId: string; taskId: string
 /**
  * Handler function for the audio processing workflow
  * This function is called by Cloudflare Workflows when triggered by an R2 event
+ *
+ * @param step - Durable step runner; defaults to running each stage once with no retries
  */
 export async function handleAudioProcessingWorkflow(
-  r2Event: R2ObjectCreatedEvent,
-  env: Env
+  r2Event: AudioProcessingParams,
+  env: Env,
+  step: StepRunner = inlineStepRunner
 ): Promise<void> {
   const handlerStartTime = performance.now();
   try {
@@ -60,11 +114,24 @@ export async function handleAudioProcessingWorkflow(
     console.log(`Workflow triggered for R2 object: ${r2Key}`);
     console.log(`Processing task ${taskId} for user ${userId}`);
 
+    const stepConfigs = resolveWorkflowStepConfigs(env.WORKFLOW_STEP_CONFIG);
+
+    // When reprocessing, reuse saved outputs so earlier stages are skipped
+    let savedOutputs: ReprocessInput = {};
+    if (r2Event.fromStage && r2Event.fromStage !== 'transcribe') {
+      const fromStage = r2Event.fromStage;
+      savedOutputs = await step.do('load-saved-outputs', stepConfigs.db_update, async () =>
+        getReprocessInput(await getTask(env.DB, taskId, userId), fromStage)
+      );
+      console.log(`Reprocessing task ${taskId} from ${fromStage}`);
+    }
+
     // Create the workflow input from R2 event data
     const workflowInput: WorkflowInput = {
       taskId,
       userId,
       r2Key,
+      ...savedOutputs,
     };
 
     // Create context for the workflow processing function
@@ -78,6 +145,7 @@ export async function handleAudioProcessingWorkflow(
         ANALYTICS: env.ANALYTICS,
         TASK_STATUS_DO: env.TASK_STATUS_DO,
         ENVIRONMENT: env.ENVIRONMENT,
+        EMBEDDINGS_PROVIDER: env.EMBEDDINGS_PROVIDER,
       },
       data: {
         userId,
@@ -85,7 +153,15 @@ export async function handleAudioProcessingWorkflow(
     };
 
     // Execute the audio processing pipeline
-    const result = await processAudioWorkflow(workflowInput, context);
+    const result = await processAudioWorkflow(workflowInput, context, {
+      step,
+      stepConfigs,
+    });
+
+    // The pipeline records the failure on the task; fail the instance too so it ends as errored
+    if (result.status === 'failed') {
+      throw new Error(`Processing failed for task ${taskId}: ${result.error}`);
+    }
 
     console.log(`Workflow completed for task ${taskId}:`, result.status);
   } catch (error) {
@@ -97,11 +173,10 @@ export async function handleAudioProcessingWorkflow(
 /**
  * Workflow class for Cloudflare Workflows integration
  * This is the entry point that Cloudflare Workflows will call when R2 event is triggered
+ * Each pipeline stage runs as a durable step, so retries resume at the failed stage
  */
-export class AudioProcessingWorkflow {
-  constructor(public state: unknown, public env: Env, public ctx: unknown) {}
-
-  async run(r2Event: R2ObjectCreatedEvent): Promise<void> {
-    return handleAudioProcessingWorkflow(r2Event, this.env);
+export class AudioProcessingWorkflow extends WorkflowEntrypoint<Env, AudioProcessingParams> {
+  async run(event: Readonly<WorkflowEvent<AudioProcessingParams>>, step: WorkflowStep): Promise<void> {
+    return handleAudioProcessingWorkflow(event.payload, this.env, step);
   }
 }
@@ -1,15 +1,35 @@
 /**
  * Workflow orchestration for audio processing
- * Phase 2: Transcription, Task Extraction, Content Generation
+ * Phase 2: Transcription, Summarization, Task Extraction, Tagging, Content Generation, Embedding
  */
 
 import type { MockWorkerContext } from './test-utils';
 import type { StatusUpdate } from './durable-objects/task-status-do';
-import { updateTaskResults, updateTaskError, updateTaskTranscription } from './db';
+import {
+  updateTaskResults,
+  updateTaskError,
+  updateTaskTranscription,
+  updateTaskSummary,
+  replaceMemoItems,
+  replaceMemoEmbeddings,
+  replaceAiMemoTags,
+  getUserTagCounts,
+} from './db';
 import { transcribeAudio } from './workflow/transcribe';
+import { linkTasksToSegments, type TranscriptSegment } from './workflow/segments';
+import { summarizeTranscription } from './workflow/summarize';
 import { extractTasks, type ProcessedTask } from './workflow/extract';
+import { suggestTags } from './workflow/tags';
 import { generateTaskContent } from './workflow/generate';
+import { mapWithConcurrency, withTimeout } from './workflow/concurrency';
+import { buildEmbeddingInputs, embedMemo, encodeVector, getEmbedder } from './workflow/embed';
 import { logPipelineEvent } from './analytics';
+import {
+  DEFAULT_WORKFLOW_STEP_CONFIGS,
+  inlineStepRunner,
+  type StepRunner,
+  type WorkflowStepConfigs,
+} from './workflow/steps';
 
 // Re-export ProcessedTask for external use
 export type { ProcessedTask };
@@ -37,6 +57,7 @@ export interface WorkflowInput {
   userId: string;
   r2Key: string;
   transcription?: string;
+  transcriptSegments?: TranscriptSegment[];
   extractedTasks?: ProcessedTask[];
   generatedContent?: string | null;
 }
@@ -98,74 +119,158 @@ function publishWorkflowUpdate(
   }
 }
 
+/**
+ * Streamed content is published once this many characters have built up,
+ * or this long after the previous publish, so each token isn't its own Durable Object request
+ */
+const DELTA_FLUSH_CHARS = 64;
+const DELTA_FLUSH_INTERVAL_MS = 250;
+
+/**
+ * Content generation runs for several tasks at once, at most this many Llama calls at a time,
+ * and each attempt is abandoned (and retried) if it takes longer than the timeout
+ */
+export const GENERATE_CONCURRENCY = 3;
+export const GENERATE_TIMEOUT_MS = 60_000;
+
+/**
+ * Coalesce streamed content into fewer delta updates
+ * Call close() once the stream ends to publish whatever is left; later pushes are dropped
+ */
+function createDeltaBuffer(publish: (delta: string) => void) {
+  let pending = '';
+  let lastFlush = Date.now();
+  let closed = false;
+
+  const flush = () => {
+    if (pending) {
+      publish(pending);
+      pending = '';
+    }
+    lastFlush = Date.now();
+  };
+
+  return {
+    push: (delta: string) => {
+      if (closed) return;
+      pending += delta;
+      if (pending.length >= DELTA_FLUSH_CHARS || Date.now() - lastFlush >= DELTA_FLUSH_INTERVAL_MS) {
+        flush();
+      }
+    },
+    close: () => {
+      flush();
+      closed = true;
+    },
+  };
+}
+
+/**
+ * Options for running the pipeline
+ * - step: runner providing durable step boundaries (Cloudflare's WorkflowStep in production)
+ * - stepConfigs: retry/backoff/timeout policy per stage
+ * - generateConcurrency: maximum tasks generating content at once
+ * - generateTimeoutMs: time allowed for one task's generation attempt
+ */
+export interface WorkflowRunOptions {
+  step?: StepRunner;
+  stepConfigs?: WorkflowStepConfigs;
+  generateConcurrency?: number;
+  generateTimeoutMs?: number;
+}
+
 /**
  * Main workflow orchestration function
  * Coordinates the entire processing pipeline
+ *
+ * Each stage runs inside step.do, so a transient failure only retries that stage
+ * and completed stages are replayed from their persisted output instead of rerunning.
+ * Status updates and analytics for a successful stage are emitted inside its step so
+ * replays don't publish them twice.
  */
 export async function processAudioWorkflow(
   input: WorkflowInput,
-  context: MockWorkerContext
+  context: MockWorkerContext,
+  options: WorkflowRunOptions = {}
 ): Promise<ProcessingResult> {
   const { taskId, userId, r2Key } = input;
+  const step = options.step ?? inlineStepRunner;
+  const stepConfigs = options.stepConfigs ?? DEFAULT_WORKFLOW_STEP_CONFIGS;
   const workflowStartTime = performance.now();
   console.log(`[Timing] Workflow started for task ${taskId}`);
 
   try {
     // Step 1: Get transcription (either provided or retrieve audio and transcribe)
     let transcription = input.transcription;
-
-    // If transcription is provided, save it immediately
-    if (transcription) {
-      await updateTaskTranscription(context.env.DB, taskId, transcription);
-      console.log(`[Transcription] Saved provided transcription to database for task ${taskId}`);
-    }
+    let transcriptSegments = input.transcriptSegments ?? [];
+    // Only segments produced by this run are saved; a reused transcription keeps its stored ones
+    let freshSegments: TranscriptSegment[] | undefined;
 
     if (!transcription) {
       const transcribeStartTime = performance.now();
 
-      // Notify clients that transcription is starting (fire-and-forget)
-      publishWorkflowUpdate(taskId, {
-        stage: 'transcribe',
-        status: 'started',
-        timestamp: Date.now()
-      }, context.env);
-
       try {
-        const r2RetrieveStartTime = performance.now();
-        const audioBuffer = await retrieveAudioFromR2(context, r2Key);
-        const r2RetrieveDuration = performance.now() - r2RetrieveStartTime;
-        console.log(`[Timing] R2 retrieval: ${r2RetrieveDuration.toFixed(2)}ms`);
+        // Empty transcriptions are returned rather than thrown so they aren't retried
+        const transcript = await step.do('transcribe', stepConfigs.transcribe, async () => {
+          const attemptStartTime = performance.now();
 
-        transcription = await transcribeAudio(audioBuffer, context.env);
+          // Notify clients that transcription is starting (fire-and-forget)
+          publishWorkflowUpdate(taskId, {
+            stage: 'transcribe',
+            status: 'started',
+            timestamp: Date.now()
+          }, context.env);
 
-        // Check if transcription is empty (no speech detected)
-        if (!transcription || transcription.trim().length === 0) {
-          throw new Error('No speech detected in audio');
-        }
+          const r2RetrieveStartTime = performance.now();
+          const audioBuffer = await retrieveAudioFromR2(context, r2Key);
+          const r2RetrieveDuration = performance.now() - r2RetrieveStartTime;
+          console.log(`[Timing] R2 retrieval: ${r2RetrieveDuration.toFixed(2)}ms`);
+
+          // Long recordings are transcribed in chunks; report each finished chunk (fire-and-forget)
+          const result = await transcribeAudio(audioBuffer, context.env, {
+            onChunkTranscribed: (completed, total) => {
+              publishWorkflowUpdate(taskId, {
+                stage: 'transcribe',
+                status: 'progress',
+                progress: { completed, total },
+                timestamp: Date.now()
+              }, context.env);
+            },
+          });
+          const text = result?.text || '';
+          if (text.trim().length === 0) {
+            return { text, segments: [] };
+          }
 
-        const transcribeDuration = performance.now() - transcribeStartTime;
+          const transcribeDuration = performance.now() - attemptStartTime;
+          await logPipelineEvent(context.env.ANALYTICS, {
+            timestamp: Date.now(),
+            taskId,
+            userId,
+            stage: 'transcribe',
+            duration_ms: transcribeDuration,
+            status: 'completed',
+          });
 
-        // Save transcription to database immediately so it's not lost if workflow fails later
-        await updateTaskTranscription(context.env.DB, taskId, transcription);
-        console.log(`[Transcription] Saved to database for task ${taskId}`);
+          // Notify clients that transcription is complete (fire-and-forget)
+          publishWorkflowUpdate(taskId, {
+            stage: 'transcribe',
+            status: 'completed',
+            duration_ms: Math.round(transcribeDuration),
+            timestamp: Date.now(),
+            transcription: text
+          }, context.env);
 
-        await logPipelineEvent(context.env.ANALYTICS, {
-          timestamp: Date.now(),
-          taskId,
-          userId,
-          stage: 'transcribe',
-          duration_ms: transcribeDuration,
-          status: 'completed',
+          return { text, segments: result.segments ?? [] };
         });
 
-        // Notify clients that transcription is complete (fire-and-forget)
-        publishWorkflowUpdate(taskId, {
-          stage: 'transcribe',
-          status: 'completed',
-          duration_ms: Math.round(transcribeDuration),
-          timestamp: Date.now(),
-          transcription
-        }, context.env);
+        // Check if transcription is empty (no speech detected)
+        if (transcript.text.trim().length === 0) {
+          throw new Error('No speech detected in audio');
+        }
+
+        transcription = transcript.text;
+        transcriptSegments = freshSegments = transcript.segments;
       } catch (error) {
         const transcribeDuration = performance.now() - transcribeStartTime;
         const errorMessage = error instanceof Error ? error.message : 'Unknown error';
@@ -188,48 +293,131 @@ export async function processAudioWorkflow(
         publishWorkflowUpdate(taskId, {
           stage: 'transcribe',
           status: 'failed',
-          error_message: 'No speech detected in audio',
+          error_message: errorMessage,
           timestamp: Date.now(),
           overallStatus: 'failed'
         }, context.env);
 
-        throw new Error('No speech detected in audio');
+        throw error;
       }
     }
 
-    // Step 2: Extract tasks from transcription
-    let processedTasks: ProcessedTask[] = input.extractedTasks || [];
+    // Save transcription to database immediately so it's not lost if workflow fails later
+    const transcriptionToSave = transcription;
+    const segmentsToSave = freshSegments && JSON.stringify(freshSegments);
+    await step.do('save-transcription', stepConfigs.db_update, async () => {
+      await updateTaskTranscription(context.env.DB, taskId, transcriptionToSave, segmentsToSave);
+      console.log(`[Transcription] Saved to database for task ${taskId}`);
+    });
+
+    // Step 2: Summarize the memo (title, TL;DR, key points) for the memo list
+    // Like tags, the summary is rebuilt whenever tasks are re-extracted, so it follows transcript edits.
+    // It is written inside the step; a failure only costs the summary, so the memo still completes
     if (!input.extractedTasks) {
-      const extractStartTime = performance.now();
+      const summarizeStartTime = performance.now();
+      try {
+        await step.do('summarize', stepConfigs.summarize, async () => {
+          const attemptStartTime = performance.now();
 
-      // Notify clients that extraction is starting (fire-and-forget)
-      publishWorkflowUpdate(taskId, {
-        stage: 'extract',
-        status: 'started',
-        timestamp: Date.now()
-      }, context.env);
+          // Notify clients that summarization is starting (fire-and-forget)
+          publishWorkflowUpdate(taskId, {
+            stage: 'summarize',
+            status: 'started',
+            timestamp: Date.now()
+          }, context.env);
 
-      try {
-        processedTasks = await extractTasks(transcription, context.env);
+          const summary = await summarizeTranscription(transcriptionToSave, context.env);
+          await updateTaskSummary(context.env.DB, taskId, summary);
 
-        const extractDuration = performance.now() - extractStartTime;
-        await logPipelineEvent(context.env.ANALYTICS, {
-          timestamp: Date.now(),
-          taskId,
-          userId,
-          stage: 'extract',
-          duration_ms: extractDuration,
-          status: 'completed',
-          metadata: { taskCount: processedTasks.length },
+          const summarizeDuration = performance.now() - attemptStartTime;
+          await logPipelineEvent(context.env.ANALYTICS, {
+            timestamp: Date.now(),
+            taskId,
+            userId,
+            stage: 'summarize',
+            duration_ms: summarizeDuration,
+            status: 'completed',
+          });
+
+          // Notify clients that summarization is complete (fire-and-forget)
+          publishWorkflowUpdate(taskId, {
+            stage: 'summarize',
+            status: 'completed',
+            duration_ms: Math.round(summarizeDuration),
+            timestamp: Date.now()
+          }, context.env);
         });
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        console.warn(`[Summarize] Failed to summarize memo ${taskId}: ${errorMessage}. Continuing without a summary.`);
+
+        try {
+          await logPipelineEvent(context.env.ANALYTICS, {
+            timestamp: Date.now(),
+            taskId,
+            userId,
+            stage: 'summarize',
+            duration_ms: performance.now() - summarizeStartTime,
+            status: 'failed',
+            metadata: { errorMessage },
+          });
+        } catch (analyticsError) {
+          console.warn('[Analytics] Failed to log summarize error:', analyticsError);
+        }
 
-        // Notify clients that extraction is complete (fire-and-forget)
+        // Notify clients that summarization failed; processing continues (fire-and-forget)
         publishWorkflowUpdate(taskId, {
-          stage: 'extract',
-          status: 'completed',
-          duration_ms: Math.round(extractDuration),
+          stage: 'summarize',
+          status: 'failed',
+          error_message: errorMessage,
           timestamp: Date.now()
         }, context.env);
+      }
+    }
+
+    // Step 3: Extract tasks from transcription
+    let processedTasks: ProcessedTask[] = input.extractedTasks || [];
+    if (!input.extractedTasks) {
+      const extractStartTime = performance.now();
+
+      try {
+        processedTasks = await step.do('extract', stepConfigs.extract, async () => {
+          const attemptStartTime = performance.now();
+
+          // Notify clients that extraction is starting (fire-and-forget)
+          publishWorkflowUpdate(taskId, {
+            stage: 'extract',
+            status: 'started',
+            timestamp: Date.now()
+          }, context.env);
+
+          // Point each task back at the sentence it was extracted from
+          const tasks = linkTasksToSegments(
+            await extractTasks(transcriptionToSave, context.env),
+            transcriptSegments
+          );
+
+          const extractDuration = performance.now() - attemptStartTime;
+          await logPipelineEvent(context.env.ANALYTICS, {
+            timestamp: Date.now(),
+            taskId,
+            userId,
+            stage: 'extract',
+            duration_ms: extractDuration,
+            status: 'completed',
+            metadata: { taskCount: tasks.length },
+          });
+
+          // Notify clients that extraction is complete (fire-and-forget)
+          publishWorkflowUpdate(taskId, {
+            stage: 'extract',
+            status: 'completed',
+            duration_ms: Math.round(extractDuration),
+            timestamp: Date.now()
+          }, context.env);
+
+          return tasks;
+        });
       } catch (error) {
         const extractDuration = performance.now() - extractStartTime;
         const errorMessage = error instanceof Error ? error.message : 'Unknown error';
@@ -263,120 +451,265 @@ export async function processAudioWorkflow(
       }
     }
 
-    // Step 3: Generate content for tasks that require it
-    const tasksWithContent: ProcessedTask[] = [];
-    for (const task of processedTasks) {
-      let taskWithContent: ProcessedTask = { ...task };
+    // Step 4: Suggest tags, alongside extraction (so reprocessing from 'generate' keeps them)
+    // Tags are written inside the step; a failure only costs the suggestions, so the memo still completes
+    if (!input.extractedTasks) {
+      const tagStartTime = performance.now();
+      try {
+        await step.do('tag', stepConfigs.tag, async () => {
+          const attemptStartTime = performance.now();
+          const existingTags = await getUserTagCounts(context.env.DB, userId);
+          const tags = await suggestTags(
+            transcriptionToSave,
+            existingTags.map((tag) => tag.name),
+            context.env
+          );
 
-      if (task.generative_task_prompt) {
-        const generateStartTime = performance.now();
+          await replaceAiMemoTags(context.env.DB, taskId, userId, tags);
 
-        // Notify clients that generation is starting (fire-and-forget)
-        publishWorkflowUpdate(taskId, {
-          stage: 'generate',
-          status: 'started',
-          timestamp: Date.now()
-        }, context.env);
+          await logPipelineEvent(context.env.ANALYTICS, {
+            timestamp: Date.now(),
+            taskId,
+            userId,
+            stage: 'tag',
+            duration_ms: performance.now() - attemptStartTime,
+            status: 'completed',
+            metadata: { tagCount: tags.length },
+          });
+        });
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        console.warn(`[Tags] Failed to suggest tags for memo ${taskId}: ${errorMessage}. Continuing without tags.`);
 
         try {
-          let generatedContent = input.generatedContent;
-          if (!generatedContent) {
-            generatedContent = await generateTaskContent(task.generative_task_prompt, context.env);
-          }
-          if (generatedContent) {
-            taskWithContent.generated_content = generatedContent;
-          }
-
-          const generateDuration = performance.now() - generateStartTime;
           await logPipelineEvent(context.env.ANALYTICS, {
             timestamp: Date.now(),
             taskId,
             userId,
-            stage: 'generate',
-            duration_ms: generateDuration,
-            status: 'completed',
+            stage: 'tag',
+            duration_ms: performance.now() - tagStartTime,
+            status: 'failed',
+            metadata: { errorMessage },
           });
+        } catch (analyticsError) {
+          console.warn('[Analytics] Failed to log tag error:', analyticsError);
+        }
+      }
+    }
 
-          // Notify clients that generation is complete (fire-and-forget)
-          publishWorkflowUpdate(taskId, {
-            stage: 'generate',
-            status: 'completed',
-            duration_ms: Math.round(generateDuration),
-            timestamp: Date.now()
-          }, context.env);
-        } catch (error) {
-          // Continue processing other tasks even if one generation fails
-          const generateDuration = performance.now() - generateStartTime;
-          const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    // Step 5: Generate content for tasks that require it
+    // Each task gets its own step so one failing generation doesn't rerun the others;
+    // steps run in parallel (bounded), and results keep the order of the extracted tasks
+    const generateTimeoutMs = options.generateTimeoutMs ?? GENERATE_TIMEOUT_MS;
+    // Every generate update says which task it is for and how many there are, so clients can show "2 of 5"
+    const itemCount = processedTasks.filter((task) => task.generative_task_prompt).length;
+    const tasksWithContent = await mapWithConcurrency(
+      processedTasks,
+      options.generateConcurrency ?? GENERATE_CONCURRENCY,
+      async (task, index): Promise<ProcessedTask> => {
+        const taskWithContent: ProcessedTask = { ...task };
+        const prompt = task.generative_task_prompt;
+
+        if (prompt) {
+          const generateStartTime = performance.now();
 
           try {
-            await logPipelineEvent(context.env.ANALYTICS, {
-              timestamp: Date.now(),
-              taskId,
-              userId,
+            const generatedContent = await step.do(`generate-${index}`, stepConfigs.generate, async () => {
+              const attemptStartTime = performance.now();
+
+              // Notify clients that generation is starting (fire-and-forget)
+              // A retried attempt starts again, so clients discard the text streamed so far
+              publishWorkflowUpdate(taskId, {
+                stage: 'generate',
+                status: 'started',
+                itemIndex: index,
+                itemCount,
+                itemTask: task.task,
+                timestamp: Date.now()
+              }, context.env);
+
+              let content = input.generatedContent;
+              if (!content) {
+                // Stream the content to clients as it is written (fire-and-forget)
+                const deltas = createDeltaBuffer((delta) => {
+                  publishWorkflowUpdate(taskId, {
+                    stage: 'generate',
+                    status: 'delta',
+                    itemIndex: index,
+                    delta,
+                    timestamp: Date.now()
+                  }, context.env);
+                });
+                try {
+                  content = await withTimeout(
+                    generateTaskContent(prompt, context.env, { onDelta: deltas.push }),
+                    generateTimeoutMs,
+                    `Content generation for task ${index + 1}`
+                  );
+                } finally {
+                  // A timed-out stream keeps running; stop it reaching clients once the attempt is over
+                  deltas.close();
+                }
+              }
+
+              const generateDuration = performance.now() - attemptStartTime;
+              await logPipelineEvent(context.env.ANALYTICS, {
+                timestamp: Date.now(),
+                taskId,
+                userId,
+                stage: 'generate',
+                duration_ms: generateDuration,
+                status: 'completed',
+              });
+
+              // Notify clients that generation is complete (fire-and-forget)
+              publishWorkflowUpdate(taskId, {
+                stage: 'generate',
+                status: 'completed',
+                itemIndex: index,
+                itemCount,
+                itemTask: task.task,
+                duration_ms: Math.round(generateDuration),
+                timestamp: Date.now()
+              }, context.env);
+
+              return content || null;
+            });
+
+            if (generatedContent) {
+              taskWithContent.generated_content = generatedContent;
+            }
+          } catch (error) {
+            // Continue processing other tasks even if one generation fails
+            const generateDuration = performance.now() - generateStartTime;
+            const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+
+            try {
+              await logPipelineEvent(context.env.ANALYTICS, {
+                timestamp: Date.now(),
+                taskId,
+                userId,
+                stage: 'generate',
+                duration_ms: generateDuration,
+                status: 'failed',
+                metadata: { errorMessage },
+              });
+            } catch (analyticsError) {
+              console.warn('[Analytics] Failed to log generate error:', analyticsError);
+            }
+
+            // Notify clients that generation failed (fire-and-forget)
+            publishWorkflowUpdate(taskId, {
               stage: 'generate',
-              duration_ms: generateDuration,
               status: 'failed',
-              metadata: { errorMessage },
-            });
-          } catch (analyticsError) {
-            console.warn('[Analytics] Failed to log generate error:', analyticsError);
+              itemIndex: index,
+              itemCount,
+              itemTask: task.task,
+              error_message: errorMessage,
+              timestamp: Date.now()
+            }, context.env);
+
+            console.error(`Failed to generate content for task "${task.task}":`, error);
           }
-
-          // Notify clients that generation failed (fire-and-forget)
-          publishWorkflowUpdate(taskId, {
-            stage: 'generate',
-            status: 'failed',
-            error_message: errorMessage,
-            timestamp: Date.now()
-          }, context.env);
-
-          console.error(`Failed to generate content for task "${task.task}":`, error);
         }
+
+        return taskWithContent;
       }
+    );
+
+    // Step 6: Embed the memo for semantic search and related memos
+    // Vectors are written inside the step (they are too large to persist as step output);
+    // a failure only costs search coverage, so the memo still completes
+    const embedStartTime = performance.now();
+    try {
+      await step.do('embed', stepConfigs.embed, async () => {
+        const attemptStartTime = performance.now();
+        const embedder = getEmbedder(context.env);
+        const embeddings = await embedMemo(
+          embedder,
+          buildEmbeddingInputs(transcriptionToSave, transcriptSegments, tasksWithContent)
+        );
+
+        await replaceMemoEmbeddings(
+          context.env.DB,
+          taskId,
+          userId,
+          embedder.model,
+          embeddings.map(({ segmentIndex, text, vector }) => ({ segmentIndex, text, vector: encodeVector(vector) }))
+        );
+
+        await logPipelineEvent(context.env.ANALYTICS, {
+          timestamp: Date.now(),
+          taskId,
+          userId,
+          stage: 'embed',
+          duration_ms: performance.now() - attemptStartTime,
+          status: 'completed',
+        });
+      });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.warn(`[Embed] Failed to embed memo ${taskId}: ${errorMessage}. Continuing without embeddings.`);
 
-      tasksWithContent.push(taskWithContent);
+      try {
+        await logPipelineEvent(context.env.ANALYTICS, {
+          timestamp: Date.now(),
+          taskId,
+          userId,
+          stage: 'embed',
+          duration_ms: performance.now() - embedStartTime,
+          status: 'failed',
+          metadata: { errorMessage },
+        });
+      } catch (analyticsError) {
+        console.warn('[Analytics] Failed to log embed error:', analyticsError);
+      }
     }
 
-    // Step 4: Update D1 with results
+    // Step 7: Update D1 with results
     const processedTasksJson = JSON.stringify(tasksWithContent);
     const dbUpdateStartTime = performance.now();
 
-    // Notify clients that database update is starting (fire-and-forget)
-    publishWorkflowUpdate(taskId, {
-      stage: 'db_update',
-      status: 'started',
-      timestamp: Date.now()
-    }, context.env);
-
     try {
-      console.log(`[DBUpdate] Updating task results for ${taskId}...`);
-      await updateTaskResults(context.env.DB, taskId, transcription, processedTasksJson);
-      console.log(`[DBUpdate] ✓ Task results updated successfully for ${taskId}`);
+      await step.do('db-update', stepConfigs.db_update, async () => {
+        const attemptStartTime = performance.now();
 
-      const dbUpdateDuration = performance.now() - dbUpdateStartTime;
-      console.log(`[Timing] DB update: ${dbUpdateDuration.toFixed(2)}ms`);
-      await logPipelineEvent(context.env.ANALYTICS, {
-        timestamp: Date.now(),
-        taskId,
-        userId,
-        stage: 'db_update',
-        duration_ms: dbUpdateDuration,
-        status: 'completed',
-      });
+        // Notify clients that database update is starting (fire-and-forget)
+        publishWorkflowUpdate(taskId, {
+          stage: 'db_update',
+          status: 'started',
+          timestamp: Date.now()
+        }, context.env);
 
-      // Notify clients that database update is complete
-      // IMPORTANT: Await this call to prevent race condition where frontend invalidates cache
-      // before Durable Object confirms receipt of the completion message
-      console.log(`[DBUpdate] Publishing db_update completion message for ${taskId}...`);
-      await publishWorkflowUpdate(taskId, {
-        stage: 'db_update',
-        status: 'completed',
-        duration_ms: Math.round(dbUpdateDuration),
-        timestamp: Date.now(),
-        overallStatus: 'completed'
-      }, context.env, true);
-      console.log(`[DBUpdate] ✓ Completion message published for ${taskId}`);
+        console.log(`[DBUpdate] Updating task results for ${taskId}...`);
+        await updateTaskResults(context.env.DB, taskId, transcriptionToSave, processedTasksJson);
+        await replaceMemoItems(context.env.DB, taskId, userId, tasksWithContent);
+        console.log(`[DBUpdate] ✓ Task results updated successfully for ${taskId}`);
+
+        const dbUpdateDuration = performance.now() - attemptStartTime;
+        console.log(`[Timing] DB update: ${dbUpdateDuration.toFixed(2)}ms`);
+        await logPipelineEvent(context.env.ANALYTICS, {
+          timestamp: Date.now(),
+          taskId,
+          userId,
+          stage: 'db_update',
+          duration_ms: dbUpdateDuration,
+          status: 'completed',
+        });
+
+        // Notify clients that database update is complete
+        // IMPORTANT: Await this call to prevent race condition where frontend invalidates cache
+        // before Durable Object confirms receipt of the completion message
+        console.log(`[DBUpdate] Publishing db_update completion message for ${taskId}...`);
+        await publishWorkflowUpdate(taskId, {
+          stage: 'db_update',
+          status: 'completed',
+          duration_ms: Math.round(dbUpdateDuration),
+          timestamp: Date.now(),
+          overallStatus: 'completed'
+        }, context.env, true);
+        console.log(`[DBUpdate] ✓ Completion message published for ${taskId}`);
+      });
     } catch (dbError) {
       const dbUpdateDuration = performance.now() - dbUpdateStartTime;
       const errorMessage = dbError instanceof Error ? dbError.message : 'Unknown error';
@@ -415,7 +748,7 @@ export async function processAudioWorkflow(
     return {
       status: 'completed',
       taskId,
-      transcription,
+      transcription: transcriptionToSave,
       processedTasks: tasksWithContent,
     };
   } catch (error) {
@@ -423,7 +756,9 @@ export async function processAudioWorkflow(
 
     // Update D1 with error status
     try {
-      await updateTaskError(context.env.DB, taskId, errorMessage);
+      await step.do('record-failure', stepConfigs.db_update, async () => {
+        await updateTaskError(context.env.DB, taskId, errorMessage);
+      });
     } catch (updateError) {
       console.error('Failed to update task error status:', updateError);
     }
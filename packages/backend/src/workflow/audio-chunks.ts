@@ -0,0 +1,347 @@
+/**
+ * Audio chunking and transcript stitching for long recordings
+ * Whisper times out or rejects very long inputs, so large files are split into
+ * overlapping chunks that are transcribed separately and stitched back together
+ */
+
+import { detectAudioFormat } from '../audio-format';
+import { UNSPLIT_AUDIO_FORMATS } from '../audio-metadata';
+
+/**
+ * Chunking options
+ * - chunkBytes: target maximum size of each chunk
+ * - overlapBytes: how much audio each chunk repeats from the end of the previous one,
+ *   so words cut at a boundary are heard whole in at least one chunk
+ */
+export interface AudioChunkOptions {
+  chunkBytes: number;
+  overlapBytes: number;
+}
+
+/**
+ * A piece of a recording that can be decoded on its own
+ * - startByte: where the chunk's audio starts in the original file
+ * - startSeconds: where the chunk starts in time, when the container records it (WebM cluster timecodes, WAV byte rate)
+ */
+export interface AudioChunk {
+  bytes: Uint8Array;
+  startByte: number;
+  startSeconds?: number;
+}
+
+/**
+ * ~1MB is about 4 minutes of Opus at 32kbps or 1 minute of 128kbps MP3,
+ * comfortably inside Whisper's per-request limits
+ */
+export const DEFAULT_AUDIO_CHUNK_OPTIONS: AudioChunkOptions = {
+  chunkBytes: 1024 * 1024,
+  overlapBytes: 32 * 1024,
+};
+
+// Matroska/WebM element IDs
+const EBML_HEADER_ID = [0x1a, 0x45, 0xdf, 0xa3];
+const CLUSTER_ID = [0x1f, 0x43, 0xb6, 0x75];
+const CLUSTER_TIMECODE_ID = 0xe7;
+const TIMECODE_SCALE_ID = [0x2a, 0xd7, 0xb1];
+const DEFAULT_TIMECODE_SCALE_NS = 1_000_000;
+
+/**
+ * Split audio into overlapping chunks that can each be decoded on their own
+ * Audio at or below chunkBytes is returned as a single chunk
+ *
+ * - WebM: split on Cluster boundaries, repeating the stream header (EBML + Tracks)
+ *   in front of every chunk and the previous chunk's last cluster as overlap
+ * - WAV: split on whole sample frames, with the RIFF header rewritten in front of every chunk
+ * - M4A, OGG and FLAC: can't be decoded from a piece without rebuilding their headers, so they're sent whole;
+ *   uploads limit them to MAX_UNSPLIT_AUDIO_DURATION_SECONDS, which one Whisper request can handle
+ * - MP3: frame-based streams resync on their own, so plain byte ranges are used
+ */
+export function splitAudioIntoChunks(
+  audio: Uint8Array,
+  options: AudioChunkOptions = DEFAULT_AUDIO_CHUNK_OPTIONS
+): AudioChunk[] {
+  if (audio.byteLength <= options.chunkBytes) {
+    return [{ bytes: audio, startByte: 0, startSeconds: 0 }];
+  }
+
+  if (startsWith(audio, EBML_HEADER_ID)) {
+    return splitWebmIntoChunks(audio, options);
+  }
+
+  const format = detectAudioFormat(audio)?.format;
+  if (format === 'wav') {
+    return splitWavIntoChunks(audio, options);
+  }
+  if (format && UNSPLIT_AUDIO_FORMATS.includes(format)) {
+    return [{ bytes: audio, startByte: 0, startSeconds: 0 }];
+  }
+
+  const chunks: AudioChunk[] = [];
+  const stride = Math.max(options.chunkBytes - options.overlapBytes, 1);
+  for (let start = 0; start < audio.byteLength; start += stride) {
+    chunks.push({
+      bytes: audio.subarray(start, Math.min(start + options.chunkBytes, audio.byteLength)),
+      startByte: start,
+    });
+    if (start + options.chunkBytes >= audio.byteLength) {
+      break;
+    }
+  }
+  return chunks;
+}
+
+/**
+ * Group WebM clusters into chunks, each prefixed with the stream header
+ * Falls back to a single chunk if no clusters can be found (nothing safe to split on)
+ */
+function splitWebmIntoChunks(audio: Uint8Array, options: AudioChunkOptions): AudioChunk[] {
+  const clusterOffsets = findClusterOffsets(audio);
+  if (clusterOffsets.length < 2) {
+    return [{ bytes: audio, startByte: 0, startSeconds: 0 }];
+  }
+
+  const header = audio.subarray(0, clusterOffsets[0]);
+  const secondsPerTick = readTimecodeScale(header) / 1e9;
+  const clusters = clusterOffsets.map((start, idx) => ({
+    bytes: audio.subarray(start, clusterOffsets[idx + 1] ?? audio.byteLength),
+    startByte: start,
+    startSeconds: readClusterTimecode(audio, start) * secondsPerTick,
+  }));
+
+  const chunks: AudioChunk[] = [];
+  let current: typeof clusters = [];
+  let currentBytes = header.byteLength;
+
+  const flush = () => {
+    chunks.push({
+      bytes: concatBytes([header, ...current.map((cluster) => cluster.bytes)]),
+      startByte: current[0].startByte,
+      startSeconds: current[0].startSeconds,
+    });
+  };
+
+  clusters.forEach((cluster) => {
+    if (current.length > 0 && currentBytes + cluster.bytes.byteLength > options.chunkBytes) {
+      flush();
+
+      // Carry the previous cluster over as overlap when it's small enough
+      const previous = current[current.length - 1];
+      current = previous.bytes.byteLength <= options.overlapBytes ? [previous] : [];
+      currentBytes = header.byteLength + (current[0]?.bytes.byteLength ?? 0);
+    }
+    current.push(cluster);
+    currentBytes += cluster.bytes.byteLength;
+  });
+
+  flush();
+  return chunks;
+}
+
+/**
+ * Split the samples of a WAV file into chunks that each carry a copy of the header,
+ * with the RIFF and data sizes rewritten to match
+ * Falls back to a single chunk if the fmt or data chunk can't be found
+ */
+function splitWavIntoChunks(audio: Uint8Array, options: AudioChunkOptions): AudioChunk[] {
+  const view = new DataView(audio.buffer, audio.byteOffset, audio.byteLength);
+  let blockAlign = 0;
+  let byteRate = 0;
+  let dataStart = -1;
+  let dataEnd = audio.byteLength;
+
+  for (let offset = 12; offset + 8 <= audio.byteLength; ) {
+    const chunkId = String.fromCharCode(...audio.subarray(offset, offset + 4));
+    const chunkSize = view.getUint32(offset + 4, true);
+    if (chunkId === 'fmt ' && offset + 24 <= audio.byteLength) {
+      byteRate = view.getUint32(offset + 16, true);
+      blockAlign = view.getUint16(offset + 20, true);
+    } else if (chunkId === 'data') {
+      dataStart = offset + 8;
+      dataEnd = Math.min(dataStart + chunkSize, audio.byteLength);
+      break;
+    }
+    offset += 8 + chunkSize + (chunkSize % 2);
+  }
+
+  if (dataStart < 0 || blockAlign === 0 || byteRate === 0) {
+    return [{ bytes: audio, startByte: 0, startSeconds: 0 }];
+  }
+
+  const header = audio.subarray(0, dataStart);
+  const dataBytes = Math.max(Math.floor((options.chunkBytes - header.byteLength) / blockAlign), 1) * blockAlign;
+  const overlapBytes = Math.floor(options.overlapBytes / blockAlign) * blockAlign;
+  const stride = Math.max(dataBytes - overlapBytes, blockAlign);
+
+  const chunks: AudioChunk[] = [];
+  for (let start = dataStart; start < dataEnd; start += stride) {
+    const end = Math.min(start + dataBytes, dataEnd);
+    const bytes = concatBytes([header, audio.subarray(start, end)]);
+    const chunkView = new DataView(bytes.buffer);
+    chunkView.setUint32(4, bytes.byteLength - 8, true);
+    chunkView.setUint32(header.byteLength - 4, end - start, true);
+
+    chunks.push({ bytes, startByte: start, startSeconds: (start - dataStart) / byteRate });
+    if (end >= dataEnd) {
+      break;
+    }
+  }
+  return chunks;
+}
+
+/**
+ * Find the byte offsets of top-level Cluster elements
+ * A Cluster's first child is always its Timecode, which filters out
+ * accidental matches of the Cluster ID inside encoded audio
+ */
+function findClusterOffsets(audio: Uint8Array): number[] {
+  const offsets: number[] = [];
+  for (let i = 0; i + CLUSTER_ID.length < audio.byteLength; i++) {
+    if (
+      audio[i] !== CLUSTER_ID[0] ||
+      audio[i + 1] !== CLUSTER_ID[1] ||
+      audio[i + 2] !== CLUSTER_ID[2] ||
+      audio[i + 3] !== CLUSTER_ID[3]
+    ) {
+      continue;
+    }
+
+    const sizeLength = getVintLength(audio[i + 4]);
+    if (sizeLength > 0 && audio[i + 4 + sizeLength] === CLUSTER_TIMECODE_ID) {
+      offsets.push(i);
+    }
+  }
+  return offsets;
+}
+
+/**
+ * Timecode of the Cluster at `offset`, in TimecodeScale ticks
+ * The Timecode element directly follows the Cluster's ID and size
+ */
+function readClusterTimecode(audio: Uint8Array, offset: number): number {
+  const timecodeOffset = offset + CLUSTER_ID.length + getVintLength(audio[offset + CLUSTER_ID.length]);
+  return readUintElementValue(audio, timecodeOffset + 1);
+}
+
+/**
+ * Nanoseconds per timecode tick, from the Segment Info's TimecodeScale (1ms when absent)
+ */
+function readTimecodeScale(header: Uint8Array): number {
+  for (let i = 0; i + TIMECODE_SCALE_ID.length < header.byteLength; i++) {
+    if (
+      header[i] === TIMECODE_SCALE_ID[0] &&
+      header[i + 1] === TIMECODE_SCALE_ID[1] &&
+      header[i + 2] === TIMECODE_SCALE_ID[2]
+    ) {
+      return readUintElementValue(header, i + TIMECODE_SCALE_ID.length) || DEFAULT_TIMECODE_SCALE_NS;
+    }
+  }
+  return DEFAULT_TIMECODE_SCALE_NS;
+}
+
+/**
+ * Read an unsigned integer element's value, given the offset of its size field
+ */
+function readUintElementValue(bytes: Uint8Array, sizeOffset: number): number {
+  const sizeLength = getVintLength(bytes[sizeOffset]);
+  if (sizeLength === 0) {
+    return 0;
+  }
+
+  // The size's marker bit is dropped to get the number of value bytes
+  let valueLength = bytes[sizeOffset] & (0xff >> sizeLength);
+  for (let i = 1; i < sizeLength; i++) {
+    valueLength = valueLength * 256 + bytes[sizeOffset + i];
+  }
+
+  let value = 0;
+  for (let i = 0; i < valueLength && i < 8; i++) {
+    value = value * 256 + (bytes[sizeOffset + sizeLength + i] ?? 0);
+  }
+  return value;
+}
+
+/**
+ * Length in bytes of an EBML variable-size integer, from its first byte (0 if invalid)
+ */
+function getVintLength(firstByte: number | undefined): number {
+  if (!firstByte) {
+    return 0;
+  }
+  let length = 1;
+  let mask = 0x80;
+  while (!(firstByte & mask)) {
+    mask >>= 1;
+    length++;
+  }
+  return length;
+}
+
+function startsWith(bytes: Uint8Array, prefix: number[]): boolean {
+  return prefix.every((byte, idx) => bytes[idx] === byte);
+}
+
+function concatBytes(parts: Uint8Array[]): Uint8Array {
+  const total = parts.reduce((sum, part) => sum + part.byteLength, 0);
+  const result = new Uint8Array(total);
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.byteLength;
+  }
+  return result;
+}
+
+/**
+ * Maximum number of words compared when looking for text repeated across a chunk boundary
+ */
+const MAX_OVERLAP_WORDS = 40;
+
+/**
+ * Join chunk transcripts into a single transcript
+ * Because chunks overlap, the start of each chunk usually repeats the end of the previous one;
+ * the longest run of words shared by the end of the transcript so far and the start of the
+ * next chunk is dropped from the next chunk (ignoring case and punctuation)
+ */
+export function stitchTranscripts(parts: string[]): string {
+  const words: string[] = [];
+
+  for (const part of parts) {
+    const nextWords = part.trim().split(/\s+/).filter(Boolean);
+    if (nextWords.length === 0) {
+      continue;
+    }
+
+    const overlap = findOverlapLength(words, nextWords);
+    words.push(...nextWords.slice(overlap));
+  }
+
+  return words.join(' ');
+}
+
+/**
+ * Number of leading words of `next` that repeat the trailing words of `previous`
+ * Single-word matches are ignored - common words like "the" would cause false positives
+ */
+function findOverlapLength(previous: string[], next: string[]): number {
+  const maxLength = Math.min(previous.length, next.length, MAX_OVERLAP_WORDS);
+  const tail = previous.slice(-maxLength).map(normalizeWord);
+  const head = next.slice(0, maxLength).map(normalizeWord);
+
+  for (let length = maxLength; length >= 2; length--) {
+    let matches = true;
+    for (let i = 0; i < length; i++) {
+      if (tail[tail.length - length + i] !== head[i]) {
+        matches = false;
+        break;
+      }
+    }
+    if (matches) {
+      return length;
+    }
+  }
+  return 0;
+}
+
+function normalizeWord(word: string): string {
+  return word.toLowerCase().replace(/[^\p{L}\p{N}']/gu, '');
+}
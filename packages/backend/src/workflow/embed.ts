@@ -0,0 +1,190 @@
+/**
+ * Step 4: Embed memos for semantic search and related memos
+ * Vectors come from Cloudflare Workers AI (BGE) or, for tests and offline
+ * development, a local hashing embedder that needs no AI binding
+ */
+
+import type { Ai } from '@cloudflare/workers-types';
+import type { TranscriptSegment } from './segments';
+import type { ProcessedTask } from './extract';
+
+export const WORKERS_AI_EMBEDDING_MODEL = '@cf/baai/bge-small-en-v1.5';
+export const LOCAL_EMBEDDING_MODEL = 'local-hash-v1';
+
+// BGE reads at most 512 tokens; longer input is cut off anyway
+const MAX_EMBED_TEXT_LENGTH = 2000;
+const EMBED_BATCH_SIZE = 50;
+const LOCAL_EMBEDDING_DIMENSIONS = 256;
+
+/**
+ * Turns text into vectors. `model` is stored with each vector so vectors from
+ * different models are never compared with each other.
+ */
+export interface Embedder {
+  model: string;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+interface EmbedderEnv {
+  AI?: Ai;
+  EMBEDDINGS_PROVIDER?: string;
+}
+
+/**
+ * Pick the embedder for an environment
+ * EMBEDDINGS_PROVIDER=local selects the local embedder; anything else uses Workers AI
+ */
+export function getEmbedder(env: EmbedderEnv): Embedder {
+  if (env.EMBEDDINGS_PROVIDER === 'local') {
+    return createLocalEmbedder();
+  }
+  return createWorkersAiEmbedder(env.AI);
+}
+
+/**
+ * Embedder backed by the Workers AI BGE model
+ */
+export function createWorkersAiEmbedder(ai: Ai | undefined): Embedder {
+  return {
+    model: WORKERS_AI_EMBEDDING_MODEL,
+    async embed(texts) {
+      if (!ai) {
+        throw new Error('Cloudflare Workers AI not available. Please configure AI binding in wrangler.toml');
+      }
+
+      const response = await ai.run(WORKERS_AI_EMBEDDING_MODEL, { text: texts }) as { data?: number[][] };
+      if (!response?.data || response.data.length !== texts.length) {
+        throw new Error('Embedding model returned an unexpected response');
+      }
+      return response.data;
+    },
+  };
+}
+
+/**
+ * Deterministic bag-of-words embedder (feature hashing, L2-normalised)
+ * Only matches shared words, not paraphrases, but needs no network access
+ */
+export function createLocalEmbedder(dimensions: number = LOCAL_EMBEDDING_DIMENSIONS): Embedder {
+  return {
+    model: LOCAL_EMBEDDING_MODEL,
+    async embed(texts) {
+      return texts.map((text) => {
+        const vector = new Array<number>(dimensions).fill(0);
+        for (const word of text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []) {
+          vector[hashWord(word) % dimensions] += 1;
+        }
+        return normalize(vector);
+      });
+    },
+  };
+}
+
+/**
+ * A piece of a memo to embed: the whole memo (segmentIndex null) or one transcript segment
+ */
+export interface EmbeddingInput {
+  segmentIndex: number | null;
+  text: string;
+}
+
+export interface MemoEmbedding extends EmbeddingInput {
+  vector: number[];
+}
+
+/**
+ * Build the texts to embed for a memo
+ * The whole-memo text combines the transcription with its tasks, so related memos
+ * can match on either; each non-empty segment is embedded on its own for search
+ */
+export function buildEmbeddingInputs(
+  transcription: string,
+  segments: TranscriptSegment[],
+  tasks: ProcessedTask[]
+): EmbeddingInput[] {
+  const memoText = [transcription, ...tasks.map((task) => task.task)].join('\n');
+  const inputs: EmbeddingInput[] = [{ segmentIndex: null, text: memoText.slice(0, MAX_EMBED_TEXT_LENGTH) }];
+
+  segments.forEach((segment, index) => {
+    const text = segment.text.trim();
+    if (text) {
+      inputs.push({ segmentIndex: index, text: text.slice(0, MAX_EMBED_TEXT_LENGTH) });
+    }
+  });
+
+  return inputs;
+}
+
+/**
+ * Embed a memo's inputs in batches
+ */
+export async function embedMemo(embedder: Embedder, inputs: EmbeddingInput[]): Promise<MemoEmbedding[]> {
+  const embeddings: MemoEmbedding[] = [];
+
+  for (let start = 0; start < inputs.length; start += EMBED_BATCH_SIZE) {
+    const batch = inputs.slice(start, start + EMBED_BATCH_SIZE);
+    const vectors = await embedder.embed(batch.map((input) => input.text));
+    batch.forEach((input, idx) => embeddings.push({ ...input, vector: vectors[idx] }));
+  }
+
+  return embeddings;
+}
+
+/**
+ * Cosine similarity of two vectors of the same length (0 when either is all zeros)
+ */
+export function cosineSimilarity(a: ArrayLike<number>, b: ArrayLike<number>): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  if (normA === 0 || normB === 0) {
+    return 0;
+  }
+  return dot / Math.sqrt(normA * normB);
+}
+
+/**
+ * Encode a vector for storage as base64 of its float32 bytes (about a quarter of the JSON size)
+ */
+export function encodeVector(vector: number[]): string {
+  const bytes = new Uint8Array(new Float32Array(vector).buffer);
+  let binary = '';
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte);
+  }
+  return btoa(binary);
+}
+
+/**
+ * Decode a vector stored by encodeVector
+ */
+export function decodeVector(encoded: string): Float32Array {
+  const binary = atob(encoded);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return new Float32Array(bytes.buffer);
+}
+
+/**
+ * FNV-1a hash of a word
+ */
+function hashWord(word: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < word.length; i++) {
+    hash ^= word.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+function normalize(vector: number[]): number[] {
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  return norm === 0 ? vector : vector.map((value) => value / norm);
+}
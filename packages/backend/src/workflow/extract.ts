@@ -10,6 +10,7 @@ export interface ProcessedTask {
   due: string | null;
   generative_task_prompt: string | null;
   generated_content?: string;
+  segmentIndex?: number | null; // transcript segment the task was extracted from
 }
 
 interface AIEnv {
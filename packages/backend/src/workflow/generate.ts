@@ -3,18 +3,30 @@
  */
 
 import type { Ai } from '@cloudflare/workers-types';
-import { CONTENT_GENERATION_SYSTEM_PROMPT } from './prompts';
+import { CONTENT_GENERATION_SYSTEM_PROMPT, getContentRefinementPrompt } from './prompts';
 
 interface AIEnv {
   AI?: Ai;
 }
 
+/**
+ * Options for content generation
+ * - onDelta: called with each piece of text as Llama streams it; when omitted the response is not streamed
+ * - refine: revise earlier content with the user's instruction (e.g. "make it shorter") instead of starting over
+ */
+export interface GenerateOptions {
+  onDelta?: (delta: string) => void;
+  refine?: { previousContent: string; instruction: string };
+}
+
 /**
  * Generate content for a task using Llama 3
+ * With onDelta the response is streamed, and the full text is still returned once it ends
  */
 export async function generateTaskContent(
   prompt: string,
-  env: AIEnv
+  env: AIEnv,
+  options: GenerateOptions = {}
 ): Promise<string> {
   // Validate input
   if (!prompt || prompt.trim().length === 0) {
@@ -33,17 +45,24 @@ export async function generateTaskContent(
     // Call Llama 3 model via Workers AI
     const aiCallStartTime = performance.now();
     const response = await env.AI.run('@cf/meta/llama-3-8b-instruct', {
-      prompt: CONTENT_GENERATION_SYSTEM_PROMPT.replace('{prompt}', prompt),
+      prompt: options.refine
+        ? getContentRefinementPrompt(prompt, options.refine.previousContent, options.refine.instruction)
+        : CONTENT_GENERATION_SYSTEM_PROMPT.replace('{prompt}', prompt),
       max_tokens: 512,
-    }) as { response: string };
+      ...(options.onDelta ? { stream: true } : {}),
+    }) as unknown as { response: string } | ReadableStream<Uint8Array>;
+
+    const responseText = response instanceof ReadableStream
+      ? await readResponseStream(response, options.onDelta)
+      : response?.response;
     const aiCallTime = performance.now() - aiCallStartTime;
     console.log(`[Timing] AI.run() (inference + network): ${aiCallTime.toFixed(2)}ms`);
 
-    if (!response || !response.response) {
+    if (!responseText) {
       throw new Error('Llama 3 returned empty response');
     }
 
-    const generatedContent = response.response.trim();
+    const generatedContent = responseText.trim();
 
     if (!generatedContent) {
       throw new Error('Generated content is empty');
@@ -57,3 +76,44 @@ export async function generateTaskContent(
     throw new Error(`Content generation failed: ${message}`);
   }
 }
+
+/**
+ * Read a streamed Workers AI response (server-sent events of the form `data: {"response": "..."}`)
+ * Calls onDelta with each piece of text and returns the whole text
+ */
+async function readResponseStream(
+  stream: ReadableStream<Uint8Array>,
+  onDelta?: (delta: string) => void
+): Promise<string> {
+  const reader = stream.getReader();
+  const decoder = new TextDecoder();
+  let buffered = '';
+  let text = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) {
+      break;
+    }
+
+    // Events can be split across reads; keep the trailing partial line for the next one
+    buffered += decoder.decode(value, { stream: true });
+    const lines = buffered.split('\n');
+    buffered = lines.pop() ?? '';
+
+    for (const line of lines) {
+      const data = line.startsWith('data:') ? line.slice(5).trim() : '';
+      if (!data || data === '[DONE]') {
+        continue;
+      }
+
+      const delta = (JSON.parse(data) as { response?: string }).response;
+      if (delta) {
+        text += delta;
+        onDelta?.(delta);
+      }
+    }
+  }
+
+  return text;
+}
@@ -52,3 +52,66 @@ User request: {prompt}
 
 Generate relevant, useful, and professional content in **Markdown format** to help the user with their request.
 Use proper markdown syntax for formatting (headers, lists, emphasis, code blocks, etc.).`;
+
+/**
+ * System prompt for revising previously generated content with the user's instruction
+ */
+export function getContentRefinementPrompt(prompt: string, previousContent: string, instruction: string): string {
+  return `You are a helpful assistant revising content you wrote for a user.
+User request: ${prompt}
+
+Your previous version:
+${previousContent}
+
+Revise it as the user asks: ${instruction}
+
+Respond with only the revised content in **Markdown format**, keeping everything the instruction does not ask to change.`;
+}
+
+/**
+ * System prompt for answering questions about the user's memos
+ * Passages are numbered so the model can cite them as [1], [2], ...
+ */
+export function getAskSystemPrompt(passages: string): string {
+  return `You answer questions about the user's own voice memos, using only the memo passages below.
+It is currently: ${new Date().toISOString()}
+
+Rules:
+- Answer only from the passages. If they do not contain the answer, say you could not find it in the memos.
+- Cite every fact with the number of the passage it came from, like [1] or [2][3].
+- Each passage says when its memo was recorded; use that to resolve words like "yesterday" or "last week".
+- Be brief and speak to the user directly ("you said...").
+
+Passages:
+${passages}`;
+}
+
+/**
+ * System prompt for suggesting tags for a memo
+ * The user's existing tags are listed so the model reuses them instead of inventing near-duplicates
+ */
+export function getTagSuggestionSystemPrompt(existingTags: string[]): string {
+  return `You suggest short topic tags for a voice memo so the user can organize their memos.
+
+Rules:
+- Suggest 1 to 3 tags that describe what the memo is about (e.g. "work", "groceries", "travel").
+- Tags are lowercase, one or two words, with no "#".
+- Prefer the user's existing tags when one fits: ${existingTags.length > 0 ? existingTags.join(', ') : '(none yet)'}
+
+Respond ONLY with valid JSON in this format:
+{"tags": ["work", "budget"]}`;
+}
+
+/**
+ * System prompt for summarizing a memo so it can be scanned in the memo list
+ */
+export const SUMMARY_SYSTEM_PROMPT = `You summarize a voice memo so the user can recognize it at a glance.
+
+Rules:
+- title: a short title of at most 8 words, with no quotes or trailing period.
+- tldr: one sentence saying what the memo is about.
+- bullets: 1 to 5 short key points, most important first. Use an empty list for a very short memo.
+- Speak about the memo's content directly; do not start with "The speaker" or "This memo".
+
+Respond ONLY with valid JSON in this format:
+{"title": "Plan for the team offsite", "tldr": "Ideas for where and when to hold the offsite.", "bullets": ["Book a venue by Friday", "Ask the team about dates"]}`;
@@ -0,0 +1,136 @@
+/**
+ * Timestamped transcript segments
+ * Whisper returns sentence-level segments alongside the flat text; they're kept so the UI
+ * can seek the audio to a sentence and extracted tasks can point back to where they were said
+ */
+
+import type { ProcessedTask } from './extract';
+
+/**
+ * A span of the transcript with its position in the audio (seconds from the start)
+ */
+export interface TranscriptSegment {
+  start: number;
+  end: number;
+  text: string;
+}
+
+/**
+ * Segments from one chunk of a long recording, positioned relative to that chunk
+ */
+export interface ChunkSegments {
+  segments: TranscriptSegment[];
+  offsetSeconds: number;
+}
+
+/**
+ * How far a segment from the next chunk may start before the previous chunk's last segment ends
+ * and still be kept - Whisper's boundaries for the same words differ slightly between chunks
+ */
+const OVERLAP_TOLERANCE_SECONDS = 0.5;
+
+/**
+ * Keep only well-formed segments from a Whisper response, trimmed and rounded to milliseconds
+ */
+export function normalizeSegments(raw: unknown): TranscriptSegment[] {
+  if (!Array.isArray(raw)) {
+    return [];
+  }
+
+  return raw
+    .filter((segment): segment is TranscriptSegment =>
+      typeof segment?.start === 'number' &&
+      typeof segment?.end === 'number' &&
+      typeof segment?.text === 'string' &&
+      segment.text.trim().length > 0
+    )
+    .map((segment) => ({
+      start: roundSeconds(segment.start),
+      end: roundSeconds(segment.end),
+      text: segment.text.trim(),
+    }));
+}
+
+/**
+ * Shift each chunk's segments to absolute time and drop the ones repeated in chunk overlaps
+ * A segment is treated as a repeat when it starts before the last kept segment ends
+ */
+export function mergeChunkSegments(chunks: ChunkSegments[]): TranscriptSegment[] {
+  const merged: TranscriptSegment[] = [];
+
+  for (const { segments, offsetSeconds } of chunks) {
+    for (const segment of segments) {
+      const shifted = {
+        start: roundSeconds(segment.start + offsetSeconds),
+        end: roundSeconds(segment.end + offsetSeconds),
+        text: segment.text,
+      };
+
+      const lastEnd = merged[merged.length - 1]?.end ?? 0;
+      if (merged.length > 0 && shifted.start < lastEnd - OVERLAP_TOLERANCE_SECONDS) {
+        continue;
+      }
+      merged.push(shifted);
+    }
+  }
+
+  return merged;
+}
+
+/**
+ * Minimum share of a task's keywords that must appear in a segment to link them
+ */
+const MIN_LINK_SCORE = 0.34;
+
+const STOP_WORDS = new Set([
+  'the', 'and', 'for', 'with', 'about', 'from', 'that', 'this', 'into', 'onto',
+  'remind', 'need', 'needs', 'should', 'must', 'have', 'will', 'make', 'sure',
+]);
+
+/**
+ * Point each task at the transcript segment it most likely came from (segmentIndex)
+ * Matches on shared keywords; tasks with no convincing match get segmentIndex: null
+ */
+export function linkTasksToSegments(
+  tasks: ProcessedTask[],
+  segments: TranscriptSegment[]
+): ProcessedTask[] {
+  if (segments.length === 0) {
+    return tasks;
+  }
+
+  const segmentWords = segments.map((segment) => new Set(getKeywords(segment.text)));
+
+  return tasks.map((task) => {
+    const keywords = getKeywords(task.task);
+    let bestIndex: number | null = null;
+    let bestScore = 0;
+
+    if (keywords.length > 0) {
+      segmentWords.forEach((words, index) => {
+        const score = keywords.filter((word) => words.has(word)).length / keywords.length;
+        if (score > bestScore) {
+          bestScore = score;
+          bestIndex = index;
+        }
+      });
+    }
+
+    return { ...task, segmentIndex: bestScore >= MIN_LINK_SCORE ? bestIndex : null };
+  });
+}
+
+/**
+ * Lowercased, crudely stemmed words of 3+ letters, without stop words
+ */
+function getKeywords(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}']+/u)
+    .filter((word) => word.length >= 3 && !STOP_WORDS.has(word))
+    .map((word) => word.replace(/(ing|ed|es|s)$/, ''));
+}
+
+function roundSeconds(seconds: number): number {
+  return Math.round(seconds * 1000) / 1000;
+}
@@ -0,0 +1,97 @@
+/**
+ * Durable step boundaries for the audio processing pipeline
+ * Each stage runs inside its own step so a failure only retries that stage,
+ * while completed stages are replayed from their persisted output
+ */
+
+import type { WorkflowStepConfig } from 'cloudflare:workers';
+
+/**
+ * Pipeline stages that have their own retry/timeout configuration
+ */
+export type WorkflowStage = 'transcribe' | 'summarize' | 'extract' | 'tag' | 'generate' | 'embed' | 'db_update';
+
+export type WorkflowStepConfigs = Record<WorkflowStage, WorkflowStepConfig>;
+
+/**
+ * Default retry and timeout policy per stage
+ * - transcribe: long recordings are transcribed chunk by chunk, so allow a generous timeout
+ * - summarize/extract/generate: Llama calls are short but fail transiently under load
+ * - tag: one short Llama call; suggestions are optional, so retry sparingly
+ * - embed: one BGE call per 50 texts; a failure is not fatal, so retry sparingly
+ * - db_update: D1 writes are fast; retry quickly
+ */
+export const DEFAULT_WORKFLOW_STEP_CONFIGS: WorkflowStepConfigs = {
+  transcribe: {
+    retries: { limit: 3, delay: '10 seconds', backoff: 'exponential' },
+    timeout: '30 minutes',
+  },
+  summarize: {
+    retries: { limit: 2, delay: '5 seconds', backoff: 'exponential' },
+    timeout: '2 minutes',
+  },
+  extract: {
+    retries: { limit: 3, delay: '5 seconds', backoff: 'exponential' },
+    timeout: '2 minutes',
+  },
+  tag: {
+    retries: { limit: 2, delay: '5 seconds', backoff: 'exponential' },
+    timeout: '1 minute',
+  },
+  generate: {
+    retries: { limit: 2, delay: '5 seconds', backoff: 'exponential' },
+    timeout: '2 minutes',
+  },
+  embed: {
+    retries: { limit: 2, delay: '5 seconds', backoff: 'exponential' },
+    timeout: '2 minutes',
+  },
+  db_update: {
+    retries: { limit: 5, delay: '1 second', backoff: 'linear' },
+    timeout: '30 seconds',
+  },
+};
+
+/**
+ * The subset of Cloudflare's WorkflowStep used by the pipeline
+ * Lets the pipeline run outside the Workflows runtime and be driven by a fake runner in tests
+ */
+export interface StepRunner {
+  do<T>(name: string, config: WorkflowStepConfig, callback: () => Promise<T>): Promise<T>;
+}
+
+/**
+ * Step runner that runs each callback once, with no retries or persistence
+ * Used when the pipeline is invoked directly rather than through Cloudflare Workflows
+ */
+export const inlineStepRunner: StepRunner = {
+  do: (_name, _config, callback) => callback(),
+};
+
+/**
+ * Merge per-stage overrides (from the WORKFLOW_STEP_CONFIG env var, as JSON) over the defaults
+ * Example: {"extract": {"retries": {"limit": 5, "delay": "2 seconds", "backoff": "constant"}}}
+ * Invalid JSON is logged and ignored so a bad config can't stop the pipeline
+ */
+export function resolveWorkflowStepConfigs(overrides?: string): WorkflowStepConfigs {
+  if (!overrides) {
+    return DEFAULT_WORKFLOW_STEP_CONFIGS;
+  }
+
+  let parsed: Partial<WorkflowStepConfigs>;
+  try {
+    parsed = JSON.parse(overrides);
+  } catch (error) {
+    console.error('[Workflow] Ignoring invalid WORKFLOW_STEP_CONFIG:', error);
+    return DEFAULT_WORKFLOW_STEP_CONFIGS;
+  }
+
+  const resolved = { ...DEFAULT_WORKFLOW_STEP_CONFIGS };
+  for (const stage of Object.keys(resolved) as WorkflowStage[]) {
+    if (parsed?.[stage]) {
+      resolved[stage] = { ...resolved[stage], ...parsed[stage] };
+    }
+  }
+
+  return resolved;
+}
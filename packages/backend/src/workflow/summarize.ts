@@ -0,0 +1,83 @@
+/**
+ * Summarize a memo using Cloudflare Workers AI (Llama 3)
+ * Produces a short title, a one-sentence TL;DR and key points for the memo list and detail view
+ */
+
+import type { Ai } from '@cloudflare/workers-types';
+import { SUMMARY_SYSTEM_PROMPT } from './prompts';
+
+export const MAX_TITLE_LENGTH = 100;
+const MAX_KEY_POINTS = 5;
+
+interface AIEnv {
+  AI?: Ai;
+}
+
+export interface MemoSummaryContent {
+  title: string;
+  summary: string;
+  keyPoints: string[];
+}
+
+/**
+ * Ask Llama 3 for a title, TL;DR and key points
+ * Throws if the response has no usable title or TL;DR; key points are optional
+ */
+export async function summarizeTranscription(
+  transcription: string,
+  env: AIEnv
+): Promise<MemoSummaryContent> {
+  if (!transcription || transcription.trim().length === 0) {
+    throw new Error('Transcription is empty');
+  }
+
+  if (!env.AI) {
+    throw new Error('Cloudflare Workers AI not available. Please configure AI binding in wrangler.toml');
+  }
+
+  const response = await env.AI.run('@cf/meta/llama-3-8b-instruct', {
+    prompt: `${SUMMARY_SYSTEM_PROMPT}
+
+Voice memo:
+"${transcription}"
+
+Respond with only valid JSON.`,
+    max_tokens: 512,
+  }) as { response?: string };
+
+  if (!response?.response) {
+    throw new Error('Llama 3 returned empty response');
+  }
+
+  const jsonMatch = response.response.match(/\{[\s\S]*\}/);
+  if (!jsonMatch) {
+    throw new Error('No JSON found in Llama response');
+  }
+
+  let summaryData: { title?: unknown; tldr?: unknown; bullets?: unknown };
+  try {
+    summaryData = JSON.parse(jsonMatch[0]);
+  } catch (parseError) {
+    throw new Error(`Failed to parse Llama response as JSON: ${parseError instanceof Error ? parseError.message : 'Unknown error'}`);
+  }
+
+  const title = typeof summaryData.title === 'string'
+    ? summaryData.title.trim().replace(/^["']+|["'.]+$/g, '').trim()
+    : '';
+  const summary = typeof summaryData.tldr === 'string' ? summaryData.tldr.trim() : '';
+  if (!title || !summary) {
+    throw new Error('Response does not contain "title" and "tldr"');
+  }
+
+  const keyPoints = Array.isArray(summaryData.bullets)
+    ? summaryData.bullets
+        .filter((point): point is string => typeof point === 'string' && point.trim().length > 0)
+        .map((point) => point.trim())
+    : [];
+
+  return {
+    title: title.slice(0, MAX_TITLE_LENGTH),
+    summary,
+    keyPoints: keyPoints.slice(0, MAX_KEY_POINTS),
+  };
+}
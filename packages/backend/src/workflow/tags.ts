@@ -0,0 +1,84 @@
+/**
+ * Suggest topic tags for a memo using Cloudflare Workers AI (Llama 3)
+ * Runs alongside task extraction; suggestions are stored as 'ai' tags the user can remove
+ */
+
+import type { Ai } from '@cloudflare/workers-types';
+import { getTagSuggestionSystemPrompt } from './prompts';
+
+export const MAX_TAG_LENGTH = 32;
+const MAX_SUGGESTED_TAGS = 3;
+
+interface AIEnv {
+  AI?: Ai;
+}
+
+/**
+ * Tidy a tag name: trim, drop a leading '#', collapse whitespace
+ * Returns null if nothing usable is left or it is too long
+ */
+export function normalizeTagName(name: string): string | null {
+  const normalized = name.trim().replace(/^#+/, '').replace(/\s+/g, ' ').trim();
+  if (!normalized || normalized.length > MAX_TAG_LENGTH) {
+    return null;
+  }
+  return normalized;
+}
+
+/**
+ * Ask Llama 3 for up to three tags describing the memo
+ * Suggestions are lowercased and de-duplicated; existing tags are offered so they get reused
+ */
+export async function suggestTags(
+  transcription: string,
+  existingTags: string[],
+  env: AIEnv
+): Promise<string[]> {
+  if (!transcription || transcription.trim().length === 0) {
+    throw new Error('Transcription is empty');
+  }
+
+  if (!env.AI) {
+    throw new Error('Cloudflare Workers AI not available. Please configure AI binding in wrangler.toml');
+  }
+
+  const response = await env.AI.run('@cf/meta/llama-3-8b-instruct', {
+    prompt: `${getTagSuggestionSystemPrompt(existingTags)}
+
+Voice memo:
+"${transcription}"
+
+Respond with only valid JSON.`,
+    max_tokens: 128,
+  }) as { response?: string };
+
+  if (!response?.response) {
+    throw new Error('Llama 3 returned empty response');
+  }
+
+  const jsonMatch = response.response.match(/\{[\s\S]*\}/);
+  if (!jsonMatch) {
+    throw new Error('No JSON found in Llama response');
+  }
+
+  let tagsData: { tags?: unknown };
+  try {
+    tagsData = JSON.parse(jsonMatch[0]);
+  } catch (parseError) {
+    throw new Error(`Failed to parse Llama response as JSON: ${parseError instanceof Error ? parseError.message : 'Unknown error'}`);
+  }
+
+  if (!Array.isArray(tagsData.tags)) {
+    throw new Error('Response does not contain "tags" array');
+  }
+
+  const tags: string[] = [];
+  for (const tag of tagsData.tags) {
+    const normalized = typeof tag === 'string' ? normalizeTagName(tag.toLowerCase()) : null;
+    if (normalized && !tags.includes(normalized)) {
+      tags.push(normalized);
+    }
+  }
+
+  return tags.slice(0, MAX_SUGGESTED_TAGS);
+}
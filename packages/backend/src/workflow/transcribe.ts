@@ -3,15 +3,56 @@
  */
 
 import type { Ai } from '@cloudflare/workers-types';
+import {
+  DEFAULT_AUDIO_CHUNK_OPTIONS,
+  splitAudioIntoChunks,
+  stitchTranscripts,
+  type AudioChunkOptions,
+} from './audio-chunks';
+import { mapWithConcurrency } from './concurrency';
+import { mergeChunkSegments, normalizeSegments, type TranscriptSegment } from './segments';
 
 interface AIEnv {
   AI?: Ai;
 }
 
+/**
+ * Transcription result: the full text plus its timestamped segments
+ */
+export interface Transcript {
+  text: string;
+  segments: TranscriptSegment[];
+}
+
+/**
+ * Whisper output for one piece of audio; duration is in seconds when Whisper reports it
+ */
+interface ChunkTranscript extends Transcript {
+  duration?: number;
+}
+
+/**
+ * Maximum number of chunks sent to Whisper at once for long recordings
+ */
+export const TRANSCRIBE_CHUNK_CONCURRENCY = 3;
+
+/**
+ * Options for transcribing long audio
+ * - chunking: chunk size/overlap used to split recordings too large for one Whisper call
+ * - concurrency: maximum parallel Whisper calls
+ * - onChunkTranscribed: called after each chunk finishes (only when audio is split into more than one chunk)
+ */
+export interface TranscribeOptions {
+  chunking?: AudioChunkOptions;
+  concurrency?: number;
+  onChunkTranscribed?: (completed: number, total: number) => void;
+}
+
 export async function transcribeAudio(
   audioBuffer: ArrayBuffer | ArrayBufferView,
-  env: AIEnv
-): Promise<string> {
+  env: AIEnv,
+  options: TranscribeOptions = {}
+): Promise<Transcript> {
   if (!env.AI) {
     throw new Error('Cloudflare Workers AI not available. Please configure AI binding in wrangler.toml');
   }
@@ -40,13 +81,72 @@ export async function transcribeAudio(
   if (finalBuffer.byteLength === 0) {
     throw new Error('Audio buffer is empty for Whisper transcription');
   }
+
+  const chunks = splitAudioIntoChunks(
+    new Uint8Array(finalBuffer),
+    options.chunking ?? DEFAULT_AUDIO_CHUNK_OPTIONS
+  );
+
+  if (chunks.length === 1) {
+    const { text, segments } = await transcribeChunk(finalBuffer, env.AI);
+    return { text, segments };
+  }
+
+  // Long recording: transcribe overlapping chunks in parallel and stitch the results
+  console.log(`Splitting ${finalBuffer.byteLength} bytes of audio into ${chunks.length} chunks for transcription`);
+  const totalStartTime = performance.now();
+  const ai = env.AI;
+  let completed = 0;
+
+  const parts = await mapWithConcurrency(
+    chunks,
+    options.concurrency ?? TRANSCRIBE_CHUNK_CONCURRENCY,
+    async (chunk, index) => {
+      // A silent stretch of a long recording isn't an error for the memo as a whole
+      const part = await transcribeChunk(chunk.bytes, ai, {
+        allowEmpty: true,
+        label: `chunk ${index + 1}/${chunks.length}`,
+      });
+      completed++;
+      options.onChunkTranscribed?.(completed, chunks.length);
+      return part;
+    }
+  );
+
+  const transcription = stitchTranscripts(parts.map((part) => part.text));
+
+  // Byte-range chunks don't know their start time, so estimate it from the bitrate Whisper implies
+  const transcribedBytes = chunks.reduce((sum, chunk, idx) => sum + (parts[idx].duration ? chunk.bytes.byteLength : 0), 0);
+  const transcribedSeconds = parts.reduce((sum, part) => sum + (part.duration ?? 0), 0);
+  const secondsPerByte = transcribedBytes > 0 ? transcribedSeconds / transcribedBytes : 0;
+  const segments = mergeChunkSegments(
+    parts.map((part, idx) => ({
+      segments: part.segments,
+      offsetSeconds: chunks[idx].startSeconds ?? chunks[idx].startByte * secondsPerByte,
+    }))
+  );
+
+  const totalTime = performance.now() - totalStartTime;
+  console.log(`[Timing] Chunked transcription total: ${totalTime.toFixed(2)}ms, ${chunks.length} chunks, text length: ${transcription.length}`);
+  return { text: transcription, segments };
+}
+
+/**
+ * Send a single piece of audio to Whisper
+ * Empty results throw unless allowEmpty is set; label identifies the chunk in error messages
+ */
+async function transcribeChunk(
+  audio: ArrayBuffer | Uint8Array,
+  ai: Ai,
+  { allowEmpty = false, label }: { allowEmpty?: boolean; label?: string } = {}
+): Promise<ChunkTranscript> {
   try {
-    console.log(`Transcribing audio buffer of size ${finalBuffer.byteLength} bytes using Whisper`);
+    console.log(`Transcribing audio buffer of size ${audio.byteLength} bytes using Whisper`);
     const totalStartTime = performance.now();
 
     // Measure base64 encoding time
     const encodeStartTime = performance.now();
-    const uint8Array = new Uint8Array(finalBuffer);
+    const uint8Array = audio instanceof Uint8Array ? audio : new Uint8Array(audio);
     let binaryString = '';
     // Process in chunks to avoid stack overflow with large arrays
     const chunkSize = 8192;
@@ -59,21 +159,29 @@ export async function transcribeAudio(
 
     // Measure AI model call time
     const aiCallStartTime = performance.now();
-    const response = await env.AI.run('@cf/openai/whisper-large-v3-turbo', {
+    const response = await ai.run('@cf/openai/whisper-large-v3-turbo', {
       audio: audioBase64,
-    });
+    }) as { text?: string; segments?: unknown; transcription_info?: { duration?: number } };
     const aiCallTime = performance.now() - aiCallStartTime;
     console.log(`[Timing] AI.run() (inference + network): ${aiCallTime.toFixed(2)}ms`);
 
     if (!response || !response.text) {
+      if (allowEmpty) {
+        return { text: '', segments: [], duration: response?.transcription_info?.duration };
+      }
       throw new Error('Whisper returned empty transcription');
     }
 
     const totalTime = performance.now() - totalStartTime;
     console.log(`[Timing] Transcription total: ${totalTime.toFixed(2)}ms, text length: ${response.text.length}`);
-    return response.text;
+    return {
+      text: response.text,
+      segments: normalizeSegments(response.segments),
+      duration: response.transcription_info?.duration,
+    };
   } catch (error) {
     const message = error instanceof Error ? error.message : 'Unknown error';
-    throw new Error(`Whisper transcription failed: ${message}`, { cause: error });
+    const where = label ? ` (${label})` : '';
+    throw new Error(`Whisper transcription failed${where}: ${message}`, { cause: error });
   }
 }
@@ -1,6 +1,13 @@
+import { fileURLToPath } from 'node:url';
 import { defineConfig } from 'vitest/config';
 
 export default defineConfig({
+  resolve: {
+    alias: {
+      // Runtime module only available inside workerd
+      'cloudflare:workers': fileURLToPath(new URL('./src/__tests__/helpers/cloudflare-workers.ts', import.meta.url).href),
+    },
+  },
   test: {
     globals: true,
     environment: 'node',
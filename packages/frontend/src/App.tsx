@@ -1,9 +1,28 @@
+import { useState } from 'react'
 import { SignedIn, SignedOut, UserButton } from '@clerk/clerk-react'
 import { ErrorBoundary } from './components/ErrorBoundary'
 import { SignInPage } from './pages/SignInPage'
 import { Dashboard } from './pages/Dashboard'
+import { Inbox } from './pages/Inbox'
+import { Ask } from './pages/Ask'
+
+type Page = 'dashboard' | 'inbox' | 'ask'
 
 export default function App() {
+  const [page, setPage] = useState<Page>('dashboard')
+  // Memo to open when switching to the dashboard from another page
+  const [openMemoId, setOpenMemoId] = useState<string | null>(null)
+
+  const openMemo = (taskId: string) => {
+    setOpenMemoId(taskId)
+    setPage('dashboard')
+  }
+
+  const navButtonClass = (target: Page) =>
+    `px-3 py-1 rounded text-sm font-semibold transition ${
+      page === target ? 'bg-slate-700 text-white' : 'text-slate-400 hover:text-white'
+    }`
+
   return (
     <ErrorBoundary>
       <div className="min-h-screen bg-gradient-to-br from-slate-900 to-slate-800">
@@ -14,12 +33,31 @@ export default function App() {
         <SignedIn>
           <nav className="bg-slate-800 border-b border-slate-700 sticky top-0 z-10">
             <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-3 flex justify-between items-center">
-              <h1 className="text-2xl font-bold text-white">Voice Memo Manager</h1>
+              <div className="flex items-center gap-6">
+                <h1 className="text-2xl font-bold text-white">Voice Memo Manager</h1>
+                <div className="flex gap-1">
+                  <button onClick={() => setPage('dashboard')} className={navButtonClass('dashboard')}>
+                    Memos
+                  </button>
+                  <button onClick={() => setPage('inbox')} className={navButtonClass('inbox')}>
+                    Inbox
+                  </button>
+                  <button onClick={() => setPage('ask')} className={navButtonClass('ask')}>
+                    Ask
+                  </button>
+                </div>
+              </div>
               <UserButton afterSignOutUrl="/" />
             </div>
           </nav>
 
-          <Dashboard />
+          {page === 'inbox' ? (
+            <Inbox onOpenMemo={openMemo} />
+          ) : page === 'ask' ? (
+            <Ask onOpenMemo={openMemo} />
+          ) : (
+            <Dashboard initialMemoId={openMemoId} />
+          )}
         </SignedIn>
       </div>
     </ErrorBoundary>
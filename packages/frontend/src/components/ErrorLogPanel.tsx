@@ -39,6 +39,7 @@ export function ErrorLogPanel({ errors, onClearErrors }: ErrorLogPanelProps) {
     const labels: Record<string, string> = {
       workflow: 'WF',
       transcribe: 'TR',
+      summarize: 'SM',
       extract: 'EX',
       generate: 'GN',
       db_update: 'DB',
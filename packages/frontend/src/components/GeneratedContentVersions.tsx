@@ -0,0 +1,152 @@
+/**
+ * GeneratedContentVersions - Regenerate or refine a task's generated content
+ * Every draft is kept; pick one to compare with the current content and switch back to it
+ */
+
+import { useState } from 'react'
+import { formatDistanceToNow, parseISO } from 'date-fns'
+import { MemoItem } from '../types/api'
+import { useGenerateItemContent, useItemContentVersions, useSelectItemContentVersion } from '../hooks/useMemoApi'
+import { diffWords } from '../utils/textDiff'
+
+const QUICK_INSTRUCTIONS = ['Make it shorter', 'More formal', 'More casual']
+
+interface GeneratedContentVersionsProps {
+  taskId: string
+  item: MemoItem
+}
+
+export function GeneratedContentVersions({ taskId, item }: GeneratedContentVersionsProps) {
+  const [instruction, setInstruction] = useState('')
+  const [showVersions, setShowVersions] = useState(false)
+  const [comparingId, setComparingId] = useState<string | null>(null)
+  const generate = useGenerateItemContent()
+  const selectVersion = useSelectItemContentVersion()
+  const { data, isLoading } = useItemContentVersions(taskId, item.position, showVersions)
+
+  const runGenerate = (refinement?: string) => {
+    generate.mutate(
+      { taskId, index: item.position, instruction: refinement },
+      { onSuccess: () => setInstruction('') }
+    )
+  }
+
+  const versions = data ? [...data.versions].reverse() : []
+  const error = generate.error || selectVersion.error
+
+  return (
+    <div className="mt-2 space-y-2">
+      <div className="flex flex-wrap items-center gap-2">
+        <button
+          onClick={() => runGenerate()}
+          disabled={generate.isPending}
+          className="text-xs px-2 py-1 bg-blue-500/20 text-blue-400 rounded hover:bg-blue-500/30 disabled:opacity-50"
+        >
+          {generate.isPending ? 'Writing...' : item.generatedContent ? 'Regenerate' : 'Generate'}
+        </button>
+        {item.generatedContent &&
+          QUICK_INSTRUCTIONS.map((quick) => (
+            <button
+              key={quick}
+              onClick={() => runGenerate(quick)}
+              disabled={generate.isPending}
+              className="text-xs px-2 py-1 bg-slate-700 text-slate-300 rounded hover:bg-slate-600 disabled:opacity-50"
+            >
+              {quick}
+            </button>
+          ))}
+        <button
+          onClick={() => setShowVersions(!showVersions)}
+          className="text-xs px-2 py-1 text-slate-400 hover:text-white ml-auto"
+        >
+          {showVersions ? 'Hide versions' : 'Versions'}
+        </button>
+      </div>
+
+      {item.generatedContent && (
+        <div className="flex gap-2">
+          <input
+            value={instruction}
+            onChange={(e) => setInstruction(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && instruction.trim() && runGenerate(instruction.trim())}
+            placeholder="Ask for a change, e.g. add a subject line"
+            maxLength={500}
+            className="flex-1 px-2 py-1 bg-slate-800 border border-slate-600 rounded text-slate-100 text-xs"
+          />
+          <button
+            onClick={() => runGenerate(instruction.trim())}
+            disabled={generate.isPending || !instruction.trim()}
+            className="text-xs px-2 py-1 bg-slate-700 text-slate-300 rounded hover:bg-slate-600 disabled:opacity-50"
+          >
+            Refine
+          </button>
+        </div>
+      )}
+
+      {showVersions && (
+        isLoading ? (
+          <div className="h-12 bg-slate-700/50 rounded animate-pulse"></div>
+        ) : versions.length === 0 ? (
+          <p className="text-slate-400 text-xs">No other versions yet - regenerate or refine to keep a draft here.</p>
+        ) : (
+          <div className="space-y-2">
+            {versions.map((version) => {
+              const isCurrent = version.content === item.generatedContent
+
+              return (
+                <div key={version.versionId} className="p-2 bg-slate-800/50 border border-slate-600 rounded-lg">
+                  <div className="flex items-center gap-2 text-xs text-slate-400">
+                    <span className="flex-1">
+                      {isCurrent ? 'Current · ' : ''}
+                      {version.instruction ? `"${version.instruction}"` : 'Generated'}{' '}
+                      {formatDistanceToNow(parseISO(version.createdAt), { addSuffix: true })}
+                    </span>
+                    {!isCurrent && (
+                      <>
+                        <button
+                          onClick={() => setComparingId(comparingId === version.versionId ? null : version.versionId)}
+                          className="hover:text-white"
+                        >
+                          {comparingId === version.versionId ? 'Hide changes' : 'Compare'}
+                        </button>
+                        <button
+                          onClick={() => selectVersion.mutate({ taskId, index: item.position, versionId: version.versionId })}
+                          disabled={selectVersion.isPending}
+                          className="text-blue-400 hover:text-blue-300 disabled:opacity-50"
+                        >
+                          Use this version
+                        </button>
+                      </>
+                    )}
+                  </div>
+
+                  {comparingId === version.versionId && (
+                    // Changes needed to get from the current content to this draft
+                    <p className="mt-2 text-sm leading-relaxed">
+                      {diffWords(item.generatedContent ?? '', version.content).map((part, partIdx) => (
+                        <span
+                          key={partIdx}
+                          className={
+                            part.type === 'added'
+                              ? 'bg-green-500/20 text-green-300'
+                              : part.type === 'removed'
+                                ? 'bg-red-500/20 text-red-300 line-through'
+                                : 'text-slate-300'
+                          }
+                        >
+                          {part.text}{' '}
+                        </span>
+                      ))}
+                    </p>
+                  )}
+                </div>
+              )
+            })}
+          </div>
+        )
+      )}
+
+      {error && <p className="text-red-400 text-xs">{error.message}</p>}
+    </div>
+  )
+}
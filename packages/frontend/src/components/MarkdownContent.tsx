@@ -1,5 +1,6 @@
 /**
  * MarkdownContent - Safe markdown renderer for AI-generated content
+ * With `streaming`, content that is still being written is rendered as it grows
  */
 
 import ReactMarkdown from 'react-markdown'
@@ -7,9 +8,19 @@ import remarkGfm from 'remark-gfm'
 
 interface MarkdownContentProps {
   content: string
+  streaming?: boolean
 }
 
-export function MarkdownContent({ content }: MarkdownContentProps) {
+/**
+ * Close a code block that is still being streamed, so the text so far renders as code
+ * instead of as markdown until the closing fence arrives
+ */
+function closeOpenCodeFence(content: string): string {
+  const fences = content.match(/^ *```/gm)?.length ?? 0
+  return fences % 2 === 1 ? content + '\n```' : content
+}
+
+export function MarkdownContent({ content, streaming = false }: MarkdownContentProps) {
   return (
     <div className="prose prose-invert max-w-none text-sm">
       <ReactMarkdown
@@ -84,8 +95,9 @@ export function MarkdownContent({ content }: MarkdownContentProps) {
           em: ({ children }) => <em className="italic text-slate-200">{children}</em>,
         }}
       >
-        {content}
+        {streaming ? closeOpenCodeFence(content) : content}
       </ReactMarkdown>
+      {streaming && <span className="inline-block w-2 h-4 bg-slate-300 animate-pulse" aria-hidden="true"></span>}
     </div>
   )
 }
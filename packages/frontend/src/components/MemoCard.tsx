@@ -4,6 +4,9 @@
 
 import { MemoSummary } from '../types/api'
 import { StatusBadge } from './StatusBadge'
+import { TagChip } from './MemoTags'
+import { formatTimestamp } from './TranscriptSegments'
+import { formatRecordingDetails } from '../utils/recordingDetails'
 import { formatDistanceToNow, parseISO } from 'date-fns'
 
 interface MemoCardProps {
@@ -15,6 +18,7 @@ export function MemoCard({ memo, onClick }: MemoCardProps) {
   const createdDate = parseISO(memo.createdAt)
   const timeAgo = formatDistanceToNow(createdDate, { addSuffix: true })
   const transcriptionPreview = memo.transcription?.substring(0, 100) || 'No transcription yet'
+  const recordingDetails = formatRecordingDetails(memo)
 
   return (
     <button
@@ -25,12 +29,26 @@ export function MemoCard({ memo, onClick }: MemoCardProps) {
         <div className="flex-1">
           <div className="flex items-center gap-2 mb-2">
             <span className="text-sm text-slate-400">{timeAgo}</span>
+            {memo.durationSeconds !== undefined && (
+              <span className="text-sm text-slate-400">· {formatTimestamp(memo.durationSeconds)}</span>
+            )}
+            {recordingDetails && <span className="text-xs text-slate-500">{recordingDetails}</span>}
           </div>
           <StatusBadge status={memo.status} />
         </div>
       </div>
 
-      <p className="text-slate-300 text-sm mb-2 line-clamp-2">{transcriptionPreview}</p>
+      {memo.title && <h3 className="text-slate-100 font-semibold mb-1 line-clamp-1">{memo.title}</h3>}
+      {/* The TL;DR reads better than the start of the transcript, which is the fallback */}
+      <p className="text-slate-300 text-sm mb-2 line-clamp-2">{memo.summary ?? transcriptionPreview}</p>
+
+      {memo.tags && memo.tags.length > 0 && (
+        <div className="flex flex-wrap gap-1 mb-2">
+          {memo.tags.map((tag) => (
+            <TagChip key={tag.tagId} tag={tag} />
+          ))}
+        </div>
+      )}
 
       {memo.taskCount !== undefined && (
         <div className="text-xs text-slate-400">
@@ -12,24 +12,43 @@ import { DeleteConfirmation } from './DeleteConfirmation'
 import { StatusBadge } from './StatusBadge'
 import { WorkflowProgressIndicator } from './WorkflowProgressIndicator'
 import { MarkdownContent } from './MarkdownContent'
-import { ProcessedTask, MemoDetailResponse } from '../types/api'
-import { MEMO_QUERY_KEYS } from '../hooks/useMemoApi'
+import { TranscriptSegments, formatTimestamp } from './TranscriptSegments'
+import { TranscriptionHistory } from './TranscriptionHistory'
+import { RelatedMemos } from './RelatedMemos'
+import { MemoTags } from './MemoTags'
+import { MemoItemList } from './MemoItemList'
+import { ProcessedTask, MemoDetailResponse, ReprocessStage } from '../types/api'
+import { MEMO_QUERY_KEYS, useMemoItems, useReprocessMemo, useUpdateMemoTitle, useUpdateTranscription } from '../hooks/useMemoApi'
 import { apiRequest } from '../utils/apiClient'
+import { formatRecordingDetails } from '../utils/recordingDetails'
 import { formatDistanceToNow, parseISO } from 'date-fns'
 
 interface MemoDetailProps {
   taskId: string
   onClose?: () => void
   onDelete?: () => void
+  onOpenMemo?: (taskId: string) => void
 }
 
-export function MemoDetail({ taskId, onClose, onDelete }: MemoDetailProps) {
-  const { state, startMonitoring, stopMonitoring } = useMemoStatus()
+export function MemoDetail({ taskId, onClose, onDelete, onOpenMemo }: MemoDetailProps) {
+  const { state, dispatch, startMonitoring, stopMonitoring } = useMemoStatus()
   const { getToken } = useAuth()
   const memo = state.memos[taskId]
 
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false)
   const [copied, setCopied] = useState(false)
+  const [reprocessStage, setReprocessStage] = useState<ReprocessStage>('transcribe')
+  const reprocessMemo = useReprocessMemo()
+  const [seekRequest, setSeekRequest] = useState<{ time: number; requestId: number }>()
+  const [currentTime, setCurrentTime] = useState(0)
+  const [isEditingTranscription, setIsEditingTranscription] = useState(false)
+  const [transcriptionDraft, setTranscriptionDraft] = useState('')
+  const [reextractAfterEdit, setReextractAfterEdit] = useState(true)
+  const [showHistory, setShowHistory] = useState(false)
+  const updateTranscription = useUpdateTranscription()
+  const [isEditingTitle, setIsEditingTitle] = useState(false)
+  const [titleDraft, setTitleDraft] = useState('')
+  const updateTitle = useUpdateMemoTitle()
 
   // Fetch full memo details (including processedTasks) when memo is selected
   const { data: detailedMemo, isLoading: isLoadingDetails } = useQuery<MemoDetailResponse>({
@@ -48,13 +67,26 @@ export function MemoDetail({ taskId, onClose, onDelete }: MemoDetailProps) {
     ...memo,
     // Override with detailed data if available (processedTasks, etc)
     ...(detailedMemo ? {
+      title: detailedMemo.title ?? memo.title,
+      summary: detailedMemo.summary ?? memo.summary,
+      keyPoints: detailedMemo.keyPoints ?? memo.keyPoints,
       transcription: detailedMemo.transcription ?? memo.transcription,
       processedTasks: detailedMemo.processedTasks ?? memo.processedTasks,
+      transcriptSegments: detailedMemo.transcriptSegments,
+      originalTranscription: detailedMemo.originalTranscription,
       originalAudioUrl: detailedMemo.originalAudioUrl,
       errorMessage: detailedMemo.errorMessage,
+      durationSeconds: detailedMemo.durationSeconds ?? memo.durationSeconds,
+      sampleRate: detailedMemo.sampleRate ?? memo.sampleRate,
+      channels: detailedMemo.channels ?? memo.channels,
+      codec: detailedMemo.codec ?? memo.codec,
+      sizeBytes: detailedMemo.sizeBytes ?? memo.sizeBytes,
     } : {})
   } : detailedMemo
 
+  // Tasks as individual records (completable/editable); processedTasks is the read-only fallback
+  const { data: itemsData } = useMemoItems(taskId, displayMemo?.status === 'completed')
+
   // Start WebSocket monitoring when component mounts
   useEffect(() => {
     if (taskId) {
@@ -90,9 +122,12 @@ export function MemoDetail({ taskId, onClose, onDelete }: MemoDetailProps) {
     // Build stage progress from memo's stageProgress, or default to pending
     const stageProgress = (displayMemo as any).stageProgress || {
       transcribe: 'pending',
+      summarize: 'pending',
       extract: 'pending',
       generate: 'pending',
     }
+    // Content being generated right now, streamed over the WebSocket
+    const streamingDrafts = Object.entries(memo?.streamingContent ?? {}).filter(([, content]) => content)
 
     return (
       <div className="space-y-4">
@@ -110,14 +145,29 @@ export function MemoDetail({ taskId, onClose, onDelete }: MemoDetailProps) {
         </div>
 
         <div className="p-4 bg-slate-700/30 border border-slate-600 rounded-lg">
-          <WorkflowProgressIndicator stageProgress={stageProgress} />
+          <WorkflowProgressIndicator stageProgress={stageProgress} generateProgress={memo?.generateProgress} />
         </div>
+
+        {streamingDrafts.length > 0 && (
+          <div className="space-y-2">
+            <h3 className="text-lg font-semibold text-white">Generating Content</h3>
+            {streamingDrafts.map(([index, content]) => (
+              <div key={index} className="p-4 bg-slate-700/50 border border-slate-600 rounded-lg">
+                {memo?.generateProgress?.items[Number(index)]?.task && (
+                  <p className="text-slate-100 font-semibold mb-2">{memo.generateProgress.items[Number(index)].task}</p>
+                )}
+                <MarkdownContent content={content} streaming />
+              </div>
+            ))}
+          </div>
+        )}
       </div>
     )
   }
 
   const createdDate = parseISO(displayMemo.createdAt)
   const timeAgo = formatDistanceToNow(createdDate, { addSuffix: true })
+  const recordingDetails = formatRecordingDetails(displayMemo)
 
   // Check if this is a "no speech detected" error (from memo status if failed)
   const hasNoSpeechError = displayMemo.status === 'failed'
@@ -131,16 +181,119 @@ export function MemoDetail({ taskId, onClose, onDelete }: MemoDetailProps) {
     }
   }
 
+  const segments = displayMemo.transcriptSegments ?? []
+  // Segments hold Whisper's wording, so a corrected transcript is shown as plain text
+  const showSegments = segments.length > 0 && !displayMemo.originalTranscription
+
+  const seekTo = (time: number) => {
+    setSeekRequest((prev) => ({ time, requestId: (prev?.requestId ?? 0) + 1 }))
+  }
+
+  const handleEditTranscription = () => {
+    setTranscriptionDraft(displayMemo.transcription ?? '')
+    setIsEditingTranscription(true)
+  }
+
+  const handleSaveTranscription = () => {
+    updateTranscription.mutate(
+      { taskId, transcription: transcriptionDraft, reextract: reextractAfterEdit },
+      {
+        onSuccess: ({ reextracting }) => {
+          setIsEditingTranscription(false)
+          if (reextracting) {
+            dispatch({ type: 'MEMO_REPROCESSING', payload: { taskId, fromStage: 'extract' } })
+          }
+        },
+      }
+    )
+  }
+
+  const handleEditTitle = () => {
+    setTitleDraft(displayMemo.title ?? '')
+    setIsEditingTitle(true)
+  }
+
+  const handleSaveTitle = () => {
+    updateTitle.mutate(
+      { taskId, title: titleDraft },
+      { onSuccess: () => setIsEditingTitle(false) }
+    )
+  }
+
+  const handleReprocess = () => {
+    reprocessMemo.mutate(
+      { taskId, fromStage: reprocessStage },
+      {
+        onSuccess: ({ fromStage }) => {
+          // Switch back to the progress view; the monitoring effect reconnects the WebSocket
+          dispatch({ type: 'MEMO_REPROCESSING', payload: { taskId, fromStage } })
+        },
+      }
+    )
+  }
+
   return (
     <div className="space-y-6">
       {/* Header */}
       <div className="flex items-start justify-between gap-4">
         <div>
           <div className="flex items-center gap-3 mb-2">
-            <h2 className="text-2xl font-bold text-white">Memo Details</h2>
+            {isEditingTitle ? (
+              <form
+                onSubmit={(e) => {
+                  e.preventDefault()
+                  handleSaveTitle()
+                }}
+                className="flex items-center gap-2"
+              >
+                <input
+                  value={titleDraft}
+                  onChange={(e) => setTitleDraft(e.target.value)}
+                  maxLength={100}
+                  autoFocus
+                  className="px-2 py-1 bg-slate-800 border border-slate-600 rounded text-slate-100 text-lg font-bold"
+                  aria-label="Memo title"
+                />
+                <button
+                  type="submit"
+                  disabled={updateTitle.isPending || !titleDraft.trim()}
+                  className="px-3 py-1 bg-blue-500/20 text-blue-400 rounded hover:bg-blue-500/30 text-sm font-semibold disabled:opacity-50"
+                >
+                  {updateTitle.isPending ? 'Saving...' : 'Save'}
+                </button>
+                <button
+                  type="button"
+                  onClick={() => setIsEditingTitle(false)}
+                  disabled={updateTitle.isPending}
+                  className="px-3 py-1 bg-slate-700 text-slate-300 rounded hover:bg-slate-600 text-sm"
+                >
+                  Cancel
+                </button>
+              </form>
+            ) : (
+              <>
+                <h2 className="text-2xl font-bold text-white">{displayMemo.title ?? 'Memo Details'}</h2>
+                <button
+                  onClick={handleEditTitle}
+                  className="text-xs px-2 py-1 bg-slate-700 text-slate-300 rounded hover:bg-slate-600"
+                >
+                  Rename
+                </button>
+              </>
+            )}
             <StatusBadge status={displayMemo.status} customLabel={statusLabel} />
           </div>
-          <p className="text-slate-400 text-sm">{timeAgo}</p>
+          {updateTitle.isError && (
+            <p className="text-red-400 text-sm mb-2">Rename failed: {updateTitle.error.message}</p>
+          )}
+          <p className="text-slate-400 text-sm">
+            {timeAgo}
+            {displayMemo.durationSeconds !== undefined && ` · ${formatTimestamp(displayMemo.durationSeconds)}`}
+          </p>
+          {recordingDetails && <p className="text-slate-500 text-xs mt-1">{recordingDetails}</p>}
+          <div className="mt-3">
+            <MemoTags taskId={taskId} />
+          </div>
         </div>
 
         {onClose && (
@@ -161,26 +314,113 @@ export function MemoDetail({ taskId, onClose, onDelete }: MemoDetailProps) {
         </div>
       )}
 
+      {/* Summary */}
+      {displayMemo.summary && (
+        <div className="space-y-2">
+          <h3 className="text-lg font-semibold text-white">Summary</h3>
+          <div className="p-4 bg-slate-700/50 border border-slate-600 rounded-lg space-y-2">
+            <p className="text-slate-100 text-sm leading-relaxed">{displayMemo.summary}</p>
+            {displayMemo.keyPoints && displayMemo.keyPoints.length > 0 && (
+              <ul className="list-disc list-inside text-slate-300 text-sm space-y-1">
+                {displayMemo.keyPoints.map((point, idx) => (
+                  <li key={idx}>{point}</li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </div>
+      )}
+
       {/* Transcription */}
       {displayMemo.transcription && (
         <div className="space-y-2">
           <div className="flex items-center justify-between">
-            <h3 className="text-lg font-semibold text-white">Transcription</h3>
-            <button
-              onClick={handleCopyTranscription}
-              className="text-xs px-2 py-1 bg-slate-700 text-slate-300 rounded hover:bg-slate-600"
-            >
-              {copied ? 'Copied' : 'Copy'}
-            </button>
-          </div>
-          <div className="p-4 bg-slate-700/50 border border-slate-600 rounded-lg">
-            <p className="text-slate-100 text-sm leading-relaxed">{displayMemo.transcription}</p>
+            <h3 className="text-lg font-semibold text-white">
+              Transcription
+              {displayMemo.originalTranscription && (
+                <span className="ml-2 text-xs font-normal text-slate-400">(edited)</span>
+              )}
+            </h3>
+            <div className="flex gap-2">
+              {!isEditingTranscription && (
+                <button
+                  onClick={handleEditTranscription}
+                  className="text-xs px-2 py-1 bg-slate-700 text-slate-300 rounded hover:bg-slate-600"
+                >
+                  Edit
+                </button>
+              )}
+              <button
+                onClick={() => setShowHistory(!showHistory)}
+                className="text-xs px-2 py-1 bg-slate-700 text-slate-300 rounded hover:bg-slate-600"
+              >
+                {showHistory ? 'Hide history' : 'History'}
+              </button>
+              <button
+                onClick={handleCopyTranscription}
+                className="text-xs px-2 py-1 bg-slate-700 text-slate-300 rounded hover:bg-slate-600"
+              >
+                {copied ? 'Copied' : 'Copy'}
+              </button>
+            </div>
           </div>
+          {isEditingTranscription ? (
+            <div className="space-y-2">
+              <textarea
+                value={transcriptionDraft}
+                onChange={(e) => setTranscriptionDraft(e.target.value)}
+                rows={6}
+                className="w-full p-3 bg-slate-800 border border-slate-600 rounded-lg text-slate-100 text-sm leading-relaxed"
+                aria-label="Edit transcription"
+              />
+              <div className="flex flex-wrap items-center gap-3">
+                <label className="flex items-center gap-2 text-sm text-slate-300">
+                  <input
+                    type="checkbox"
+                    checked={reextractAfterEdit}
+                    onChange={(e) => setReextractAfterEdit(e.target.checked)}
+                  />
+                  Re-extract tasks
+                </label>
+                <button
+                  onClick={handleSaveTranscription}
+                  disabled={updateTranscription.isPending || !transcriptionDraft.trim()}
+                  className="px-3 py-1 bg-blue-500/20 text-blue-400 rounded hover:bg-blue-500/30 text-sm font-semibold disabled:opacity-50"
+                >
+                  {updateTranscription.isPending ? 'Saving...' : 'Save'}
+                </button>
+                <button
+                  onClick={() => setIsEditingTranscription(false)}
+                  disabled={updateTranscription.isPending}
+                  className="px-3 py-1 bg-slate-700 text-slate-300 rounded hover:bg-slate-600 text-sm"
+                >
+                  Cancel
+                </button>
+              </div>
+              {updateTranscription.isError && (
+                <p className="text-red-400 text-sm">Save failed: {updateTranscription.error.message}</p>
+              )}
+            </div>
+          ) : (
+            <div className="p-4 bg-slate-700/50 border border-slate-600 rounded-lg">
+              {showSegments ? (
+                <TranscriptSegments segments={segments} currentTime={currentTime} onSeek={seekTo} />
+              ) : (
+                <p className="text-slate-100 text-sm leading-relaxed">{displayMemo.transcription}</p>
+              )}
+            </div>
+          )}
+          {showHistory && <TranscriptionHistory taskId={taskId} />}
         </div>
       )}
 
       {/* Extracted Tasks */}
-      {displayMemo.processedTasks && displayMemo.processedTasks.length > 0 ? (
+      {itemsData ? (
+        <div className="space-y-2">
+          <h3 className="text-lg font-semibold text-white">Extracted Tasks</h3>
+          <MemoItemList taskId={taskId} items={itemsData.items} segments={segments} onSeek={seekTo} />
+        </div>
+      ) : displayMemo.processedTasks && displayMemo.processedTasks.length > 0 ? (
         <div className="space-y-2">
           <h3 className="text-lg font-semibold text-white">Extracted Tasks</h3>
           <div className="space-y-2">
@@ -189,7 +429,18 @@ export function MemoDetail({ taskId, onClose, onDelete }: MemoDetailProps) {
                 key={idx}
                 className="p-4 bg-slate-700/50 border border-slate-600 rounded-lg"
               >
-                <p className="text-slate-100 font-semibold mb-1">{task.task}</p>
+                <div className="flex items-start justify-between gap-2 mb-1">
+                  <p className="text-slate-100 font-semibold">{task.task}</p>
+                  {task.segmentIndex != null && segments[task.segmentIndex] && (
+                    <button
+                      onClick={() => seekTo(segments[task.segmentIndex!].start)}
+                      className="text-xs px-2 py-1 bg-slate-700 text-slate-300 rounded hover:bg-slate-600 shrink-0"
+                      title={segments[task.segmentIndex].text}
+                    >
+                      ▶ {formatTimestamp(segments[task.segmentIndex].start)}
+                    </button>
+                  )}
+                </div>
                 {task.due && (
                   <p className="text-slate-400 text-sm mb-1">Due: {new Date(task.due).toLocaleDateString()}</p>
                 )}
@@ -204,24 +455,58 @@ export function MemoDetail({ taskId, onClose, onDelete }: MemoDetailProps) {
         </div>
       ) : null}
 
+      {/* Related Memos */}
+      {onOpenMemo && displayMemo.status === 'completed' && (
+        <RelatedMemos taskId={taskId} onOpenMemo={onOpenMemo} />
+      )}
+
       {/* Audio Player */}
       <div className="space-y-2">
         <h3 className="text-lg font-semibold text-white">Audio</h3>
-        <AudioPreview taskId={taskId} showDownloadButton={true} />
+        <AudioPreview
+          taskId={taskId}
+          showDownloadButton={true}
+          seekRequest={seekRequest}
+          onTimeUpdate={setCurrentTime}
+        />
       </div>
 
       {/* Actions */}
-      <div className="flex gap-2 pt-4 border-t border-slate-700">
-        {(memo.status === 'completed' || memo.status === 'failed') && (
-          <button
-            onClick={() => setShowDeleteConfirm(true)}
-            className="px-4 py-2 bg-red-500/20 text-red-400 rounded hover:bg-red-500/30 transition font-semibold"
-          >
-            Delete
-          </button>
+      <div className="flex flex-wrap items-center gap-2 pt-4 border-t border-slate-700">
+        {(displayMemo.status === 'completed' || displayMemo.status === 'failed') && (
+          <>
+            <select
+              value={reprocessStage}
+              onChange={(e) => setReprocessStage(e.target.value as ReprocessStage)}
+              disabled={reprocessMemo.isPending}
+              className="px-3 py-2 bg-slate-700 text-slate-200 rounded border border-slate-600 text-sm"
+              aria-label="Reprocess from stage"
+            >
+              <option value="transcribe">From transcription</option>
+              <option value="extract" disabled={!displayMemo.transcription}>From task extraction</option>
+              <option value="generate" disabled={!displayMemo.processedTasks}>From content generation</option>
+            </select>
+            <button
+              onClick={handleReprocess}
+              disabled={reprocessMemo.isPending}
+              className="px-4 py-2 bg-blue-500/20 text-blue-400 rounded hover:bg-blue-500/30 transition font-semibold disabled:opacity-50"
+            >
+              {reprocessMemo.isPending ? 'Reprocessing...' : 'Reprocess'}
+            </button>
+            <button
+              onClick={() => setShowDeleteConfirm(true)}
+              className="px-4 py-2 bg-red-500/20 text-red-400 rounded hover:bg-red-500/30 transition font-semibold"
+            >
+              Delete
+            </button>
+          </>
         )}
       </div>
 
+      {reprocessMemo.isError && (
+        <p className="text-red-400 text-sm">Reprocess failed: {reprocessMemo.error.message}</p>
+      )}
+
       {/* Delete Confirmation Modal */}
       <DeleteConfirmation
         taskId={taskId}
@@ -0,0 +1,164 @@
+/**
+ * MemoItemList - A memo's tasks with checkboxes, inline editing and reordering
+ * Every change is saved through the memo items API; generated content can be regenerated or refined
+ */
+
+import { useState } from 'react'
+import { MemoItem, TranscriptSegment } from '../types/api'
+import { useCreateMemoItem, useDeleteMemoItem, useUpdateMemoItem } from '../hooks/useMemoApi'
+import { MarkdownContent } from './MarkdownContent'
+import { GeneratedContentVersions } from './GeneratedContentVersions'
+import { formatTimestamp } from './TranscriptSegments'
+
+interface MemoItemListProps {
+  taskId: string
+  items: MemoItem[]
+  segments: TranscriptSegment[]
+  onSeek: (time: number) => void
+}
+
+export function MemoItemList({ taskId, items, segments, onSeek }: MemoItemListProps) {
+  const [editingItemId, setEditingItemId] = useState<string | null>(null)
+  const [draft, setDraft] = useState('')
+  const [newItemText, setNewItemText] = useState('')
+  const updateItem = useUpdateMemoItem()
+  const deleteItem = useDeleteMemoItem()
+  const createItem = useCreateMemoItem()
+
+  const startEditing = (item: MemoItem) => {
+    setEditingItemId(item.itemId)
+    setDraft(item.text)
+  }
+
+  const saveEdit = (item: MemoItem) => {
+    const text = draft.trim()
+    if (text && text !== item.text) {
+      updateItem.mutate({ taskId, itemId: item.itemId, update: { text } })
+    }
+    setEditingItemId(null)
+  }
+
+  const handleAddItem = () => {
+    const text = newItemText.trim()
+    if (!text) return
+    createItem.mutate({ taskId, text }, { onSuccess: () => setNewItemText('') })
+  }
+
+  const error = updateItem.error || deleteItem.error || createItem.error
+
+  return (
+    <div className="space-y-2">
+      {items.map((item, idx) => {
+        const segment = item.segmentIndex != null ? segments[item.segmentIndex] : undefined
+
+        return (
+          <div
+            key={item.itemId}
+            className={`p-4 bg-slate-700/50 border border-slate-600 rounded-lg ${item.completed ? 'opacity-60' : ''}`}
+          >
+            <div className="flex items-start gap-3">
+              <input
+                type="checkbox"
+                checked={item.completed}
+                onChange={(e) =>
+                  updateItem.mutate({ taskId, itemId: item.itemId, update: { completed: e.target.checked } })
+                }
+                className="mt-1"
+                aria-label={item.completed ? 'Mark as not done' : 'Mark as done'}
+              />
+
+              <div className="flex-1 min-w-0">
+                {editingItemId === item.itemId ? (
+                  <input
+                    value={draft}
+                    onChange={(e) => setDraft(e.target.value)}
+                    onBlur={() => saveEdit(item)}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') saveEdit(item)
+                      if (e.key === 'Escape') setEditingItemId(null)
+                    }}
+                    autoFocus
+                    className="w-full px-2 py-1 bg-slate-800 border border-slate-600 rounded text-slate-100 font-semibold"
+                    aria-label="Edit task"
+                  />
+                ) : (
+                  <p
+                    onClick={() => startEditing(item)}
+                    className={`text-slate-100 font-semibold cursor-text ${item.completed ? 'line-through' : ''}`}
+                    title="Click to edit"
+                  >
+                    {item.text}
+                  </p>
+                )}
+                {item.due && (
+                  <p className="text-slate-400 text-sm mt-1">Due: {new Date(item.due).toLocaleDateString()}</p>
+                )}
+              </div>
+
+              <div className="flex items-center gap-1 shrink-0">
+                {segment && (
+                  <button
+                    onClick={() => onSeek(segment.start)}
+                    className="text-xs px-2 py-1 bg-slate-700 text-slate-300 rounded hover:bg-slate-600"
+                    title={segment.text}
+                  >
+                    ▶ {formatTimestamp(segment.start)}
+                  </button>
+                )}
+                <button
+                  onClick={() => updateItem.mutate({ taskId, itemId: item.itemId, update: { position: idx - 1 } })}
+                  disabled={idx === 0}
+                  className="text-xs px-1 text-slate-400 hover:text-white disabled:opacity-30"
+                  aria-label="Move up"
+                >
+                  ↑
+                </button>
+                <button
+                  onClick={() => updateItem.mutate({ taskId, itemId: item.itemId, update: { position: idx + 1 } })}
+                  disabled={idx === items.length - 1}
+                  className="text-xs px-1 text-slate-400 hover:text-white disabled:opacity-30"
+                  aria-label="Move down"
+                >
+                  ↓
+                </button>
+                <button
+                  onClick={() => deleteItem.mutate({ taskId, itemId: item.itemId })}
+                  className="text-slate-400 hover:text-red-400 px-1"
+                  aria-label="Delete task"
+                >
+                  ×
+                </button>
+              </div>
+            </div>
+
+            {(item.generatedContent || item.generativeTaskPrompt) && (
+              <div className="mt-2 pt-2 border-t border-slate-600">
+                {item.generatedContent && <MarkdownContent content={item.generatedContent} />}
+                {item.generativeTaskPrompt && <GeneratedContentVersions taskId={taskId} item={item} />}
+              </div>
+            )}
+          </div>
+        )
+      })}
+
+      <div className="flex gap-2">
+        <input
+          value={newItemText}
+          onChange={(e) => setNewItemText(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && handleAddItem()}
+          placeholder="Add a task"
+          className="flex-1 px-3 py-2 bg-slate-800 border border-slate-600 rounded text-slate-100 text-sm"
+        />
+        <button
+          onClick={handleAddItem}
+          disabled={createItem.isPending || !newItemText.trim()}
+          className="px-3 py-2 bg-blue-500/20 text-blue-400 rounded hover:bg-blue-500/30 text-sm font-semibold disabled:opacity-50"
+        >
+          Add
+        </button>
+      </div>
+
+      {error && <p className="text-red-400 text-sm">{error.message}</p>}
+    </div>
+  )
+}
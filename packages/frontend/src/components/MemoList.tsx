@@ -1,19 +1,92 @@
 /**
- * MemoList - Display list of all user memos split into processing and completed sections
+ * MemoList - Display the user's memos, a page at a time as the list scrolls
+ * In-flight memos get their own section with live progress; filter and sort
+ * controls narrow the list, and a search bar switches to full-text search results
  */
 
+import { useEffect, useMemo, useRef, useState } from 'react'
+import { addDays, format, parseISO } from 'date-fns'
 import { useMemoStatus } from '../hooks/useMemoStatus'
+import { useMemoList, useSearchMemos } from '../hooks/useMemoApi'
+import { MemoListFilters, MemoSummary } from '../types/api'
 import { MemoCard } from './MemoCard'
+import { MemoSearchResults } from './MemoSearchResults'
+
+// Wait for a pause in typing before searching
+const SEARCH_DEBOUNCE_MS = 300
+
+const STATUS_OPTIONS = {
+  all: { label: 'All statuses', statuses: [] },
+  completed: { label: 'Completed', statuses: ['completed'] },
+  failed: { label: 'Failed', statuses: ['failed'] },
+  inProgress: { label: 'In progress', statuses: ['pending', 'processing'] },
+} satisfies Record<string, { label: string; statuses: MemoSummary['status'][] }>
+
+const SORT_OPTIONS = {
+  newest: { label: 'Newest first', params: { sort: 'created', order: 'desc' } },
+  oldest: { label: 'Oldest first', params: { sort: 'created', order: 'asc' } },
+  updated: { label: 'Recently updated', params: { sort: 'updated', order: 'desc' } },
+  slowest: { label: 'Longest processing', params: { sort: 'processingTime', order: 'desc' } },
+  fastest: { label: 'Shortest processing', params: { sort: 'processingTime', order: 'asc' } },
+} satisfies Record<string, { label: string; params: Pick<MemoListFilters, 'sort' | 'order'> }>
+
+interface ListView {
+  status: keyof typeof STATUS_OPTIONS
+  sort: keyof typeof SORT_OPTIONS
+  from: string
+  to: string
+  hasOpenItems: boolean
+}
+
+const DEFAULT_LIST_VIEW: ListView = { status: 'all', sort: 'newest', from: '', to: '', hasOpenItems: false }
 
 interface MemoListProps {
   onMemoClick?: (taskId: string) => void
   isLoading?: boolean
+  tag?: string // only memos with this tag (chosen in the tag sidebar)
 }
 
-export function MemoList({ onMemoClick, isLoading: externalLoading }: MemoListProps) {
-  const { processingMemos, completedMemos, isLoadingInitial } = useMemoStatus()
+export function MemoList({ onMemoClick, isLoading: externalLoading, tag }: MemoListProps) {
+  const { state, processingMemos, isLoadingInitial } = useMemoStatus()
+  const [searchInput, setSearchInput] = useState('')
+  const [searchQuery, setSearchQuery] = useState('')
+  const search = useSearchMemos(searchQuery)
+  const [listView, setListView] = useState<ListView>(DEFAULT_LIST_VIEW)
+  const filters = useMemo(() => ({ ...toMemoListFilters(listView), tag }), [listView, tag])
+  const memoList = useMemoList(filters)
+  const loadMoreRef = useRef<HTMLDivElement>(null)
+  const { hasNextPage, isFetchingNextPage, fetchNextPage } = memoList
+
+  useEffect(() => {
+    const timer = setTimeout(() => setSearchQuery(searchInput.trim()), SEARCH_DEBOUNCE_MS)
+    return () => clearTimeout(timer)
+  }, [searchInput])
+
+  // Fetch the next page when the "Load more" row scrolls into view
+  useEffect(() => {
+    const target = loadMoreRef.current
+    if (!target || !hasNextPage) return
+
+    const observer = new IntersectionObserver((entries) => {
+      if (entries[0].isIntersecting && !isFetchingNextPage) {
+        fetchNextPage()
+      }
+    })
+    observer.observe(target)
+    return () => observer.disconnect()
+  }, [hasNextPage, isFetchingNextPage, fetchNextPage])
+
+  const hasListFilters = (Object.keys(DEFAULT_LIST_VIEW) as Array<keyof ListView>).some(
+    (key) => listView[key] !== DEFAULT_LIST_VIEW[key]
+  )
+  const isDefaultView = !tag && !hasListFilters
+
+  // Prefer live state (progress updates) over the fetched page for memos we're tracking
+  const listedMemos = (memoList.data?.pages.flatMap((page) => page.memos) ?? [])
+    .map((memo): MemoSummary => ({ ...memo, ...state.memos[memo.taskId] }))
+    .filter((memo) => !isDefaultView || (memo.status !== 'pending' && memo.status !== 'processing'))
 
-  if (externalLoading || isLoadingInitial) {
+  if (externalLoading || isLoadingInitial || memoList.isLoading) {
     return (
       <div className="space-y-3">
         {[1, 2, 3].map((i) => (
@@ -26,7 +99,7 @@ export function MemoList({ onMemoClick, isLoading: externalLoading }: MemoListPr
     )
   }
 
-  if (processingMemos.length === 0 && completedMemos.length === 0) {
+  if (isDefaultView && processingMemos.length === 0 && listedMemos.length === 0 && !memoList.error) {
     return (
       <div className="text-center py-12">
         <p className="text-slate-300 font-semibold mb-2">No memos yet</p>
@@ -39,14 +112,99 @@ export function MemoList({ onMemoClick, isLoading: externalLoading }: MemoListPr
   const sortedProcessing = [...processingMemos].sort(
     (a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
   )
-  const sortedCompleted = [...completedMemos].sort(
-    (a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
+
+  const searchBar = (
+    <div className="relative">
+      <input
+        type="search"
+        value={searchInput}
+        onChange={(e) => setSearchInput(e.target.value)}
+        onKeyDown={(e) => e.key === 'Escape' && setSearchInput('')}
+        placeholder="Search transcriptions and tasks"
+        className="w-full px-3 py-2 bg-slate-800 border border-slate-600 rounded text-slate-100 text-sm"
+        aria-label="Search memos"
+      />
+      {search.isFetching && (
+        <span className="absolute right-3 top-2.5 w-3 h-3 border-2 border-slate-400 border-t-transparent rounded-full animate-spin"></span>
+      )}
+    </div>
+  )
+
+  const updateListView = (changes: Partial<ListView>) => setListView((prev) => ({ ...prev, ...changes }))
+
+  const filterBar = (
+    <div className="flex flex-wrap items-center gap-2 text-sm">
+      <select
+        value={listView.status}
+        onChange={(e) => updateListView({ status: e.target.value as ListView['status'] })}
+        className="px-2 py-1 bg-slate-800 border border-slate-600 rounded text-slate-200"
+        aria-label="Filter by status"
+      >
+        {Object.entries(STATUS_OPTIONS).map(([value, option]) => (
+          <option key={value} value={value}>{option.label}</option>
+        ))}
+      </select>
+      <select
+        value={listView.sort}
+        onChange={(e) => updateListView({ sort: e.target.value as ListView['sort'] })}
+        className="px-2 py-1 bg-slate-800 border border-slate-600 rounded text-slate-200"
+        aria-label="Sort memos"
+      >
+        {Object.entries(SORT_OPTIONS).map(([value, option]) => (
+          <option key={value} value={value}>{option.label}</option>
+        ))}
+      </select>
+      <input
+        type="date"
+        value={listView.from}
+        max={listView.to || undefined}
+        onChange={(e) => updateListView({ from: e.target.value })}
+        className="px-2 py-1 bg-slate-800 border border-slate-600 rounded text-slate-200"
+        aria-label="Recorded from"
+      />
+      <span className="text-slate-400">to</span>
+      <input
+        type="date"
+        value={listView.to}
+        min={listView.from || undefined}
+        onChange={(e) => updateListView({ to: e.target.value })}
+        className="px-2 py-1 bg-slate-800 border border-slate-600 rounded text-slate-200"
+        aria-label="Recorded to"
+      />
+      <label className="flex items-center gap-1 text-slate-300">
+        <input
+          type="checkbox"
+          checked={listView.hasOpenItems}
+          onChange={(e) => updateListView({ hasOpenItems: e.target.checked })}
+        />
+        Has open tasks
+      </label>
+      {memoList.isFetching && !memoList.isFetchingNextPage && (
+        <span className="w-3 h-3 border-2 border-slate-400 border-t-transparent rounded-full animate-spin"></span>
+      )}
+    </div>
   )
 
+  if (searchInput.trim()) {
+    return (
+      <div className="space-y-4">
+        {searchBar}
+        {search.error ? (
+          <p className="text-red-400 text-sm">{search.error.message || 'Search failed'}</p>
+        ) : search.data ? (
+          <MemoSearchResults results={search.data.results} onMemoClick={onMemoClick} />
+        ) : null}
+      </div>
+    )
+  }
+
   return (
     <div className="space-y-6">
-      {/* Processing Memos Section */}
-      {sortedProcessing.length > 0 && (
+      {searchBar}
+      {filterBar}
+
+      {/* Processing Memos Section (live progress; hidden while filtering) */}
+      {isDefaultView && sortedProcessing.length > 0 && (
         <div>
           <h3 className="text-sm font-semibold text-slate-300 mb-3 flex items-center gap-2">
             <span className="w-2 h-2 bg-blue-400 rounded-full animate-pulse"></span>
@@ -64,15 +222,17 @@ export function MemoList({ onMemoClick, isLoading: externalLoading }: MemoListPr
         </div>
       )}
 
-      {/* Completed Memos Section */}
-      {sortedCompleted.length > 0 && (
+      {/* Memo pages, loaded as the list scrolls */}
+      {listedMemos.length > 0 && (
         <div>
-          <h3 className="text-sm font-semibold text-slate-300 mb-3 flex items-center gap-2">
-            <span className="w-2 h-2 bg-green-400 rounded-full"></span>
-            Completed
-          </h3>
+          {isDefaultView && (
+            <h3 className="text-sm font-semibold text-slate-300 mb-3 flex items-center gap-2">
+              <span className="w-2 h-2 bg-green-400 rounded-full"></span>
+              Completed
+            </h3>
+          )}
           <div className="space-y-3">
-            {sortedCompleted.map((memo) => (
+            {listedMemos.map((memo) => (
               <MemoCard
                 key={memo.taskId}
                 memo={memo}
@@ -83,13 +243,45 @@ export function MemoList({ onMemoClick, isLoading: externalLoading }: MemoListPr
         </div>
       )}
 
-      {/* Empty state when all memos are processing or completed */}
-      {processingMemos.length === 0 && completedMemos.length === 0 && (
+      {memoList.error && (
+        <p className="text-red-400 text-sm">{memoList.error.message || 'Failed to load memos'}</p>
+      )}
+
+      {memoList.hasNextPage && (
+        <div ref={loadMoreRef} className="flex justify-center">
+          <button
+            onClick={() => memoList.fetchNextPage()}
+            disabled={memoList.isFetchingNextPage}
+            className="px-4 py-2 text-sm text-slate-300 bg-slate-700/50 rounded hover:bg-slate-700 disabled:opacity-50"
+          >
+            {memoList.isFetchingNextPage ? 'Loading…' : 'Load more'}
+          </button>
+        </div>
+      )}
+
+      {!isDefaultView && listedMemos.length === 0 && !memoList.isFetching && (
         <div className="text-center py-12">
-          <p className="text-slate-300 font-semibold mb-2">No memos yet</p>
-          <p className="text-slate-400 text-sm">Record your first memo to get started</p>
+          <p className="text-slate-300 font-semibold mb-2">No matching memos</p>
+          {hasListFilters && (
+            <button onClick={() => setListView(DEFAULT_LIST_VIEW)} className="text-sm text-blue-400 hover:text-blue-300">
+              Clear filters
+            </button>
+          )}
         </div>
       )}
     </div>
   )
 }
+
+/**
+ * Convert the list controls into API filters
+ * The "to" date is inclusive in the UI but exclusive in the API, so it moves forward a day
+ */
+function toMemoListFilters(view: ListView): MemoListFilters {
+  const filters: MemoListFilters = { ...SORT_OPTIONS[view.sort].params }
+  if (view.status !== 'all') filters.status = STATUS_OPTIONS[view.status].statuses
+  if (view.from) filters.from = view.from
+  if (view.to) filters.to = format(addDays(parseISO(view.to), 1), 'yyyy-MM-dd')
+  if (view.hasOpenItems) filters.hasOpenItems = true
+  return filters
+}
@@ -0,0 +1,72 @@
+/**
+ * MemoSearchResults - Full-text search hits with the matched words highlighted
+ */
+
+import { formatDistanceToNow, parseISO } from 'date-fns'
+import { MemoSearchResult } from '../types/api'
+
+interface MemoSearchResultsProps {
+  results: MemoSearchResult[]
+  onMemoClick?: (taskId: string) => void
+}
+
+export function MemoSearchResults({ results, onMemoClick }: MemoSearchResultsProps) {
+  if (results.length === 0) {
+    return (
+      <div className="text-center py-12">
+        <p className="text-slate-300 font-semibold mb-2">No matches</p>
+        <p className="text-slate-400 text-sm">Try different or fewer words</p>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-3">
+      {results.map((result) => (
+        <button
+          key={result.taskId}
+          onClick={() => onMemoClick?.(result.taskId)}
+          className="w-full text-left p-4 bg-slate-700/50 border border-slate-600 rounded-lg hover:border-slate-500 transition-colors"
+        >
+          <p className="text-xs text-slate-400 mb-1">
+            {formatDistanceToNow(parseISO(result.createdAt), { addSuffix: true })}
+          </p>
+          {result.transcriptionSnippet && (
+            <p className="text-sm text-slate-200">
+              <HighlightedSnippet snippet={result.transcriptionSnippet} />
+            </p>
+          )}
+          {result.taskSnippet && (
+            <p className="text-sm text-slate-300 mt-1">
+              <span className="text-slate-400">Tasks: </span>
+              <HighlightedSnippet snippet={result.taskSnippet} />
+            </p>
+          )}
+        </button>
+      ))}
+    </div>
+  )
+}
+
+/**
+ * Render a search snippet, turning <mark></mark> spans into highlights
+ * The snippet is split rather than injected as HTML, so memo text stays plain text
+ */
+function HighlightedSnippet({ snippet }: { snippet: string }) {
+  const parts = snippet.split(/<mark>(.*?)<\/mark>/g)
+
+  return (
+    <>
+      {parts.map((part, idx) =>
+        // Odd indexes are the captured matches
+        idx % 2 === 1 ? (
+          <mark key={idx} className="bg-yellow-400/30 text-yellow-100 rounded px-0.5">
+            {part}
+          </mark>
+        ) : (
+          <span key={idx}>{part}</span>
+        )
+      )}
+    </>
+  )
+}
@@ -0,0 +1,77 @@
+/**
+ * MemoTags - A memo's tags, with removal and an input to add more
+ * AI-suggested tags are outlined until the user adds them themselves
+ */
+
+import { useState } from 'react'
+import { MemoTag } from '../types/api'
+import { useAddMemoTag, useMemoTags, useRemoveMemoTag } from '../hooks/useMemoApi'
+
+// Matches the server-side limit
+const MAX_TAG_LENGTH = 32
+
+interface TagChipProps {
+  tag: Pick<MemoTag, 'name' | 'source'>
+  onRemove?: () => void
+}
+
+export function TagChip({ tag, onRemove }: TagChipProps) {
+  return (
+    <span
+      className={`inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs ${
+        tag.source === 'ai'
+          ? 'border border-dashed border-purple-400/60 text-purple-300'
+          : 'bg-purple-500/20 text-purple-200'
+      }`}
+      title={tag.source === 'ai' ? 'Suggested by AI' : undefined}
+    >
+      #{tag.name}
+      {onRemove && (
+        <button onClick={onRemove} className="hover:text-white" aria-label={`Remove tag ${tag.name}`}>
+          ×
+        </button>
+      )}
+    </span>
+  )
+}
+
+interface MemoTagsProps {
+  taskId: string
+}
+
+export function MemoTags({ taskId }: MemoTagsProps) {
+  const { data } = useMemoTags(taskId)
+  const addTag = useAddMemoTag()
+  const removeTag = useRemoveMemoTag()
+  const [name, setName] = useState('')
+
+  const handleAdd = () => {
+    const trimmed = name.trim()
+    if (!trimmed || addTag.isPending) return
+    addTag.mutate({ taskId, name: trimmed }, { onSuccess: () => setName('') })
+  }
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      {data?.tags.map((tag) => (
+        <TagChip key={tag.tagId} tag={tag} onRemove={() => removeTag.mutate({ taskId, tagId: tag.tagId })} />
+      ))}
+      <form
+        onSubmit={(e) => {
+          e.preventDefault()
+          handleAdd()
+        }}
+      >
+        <input
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="Add tag"
+          maxLength={MAX_TAG_LENGTH}
+          className="w-24 px-2 py-0.5 bg-slate-800 border border-slate-600 rounded-full text-xs text-slate-100"
+          aria-label="Add tag"
+        />
+      </form>
+      {addTag.isError && <span className="text-red-400 text-xs">{addTag.error.message}</span>}
+    </div>
+  )
+}
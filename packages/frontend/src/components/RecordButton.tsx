@@ -1,16 +1,19 @@
 /**
- * RecordButton - Record voice memos
+ * RecordButton - Record voice memos, or pick an existing recording to upload
  * Handles recording lifecycle and audio blob generation
  * Dispatches MEMO_CREATED action to global MemoStatusProvider
  */
 
-import { useState } from 'react'
+import { useState, type ChangeEvent } from 'react'
 import { useRecorder } from '../hooks/useRecorder'
 import { useUploadMemo } from '../hooks/useMemoApi'
 import { useMemoStatus } from '../hooks/useMemoStatus'
 import { VolumeMeter } from './VolumeMeter'
 import { RecordingPreview } from './RecordingPreview'
 
+// Formats the server accepts (iPhone voice memos are M4A; many recorders write WAV)
+const AUDIO_FILE_ACCEPT = 'audio/webm,audio/mpeg,audio/wav,audio/x-wav,audio/mp4,audio/x-m4a,audio/ogg,audio/flac,.webm,.mp3,.wav,.m4a,.ogg,.flac'
+
 interface RecordButtonProps {
   onUploadStart?: () => void
   onUploadSuccess?: (taskId: string) => void
@@ -58,6 +61,16 @@ export function RecordButton({ onUploadStart, onUploadSuccess, onError }: Record
     }
   }
 
+  const handleFileSelected = (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    // Clear the input so picking the same file again still fires onChange
+    event.target.value = ''
+    if (file) {
+      recorder.reset()
+      setRecordedBlob(file)
+    }
+  }
+
   const handleDiscardRecording = () => {
     recorder.reset()
     setRecordedBlob(null)
@@ -86,6 +99,7 @@ export function RecordButton({ onUploadStart, onUploadSuccess, onError }: Record
             updatedAt: now,
             stageProgress: {
               transcribe: 'pending',
+              summarize: 'pending',
               extract: 'pending',
               generate: 'pending',
             },
@@ -139,6 +153,7 @@ export function RecordButton({ onUploadStart, onUploadSuccess, onError }: Record
         onUpload={handleUpload}
         onDiscard={handleDiscardRecording}
         isUploading={uploadMemo.isPending}
+        uploadProgress={uploadMemo.progress}
         uploadError={uploadMemo.error?.message || null}
       />
     )
@@ -146,11 +161,17 @@ export function RecordButton({ onUploadStart, onUploadSuccess, onError }: Record
 
   // Ready to record
   return (
-    <button
-      onClick={handleStartRecording}
-      className="w-full px-6 py-4 bg-gradient-to-r from-blue-500 to-blue-600 text-white font-bold text-lg rounded-lg hover:from-blue-600 hover:to-blue-700 transition shadow-lg"
-    >
-      Start Recording
-    </button>
+    <div className="space-y-2">
+      <button
+        onClick={handleStartRecording}
+        className="w-full px-6 py-4 bg-gradient-to-r from-blue-500 to-blue-600 text-white font-bold text-lg rounded-lg hover:from-blue-600 hover:to-blue-700 transition shadow-lg"
+      >
+        Start Recording
+      </button>
+      <label className="block text-center text-sm text-slate-400 hover:text-white cursor-pointer">
+        or upload a recording (WebM, MP3, WAV, M4A, OGG, FLAC)
+        <input type="file" accept={AUDIO_FILE_ACCEPT} onChange={handleFileSelected} className="hidden" />
+      </label>
+    </div>
   )
 }
@@ -5,6 +5,7 @@
  * Modes:
  * - Recording preview: Shows with recordedBlob + upload/discard actions
  * - Memo playback: Shows with taskId + download button (fetches from backend)
+ *   seekRequest jumps playback to a moment (e.g. a clicked transcript sentence)
  */
 
 import { useState, useRef, useEffect } from 'react'
@@ -17,11 +18,14 @@ interface AudioPreviewProps {
   onUpload?: () => void
   onDiscard?: () => void
   isUploading?: boolean
+  uploadProgress?: number | null // 0-1 while a large recording is sent in parts
   uploadError?: string | null
 
   // Memo playback mode
   taskId?: string
   showDownloadButton?: boolean
+  seekRequest?: { time: number; requestId: number } // requestId lets the same moment be requested twice
+  onTimeUpdate?: (currentTime: number) => void
 }
 
 export function AudioPreview({
@@ -29,14 +33,18 @@ export function AudioPreview({
   onUpload,
   onDiscard,
   isUploading = false,
+  uploadProgress = null,
   uploadError = null,
   taskId,
   showDownloadButton = true,
+  seekRequest,
+  onTimeUpdate,
 }: AudioPreviewProps) {
   const [downloadedBlob, setDownloadedBlob] = useState<Blob | null>(null)
   const downloadAudio = useDownloadAudio()
   const previousUrlRef = useRef<string | null>(null)
   const audioElementRef = useRef<HTMLAudioElement | null>(null)
+  const pendingSeekRef = useRef<number | null>(null)
 
   // Determine which blob to use (either recorded or downloaded)
   const blob = recordedBlob || downloadedBlob
@@ -64,6 +72,39 @@ export function AudioPreview({
     }
   }, [taskId])
 
+  // Seek and play when asked to, downloading the audio first if needed
+  useEffect(() => {
+    if (!seekRequest) return
+
+    if (isMemoMode && !downloadedBlob) {
+      pendingSeekRef.current = seekRequest.time
+      if (!downloadAudio.isPending) {
+        downloadAudio.mutateAsync(taskId)
+          .then(setDownloadedBlob)
+          .catch((error) => console.error('Failed to download audio:', error))
+      }
+      return
+    }
+
+    playback.seek(seekRequest.time)
+    playback.play()
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [seekRequest])
+
+  // Apply a seek requested before the audio had loaded
+  useEffect(() => {
+    if (pendingSeekRef.current !== null && playback.duration > 0) {
+      playback.seek(pendingSeekRef.current)
+      pendingSeekRef.current = null
+      playback.play()
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [playback.duration])
+
+  useEffect(() => {
+    onTimeUpdate?.(playback.currentTime)
+  }, [playback.currentTime, onTimeUpdate])
+
   // Download audio when in memo mode and user initiates playback
   const handlePlayClick = async () => {
     if (isMemoMode && !downloadedBlob) {
@@ -242,7 +283,13 @@ export function AudioPreview({
             disabled={isUploading || playback.error !== null}
             className="flex-1 px-4 py-3 bg-blue-500 text-white font-semibold rounded-lg hover:bg-blue-600 disabled:opacity-50 disabled:cursor-not-allowed transition"
           >
-            {isUploading ? 'Uploading...' : 'Upload'}
+            {isUploading
+              ? uploadProgress !== null
+                ? `Uploading ${Math.round(uploadProgress * 100)}%...`
+                : 'Uploading...'
+              : uploadError
+                ? 'Retry Upload'
+                : 'Upload'}
           </button>
 
           <button
@@ -0,0 +1,38 @@
+/**
+ * RelatedMemos - Other memos about the same things as this one
+ * Ranked by embedding similarity; hidden until there is something to show
+ */
+
+import { formatDistanceToNow, parseISO } from 'date-fns'
+import { useRelatedMemos } from '../hooks/useMemoApi'
+
+interface RelatedMemosProps {
+  taskId: string
+  onOpenMemo: (taskId: string) => void
+}
+
+export function RelatedMemos({ taskId, onOpenMemo }: RelatedMemosProps) {
+  const { data } = useRelatedMemos(taskId)
+
+  if (!data || data.related.length === 0) {
+    return null
+  }
+
+  return (
+    <div className="space-y-2">
+      <h3 className="text-lg font-semibold text-white">Related Memos</h3>
+      {data.related.map((memo) => (
+        <button
+          key={memo.taskId}
+          onClick={() => onOpenMemo(memo.taskId)}
+          className="w-full text-left p-3 bg-slate-700/50 border border-slate-600 rounded-lg hover:border-slate-500 transition-colors"
+        >
+          <p className="text-sm text-slate-200 line-clamp-2">{memo.preview}</p>
+          <p className="text-xs text-slate-400 mt-1">
+            {formatDistanceToNow(parseISO(memo.createdAt), { addSuffix: true })} · {Math.round(memo.score * 100)}% similar
+          </p>
+        </button>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,44 @@
+/**
+ * TagSidebar - The user's tags with memo counts; picking one filters the memo list
+ */
+
+import { useTags } from '../hooks/useMemoApi'
+
+interface TagSidebarProps {
+  selectedTag?: string
+  onSelectTag: (tag: string | undefined) => void
+}
+
+export function TagSidebar({ selectedTag, onSelectTag }: TagSidebarProps) {
+  const { data } = useTags()
+
+  if (!data || data.tags.length === 0) {
+    return null
+  }
+
+  const itemClass = (selected: boolean) =>
+    `w-full flex items-center justify-between px-3 py-1.5 rounded text-sm text-left ${
+      selected ? 'bg-purple-500/20 text-purple-200' : 'text-slate-300 hover:bg-slate-700/50'
+    }`
+
+  return (
+    <section className="bg-slate-800/50 border border-slate-700 rounded-lg p-6">
+      <h2 className="text-xl font-bold text-white mb-4">Tags</h2>
+      <nav className="space-y-1" aria-label="Tags">
+        <button onClick={() => onSelectTag(undefined)} className={itemClass(!selectedTag)}>
+          All memos
+        </button>
+        {data.tags.map((tag) => (
+          <button
+            key={tag.tagId}
+            onClick={() => onSelectTag(tag.name)}
+            className={itemClass(selectedTag?.toLowerCase() === tag.name.toLowerCase())}
+          >
+            <span className="truncate">#{tag.name}</span>
+            <span className="text-xs text-slate-400">{tag.memoCount}</span>
+          </button>
+        ))}
+      </nav>
+    </section>
+  )
+}
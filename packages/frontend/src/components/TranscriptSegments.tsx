@@ -0,0 +1,43 @@
+/**
+ * TranscriptSegments - Transcript rendered as timestamped sentences
+ * Clicking a sentence seeks the audio to it; the sentence being played is highlighted
+ */
+
+import { TranscriptSegment } from '../types/api'
+
+interface TranscriptSegmentsProps {
+  segments: TranscriptSegment[]
+  currentTime: number
+  onSeek: (time: number) => void
+}
+
+export function formatTimestamp(seconds: number): string {
+  const mins = Math.floor(seconds / 60)
+  const secs = Math.floor(seconds % 60)
+  return `${mins}:${secs.toString().padStart(2, '0')}`
+}
+
+export function TranscriptSegments({ segments, currentTime, onSeek }: TranscriptSegmentsProps) {
+  return (
+    <div className="space-y-1">
+      {segments.map((segment, idx) => {
+        const isActive = currentTime >= segment.start && currentTime < segment.end
+
+        return (
+          <button
+            key={idx}
+            onClick={() => onSeek(segment.start)}
+            className={`w-full flex gap-3 text-left text-sm leading-relaxed rounded px-2 py-1 transition-colors ${
+              isActive ? 'bg-blue-500/20 text-white' : 'text-slate-100 hover:bg-slate-600/50'
+            }`}
+          >
+            <span className="text-xs text-slate-400 font-mono pt-0.5 shrink-0">
+              {formatTimestamp(segment.start)}
+            </span>
+            <span>{segment.text}</span>
+          </button>
+        )
+      })}
+    </div>
+  )
+}
@@ -0,0 +1,67 @@
+/**
+ * TranscriptionHistory - Correction history of a memo's transcript
+ * Lists each revision, newest first, with a word diff against the version before it
+ */
+
+import { formatDistanceToNow, parseISO } from 'date-fns'
+import { useTranscriptionRevisions } from '../hooks/useMemoApi'
+import { diffWords } from '../utils/textDiff'
+
+interface TranscriptionHistoryProps {
+  taskId: string
+}
+
+export function TranscriptionHistory({ taskId }: TranscriptionHistoryProps) {
+  const { data, isLoading, error } = useTranscriptionRevisions(taskId, true)
+
+  if (isLoading) {
+    return <div className="h-16 bg-slate-700/50 rounded animate-pulse"></div>
+  }
+
+  if (error || !data) {
+    return <p className="text-red-400 text-sm">{error?.message || 'Failed to load revision history'}</p>
+  }
+
+  if (data.revisions.length === 0) {
+    return <p className="text-slate-400 text-sm">No corrections yet - this is the original transcription.</p>
+  }
+
+  // Each revision is compared with the one before it; the first with the original transcript
+  const versions = data.revisions.map((revision, idx) => ({
+    ...revision,
+    previous: idx === 0 ? data.originalTranscription ?? '' : data.revisions[idx - 1].transcription,
+  }))
+
+  return (
+    <div className="space-y-3">
+      {versions.reverse().map((version, idx) => (
+        <div key={version.revisionId} className="p-3 bg-slate-800/50 border border-slate-600 rounded-lg">
+          <p className="text-xs text-slate-400 mb-2">
+            {idx === 0 ? 'Current · ' : ''}Edited {formatDistanceToNow(parseISO(version.createdAt), { addSuffix: true })}
+          </p>
+          <p className="text-sm leading-relaxed">
+            {diffWords(version.previous, version.transcription).map((part, partIdx) => (
+              <span
+                key={partIdx}
+                className={
+                  part.type === 'added'
+                    ? 'bg-green-500/20 text-green-300'
+                    : part.type === 'removed'
+                      ? 'bg-red-500/20 text-red-300 line-through'
+                      : 'text-slate-300'
+                }
+              >
+                {part.text}{' '}
+              </span>
+            ))}
+          </p>
+        </div>
+      ))}
+
+      <div className="p-3 bg-slate-800/50 border border-slate-600 rounded-lg">
+        <p className="text-xs text-slate-400 mb-2">Original transcription</p>
+        <p className="text-sm text-slate-300 leading-relaxed">{data.originalTranscription}</p>
+      </div>
+    </div>
+  )
+}
@@ -1,26 +1,37 @@
 /**
  * WorkflowProgressIndicator - Timeline visualization of workflow progress
  *
- * Displays: Upload → Transcribe → Extract → Generate
+ * Displays: Upload → Transcribe → Summarize → Extract → Generate
  * Shows a horizontal timeline with colored dots and connecting lines
  * Features smooth animations and visual hierarchy for better UX
  * Collapsible by default - click dropdown to expand
+ * While content is generated, lists each task's state ("Generating content 2 of 5")
  */
 
 import { useState } from 'react'
-import { StageProgress } from '../types/websocket'
+import { GenerateProgress, StageProgress, StageStatus } from '../types/websocket'
 
 interface WorkflowProgressIndicatorProps {
   stageProgress: StageProgress
+  generateProgress?: GenerateProgress
+}
+
+const ITEM_STATUS_ICONS: Record<StageStatus, { icon: string; className: string }> = {
+  pending: { icon: '○', className: 'text-slate-500' },
+  started: { icon: '◆', className: 'text-blue-300 animate-pulse' },
+  completed: { icon: '✓', className: 'text-green-400' },
+  failed: { icon: '✕', className: 'text-red-400' },
 }
 
 export function WorkflowProgressIndicator({
   stageProgress,
+  generateProgress,
 }: WorkflowProgressIndicatorProps) {
   const [isExpanded, setIsExpanded] = useState(false)
   const stages = [
     { key: 'upload' as const, label: 'Upload' },
     { key: 'transcribe' as const, label: 'Transcribe' },
+    { key: 'summarize' as const, label: 'Summarize' },
     { key: 'extract' as const, label: 'Extract' },
     { key: 'generate' as const, label: 'Generate' },
   ]
@@ -49,6 +60,13 @@ export function WorkflowProgressIndicator({
   const lastCompletedIdx = getLastCompletedIndex()
   const queuedPendingIdx = getQueuedPendingIndex()
 
+  // The task being reported is the one after those already finished
+  const generateItems = Object.entries(generateProgress?.items ?? {})
+    .map(([index, item]) => ({ index: Number(index), ...item }))
+    .sort((a, b) => a.index - b.index)
+  const finishedItems = generateItems.filter((item) => item.status === 'completed' || item.status === 'failed').length
+  const generateTotal = Math.max(generateProgress?.total ?? 0, generateItems.length)
+
   const getDotColor = (index: number, status: string) => {
     if (status === 'completed') return 'bg-green-500'
     if (status === 'failed') return 'bg-red-500'
@@ -162,11 +180,28 @@ export function WorkflowProgressIndicator({
         {stageProgress.transcribe === 'pending' && lastCompletedIdx >= 0 && (
           <p className="text-slate-300 font-medium animate-fade-in">○ Transcription queued...</p>
         )}
+        {stageProgress.summarize === 'started' && (
+          <p className="text-blue-300 font-medium animate-fade-in">◆ Writing a title and summary...</p>
+        )}
         {stageProgress.extract === 'started' && (
           <p className="text-blue-300 font-medium animate-fade-in">◆ Extracting tasks from transcription...</p>
         )}
         {stageProgress.generate === 'started' && (
-          <p className="text-blue-300 font-medium animate-fade-in">◆ Generating content for tasks...</p>
+          <p className="text-blue-300 font-medium animate-fade-in">
+            {generateTotal > 1
+              ? `◆ Generating content ${Math.min(finishedItems + 1, generateTotal)} of ${generateTotal}...`
+              : '◆ Generating content for tasks...'}
+          </p>
+        )}
+        {generateTotal > 1 && stageProgress.generate !== 'pending' && (
+          <ul className="mt-2 space-y-1">
+            {generateItems.map((item) => (
+              <li key={item.index} className="flex items-center gap-2 text-xs text-slate-300">
+                <span className={ITEM_STATUS_ICONS[item.status].className}>{ITEM_STATUS_ICONS[item.status].icon}</span>
+                <span className="truncate">{item.task || `Task ${item.index + 1}`}</span>
+              </li>
+            ))}
+          </ul>
         )}
       </div>
     </div>
@@ -49,7 +49,7 @@ export function MemoStatusProvider({ children }: MemoStatusProviderProps) {
     queryFn: async () => {
       const token = await getToken()
       if (!token) throw new Error('No authentication token')
-      const response = await apiRequest<{ memos: MemoDetailResponse[] }>('/api/v1/memos?limit=100&offset=0', {}, token)
+      const response = await apiRequest<{ memos: MemoDetailResponse[] }>('/api/v1/memos?limit=100', {}, token)
       return response.memos
     },
     enabled: isLoaded && isSignedIn,
@@ -66,6 +66,7 @@ export function MemoStatusProvider({ children }: MemoStatusProviderProps) {
           ...memo,
           stageProgress: {
             transcribe: memo.status === 'completed' ? 'completed' : 'pending',
+            summarize: memo.status === 'completed' ? 'completed' : 'pending',
             extract: memo.status === 'completed' ? 'completed' : 'pending',
             generate: memo.status === 'completed' ? 'completed' : 'pending',
           },
@@ -150,6 +151,11 @@ export function MemoStatusProvider({ children }: MemoStatusProviderProps) {
                 queryKey: MEMO_QUERY_KEYS.lists(),
                 exact: false,
               })
+
+              // Processing may have suggested tags
+              queryClient.invalidateQueries({
+                queryKey: MEMO_QUERY_KEYS.tags(),
+              })
             } catch (error) {
               // Silently fail
             }
@@ -257,7 +263,8 @@ export function MemoStatusProvider({ children }: MemoStatusProviderProps) {
   // Start monitoring a memo (open WebSocket)
   const startMonitoring = useCallback((taskId: string) => {
     // Ensure connection tracking exists
-    if (!connectionsRef.current.has(taskId)) {
+    const existing = connectionsRef.current.get(taskId)
+    if (!existing) {
       connectionsRef.current.set(taskId, {
         ws: null,
         reconnectTimeout: null,
@@ -265,6 +272,10 @@ export function MemoStatusProvider({ children }: MemoStatusProviderProps) {
         intentionallyClosed: false,
         taskCompleted: false,
       })
+    } else {
+      // Reuse tracking from an earlier run (e.g. a reprocessed memo) without its closed/completed flags
+      existing.intentionallyClosed = false
+      existing.taskCompleted = false
     }
 
     connectWebSocket(taskId)
@@ -1,11 +1,14 @@
-import { MemoDetailResponse } from '../types/api'
-import { StatusUpdate, StageProgress } from '../types/websocket'
+import { MemoDetailResponse, ReprocessStage } from '../types/api'
+import { StatusUpdate, StageProgress, StageStatus, GenerateProgress } from '../types/websocket'
 
 export type MemoStatus = 'pending' | 'processing' | 'completed' | 'failed'
 
 export interface MemoStateItem extends MemoDetailResponse {
   status: MemoStatus
   stageProgress: StageProgress
+  // Content streamed so far while the generate stage runs, by extracted task index
+  streamingContent?: Record<number, string>
+  generateProgress?: GenerateProgress
 }
 
 export interface GlobalMemoState {
@@ -17,6 +20,7 @@ export type MemoAction =
   | { type: 'MEMO_CREATED'; payload: { taskId: string; memo: MemoStateItem } }
   | { type: 'STATUS_UPDATE'; payload: StatusUpdate }
   | { type: 'MEMO_COMPLETED'; payload: { taskId: string; status: 'completed' | 'failed'; memo: MemoStateItem } }
+  | { type: 'MEMO_REPROCESSING'; payload: { taskId: string; fromStage: ReprocessStage } }
   | { type: 'MEMO_DELETED'; payload: { taskId: string } }
   | { type: 'SET_MEMOS'; payload: MemoStateItem[] }
 
@@ -24,6 +28,19 @@ export const initialState: GlobalMemoState = {
   memos: {},
 }
 
+/**
+ * The generate stage is running until every task has finished; it only fails if every task failed
+ * (a single failed task is shown on its own and the memo still completes)
+ */
+function getGenerateStageStatus({ total, items }: GenerateProgress): StageStatus {
+  const statuses = Object.values(items).map((item) => item.status)
+  const finished = statuses.filter((status) => status === 'completed' || status === 'failed')
+  if (finished.length < Math.max(total, statuses.length)) {
+    return 'started'
+  }
+  return finished.every((status) => status === 'failed') ? 'failed' : 'completed'
+}
+
 export function memoStatusReducer(
   state: GlobalMemoState,
   action: MemoAction
@@ -55,33 +72,67 @@ export function memoStatusReducer(
       // Ensure stageProgress exists
       let stageProgress = updated.stageProgress || {
         transcribe: 'pending',
+        summarize: 'pending',
         extract: 'pending',
         generate: 'pending',
       }
 
+      const { itemIndex, itemCount, itemTask } = action.payload
+
       // Update stage progress if this is a stage update (not workflow or db_update)
       if (action.payload.stage && action.payload.stage !== 'workflow' && action.payload.stage !== 'db_update') {
+        // Progress and delta events only happen while a stage is running
+        let stageStatus: StageStatus =
+          action.payload.status === 'progress' || action.payload.status === 'delta' ? 'started' : action.payload.status
+
+        // Tasks generate in parallel: track each one, and only settle the stage once every task has
+        if (action.payload.stage === 'generate' && itemIndex !== undefined) {
+          const previous = updated.generateProgress?.items[itemIndex]
+          const generateProgress: GenerateProgress = {
+            total: itemCount ?? updated.generateProgress?.total ?? 0,
+            items: {
+              ...updated.generateProgress?.items,
+              [itemIndex]: { task: itemTask ?? previous?.task ?? '', status: stageStatus },
+            },
+          }
+          updated.generateProgress = generateProgress
+          stageStatus = getGenerateStageStatus(generateProgress)
+        }
+
         stageProgress = {
           ...stageProgress,
-          [action.payload.stage]: action.payload.status === 'failed' ? 'failed' : action.payload.status,
+          [action.payload.stage]: stageStatus,
         }
 
         // If any stage is 'started', mark memo as 'processing'
-        if (action.payload.status === 'started' && oldStatus === 'pending') {
+        if (stageStatus === 'started' && oldStatus === 'pending') {
           updated.status = 'processing'
         }
       }
 
       updated.stageProgress = stageProgress
 
+      // Accumulate streamed content per task; a (re)started generation begins from scratch
+      if (action.payload.stage === 'generate' && itemIndex !== undefined) {
+        if (action.payload.status === 'started') {
+          updated.streamingContent = { ...updated.streamingContent, [itemIndex]: '' }
+        } else if (action.payload.status === 'delta' && action.payload.delta) {
+          updated.streamingContent = {
+            ...updated.streamingContent,
+            [itemIndex]: (updated.streamingContent?.[itemIndex] ?? '') + action.payload.delta,
+          }
+        }
+      }
+
       // Store transcription when transcribe completes
       if (action.payload.stage === 'transcribe' && action.payload.status === 'completed' && action.payload.transcription) {
         updated.transcription = action.payload.transcription
       }
 
-      // Update overall status if provided
+      // Update overall status if provided; the saved content replaces the streamed drafts
       if (action.payload.overallStatus) {
         updated.status = action.payload.overallStatus
+        updated.streamingContent = undefined
       }
 
       return {
@@ -106,6 +157,39 @@ export function memoStatusReducer(
       }
     }
 
+    case 'MEMO_REPROCESSING': {
+      const { taskId, fromStage } = action.payload
+      const memo = state.memos[taskId]
+
+      if (!memo) {
+        return state
+      }
+
+      // Stages before fromStage keep their saved output; the rest run again
+      const stages: ReprocessStage[] = ['transcribe', 'extract', 'generate']
+      const firstRerun = stages.indexOf(fromStage)
+      const stageProgress = { ...memo.stageProgress }
+      stages.forEach((stage, idx) => {
+        stageProgress[stage] = idx < firstRerun ? 'completed' : 'pending'
+      })
+      // The summary is rebuilt whenever tasks are re-extracted
+      stageProgress.summarize = fromStage === 'generate' ? 'completed' : 'pending'
+
+      return {
+        ...state,
+        memos: {
+          ...state.memos,
+          [taskId]: {
+            ...memo,
+            status: 'pending',
+            errorMessage: undefined,
+            stageProgress,
+            generateProgress: undefined,
+          },
+        },
+      }
+    }
+
     case 'MEMO_DELETED': {
       const { [action.payload.taskId]: deleted, ...remaining } = state.memos
       return {
@@ -121,6 +205,7 @@ export function memoStatusReducer(
           ...memo,
           stageProgress: memo.stageProgress || {
             transcribe: memo.status === 'completed' ? 'completed' : 'pending',
+            summarize: memo.status === 'completed' ? 'completed' : 'pending',
             extract: memo.status === 'completed' ? 'completed' : 'pending',
             generate: memo.status === 'completed' ? 'completed' : 'pending',
           },
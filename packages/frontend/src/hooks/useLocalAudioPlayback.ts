@@ -132,7 +132,9 @@ export function useLocalAudioPlayback(blob: Blob | null): UseLocalAudioPlaybackR
 
   const seek = useCallback((time: number) => {
     if (audioRef.current) {
-      audioRef.current.currentTime = Math.max(0, Math.min(time, audioRef.current.duration))
+      // Duration is NaN until metadata loads
+      const duration = audioRef.current.duration
+      audioRef.current.currentTime = Math.max(0, Number.isNaN(duration) ? time : Math.min(time, duration))
     }
   }, [])
 
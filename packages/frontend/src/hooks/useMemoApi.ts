@@ -4,24 +4,61 @@
  * Token is obtained fresh from Clerk for each request
  */
 
-import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { useState } from 'react'
+import {
+  useQuery,
+  useInfiniteQuery,
+  useMutation,
+  useQueryClient,
+  keepPreviousData,
+  InfiniteData,
+} from '@tanstack/react-query'
 import { useAuth } from '@clerk/clerk-react'
-import { apiRequest, uploadFile, downloadFile } from '../utils/apiClient'
+import { apiRequest, uploadFile, uploadFileInParts, downloadFile, CHUNKED_UPLOAD_THRESHOLD } from '../utils/apiClient'
 import {
   MemoListResponse,
+  MemoListFilters,
+  TagsResponse,
+  MemoTagsResponse,
+  SearchMemosResponse,
+  RelatedMemosResponse,
   MemoDetailResponse,
   UploadMemoResponse,
-  MemoSummary,
+  ReprocessMemoResponse,
+  ReprocessStage,
+  UpdateTranscriptionResponse,
+  UpdateTitleResponse,
+  TranscriptionRevisionsResponse,
+  MemoItem,
+  MemoItemsResponse,
+  MemoItemUpdate,
+  MemoItemVersionsResponse,
+  InboxItemsResponse,
+  InboxStatusFilter,
+  BulkUpdateItemsResponse,
+  AskMessage,
+  AskResponse,
   ApiError,
 } from '../types/api'
 
+// Memos fetched per page of the memo list
+const MEMO_LIST_PAGE_SIZE = 20
+
 // Query keys for TanStack Query
 export const MEMO_QUERY_KEYS = {
   all: ['memos'] as const,
   lists: () => [...MEMO_QUERY_KEYS.all, 'list'] as const,
-  list: (limit: number, offset: number) => [...MEMO_QUERY_KEYS.lists(), { limit, offset }] as const,
+  list: (filters: MemoListFilters) => [...MEMO_QUERY_KEYS.lists(), filters] as const,
   details: () => [...MEMO_QUERY_KEYS.all, 'detail'] as const,
   detail: (taskId: string) => [...MEMO_QUERY_KEYS.details(), taskId] as const,
+  revisions: (taskId: string) => [...MEMO_QUERY_KEYS.detail(taskId), 'revisions'] as const,
+  items: (taskId: string) => [...MEMO_QUERY_KEYS.detail(taskId), 'items'] as const,
+  itemVersions: (taskId: string, index: number) => [...MEMO_QUERY_KEYS.items(taskId), index, 'versions'] as const,
+  related: (taskId: string) => [...MEMO_QUERY_KEYS.detail(taskId), 'related'] as const,
+  memoTags: (taskId: string) => [...MEMO_QUERY_KEYS.detail(taskId), 'tags'] as const,
+  tags: () => [...MEMO_QUERY_KEYS.all, 'tags'] as const,
+  inbox: (status: InboxStatusFilter) => [...MEMO_QUERY_KEYS.all, 'inbox', status] as const,
+  search: (query: string) => [...MEMO_QUERY_KEYS.all, 'search', query] as const,
 }
 
 // ============================================================================
@@ -29,44 +66,39 @@ export const MEMO_QUERY_KEYS = {
 // ============================================================================
 
 /**
- * Fetch list of all memos for current user
- * Enables polling to show real-time updates of memo completion
+ * Fetch the user's memos a page at a time, for infinite scrolling
+ * Pages are chained by the cursor each response returns
  * Gets fresh token from Clerk for each request
  */
-export function useMemoList(limit: number = 100, offset: number = 0) {
+export function useMemoList(filters: MemoListFilters = {}, pageSize: number = MEMO_LIST_PAGE_SIZE) {
   const { getToken, isLoaded, isSignedIn } = useAuth()
 
-  const memoList = useQuery<MemoSummary[], ApiError>({
-    queryKey: MEMO_QUERY_KEYS.list(limit, offset),
-    queryFn: async () => {
+  return useInfiniteQuery<MemoListResponse, ApiError, InfiniteData<MemoListResponse>, ReturnType<typeof MEMO_QUERY_KEYS.list>, string | null>({
+    queryKey: MEMO_QUERY_KEYS.list(filters),
+    queryFn: async ({ pageParam }) => {
       const token = await getToken()
       if (!token) {
         throw new Error('No authentication token available')
       }
-      const response = await apiRequest<MemoListResponse>(
-        `/api/v1/memos?limit=${limit}&offset=${offset}`,
-        {},
-        token
-      )
-      return response.memos
+      const params = new URLSearchParams({ limit: String(pageSize) })
+      if (filters.status && filters.status.length > 0) params.set('status', filters.status.join(','))
+      if (filters.from) params.set('from', filters.from)
+      if (filters.to) params.set('to', filters.to)
+      if (filters.hasOpenItems !== undefined) params.set('hasOpenItems', String(filters.hasOpenItems))
+      if (filters.tag) params.set('tag', filters.tag)
+      if (filters.sort) params.set('sort', filters.sort)
+      if (filters.order) params.set('order', filters.order)
+      if (pageParam) params.set('cursor', pageParam)
+      return apiRequest<MemoListResponse>(`/api/v1/memos?${params}`, {}, token)
     },
+    initialPageParam: null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
     // Only fetch when Clerk is loaded and user is signed in
     enabled: isLoaded && isSignedIn,
-    staleTime: 5000, // 5 seconds
-    // Poll every 3 seconds to show real-time updates when memos are processing
-    refetchInterval: 3000,
-    refetchIntervalInBackground: true,
+    staleTime: 30000,
+    placeholderData: keepPreviousData,
     retry: 2,
   })
-
-  // Check if there are any pending memos
-  const hasPendingMemos = memoList.data?.some(memo => memo.status === 'pending' || memo.status === 'processing')
-
-  return {
-    ...memoList,
-    // Only poll if there are pending memos, otherwise disable polling
-    refetchInterval: hasPendingMemos ? 3000 : false,
-  }
 }
 
 /**
@@ -111,19 +143,33 @@ export function useMemoDetail(taskId: string) {
 
 /**
  * Upload new memo audio file
+ * Large recordings are sent in resumable parts; progress is the fraction sent so far (0-1) while uploading
  * Returns taskId for polling
  */
 export function useUploadMemo() {
   const queryClient = useQueryClient()
   const { getToken } = useAuth()
+  const [progress, setProgress] = useState<number | null>(null)
 
-  return useMutation<UploadMemoResponse, ApiError, Blob>({
+  const mutation = useMutation<UploadMemoResponse, ApiError, Blob>({
     mutationFn: async (audioBlob: Blob) => {
-      const token = await getToken()
-      if (!token) {
-        throw new Error('No authentication token available')
+      if (audioBlob.size <= CHUNKED_UPLOAD_THRESHOLD) {
+        const token = await getToken()
+        if (!token) {
+          throw new Error('No authentication token available')
+        }
+        return uploadFile('/api/v1/memo', 'audio', audioBlob, token)
+      }
+
+      setProgress(0)
+      try {
+        // A fresh token per request: large uploads can outlast a single session token
+        return await uploadFileInParts<UploadMemoResponse>(audioBlob, getToken, (uploaded, total) =>
+          setProgress(uploaded / total)
+        )
+      } finally {
+        setProgress(null)
       }
-      return uploadFile('/api/v1/memo', 'audio', audioBlob, token)
     },
     onSuccess: (data) => {
       // Invalidate memo list to refetch updated list
@@ -147,6 +193,8 @@ export function useUploadMemo() {
       console.error('Upload failed:', error)
     },
   })
+
+  return { ...mutation, progress }
 }
 
 /**
@@ -172,10 +220,13 @@ export function useDeleteMemo() {
         queryKey: MEMO_QUERY_KEYS.detail(taskId),
       })
 
-      // Invalidate list to refetch
+      // Invalidate list (and tag counts) to refetch
       queryClient.invalidateQueries({
         queryKey: MEMO_QUERY_KEYS.lists(),
       })
+      queryClient.invalidateQueries({
+        queryKey: MEMO_QUERY_KEYS.tags(),
+      })
     },
     onError: (error) => {
       console.error('Delete failed:', error)
@@ -183,6 +234,592 @@ export function useDeleteMemo() {
   })
 }
 
+/**
+ * Rerun processing for a completed or failed memo from the chosen stage
+ * Progress then streams over the memo's WebSocket like a fresh upload
+ */
+export function useReprocessMemo() {
+  const queryClient = useQueryClient()
+  const { getToken } = useAuth()
+
+  return useMutation<ReprocessMemoResponse, ApiError, { taskId: string; fromStage: ReprocessStage }>({
+    mutationFn: async ({ taskId, fromStage }) => {
+      const token = await getToken()
+      if (!token) {
+        throw new Error('No authentication token available')
+      }
+      return apiRequest<ReprocessMemoResponse>(`/api/v1/memo/${taskId}/reprocess`, {
+        method: 'POST',
+        body: JSON.stringify({ fromStage }),
+      }, token)
+    },
+    onSuccess: (_, { taskId }) => {
+      // Previous results are about to be replaced
+      // The list is refreshed by MemoStatusProvider once the new run completes
+      queryClient.invalidateQueries({
+        queryKey: MEMO_QUERY_KEYS.detail(taskId),
+      })
+    },
+    onError: (error) => {
+      console.error('Reprocess failed:', error)
+    },
+  })
+}
+
+/**
+ * Save a corrected transcript, optionally re-extracting tasks from it
+ * Without re-extraction the cached memo is updated in place; with it the memo
+ * goes back through the pipeline like a reprocess from 'extract'
+ */
+export function useUpdateTranscription() {
+  const queryClient = useQueryClient()
+  const { getToken } = useAuth()
+
+  return useMutation<
+    UpdateTranscriptionResponse,
+    ApiError,
+    { taskId: string; transcription: string; reextract: boolean }
+  >({
+    mutationFn: async ({ taskId, transcription, reextract }) => {
+      const token = await getToken()
+      if (!token) {
+        throw new Error('No authentication token available')
+      }
+      return apiRequest<UpdateTranscriptionResponse>(`/api/v1/memo/${taskId}/transcription`, {
+        method: 'PATCH',
+        body: JSON.stringify({ transcription, reextract }),
+      }, token)
+    },
+    onSuccess: (data, { taskId, reextract }) => {
+      if (reextract) {
+        // Same as a reprocess: the detail refetches, the list refreshes when the run completes
+        queryClient.invalidateQueries({
+          queryKey: MEMO_QUERY_KEYS.detail(taskId),
+        })
+        return
+      }
+
+      queryClient.setQueryData<MemoDetailResponse>(MEMO_QUERY_KEYS.detail(taskId), (old) =>
+        old ? { ...old, transcription: data.transcription, originalTranscription: data.originalTranscription } : old
+      )
+      queryClient.invalidateQueries({
+        queryKey: MEMO_QUERY_KEYS.revisions(taskId),
+      })
+      queryClient.invalidateQueries({
+        queryKey: MEMO_QUERY_KEYS.lists(),
+      })
+    },
+    onError: (error) => {
+      console.error('Transcription update failed:', error)
+    },
+  })
+}
+
+/**
+ * Rename a memo
+ * The cached memo is updated in place; lists refetch to show the new title
+ */
+export function useUpdateMemoTitle() {
+  const queryClient = useQueryClient()
+  const { getToken } = useAuth()
+
+  return useMutation<UpdateTitleResponse, ApiError, { taskId: string; title: string }>({
+    mutationFn: async ({ taskId, title }) => {
+      const token = await getToken()
+      if (!token) {
+        throw new Error('No authentication token available')
+      }
+      return apiRequest<UpdateTitleResponse>(`/api/v1/memo/${taskId}/title`, {
+        method: 'PATCH',
+        body: JSON.stringify({ title }),
+      }, token)
+    },
+    onSuccess: (data, { taskId }) => {
+      queryClient.setQueryData<MemoDetailResponse>(MEMO_QUERY_KEYS.detail(taskId), (old) =>
+        old ? { ...old, title: data.title } : old
+      )
+      queryClient.invalidateQueries({
+        queryKey: MEMO_QUERY_KEYS.lists(),
+      })
+    },
+    onError: (error) => {
+      console.error('Title update failed:', error)
+    },
+  })
+}
+
+/**
+ * Fetch a memo's original transcript and correction history
+ * Only fetched while the history is shown
+ */
+export function useTranscriptionRevisions(taskId: string, enabled: boolean) {
+  const { getToken, isLoaded, isSignedIn } = useAuth()
+
+  return useQuery<TranscriptionRevisionsResponse, ApiError>({
+    queryKey: MEMO_QUERY_KEYS.revisions(taskId),
+    queryFn: async () => {
+      const token = await getToken()
+      if (!token) {
+        throw new Error('No authentication token available')
+      }
+      return apiRequest<TranscriptionRevisionsResponse>(`/api/v1/memo/${taskId}/transcription/revisions`, {}, token)
+    },
+    enabled: enabled && isLoaded && isSignedIn,
+  })
+}
+
+/**
+ * Fetch a memo's items (its tasks as individual records)
+ * Nested under the detail key, so anything that refreshes the memo refreshes its items
+ */
+export function useMemoItems(taskId: string, enabled: boolean = true) {
+  const { getToken, isLoaded, isSignedIn } = useAuth()
+
+  return useQuery<MemoItemsResponse, ApiError>({
+    queryKey: MEMO_QUERY_KEYS.items(taskId),
+    queryFn: async () => {
+      const token = await getToken()
+      if (!token) {
+        throw new Error('No authentication token available')
+      }
+      return apiRequest<MemoItemsResponse>(`/api/v1/memo/${taskId}/items`, {}, token)
+    },
+    enabled: enabled && isLoaded && isSignedIn,
+  })
+}
+
+/**
+ * Add an item to a memo
+ */
+export function useCreateMemoItem() {
+  const queryClient = useQueryClient()
+  const { getToken } = useAuth()
+
+  return useMutation<MemoItem, ApiError, { taskId: string; text: string; due?: string | null }>({
+    mutationFn: async ({ taskId, text, due }) => {
+      const token = await getToken()
+      if (!token) {
+        throw new Error('No authentication token available')
+      }
+      return apiRequest<MemoItem>(`/api/v1/memo/${taskId}/items`, {
+        method: 'POST',
+        body: JSON.stringify({ text, due }),
+      }, token)
+    },
+    onSuccess: (item, { taskId }) => {
+      queryClient.setQueryData<MemoItemsResponse>(MEMO_QUERY_KEYS.items(taskId), (old) =>
+        old ? { ...old, items: [...old.items, item] } : old
+      )
+    },
+    onError: (error) => {
+      console.error('Add item failed:', error)
+    },
+  })
+}
+
+/**
+ * Edit, complete or move a memo item
+ * Text and completion changes are applied optimistically and rolled back on failure
+ */
+export function useUpdateMemoItem() {
+  const queryClient = useQueryClient()
+  const { getToken } = useAuth()
+
+  return useMutation<
+    MemoItem,
+    ApiError,
+    { taskId: string; itemId: string; update: MemoItemUpdate },
+    { previous?: MemoItemsResponse }
+  >({
+    mutationFn: async ({ taskId, itemId, update }) => {
+      const token = await getToken()
+      if (!token) {
+        throw new Error('No authentication token available')
+      }
+      return apiRequest<MemoItem>(`/api/v1/memo/${taskId}/items/${itemId}`, {
+        method: 'PATCH',
+        body: JSON.stringify(update),
+      }, token)
+    },
+    onMutate: async ({ taskId, itemId, update }) => {
+      const queryKey = MEMO_QUERY_KEYS.items(taskId)
+      await queryClient.cancelQueries({ queryKey })
+      const previous = queryClient.getQueryData<MemoItemsResponse>(queryKey)
+
+      if (update.position === undefined) {
+        queryClient.setQueryData<MemoItemsResponse>(queryKey, (old) =>
+          old
+            ? { ...old, items: old.items.map((item) => (item.itemId === itemId ? { ...item, ...update } : item)) }
+            : old
+        )
+      }
+      return { previous }
+    },
+    onError: (error, { taskId }, context) => {
+      console.error('Update item failed:', error)
+      if (context?.previous) {
+        queryClient.setQueryData(MEMO_QUERY_KEYS.items(taskId), context.previous)
+      }
+    },
+    onSuccess: (item, { taskId, update }) => {
+      if (update.position !== undefined) {
+        // Moving renumbers other items too
+        queryClient.invalidateQueries({
+          queryKey: MEMO_QUERY_KEYS.items(taskId),
+        })
+        return
+      }
+
+      queryClient.setQueryData<MemoItemsResponse>(MEMO_QUERY_KEYS.items(taskId), (old) =>
+        old ? { ...old, items: old.items.map((existing) => (existing.itemId === item.itemId ? item : existing)) } : old
+      )
+      queryClient.invalidateQueries({
+        queryKey: [...MEMO_QUERY_KEYS.all, 'inbox'],
+      })
+    },
+  })
+}
+
+/**
+ * Delete a memo item
+ */
+export function useDeleteMemoItem() {
+  const queryClient = useQueryClient()
+  const { getToken } = useAuth()
+
+  return useMutation<void, ApiError, { taskId: string; itemId: string }>({
+    mutationFn: async ({ taskId, itemId }) => {
+      const token = await getToken()
+      if (!token) {
+        throw new Error('No authentication token available')
+      }
+      await apiRequest(`/api/v1/memo/${taskId}/items/${itemId}`, {
+        method: 'DELETE',
+      }, token)
+    },
+    onSuccess: (_, { taskId, itemId }) => {
+      queryClient.setQueryData<MemoItemsResponse>(MEMO_QUERY_KEYS.items(taskId), (old) =>
+        old ? { ...old, items: old.items.filter((item) => item.itemId !== itemId) } : old
+      )
+    },
+    onError: (error) => {
+      console.error('Delete item failed:', error)
+    },
+  })
+}
+
+/**
+ * Fetch the saved drafts of an item's generated content
+ * Only fetched while the versions are shown
+ */
+export function useItemContentVersions(taskId: string, index: number, enabled: boolean) {
+  const { getToken, isLoaded, isSignedIn } = useAuth()
+
+  return useQuery<MemoItemVersionsResponse, ApiError>({
+    queryKey: MEMO_QUERY_KEYS.itemVersions(taskId, index),
+    queryFn: async () => {
+      const token = await getToken()
+      if (!token) {
+        throw new Error('No authentication token available')
+      }
+      return apiRequest<MemoItemVersionsResponse>(`/api/v1/memo/${taskId}/items/${index}/versions`, {}, token)
+    },
+    enabled: enabled && isLoaded && isSignedIn,
+  })
+}
+
+/**
+ * Store a generate/select response: the item's new current content and its drafts
+ */
+function setItemVersions(
+  queryClient: ReturnType<typeof useQueryClient>,
+  taskId: string,
+  index: number,
+  data: MemoItemVersionsResponse
+) {
+  queryClient.setQueryData(MEMO_QUERY_KEYS.itemVersions(taskId, index), data)
+  queryClient.setQueryData<MemoItemsResponse>(MEMO_QUERY_KEYS.items(taskId), (old) =>
+    old ? { ...old, items: old.items.map((item) => (item.itemId === data.item.itemId ? data.item : item)) } : old
+  )
+}
+
+/**
+ * Regenerate an item's content, optionally refining the current draft ("make it shorter")
+ */
+export function useGenerateItemContent() {
+  const queryClient = useQueryClient()
+  const { getToken } = useAuth()
+
+  return useMutation<MemoItemVersionsResponse, ApiError, { taskId: string; index: number; instruction?: string }>({
+    mutationFn: async ({ taskId, index, instruction }) => {
+      const token = await getToken()
+      if (!token) {
+        throw new Error('No authentication token available')
+      }
+      return apiRequest<MemoItemVersionsResponse>(`/api/v1/memo/${taskId}/items/${index}/generate`, {
+        method: 'POST',
+        body: JSON.stringify(instruction ? { instruction } : {}),
+      }, token)
+    },
+    onSuccess: (data, { taskId, index }) => {
+      setItemVersions(queryClient, taskId, index, data)
+    },
+    onError: (error) => {
+      console.error('Generate content failed:', error)
+    },
+  })
+}
+
+/**
+ * Make a saved draft the item's current content
+ */
+export function useSelectItemContentVersion() {
+  const queryClient = useQueryClient()
+  const { getToken } = useAuth()
+
+  return useMutation<MemoItemVersionsResponse, ApiError, { taskId: string; index: number; versionId: string }>({
+    mutationFn: async ({ taskId, index, versionId }) => {
+      const token = await getToken()
+      if (!token) {
+        throw new Error('No authentication token available')
+      }
+      return apiRequest<MemoItemVersionsResponse>(`/api/v1/memo/${taskId}/items/${index}/versions/${versionId}/select`, {
+        method: 'POST',
+      }, token)
+    },
+    onSuccess: (data, { taskId, index }) => {
+      setItemVersions(queryClient, taskId, index, data)
+    },
+    onError: (error) => {
+      console.error('Select version failed:', error)
+    },
+  })
+}
+
+/**
+ * Fetch the user's tags with memo counts, for the tag sidebar
+ */
+export function useTags() {
+  const { getToken, isLoaded, isSignedIn } = useAuth()
+
+  return useQuery<TagsResponse, ApiError>({
+    queryKey: MEMO_QUERY_KEYS.tags(),
+    queryFn: async () => {
+      const token = await getToken()
+      if (!token) {
+        throw new Error('No authentication token available')
+      }
+      return apiRequest<TagsResponse>('/api/v1/tags', {}, token)
+    },
+    enabled: isLoaded && isSignedIn,
+  })
+}
+
+/**
+ * Fetch a memo's tags
+ */
+export function useMemoTags(taskId: string, enabled: boolean = true) {
+  const { getToken, isLoaded, isSignedIn } = useAuth()
+
+  return useQuery<MemoTagsResponse, ApiError>({
+    queryKey: MEMO_QUERY_KEYS.memoTags(taskId),
+    queryFn: async () => {
+      const token = await getToken()
+      if (!token) {
+        throw new Error('No authentication token available')
+      }
+      return apiRequest<MemoTagsResponse>(`/api/v1/memo/${taskId}/tags`, {}, token)
+    },
+    enabled: enabled && isLoaded && isSignedIn,
+  })
+}
+
+/**
+ * Tag a memo by name; refreshes tag counts and the memo list chips
+ */
+export function useAddMemoTag() {
+  const queryClient = useQueryClient()
+  const { getToken } = useAuth()
+
+  return useMutation<MemoTagsResponse, ApiError, { taskId: string; name: string }>({
+    mutationFn: async ({ taskId, name }) => {
+      const token = await getToken()
+      if (!token) {
+        throw new Error('No authentication token available')
+      }
+      return apiRequest<MemoTagsResponse>(`/api/v1/memo/${taskId}/tags`, {
+        method: 'POST',
+        body: JSON.stringify({ name }),
+      }, token)
+    },
+    onSuccess: (data, { taskId }) => {
+      queryClient.setQueryData(MEMO_QUERY_KEYS.memoTags(taskId), data)
+      queryClient.invalidateQueries({ queryKey: MEMO_QUERY_KEYS.tags() })
+      queryClient.invalidateQueries({ queryKey: MEMO_QUERY_KEYS.lists() })
+    },
+    onError: (error) => {
+      console.error('Add tag failed:', error)
+    },
+  })
+}
+
+/**
+ * Remove a tag from a memo; refreshes tag counts and the memo list chips
+ */
+export function useRemoveMemoTag() {
+  const queryClient = useQueryClient()
+  const { getToken } = useAuth()
+
+  return useMutation<void, ApiError, { taskId: string; tagId: string }>({
+    mutationFn: async ({ taskId, tagId }) => {
+      const token = await getToken()
+      if (!token) {
+        throw new Error('No authentication token available')
+      }
+      await apiRequest(`/api/v1/memo/${taskId}/tags/${tagId}`, {
+        method: 'DELETE',
+      }, token)
+    },
+    onSuccess: (_, { taskId, tagId }) => {
+      queryClient.setQueryData<MemoTagsResponse>(MEMO_QUERY_KEYS.memoTags(taskId), (old) =>
+        old ? { ...old, tags: old.tags.filter((tag) => tag.tagId !== tagId) } : old
+      )
+      queryClient.invalidateQueries({ queryKey: MEMO_QUERY_KEYS.tags() })
+      queryClient.invalidateQueries({ queryKey: MEMO_QUERY_KEYS.lists() })
+    },
+    onError: (error) => {
+      console.error('Remove tag failed:', error)
+    },
+  })
+}
+
+/**
+ * Full-text search over memo transcriptions and tasks
+ * Disabled for an empty query; keeps the previous results while the next query loads
+ */
+export function useSearchMemos(query: string) {
+  const { getToken, isLoaded, isSignedIn } = useAuth()
+  const trimmed = query.trim()
+
+  return useQuery<SearchMemosResponse, ApiError>({
+    queryKey: MEMO_QUERY_KEYS.search(trimmed),
+    queryFn: async () => {
+      const token = await getToken()
+      if (!token) {
+        throw new Error('No authentication token available')
+      }
+      return apiRequest<SearchMemosResponse>(
+        `/api/v1/memos/search?q=${encodeURIComponent(trimmed)}`,
+        {},
+        token
+      )
+    },
+    enabled: isLoaded && isSignedIn && trimmed.length > 0,
+    placeholderData: keepPreviousData,
+  })
+}
+
+/**
+ * Fetch the memos most similar to a memo (by embedding)
+ */
+export function useRelatedMemos(taskId: string, enabled: boolean = true) {
+  const { getToken, isLoaded, isSignedIn } = useAuth()
+
+  return useQuery<RelatedMemosResponse, ApiError>({
+    queryKey: MEMO_QUERY_KEYS.related(taskId),
+    queryFn: async () => {
+      const token = await getToken()
+      if (!token) {
+        throw new Error('No authentication token available')
+      }
+      return apiRequest<RelatedMemosResponse>(`/api/v1/memo/${taskId}/related`, {}, token)
+    },
+    enabled: enabled && isLoaded && isSignedIn,
+  })
+}
+
+/**
+ * Fetch action items across all memos for the inbox
+ */
+export function useInboxItems(status: InboxStatusFilter = 'open') {
+  const { getToken, isLoaded, isSignedIn } = useAuth()
+
+  return useQuery<InboxItemsResponse, ApiError>({
+    queryKey: MEMO_QUERY_KEYS.inbox(status),
+    queryFn: async () => {
+      const token = await getToken()
+      if (!token) {
+        throw new Error('No authentication token available')
+      }
+      return apiRequest<InboxItemsResponse>(`/api/v1/items?status=${status}`, {}, token)
+    },
+    enabled: isLoaded && isSignedIn,
+  })
+}
+
+/**
+ * Complete or snooze (set a new due date on) several items at once
+ */
+export function useBulkUpdateItems() {
+  const queryClient = useQueryClient()
+  const { getToken } = useAuth()
+
+  return useMutation<
+    BulkUpdateItemsResponse,
+    ApiError,
+    { itemIds: string[]; completed?: boolean; due?: string | null }
+  >({
+    mutationFn: async (request) => {
+      const token = await getToken()
+      if (!token) {
+        throw new Error('No authentication token available')
+      }
+      return apiRequest<BulkUpdateItemsResponse>('/api/v1/items', {
+        method: 'PATCH',
+        body: JSON.stringify(request),
+      }, token)
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({
+        queryKey: [...MEMO_QUERY_KEYS.all, 'inbox'],
+      })
+      // Refresh the affected memos' item lists
+      for (const taskId of new Set(data.items.map((item) => item.taskId))) {
+        queryClient.invalidateQueries({
+          queryKey: MEMO_QUERY_KEYS.items(taskId),
+        })
+      }
+    },
+    onError: (error) => {
+      console.error('Bulk update failed:', error)
+    },
+  })
+}
+
+/**
+ * Ask a question about the user's memos
+ * history carries earlier turns so follow-up questions make sense
+ */
+export function useAskMemos() {
+  const { getToken } = useAuth()
+
+  return useMutation<AskResponse, ApiError, { question: string; history: AskMessage[] }>({
+    mutationFn: async (request) => {
+      const token = await getToken()
+      if (!token) {
+        throw new Error('No authentication token available')
+      }
+      return apiRequest<AskResponse>('/api/v1/ask', {
+        method: 'POST',
+        body: JSON.stringify(request),
+      }, token)
+    },
+    onError: (error) => {
+      console.error('Ask failed:', error)
+    },
+  })
+}
+
 /**
  * Download original audio file
  * Returns blob that can be played or downloaded
@@ -83,6 +83,7 @@ export function useWebSocketMemo(taskId: string, initialMemo?: MemoDetailRespons
             // If completed, all stages done. If failed, wait for history.
             // If pending/processing, default to pending and wait for history to update
             transcribe: memoData.status === 'completed' ? 'completed' : 'pending',
+            summarize: memoData.status === 'completed' ? 'completed' : 'pending',
             extract: memoData.status === 'completed' ? 'completed' : 'pending',
             generate: memoData.status === 'completed' ? 'completed' : 'pending',
           },
@@ -107,6 +108,7 @@ export function useWebSocketMemo(taskId: string, initialMemo?: MemoDetailRespons
     if (!memoState) return null
     const stages: Array<[keyof Omit<StageProgress, 'db_update'>, string]> = [
       ['transcribe', 'transcribe'],
+      ['summarize', 'summarize'],
       ['extract', 'extract'],
       ['generate', 'generate'],
     ]
@@ -220,10 +222,12 @@ export function useWebSocketMemo(taskId: string, initialMemo?: MemoDetailRespons
       // Update stage progress (skip db_update as it's internal)
       if (
         update.stage === 'transcribe' ||
+        update.stage === 'summarize' ||
         update.stage === 'extract' ||
         update.stage === 'generate'
       ) {
-        const newStatus = update.status === 'failed' ? 'failed' : update.status
+        // Progress and delta events only happen while a stage is running
+        const newStatus = update.status === 'progress' || update.status === 'delta' ? 'started' : update.status
         newState.stageProgress = {
           ...newState.stageProgress,
           [update.stage]: newStatus,
@@ -255,6 +259,7 @@ export function useWebSocketMemo(taskId: string, initialMemo?: MemoDetailRespons
         newState.status = 'completed'
         newState.stageProgress = {
           transcribe: 'completed',
+          summarize: 'completed',
           extract: 'completed',
           generate: 'completed',
         }
@@ -365,10 +370,11 @@ export function useWebSocketMemo(taskId: string, initialMemo?: MemoDetailRespons
       // Update stage progress (skip db_update)
       if (
         update.stage === 'transcribe' ||
+        update.stage === 'summarize' ||
         update.stage === 'extract' ||
         update.stage === 'generate'
       ) {
-        newProgress[update.stage] = update.status === 'failed' ? 'failed' : update.status
+        newProgress[update.stage] = update.status === 'progress' || update.status === 'delta' ? 'started' : update.status
       }
 
       // Extract transcription from history if available
@@ -505,6 +511,7 @@ export function useWebSocketMemo(taskId: string, initialMemo?: MemoDetailRespons
         status: memoData.status as any,
         stageProgress: {
           transcribe: memoData.status === 'completed' ? 'completed' : 'pending',
+          summarize: memoData.status === 'completed' ? 'completed' : 'pending',
           extract: memoData.status === 'completed' ? 'completed' : 'pending',
           generate: memoData.status === 'completed' ? 'completed' : 'pending',
         },
@@ -589,6 +596,7 @@ export function useWebSocketMemo(taskId: string, initialMemo?: MemoDetailRespons
     // Workflow progress (without db_update)
     stageProgress: memoState?.stageProgress || {
       transcribe: 'pending',
+      summarize: 'pending',
       extract: 'pending',
       generate: 'pending',
     },
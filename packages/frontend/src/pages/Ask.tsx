@@ -0,0 +1,166 @@
+/**
+ * Ask - Chat with your memos
+ * Features:
+ * - Questions are answered from the user's own recordings
+ * - Each answer lists the memo passages it cites, with timestamps
+ * - Follow-up questions carry the conversation so far
+ */
+
+import { useState } from 'react'
+import { formatDistanceToNow, parseISO } from 'date-fns'
+import { useAskMemos } from '../hooks/useMemoApi'
+import { AskCitation, AskMessage } from '../types/api'
+import { formatTimestamp } from '../components/TranscriptSegments'
+
+interface AskProps {
+  onOpenMemo: (taskId: string) => void
+}
+
+type ChatMessage = AskMessage & { citations?: AskCitation[] }
+
+// Only the most recent turns are sent back as context
+const MAX_HISTORY_MESSAGES = 10
+
+const EXAMPLE_QUESTIONS = [
+  'What did I promise to do this week?',
+  'What ideas did I have about the project?',
+  'Who do I need to call back?',
+]
+
+export function Ask({ onOpenMemo }: AskProps) {
+  const [messages, setMessages] = useState<ChatMessage[]>([])
+  const [question, setQuestion] = useState('')
+  const ask = useAskMemos()
+
+  const handleAsk = (text: string) => {
+    const trimmed = text.trim()
+    if (!trimmed || ask.isPending) return
+
+    const history = messages
+      .slice(-MAX_HISTORY_MESSAGES)
+      .map(({ role, content }) => ({ role, content }))
+    setMessages((prev) => [...prev, { role: 'user', content: trimmed }])
+    setQuestion('')
+
+    ask.mutate(
+      { question: trimmed, history },
+      {
+        onSuccess: (data) => {
+          setMessages((prev) => [...prev, { role: 'assistant', content: data.answer, citations: data.citations }])
+        },
+      }
+    )
+  }
+
+  return (
+    <main className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+      <div className="flex items-center justify-between gap-4">
+        <h2 className="text-2xl font-bold text-white">Ask your memos</h2>
+        {messages.length > 0 && (
+          <button
+            onClick={() => {
+              setMessages([])
+              ask.reset()
+            }}
+            className="text-sm text-slate-400 hover:text-white"
+          >
+            New conversation
+          </button>
+        )}
+      </div>
+
+      {messages.length === 0 && (
+        <section className="bg-slate-800/50 border border-slate-700 rounded-lg p-6 space-y-3">
+          <p className="text-slate-300">Ask anything you've talked about in a memo. Try:</p>
+          <div className="flex flex-wrap gap-2">
+            {EXAMPLE_QUESTIONS.map((example) => (
+              <button
+                key={example}
+                onClick={() => handleAsk(example)}
+                className="px-3 py-1 bg-slate-700 text-slate-300 rounded-full hover:bg-slate-600 text-sm"
+              >
+                {example}
+              </button>
+            ))}
+          </div>
+        </section>
+      )}
+
+      <div className="space-y-4">
+        {messages.map((message, idx) =>
+          message.role === 'user' ? (
+            <div key={idx} className="flex justify-end">
+              <p className="max-w-[80%] px-4 py-2 bg-blue-500/20 text-blue-100 rounded-lg">{message.content}</p>
+            </div>
+          ) : (
+            <div key={idx} className="p-4 bg-slate-700/50 border border-slate-600 rounded-lg space-y-3">
+              <p className="text-slate-100 whitespace-pre-wrap">{message.content}</p>
+              {message.citations && message.citations.length > 0 && (
+                <div className="space-y-2 pt-2 border-t border-slate-600">
+                  {message.citations.map((citation) => (
+                    <CitationRow
+                      key={citation.ref}
+                      citation={citation}
+                      onOpen={() => onOpenMemo(citation.taskId)}
+                    />
+                  ))}
+                </div>
+              )}
+            </div>
+          )
+        )}
+
+        {ask.isPending && (
+          <div className="h-16 bg-slate-700/50 border border-slate-600 rounded-lg animate-pulse"></div>
+        )}
+        {ask.isError && (
+          <p className="text-red-400 text-sm">Couldn't get an answer: {ask.error.message}</p>
+        )}
+      </div>
+
+      <form
+        onSubmit={(e) => {
+          e.preventDefault()
+          handleAsk(question)
+        }}
+        className="flex gap-2"
+      >
+        <input
+          value={question}
+          onChange={(e) => setQuestion(e.target.value)}
+          placeholder={messages.length > 0 ? 'Ask a follow-up' : 'Ask a question'}
+          maxLength={1000}
+          className="flex-1 px-3 py-2 bg-slate-800 border border-slate-600 rounded text-slate-100"
+          aria-label="Question"
+        />
+        <button
+          type="submit"
+          disabled={ask.isPending || !question.trim()}
+          className="px-4 py-2 bg-blue-500/20 text-blue-400 rounded hover:bg-blue-500/30 font-semibold disabled:opacity-50"
+        >
+          Ask
+        </button>
+      </form>
+    </main>
+  )
+}
+
+interface CitationRowProps {
+  citation: AskCitation
+  onOpen: () => void
+}
+
+function CitationRow({ citation, onOpen }: CitationRowProps) {
+  return (
+    <button onClick={onOpen} className="w-full text-left flex gap-2 text-sm group">
+      <span className="text-blue-400 font-semibold shrink-0">[{citation.ref}]</span>
+      <span className="min-w-0">
+        <span className="text-slate-300 group-hover:text-white line-clamp-2">{citation.text}</span>
+        <span className="block text-xs text-slate-400">
+          Memo from {formatDistanceToNow(parseISO(citation.memoCreatedAt), { addSuffix: true })}
+          {citation.start !== null && <> · {formatTimestamp(citation.start)}</>}
+        </span>
+      </span>
+    </button>
+  )
+}
@@ -2,6 +2,7 @@
  * Dashboard - Main page for managing voice memos
  * Features:
  * - RecordButton component for recording
+ * - TagSidebar to filter memos by tag
  * - MemoList component showing all memos
  * - MemoDetail view with transcription and extracted tasks
  */
@@ -10,13 +11,19 @@ import { useState, useEffect } from 'react'
 import { useUser } from '@clerk/clerk-react'
 import { RecordButton } from '../components/RecordButton'
 import { MemoList } from '../components/MemoList'
+import { TagSidebar } from '../components/TagSidebar'
 import { MemoDetail } from '../components/MemoDetail'
 import { MemoStatusProvider } from '../context/MemoStatusProvider'
 
-export function Dashboard() {
+interface DashboardProps {
+  initialMemoId?: string | null
+}
+
+export function Dashboard({ initialMemoId = null }: DashboardProps) {
   const { isLoaded } = useUser()
-  const [selectedMemoId, setSelectedMemoId] = useState<string | null>(null)
+  const [selectedMemoId, setSelectedMemoId] = useState<string | null>(initialMemoId)
   const [uploadInProgress, setUploadInProgress] = useState(false)
+  const [selectedTag, setSelectedTag] = useState<string | undefined>()
   const [toastMessage, setToastMessage] = useState<string | null>(null)
 
   // Show toast notification
@@ -60,14 +67,27 @@ export function Dashboard() {
             />
           </section>
 
+          {/* Tags Section */}
+          <TagSidebar selectedTag={selectedTag} onSelectTag={setSelectedTag} />
+
           {/* Memos List Section */}
           <section className="bg-slate-800/50 border border-slate-700 rounded-lg p-6">
             <div className="flex items-center justify-between mb-4">
               <h2 className="text-xl font-bold text-white">Your Memos</h2>
+              {selectedTag && (
+                <button
+                  onClick={() => setSelectedTag(undefined)}
+                  className="text-sm text-purple-300 hover:text-white"
+                  aria-label="Clear tag filter"
+                >
+                  #{selectedTag} ×
+                </button>
+              )}
             </div>
             <MemoList
               isLoading={uploadInProgress}
               onMemoClick={(taskId) => setSelectedMemoId(taskId)}
+              tag={selectedTag}
             />
           </section>
         </div>
@@ -79,6 +99,7 @@ export function Dashboard() {
               <MemoDetail
                 taskId={selectedMemoId}
                 onClose={() => setSelectedMemoId(null)}
+                onOpenMemo={setSelectedMemoId}
                 onDelete={() => {
                   setSelectedMemoId(null)
                   setToastMessage('Memo deleted')
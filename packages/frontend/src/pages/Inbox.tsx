@@ -0,0 +1,183 @@
+/**
+ * Inbox - Action items from every memo in one place
+ * Features:
+ * - Items grouped into Overdue / Today / Upcoming / No date
+ * - Select items to complete or snooze them in bulk
+ * - Jump to the memo an item came from
+ */
+
+import { useState } from 'react'
+import { formatDistanceToNow, parseISO } from 'date-fns'
+import { useBulkUpdateItems, useInboxItems } from '../hooks/useMemoApi'
+import { InboxItem, InboxStatusFilter } from '../types/api'
+import { addDays, groupItemsByDue } from '../utils/itemGroups'
+
+interface InboxProps {
+  onOpenMemo: (taskId: string) => void
+}
+
+const GROUPS = [
+  { key: 'overdue', label: 'Overdue', accent: 'text-red-400' },
+  { key: 'today', label: 'Today', accent: 'text-blue-400' },
+  { key: 'upcoming', label: 'Upcoming', accent: 'text-slate-200' },
+  { key: 'noDate', label: 'No date', accent: 'text-slate-400' },
+] as const
+
+export function Inbox({ onOpenMemo }: InboxProps) {
+  const [status, setStatus] = useState<InboxStatusFilter>('open')
+  const [selected, setSelected] = useState<Set<string>>(new Set())
+  const { data, isLoading, error } = useInboxItems(status)
+  const bulkUpdate = useBulkUpdateItems()
+
+  const groups = groupItemsByDue(data?.items ?? [])
+
+  const toggleSelected = (itemId: string) => {
+    setSelected((prev) => {
+      const next = new Set(prev)
+      if (next.has(itemId)) {
+        next.delete(itemId)
+      } else {
+        next.add(itemId)
+      }
+      return next
+    })
+  }
+
+  const applyToSelected = (update: { completed?: boolean; due?: string }) => {
+    bulkUpdate.mutate(
+      { itemIds: [...selected], ...update },
+      { onSuccess: () => setSelected(new Set()) }
+    )
+  }
+
+  return (
+    <main className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <h2 className="text-2xl font-bold text-white">Inbox</h2>
+        <select
+          value={status}
+          onChange={(e) => {
+            setStatus(e.target.value as InboxStatusFilter)
+            setSelected(new Set())
+          }}
+          className="px-3 py-2 bg-slate-700 text-slate-200 rounded border border-slate-600 text-sm"
+          aria-label="Filter by status"
+        >
+          <option value="open">Open</option>
+          <option value="completed">Completed</option>
+          <option value="all">All</option>
+        </select>
+      </div>
+
+      {/* Bulk actions */}
+      {selected.size > 0 && (
+        <div className="sticky top-16 z-10 flex flex-wrap items-center gap-2 p-3 bg-slate-800 border border-slate-600 rounded-lg">
+          <span className="text-sm text-slate-300 mr-2">{selected.size} selected</span>
+          <button
+            onClick={() => applyToSelected({ completed: status !== 'completed' })}
+            disabled={bulkUpdate.isPending}
+            className="px-3 py-1 bg-green-500/20 text-green-400 rounded hover:bg-green-500/30 text-sm font-semibold disabled:opacity-50"
+          >
+            {status === 'completed' ? 'Reopen' : 'Complete'}
+          </button>
+          <button
+            onClick={() => applyToSelected({ due: addDays(new Date(), 1) })}
+            disabled={bulkUpdate.isPending}
+            className="px-3 py-1 bg-slate-700 text-slate-300 rounded hover:bg-slate-600 text-sm disabled:opacity-50"
+          >
+            Snooze to tomorrow
+          </button>
+          <button
+            onClick={() => applyToSelected({ due: addDays(new Date(), 7) })}
+            disabled={bulkUpdate.isPending}
+            className="px-3 py-1 bg-slate-700 text-slate-300 rounded hover:bg-slate-600 text-sm disabled:opacity-50"
+          >
+            Snooze a week
+          </button>
+          <button
+            onClick={() => setSelected(new Set())}
+            className="px-3 py-1 text-slate-400 hover:text-white text-sm"
+          >
+            Clear
+          </button>
+        </div>
+      )}
+
+      {bulkUpdate.isError && (
+        <p className="text-red-400 text-sm">Update failed: {bulkUpdate.error.message}</p>
+      )}
+
+      {isLoading ? (
+        <div className="space-y-2">
+          {[1, 2, 3].map((i) => (
+            <div key={i} className="h-14 bg-slate-700/50 border border-slate-600 rounded-lg animate-pulse"></div>
+          ))}
+        </div>
+      ) : error ? (
+        <p className="text-red-400 text-sm">{error.message || 'Failed to load items'}</p>
+      ) : data?.items.length === 0 ? (
+        <section className="bg-slate-800/50 border border-slate-700 rounded-lg p-6 text-center py-12">
+          <p className="text-slate-300 font-semibold">Nothing here</p>
+          <p className="text-slate-400 text-sm">Tasks extracted from your memos will show up in the inbox.</p>
+        </section>
+      ) : (
+        GROUPS.map(({ key, label, accent }) =>
+          groups[key].length > 0 ? (
+            <section key={key} className="space-y-2">
+              <h3 className={`text-sm font-semibold uppercase tracking-wide ${accent}`}>
+                {label} <span className="text-slate-500">({groups[key].length})</span>
+              </h3>
+              {groups[key].map((item) => (
+                <InboxRow
+                  key={item.itemId}
+                  item={item}
+                  isSelected={selected.has(item.itemId)}
+                  onToggle={() => toggleSelected(item.itemId)}
+                  onOpenMemo={() => onOpenMemo(item.taskId)}
+                />
+              ))}
+            </section>
+          ) : null
+        )
+      )}
+    </main>
+  )
+}
+
+interface InboxRowProps {
+  item: InboxItem
+  isSelected: boolean
+  onToggle: () => void
+  onOpenMemo: () => void
+}
+
+function InboxRow({ item, isSelected, onToggle, onOpenMemo }: InboxRowProps) {
+  return (
+    <div
+      className={`flex items-start gap-3 p-3 border rounded-lg ${
+        isSelected ? 'bg-blue-500/10 border-blue-500/50' : 'bg-slate-700/50 border-slate-600'
+      }`}
+    >
+      <input
+        type="checkbox"
+        checked={isSelected}
+        onChange={onToggle}
+        className="mt-1"
+        aria-label={`Select "${item.text}"`}
+      />
+      <div className="flex-1 min-w-0">
+        <p className={`text-slate-100 font-semibold ${item.completed ? 'line-through opacity-60' : ''}`}>{item.text}</p>
+        <p className="text-xs text-slate-400 mt-1">
+          {item.due && <>Due {new Date(item.due).toLocaleDateString()} · </>}
+          From memo {formatDistanceToNow(parseISO(item.memoCreatedAt), { addSuffix: true })}
+        </p>
+      </div>
+      <button
+        onClick={onOpenMemo}
+        className="text-xs px-2 py-1 bg-slate-700 text-slate-300 rounded hover:bg-slate-600 shrink-0"
+      >
+        Open memo
+      </button>
+    </div>
+  )
+}
@@ -4,18 +4,93 @@
 
 export interface MemoListResponse {
   memos: MemoSummary[]
-  total: number
+  nextCursor: string | null // null on the last page
   hasMore: boolean
 }
 
+export type MemoSortField = 'created' | 'updated' | 'processingTime'
+
+// Filters and sort for the memo list; from/to bound createdAt (from inclusive, to exclusive)
+export interface MemoListFilters {
+  status?: MemoSummary['status'][]
+  from?: string
+  to?: string
+  hasOpenItems?: boolean
+  tag?: string // tag name
+  sort?: MemoSortField
+  order?: 'asc' | 'desc'
+}
+
 export interface MemoSummary {
   taskId: string
   status: 'pending' | 'processing' | 'completed' | 'failed'
   createdAt: string
   updatedAt: string
+  title?: string // Absent until the memo has been summarized
+  summary?: string // One-sentence TL;DR
+  keyPoints?: string[]
   transcription?: string
   taskCount?: number
   processingTimeSeconds?: number
+  durationSeconds?: number // Length of the recording, read from the file at upload
+  sampleRate?: number // Hz
+  channels?: number
+  codec?: string // e.g. 'opus', 'mp3', 'aac', 'pcm'
+  sizeBytes?: number
+  tags?: MemoTag[]
+}
+
+// source is 'ai' for tags suggested during processing
+export interface MemoTag {
+  tagId: string
+  name: string
+  source: 'user' | 'ai'
+}
+
+export interface TagCount {
+  tagId: string
+  name: string
+  memoCount: number
+}
+
+export interface TagsResponse {
+  tags: TagCount[]
+}
+
+export interface MemoTagsResponse {
+  taskId: string
+  tags: MemoTag[]
+}
+
+// Matched words in the snippets are wrapped in <mark></mark>
+export interface MemoSearchResult {
+  taskId: string
+  status: MemoSummary['status']
+  createdAt: string
+  updatedAt: string
+  transcriptionSnippet: string | null
+  taskSnippet: string | null
+  score: number
+}
+
+export interface SearchMemosResponse {
+  query: string
+  results: MemoSearchResult[]
+  limit: number
+  offset: number
+}
+
+export interface RelatedMemo {
+  taskId: string
+  status: MemoSummary['status']
+  createdAt: string
+  score: number
+  preview: string
+}
+
+export interface RelatedMemosResponse {
+  taskId: string
+  related: RelatedMemo[]
 }
 
 export interface MemoDetailResponse {
@@ -23,7 +98,17 @@ export interface MemoDetailResponse {
   status: 'pending' | 'processing' | 'completed' | 'failed'
   createdAt: string
   updatedAt: string
+  title?: string
+  summary?: string
+  keyPoints?: string[]
+  durationSeconds?: number
+  sampleRate?: number
+  channels?: number
+  codec?: string
+  sizeBytes?: number
   transcription?: string
+  transcriptSegments?: TranscriptSegment[]
+  originalTranscription?: string // Whisper's transcript, present once the user has corrected it
   processedTasks?: ProcessedTask[]
   originalAudioUrl?: string
   errorMessage?: string
@@ -34,6 +119,13 @@ export interface ProcessedTask {
   due: string | null
   generative_task_prompt: string | null
   generated_content?: string
+  segmentIndex?: number | null // Index into transcriptSegments the task was extracted from
+}
+
+export interface TranscriptSegment {
+  start: number // Seconds from the start of the audio
+  end: number
+  text: string
 }
 
 export interface UploadMemoResponse {
@@ -42,8 +134,121 @@ export interface UploadMemoResponse {
   statusUrl: string
 }
 
+export type ReprocessStage = 'transcribe' | 'extract' | 'generate'
+
+export interface ReprocessMemoResponse {
+  taskId: string
+  status: 'pending'
+  fromStage: ReprocessStage
+  statusUrl: string
+}
+
+export interface MemoItem {
+  itemId: string
+  taskId: string
+  position: number
+  text: string
+  originalText: string // Text as extracted, before any user edit
+  due: string | null
+  completed: boolean
+  completedAt: string | null
+  generativeTaskPrompt: string | null
+  generatedContent: string | null
+  segmentIndex: number | null
+  createdAt: string
+  updatedAt: string
+}
+
+export interface MemoItemsResponse {
+  taskId: string
+  items: MemoItem[]
+}
+
+export interface GeneratedContentVersion {
+  versionId: string
+  content: string
+  instruction: string | null // Refinement that produced the draft, null for a fresh generation
+  createdAt: string
+}
+
+export interface MemoItemVersionsResponse {
+  item: MemoItem
+  versions: GeneratedContentVersion[]
+}
+
+export interface InboxItem extends MemoItem {
+  memoCreatedAt: string
+}
+
+export type InboxStatusFilter = 'open' | 'completed' | 'all'
+
+export interface InboxItemsResponse {
+  items: InboxItem[]
+  count: number
+}
+
+export interface BulkUpdateItemsResponse {
+  items: MemoItem[]
+  updated: number
+}
+
+export interface MemoItemUpdate {
+  text?: string
+  due?: string | null
+  completed?: boolean
+  position?: number
+}
+
+export interface TranscriptionRevision {
+  revisionId: string
+  transcription: string
+  createdAt: string
+}
+
+export interface UpdateTranscriptionResponse {
+  taskId: string
+  transcription: string
+  originalTranscription: string
+  revision: TranscriptionRevision
+  reextracting: boolean
+  status?: 'pending'
+  statusUrl?: string
+}
+
+export interface UpdateTitleResponse {
+  taskId: string
+  title: string
+}
+
+export interface TranscriptionRevisionsResponse {
+  taskId: string
+  transcription: string | null
+  originalTranscription: string | null
+  revisions: TranscriptionRevision[]
+}
+
 export interface ApiError {
   message: string
   status?: number
   code?: string
 }
+
+export interface AskMessage {
+  role: 'user' | 'assistant'
+  content: string
+}
+
+// A passage the answer cites as [ref]; start/end are seconds into the recording when known
+export interface AskCitation {
+  ref: number
+  taskId: string
+  memoCreatedAt: string
+  start: number | null
+  end: number | null
+  text: string
+}
+
+export interface AskResponse {
+  answer: string
+  citations: AskCitation[]
+}
@@ -3,8 +3,8 @@
  * Mirrors the backend StatusUpdate interface
  */
 
-export type WorkflowStage = 'workflow' | 'transcribe' | 'extract' | 'generate' | 'db_update'
-export type UpdateStatus = 'started' | 'completed' | 'failed'
+export type WorkflowStage = 'workflow' | 'transcribe' | 'summarize' | 'extract' | 'generate' | 'db_update'
+export type UpdateStatus = 'started' | 'progress' | 'delta' | 'completed' | 'failed'
 export type StageStatus = 'pending' | 'started' | 'completed' | 'failed'
 export type ConnectionStatus = 'connected' | 'disconnected' | 'reconnecting'
 
@@ -13,6 +13,11 @@ export interface StatusUpdate {
   stage: WorkflowStage
   status: UpdateStatus
   timestamp: number
+  progress?: { completed: number; total: number } // Only for progress events (e.g. transcribed chunks)
+  itemIndex?: number // Generate stage: index of the extracted task whose content is being generated
+  itemCount?: number // Generate stage: how many tasks have content to generate (not sent with deltas)
+  itemTask?: string // Generate stage: text of the task being generated (not sent with deltas)
+  delta?: string // Only for delta events: the next piece of streamed content
   duration_ms?: number
   error_message?: string
   overallStatus?: 'completed' | 'failed' // Final workflow status when workflow completes
@@ -29,11 +34,18 @@ export type WebSocketMessage = StatusUpdate | HistoryMessage
 
 export interface StageProgress {
   transcribe: StageStatus
+  summarize: StageStatus
   extract: StageStatus
   generate: StageStatus
   // db_update is internal-only, not exposed to UI
 }
 
+// Per-task progress of the generate stage, which runs several tasks at once
+export interface GenerateProgress {
+  total: number
+  items: Record<number, { task: string; status: StageStatus }> // By extracted task index
+}
+
 export interface WorkflowError {
   stage: WorkflowStage
   message: string
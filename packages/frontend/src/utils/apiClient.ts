@@ -135,6 +135,129 @@ export async function uploadFile(
   return response
 }
 
+/**
+ * Recordings larger than this are sent in parts through a resumable upload session
+ */
+export const CHUNKED_UPLOAD_THRESHOLD = 10 * 1024 * 1024
+
+// Each part is tried this many times, with exponential backoff, before the upload gives up
+const MAX_PART_ATTEMPTS = 3
+const PART_RETRY_DELAY_MS = 1000
+
+interface UploadSession {
+  uploadId: string
+  partSize: number
+  partCount: number
+  uploadedParts: number[]
+}
+
+// Upload sessions of recordings whose upload failed, so uploading the same Blob again resumes it
+const pendingUploads = new WeakMap<Blob, string>()
+
+/**
+ * Clerk's getToken; skipCache forces a new session token instead of the cached one
+ */
+export type TokenGetter = (options?: { skipCache?: boolean }) => Promise<string | null>
+
+/**
+ * Get a session token for the next request
+ */
+async function requireToken(getToken: TokenGetter, refresh: boolean = false): Promise<string> {
+  const token = await getToken(refresh ? { skipCache: true } : undefined)
+  if (!token) {
+    throw new Error('No authentication token available')
+  }
+  return token
+}
+
+/**
+ * Make a request with a fresh session token, retrying once with a refreshed token after a 401
+ * Session tokens are short-lived, so a long upload can't reuse the one it started with
+ */
+async function authorizedRequest<T>(endpoint: string, options: ClientOptions, getToken: TokenGetter): Promise<T> {
+  try {
+    return await apiRequest<T>(endpoint, options, await requireToken(getToken))
+  } catch (error) {
+    if ((error as ApiError).status !== 401) {
+      throw error
+    }
+    return apiRequest<T>(endpoint, options, await requireToken(getToken, true))
+  }
+}
+
+/**
+ * Upload a large recording in parts through a resumable upload session
+ * Only parts the server doesn't have yet are sent, so retrying after a failure picks up where it stopped
+ * Every request gets its own token from getToken, so uploads outlasting one session token keep working
+ * Responds like POST /api/v1/memo
+ */
+export async function uploadFileInParts<T>(
+  blob: Blob,
+  getToken: TokenGetter,
+  onProgress?: (uploadedBytes: number, totalBytes: number) => void
+): Promise<T> {
+  let session: UploadSession | null = null
+  const pendingUploadId = pendingUploads.get(blob)
+  if (pendingUploadId) {
+    session = await authorizedRequest<UploadSession>(`/api/v1/uploads/${pendingUploadId}`, {}, getToken).catch(
+      () => null
+    )
+  }
+  if (!session) {
+    session = await authorizedRequest<UploadSession>('/api/v1/uploads', {
+      method: 'POST',
+      body: JSON.stringify({ size: blob.size, contentType: blob.type || 'audio/webm' }),
+    }, getToken)
+  }
+  pendingUploads.set(blob, session.uploadId)
+
+  const { uploadId, partSize, partCount } = session
+  const uploaded = new Set(session.uploadedParts)
+  let uploadedBytes = session.uploadedParts.reduce(
+    (total, partNumber) => total + Math.min(partSize, blob.size - (partNumber - 1) * partSize),
+    0
+  )
+  onProgress?.(uploadedBytes, blob.size)
+
+  for (let partNumber = 1; partNumber <= partCount; partNumber++) {
+    if (uploaded.has(partNumber)) continue
+
+    const part = blob.slice((partNumber - 1) * partSize, partNumber * partSize)
+    await uploadPart(uploadId, partNumber, part, getToken)
+    uploadedBytes += part.size
+    onProgress?.(uploadedBytes, blob.size)
+  }
+
+  const result = await authorizedRequest<T>(`/api/v1/uploads/${uploadId}/complete`, { method: 'POST' }, getToken)
+  pendingUploads.delete(blob)
+  return result
+}
+
+/**
+ * Send one part, retrying network and server errors with exponential backoff
+ * An expired token (401) is refreshed and retried once by authorizedRequest
+ */
+async function uploadPart(uploadId: string, partNumber: number, part: Blob, getToken: TokenGetter): Promise<void> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      await authorizedRequest(`/api/v1/uploads/${uploadId}/parts/${partNumber}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/octet-stream' },
+        body: part,
+      }, getToken)
+      return
+    } catch (error) {
+      // Client errors (e.g. a wrong part size) won't succeed on retry
+      const status = (error as ApiError).status
+      if ((status !== undefined && status < 500) || attempt >= MAX_PART_ATTEMPTS) {
+        throw error
+      }
+    }
+
+    await new Promise((resolve) => setTimeout(resolve, PART_RETRY_DELAY_MS * 2 ** (attempt - 1)))
+  }
+}
+
 /**
  * Download binary file (like audio)
  */
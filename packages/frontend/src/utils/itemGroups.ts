@@ -0,0 +1,65 @@
+/**
+ * Utility functions for grouping action items by due date in the inbox
+ */
+
+import type { InboxItem } from '../types/api'
+
+export interface DueGroups {
+  overdue: InboxItem[]
+  today: InboxItem[]
+  upcoming: InboxItem[]
+  noDate: InboxItem[]
+}
+
+/**
+ * Local calendar date as YYYY-MM-DD
+ */
+export function toDateKey(date: Date): string {
+  const month = (date.getMonth() + 1).toString().padStart(2, '0')
+  const day = date.getDate().toString().padStart(2, '0')
+  return `${date.getFullYear()}-${month}-${day}`
+}
+
+/**
+ * Local calendar date `days` after `from`, as YYYY-MM-DD (used for snoozing)
+ */
+export function addDays(from: Date, days: number): string {
+  const date = new Date(from)
+  date.setDate(date.getDate() + days)
+  return toDateKey(date)
+}
+
+/**
+ * Calendar date of a due value
+ * Date-only values are already local dates; timestamps are converted to the local day
+ */
+function getDueDateKey(due: string): string {
+  return /^\d{4}-\d{2}-\d{2}$/.test(due) ? due : toDateKey(new Date(due))
+}
+
+/**
+ * Group items into Overdue / Today / Upcoming / No date relative to `now` (local time)
+ * Items keep their order within each group
+ */
+export function groupItemsByDue(items: InboxItem[], now: Date = new Date()): DueGroups {
+  const todayKey = toDateKey(now)
+  const groups: DueGroups = { overdue: [], today: [], upcoming: [], noDate: [] }
+
+  for (const item of items) {
+    if (!item.due) {
+      groups.noDate.push(item)
+      continue
+    }
+
+    const dueKey = getDueDateKey(item.due)
+    if (dueKey < todayKey) {
+      groups.overdue.push(item)
+    } else if (dueKey === todayKey) {
+      groups.today.push(item)
+    } else {
+      groups.upcoming.push(item)
+    }
+  }
+
+  return groups
+}
@@ -0,0 +1,59 @@
+/**
+ * Formatting for the recording details read from the audio file at upload
+ */
+
+export interface RecordingDetails {
+  sampleRate?: number
+  channels?: number
+  codec?: string
+  sizeBytes?: number
+}
+
+const CODEC_LABELS: Record<string, string> = {
+  opus: 'Opus',
+  vorbis: 'Vorbis',
+  aac: 'AAC',
+  alac: 'ALAC',
+  flac: 'FLAC',
+  mp3: 'MP3',
+  mp2: 'MP2',
+  pcm: 'PCM',
+  pcm_float: 'PCM (float)',
+}
+
+/**
+ * "48 kHz · Mono · Opus · 1.2 MB", leaving out whatever the file didn't say
+ */
+export function formatRecordingDetails(details: RecordingDetails): string {
+  const parts: string[] = []
+  if (details.sampleRate !== undefined) parts.push(formatSampleRate(details.sampleRate))
+  if (details.channels !== undefined) parts.push(formatChannels(details.channels))
+  if (details.codec !== undefined) parts.push(CODEC_LABELS[details.codec] ?? details.codec.toUpperCase())
+  if (details.sizeBytes !== undefined) parts.push(formatFileSize(details.sizeBytes))
+  return parts.join(' · ')
+}
+
+/**
+ * 44100 → "44.1 kHz", 48000 → "48 kHz"
+ */
+export function formatSampleRate(sampleRate: number): string {
+  return `${Number((sampleRate / 1000).toFixed(1))} kHz`
+}
+
+/**
+ * 1 → "Mono", 2 → "Stereo", 6 → "6 channels"
+ */
+export function formatChannels(channels: number): string {
+  if (channels === 1) return 'Mono'
+  if (channels === 2) return 'Stereo'
+  return `${channels} channels`
+}
+
+/**
+ * 512 → "512 B", 1258291 → "1.2 MB"
+ */
+export function formatFileSize(sizeBytes: number): string {
+  if (sizeBytes < 1024) return `${sizeBytes} B`
+  if (sizeBytes < 1024 * 1024) return `${Number((sizeBytes / 1024).toFixed(1))} KB`
+  return `${Number((sizeBytes / (1024 * 1024)).toFixed(1))} MB`
+}
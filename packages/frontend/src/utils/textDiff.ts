@@ -0,0 +1,53 @@
+/**
+ * Word-level diff for comparing transcript revisions and generated content drafts
+ */
+
+export interface DiffPart {
+  type: 'same' | 'added' | 'removed'
+  text: string
+}
+
+/**
+ * Diff two texts word by word (longest common subsequence)
+ * Consecutive words of the same type are merged into one part
+ */
+export function diffWords(before: string, after: string): DiffPart[] {
+  const a = before.split(/\s+/).filter(Boolean)
+  const b = after.split(/\s+/).filter(Boolean)
+
+  // lcs[i][j] = length of the longest common subsequence of a[i..] and b[j..]
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0))
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1])
+    }
+  }
+
+  const parts: DiffPart[] = []
+  const push = (type: DiffPart['type'], word: string) => {
+    const last = parts[parts.length - 1]
+    if (last && last.type === type) {
+      last.text += ` ${word}`
+    } else {
+      parts.push({ type, text: word })
+    }
+  }
+
+  let i = 0
+  let j = 0
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      push('same', a[i])
+      i++
+      j++
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      push('removed', a[i++])
+    } else {
+      push('added', b[j++])
+    }
+  }
+  while (i < a.length) push('removed', a[i++])
+  while (j < b.length) push('added', b[j++])
+
+  return parts
+}
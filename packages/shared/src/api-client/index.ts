@@ -5,8 +5,36 @@
 
 import type {
   CreateMemoResponse,
+  CreateUploadRequest,
+  UploadSessionResponse,
   GetMemoResponse,
+  GetMemosParams,
   GetMemosResponse,
+  SearchMemosResponse,
+  SemanticSearchResponse,
+  GetRelatedMemosResponse,
+  ReprocessMemoResponse,
+  ReprocessStage,
+  UpdateTranscriptionResponse,
+  UpdateTitleResponse,
+  GetTranscriptionRevisionsResponse,
+  MemoItem,
+  GetMemoItemsResponse,
+  CreateMemoItemRequest,
+  UpdateMemoItemRequest,
+  GenerateItemContentRequest,
+  MemoItemVersionsResponse,
+  GetTagsResponse,
+  MemoTagsResponse,
+  GetItemsParams,
+  GetItemsResponse,
+  BulkUpdateItemsRequest,
+  BulkUpdateItemsResponse,
+  AskMessage,
+  AskResponse,
+  CreateApiKeyRequest,
+  CreateApiKeyResponse,
+  GetApiKeysResponse,
   ErrorResponse,
 } from '../types/index';
 
@@ -15,9 +43,28 @@ export interface ApiClientConfig {
   getAuthToken?: () => Promise<string> | string;
 }
 
+/**
+ * Options for uploading a memo
+ * - onProgress: called as bytes are sent (after each part for large recordings)
+ */
+export interface UploadMemoOptions {
+  onProgress?: (uploadedBytes: number, totalBytes: number) => void;
+}
+
+/**
+ * Recordings larger than this are sent in parts through a resumable upload session
+ */
+export const CHUNKED_UPLOAD_THRESHOLD = 10 * 1024 * 1024;
+
+// Each part is tried this many times, with exponential backoff, before the upload gives up
+const MAX_PART_ATTEMPTS = 3;
+const PART_RETRY_DELAY_MS = 1000;
+
 export class ApiClient {
   private baseUrl: string;
   private getAuthToken?: () => Promise<string> | string;
+  // Upload sessions of recordings whose upload failed, so uploading the same Blob again resumes it
+  private pendingUploads = new WeakMap<Blob, string>();
 
   constructor(config: ApiClientConfig) {
     this.baseUrl = config.baseUrl.replace(/\/$/, '');
@@ -63,8 +110,13 @@ export class ApiClient {
 
   /**
    * Upload a new voice memo
+   * Large recordings are sent in parts; if that fails, uploading the same Blob again resumes where it stopped
    */
-  async uploadMemo(audioBlob: Blob): Promise<CreateMemoResponse> {
+  async uploadMemo(audioBlob: Blob, options: UploadMemoOptions = {}): Promise<CreateMemoResponse> {
+    if (audioBlob.size > CHUNKED_UPLOAD_THRESHOLD) {
+      return this.uploadMemoInParts(audioBlob, options);
+    }
+
     const formData = new FormData();
     formData.append('audio', audioBlob);
 
@@ -82,15 +134,132 @@ export class ApiClient {
       body: formData,
     });
 
-    return this.handleResponse<CreateMemoResponse>(response);
+    const result = await this.handleResponse<CreateMemoResponse>(response);
+    options.onProgress?.(audioBlob.size, audioBlob.size);
+    return result;
+  }
+
+  /**
+   * Upload a large recording through a resumable upload session, sending only the parts not yet stored
+   */
+  private async uploadMemoInParts(audioBlob: Blob, options: UploadMemoOptions): Promise<CreateMemoResponse> {
+    const headers = await this.getHeaders();
+    const session = await this.getOrCreateUploadSession(audioBlob, headers);
+    this.pendingUploads.set(audioBlob, session.uploadId);
+
+    const uploaded = new Set(session.uploadedParts);
+    let uploadedBytes = session.uploadedParts.reduce(
+      (total, partNumber) => total + Math.min(session.partSize, audioBlob.size - (partNumber - 1) * session.partSize),
+      0
+    );
+    options.onProgress?.(uploadedBytes, audioBlob.size);
+
+    for (let partNumber = 1; partNumber <= session.partCount; partNumber++) {
+      if (uploaded.has(partNumber)) continue;
+
+      const part = audioBlob.slice((partNumber - 1) * session.partSize, partNumber * session.partSize);
+      await this.uploadPart(session.uploadId, partNumber, part, headers);
+      uploadedBytes += part.size;
+      options.onProgress?.(uploadedBytes, audioBlob.size);
+    }
+
+    const response = await fetch(`${this.baseUrl}/api/v1/uploads/${session.uploadId}/complete`, {
+      method: 'POST',
+      headers,
+    });
+
+    const result = await this.handleResponse<CreateMemoResponse>(response);
+    this.pendingUploads.delete(audioBlob);
+    return result;
+  }
+
+  /**
+   * Resume this Blob's earlier upload session if the server still has it, otherwise start a new one
+   */
+  private async getOrCreateUploadSession(audioBlob: Blob, headers: Record<string, string>): Promise<UploadSessionResponse> {
+    const pendingUploadId = this.pendingUploads.get(audioBlob);
+    if (pendingUploadId) {
+      const response = await fetch(`${this.baseUrl}/api/v1/uploads/${pendingUploadId}`, {
+        method: 'GET',
+        headers,
+      });
+      if (response.ok) {
+        return this.handleResponse<UploadSessionResponse>(response);
+      }
+    }
+
+    const request: CreateUploadRequest = {
+      size: audioBlob.size,
+      contentType: audioBlob.type || 'audio/webm',
+      filename: audioBlob instanceof File ? audioBlob.name : undefined,
+    };
+
+    const response = await fetch(`${this.baseUrl}/api/v1/uploads`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify(request),
+    });
+
+    return this.handleResponse<UploadSessionResponse>(response);
+  }
+
+  /**
+   * Send one part, retrying network and server errors with exponential backoff
+   */
+  private async uploadPart(uploadId: string, partNumber: number, part: Blob, headers: Record<string, string>): Promise<void> {
+    const partHeaders = { ...headers, 'Content-Type': 'application/octet-stream' };
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        const response = await fetch(`${this.baseUrl}/api/v1/uploads/${uploadId}/parts/${partNumber}`, {
+          method: 'PUT',
+          headers: partHeaders,
+          body: part,
+        });
+        // Client errors (e.g. a wrong part size) won't succeed on retry
+        if (response.ok || response.status < 500 || attempt >= MAX_PART_ATTEMPTS) {
+          await this.handleResponse(response);
+          return;
+        }
+      } catch (error) {
+        if (error instanceof ApiError || attempt >= MAX_PART_ATTEMPTS) {
+          throw error;
+        }
+      }
+
+      await new Promise((resolve) => setTimeout(resolve, PART_RETRY_DELAY_MS * 2 ** (attempt - 1)));
+    }
   }
 
   /**
-   * Get all memos for the authenticated user
+   * Get one page of memos for the authenticated user, newest first by default
+   * Pass the response's nextCursor back as `cursor` to fetch the following page
    */
-  async getMemos(limit: number = 100, offset: number = 0): Promise<GetMemosResponse> {
+  async getMemos(params: GetMemosParams = {}): Promise<GetMemosResponse> {
     const headers = await this.getHeaders();
     const url = new URL(`${this.baseUrl}/api/v1/memos`);
+    Object.entries(params).forEach(([key, value]) => {
+      if (value !== undefined) {
+        // Arrays (status) are sent comma-separated
+        url.searchParams.append(key, String(value));
+      }
+    });
+
+    const response = await fetch(url.toString(), {
+      method: 'GET',
+      headers,
+    });
+
+    return this.handleResponse<GetMemosResponse>(response);
+  }
+
+  /**
+   * Search memo transcriptions and tasks, best match first
+   */
+  async searchMemos(query: string, limit: number = 20, offset: number = 0): Promise<SearchMemosResponse> {
+    const headers = await this.getHeaders();
+    const url = new URL(`${this.baseUrl}/api/v1/memos/search`);
+    url.searchParams.append('q', query);
     url.searchParams.append('limit', limit.toString());
     url.searchParams.append('offset', offset.toString());
 
@@ -99,7 +268,38 @@ export class ApiClient {
       headers,
     });
 
-    return this.handleResponse<GetMemosResponse>(response);
+    return this.handleResponse<SearchMemosResponse>(response);
+  }
+
+  /**
+   * Search memos by meaning rather than exact words
+   */
+  async semanticSearchMemos(query: string, limit: number = 10): Promise<SemanticSearchResponse> {
+    const headers = await this.getHeaders();
+    const url = new URL(`${this.baseUrl}/api/v1/memos/semantic`);
+    url.searchParams.append('q', query);
+    url.searchParams.append('limit', limit.toString());
+
+    const response = await fetch(url.toString(), {
+      method: 'GET',
+      headers,
+    });
+
+    return this.handleResponse<SemanticSearchResponse>(response);
+  }
+
+  /**
+   * Get the memos most similar to a memo
+   */
+  async getRelatedMemos(taskId: string, limit: number = 5): Promise<GetRelatedMemosResponse> {
+    const headers = await this.getHeaders();
+
+    const response = await fetch(`${this.baseUrl}/api/v1/memo/${taskId}/related?limit=${limit}`, {
+      method: 'GET',
+      headers,
+    });
+
+    return this.handleResponse<GetRelatedMemosResponse>(response);
   }
 
   /**
@@ -156,6 +356,347 @@ export class ApiClient {
       throw new ApiError(error.message, response.status, error);
     }
   }
+
+  /**
+   * Rerun processing for a completed or failed memo, starting from the given stage
+   * Progress is reported the same way as a fresh upload
+   */
+  async reprocessMemo(taskId: string, fromStage: ReprocessStage = 'transcribe'): Promise<ReprocessMemoResponse> {
+    const headers = await this.getHeaders();
+
+    const response = await fetch(`${this.baseUrl}/api/v1/memo/${taskId}/reprocess`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({ fromStage }),
+    });
+
+    return this.handleResponse<ReprocessMemoResponse>(response);
+  }
+
+  /**
+   * Replace a memo's transcript with a correction, optionally re-extracting tasks from it
+   */
+  async updateTranscription(
+    taskId: string,
+    transcription: string,
+    reextract: boolean = false
+  ): Promise<UpdateTranscriptionResponse> {
+    const headers = await this.getHeaders();
+
+    const response = await fetch(`${this.baseUrl}/api/v1/memo/${taskId}/transcription`, {
+      method: 'PATCH',
+      headers,
+      body: JSON.stringify({ transcription, reextract }),
+    });
+
+    return this.handleResponse<UpdateTranscriptionResponse>(response);
+  }
+
+  /**
+   * Rename a memo; the new title is kept if the summary is regenerated
+   */
+  async updateTitle(taskId: string, title: string): Promise<UpdateTitleResponse> {
+    const headers = await this.getHeaders();
+
+    const response = await fetch(`${this.baseUrl}/api/v1/memo/${taskId}/title`, {
+      method: 'PATCH',
+      headers,
+      body: JSON.stringify({ title }),
+    });
+
+    return this.handleResponse<UpdateTitleResponse>(response);
+  }
+
+  /**
+   * Get a memo's original transcript and its correction history
+   */
+  async getTranscriptionRevisions(taskId: string): Promise<GetTranscriptionRevisionsResponse> {
+    const headers = await this.getHeaders();
+
+    const response = await fetch(`${this.baseUrl}/api/v1/memo/${taskId}/transcription/revisions`, {
+      method: 'GET',
+      headers,
+    });
+
+    return this.handleResponse<GetTranscriptionRevisionsResponse>(response);
+  }
+
+  /**
+   * Create a personal API key
+   * The returned `key` is only shown once and cannot be retrieved later
+   */
+  async createApiKey(request: CreateApiKeyRequest): Promise<CreateApiKeyResponse> {
+    const headers = await this.getHeaders();
+
+    const response = await fetch(`${this.baseUrl}/api/v1/api-keys`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify(request),
+    });
+
+    return this.handleResponse<CreateApiKeyResponse>(response);
+  }
+
+  /**
+   * List the authenticated user's API keys
+   */
+  async getApiKeys(): Promise<GetApiKeysResponse> {
+    const headers = await this.getHeaders();
+
+    const response = await fetch(`${this.baseUrl}/api/v1/api-keys`, {
+      method: 'GET',
+      headers,
+    });
+
+    return this.handleResponse<GetApiKeysResponse>(response);
+  }
+
+  /**
+   * Get a memo's items in display order
+   */
+  async getMemoItems(taskId: string): Promise<GetMemoItemsResponse> {
+    const headers = await this.getHeaders();
+
+    const response = await fetch(`${this.baseUrl}/api/v1/memo/${taskId}/items`, {
+      method: 'GET',
+      headers,
+    });
+
+    return this.handleResponse<GetMemoItemsResponse>(response);
+  }
+
+  /**
+   * Add an item to the end of a memo's list
+   */
+  async createMemoItem(taskId: string, item: CreateMemoItemRequest): Promise<MemoItem> {
+    const headers = await this.getHeaders();
+
+    const response = await fetch(`${this.baseUrl}/api/v1/memo/${taskId}/items`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify(item),
+    });
+
+    return this.handleResponse<MemoItem>(response);
+  }
+
+  /**
+   * Edit, complete or move a memo item
+   */
+  async updateMemoItem(taskId: string, itemId: string, update: UpdateMemoItemRequest): Promise<MemoItem> {
+    const headers = await this.getHeaders();
+
+    const response = await fetch(`${this.baseUrl}/api/v1/memo/${taskId}/items/${itemId}`, {
+      method: 'PATCH',
+      headers,
+      body: JSON.stringify(update),
+    });
+
+    return this.handleResponse<MemoItem>(response);
+  }
+
+  /**
+   * Delete a memo item
+   */
+  async deleteMemoItem(taskId: string, itemId: string): Promise<void> {
+    const headers = await this.getHeaders();
+
+    const response = await fetch(`${this.baseUrl}/api/v1/memo/${taskId}/items/${itemId}`, {
+      method: 'DELETE',
+      headers,
+    });
+
+    if (response.status === 204) {
+      return;
+    }
+
+    if (!response.ok) {
+      const data = await response.json();
+      const error = data as ErrorResponse;
+      throw new ApiError(error.message, response.status, error);
+    }
+  }
+
+  /**
+   * Regenerate an item's content, optionally refining the current draft with an instruction
+   */
+  async generateItemContent(taskId: string, index: number, instruction?: string): Promise<MemoItemVersionsResponse> {
+    const headers = await this.getHeaders();
+    const body: GenerateItemContentRequest = instruction ? { instruction } : {};
+
+    const response = await fetch(`${this.baseUrl}/api/v1/memo/${taskId}/items/${index}/generate`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify(body),
+    });
+
+    return this.handleResponse<MemoItemVersionsResponse>(response);
+  }
+
+  /**
+   * List the saved drafts of an item's generated content, oldest first
+   */
+  async getItemContentVersions(taskId: string, index: number): Promise<MemoItemVersionsResponse> {
+    const headers = await this.getHeaders();
+
+    const response = await fetch(`${this.baseUrl}/api/v1/memo/${taskId}/items/${index}/versions`, {
+      method: 'GET',
+      headers,
+    });
+
+    return this.handleResponse<MemoItemVersionsResponse>(response);
+  }
+
+  /**
+   * Make a saved draft the item's current content
+   */
+  async selectItemContentVersion(taskId: string, index: number, versionId: string): Promise<MemoItemVersionsResponse> {
+    const headers = await this.getHeaders();
+
+    const response = await fetch(`${this.baseUrl}/api/v1/memo/${taskId}/items/${index}/versions/${versionId}/select`, {
+      method: 'POST',
+      headers,
+    });
+
+    return this.handleResponse<MemoItemVersionsResponse>(response);
+  }
+
+  /**
+   * List the user's tags with how many memos carry each
+   */
+  async getTags(): Promise<GetTagsResponse> {
+    const headers = await this.getHeaders();
+
+    const response = await fetch(`${this.baseUrl}/api/v1/tags`, {
+      method: 'GET',
+      headers,
+    });
+
+    return this.handleResponse<GetTagsResponse>(response);
+  }
+
+  /**
+   * Get a memo's tags
+   */
+  async getMemoTags(taskId: string): Promise<MemoTagsResponse> {
+    const headers = await this.getHeaders();
+
+    const response = await fetch(`${this.baseUrl}/api/v1/memo/${taskId}/tags`, {
+      method: 'GET',
+      headers,
+    });
+
+    return this.handleResponse<MemoTagsResponse>(response);
+  }
+
+  /**
+   * Tag a memo by name, creating the tag if needed
+   */
+  async addMemoTag(taskId: string, name: string): Promise<MemoTagsResponse> {
+    const headers = await this.getHeaders();
+
+    const response = await fetch(`${this.baseUrl}/api/v1/memo/${taskId}/tags`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({ name }),
+    });
+
+    return this.handleResponse<MemoTagsResponse>(response);
+  }
+
+  /**
+   * Remove a tag from a memo
+   */
+  async removeMemoTag(taskId: string, tagId: string): Promise<void> {
+    const headers = await this.getHeaders();
+
+    const response = await fetch(`${this.baseUrl}/api/v1/memo/${taskId}/tags/${tagId}`, {
+      method: 'DELETE',
+      headers,
+    });
+
+    if (response.status === 204) {
+      return;
+    }
+
+    if (!response.ok) {
+      const data = await response.json();
+      const error = data as ErrorResponse;
+      throw new ApiError(error.message, response.status, error);
+    }
+  }
+
+  /**
+   * List action items across all memos (open items by default)
+   */
+  async getItems(params: GetItemsParams = {}): Promise<GetItemsResponse> {
+    const headers = await this.getHeaders();
+    const url = new URL(`${this.baseUrl}/api/v1/items`);
+    Object.entries(params).forEach(([key, value]) => {
+      if (value !== undefined) {
+        url.searchParams.append(key, String(value));
+      }
+    });
+
+    const response = await fetch(url.toString(), {
+      method: 'GET',
+      headers,
+    });
+
+    return this.handleResponse<GetItemsResponse>(response);
+  }
+
+  /**
+   * Complete or snooze (set a new due date on) several items at once
+   */
+  async bulkUpdateItems(request: BulkUpdateItemsRequest): Promise<BulkUpdateItemsResponse> {
+    const headers = await this.getHeaders();
+
+    const response = await fetch(`${this.baseUrl}/api/v1/items`, {
+      method: 'PATCH',
+      headers,
+      body: JSON.stringify(request),
+    });
+
+    return this.handleResponse<BulkUpdateItemsResponse>(response);
+  }
+
+  /**
+   * Ask a question about your memos; the answer cites the memos it used
+   */
+  async ask(question: string, history: AskMessage[] = []): Promise<AskResponse> {
+    const headers = await this.getHeaders();
+
+    const response = await fetch(`${this.baseUrl}/api/v1/ask`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({ question, history }),
+    });
+
+    return this.handleResponse<AskResponse>(response);
+  }
+
+  /**
+   * Revoke an API key by key ID
+   */
+  async revokeApiKey(keyId: string): Promise<void> {
+    const headers = await this.getHeaders();
+
+    const response = await fetch(`${this.baseUrl}/api/v1/api-keys/${keyId}`, {
+      method: 'DELETE',
+      headers,
+    });
+
+    if (response.status === 204) {
+      return;
+    }
+
+    if (!response.ok) {
+      const data = await response.json();
+      const error = data as ErrorResponse;
+      throw new ApiError(error.message, response.status, error);
+    }
+  }
 }
 
 /**
@@ -2,7 +2,13 @@
 export * from './types/index';
 
 // Export API client
-export { ApiClient, ApiError, type ApiClientConfig } from './api-client/index';
+export {
+  ApiClient,
+  ApiError,
+  CHUNKED_UPLOAD_THRESHOLD,
+  type ApiClientConfig,
+  type UploadMemoOptions,
+} from './api-client/index';
 
 // Export utilities
 export * from './utils/index';
@@ -16,6 +16,8 @@ export interface Task {
   status: TaskStatus;
   r2Key: string | null;
   transcription: string | null;
+  transcriptSegments: string | null;
+  originalTranscription: string | null;
   processedTasks: string | null;
   errorMessage: string | null;
   createdAt: string;
@@ -30,6 +32,16 @@ export interface ExtractedTask {
   due: string | null;
   generative_task_prompt: string | null;
   generated_content?: string;
+  segmentIndex?: number | null; // index into transcriptSegments the task was extracted from
+}
+
+/**
+ * Timestamped span of a transcription (seconds from the start of the audio)
+ */
+export interface TranscriptSegment {
+  start: number;
+  end: number;
+  text: string;
 }
 
 /**
@@ -41,6 +53,30 @@ export interface CreateMemoResponse {
   statusUrl: string;
 }
 
+/**
+ * API Request: POST /api/v1/uploads (resumable upload of a large recording)
+ */
+export interface CreateUploadRequest {
+  size: number; // bytes
+  contentType: string;
+  filename?: string;
+}
+
+/**
+ * API Response: POST /api/v1/uploads and GET /api/v1/uploads/{uploadId}
+ * Send parts 1..partCount (each partSize bytes, the last holds the rest) with
+ * PUT /api/v1/uploads/{uploadId}/parts/{partNumber}, then POST .../complete (responds like POST /api/v1/memo)
+ */
+export interface UploadSessionResponse {
+  uploadId: string;
+  taskId: string; // the memo's ID once the upload completes
+  status: 'uploading' | 'completed';
+  size: number;
+  partSize: number;
+  partCount: number;
+  uploadedParts: number[]; // parts already stored; only the rest need sending when resuming
+}
+
 /**
  * API Response: GET /api/v1/memo/{taskId} (pending)
  */
@@ -59,7 +95,17 @@ export interface GetMemoCompletedResponse {
   status: 'completed';
   createdAt: string;
   updatedAt: string;
+  title?: string; // AI-generated or user-edited; absent until the memo is summarized
+  summary?: string; // one-sentence TL;DR
+  keyPoints?: string[];
+  durationSeconds?: number; // read from the recording at upload; absent when the file didn't say
+  sampleRate?: number; // Hz
+  channels?: number;
+  codec?: string; // e.g. 'opus', 'mp3', 'aac', 'pcm'
+  sizeBytes?: number;
   transcription: string;
+  transcriptSegments?: TranscriptSegment[]; // absent for memos transcribed before segments were stored
+  originalTranscription?: string; // Whisper's transcript, present once the user has corrected it
   processedTasks: ExtractedTask[];
   originalAudioUrl: string;
 }
@@ -88,17 +134,377 @@ export interface MemoSummary {
   status: TaskStatus;
   createdAt: string;
   updatedAt: string;
+  title?: string;
+  summary?: string;
+  keyPoints?: string[];
   transcription?: string;
   taskCount?: number;
   processingTimeSeconds?: number;
+  durationSeconds?: number;
+  sampleRate?: number;
+  channels?: number;
+  codec?: string;
+  sizeBytes?: number;
+  tags: MemoTag[];
+}
+
+export type MemoSortField = 'created' | 'updated' | 'processingTime';
+
+/**
+ * Query parameters for GET /api/v1/memos
+ * - from/to bound createdAt (from inclusive, to exclusive)
+ * - cursor is nextCursor from the previous page; keep the other parameters unchanged
+ */
+export interface GetMemosParams {
+  status?: TaskStatus[];
+  from?: string;
+  to?: string;
+  hasOpenItems?: boolean;
+  tag?: string;
+  sort?: MemoSortField;
+  order?: 'asc' | 'desc';
+  limit?: number;
+  cursor?: string;
 }
 
 export interface GetMemosResponse {
   memos: MemoSummary[];
-  total: number;
+  nextCursor: string | null;
   hasMore: boolean;
 }
 
+/**
+ * Tag on a memo; source is 'ai' for tags suggested during processing
+ */
+export interface MemoTag {
+  tagId: string;
+  name: string;
+  source: 'user' | 'ai';
+}
+
+/**
+ * API Response: GET /api/v1/tags
+ */
+export interface TagCount {
+  tagId: string;
+  name: string;
+  memoCount: number;
+}
+
+export interface GetTagsResponse {
+  tags: TagCount[];
+}
+
+/**
+ * API Response: GET/POST /api/v1/memo/{taskId}/tags
+ */
+export interface MemoTagsResponse {
+  taskId: string;
+  tags: MemoTag[];
+}
+
+/**
+ * API Response: GET /api/v1/memos/search
+ * Matched words in the snippets are wrapped in <mark></mark>; the rest is raw memo text
+ */
+export interface MemoSearchResult {
+  taskId: string;
+  status: TaskStatus;
+  createdAt: string;
+  updatedAt: string;
+  transcriptionSnippet: string | null;
+  taskSnippet: string | null;
+  score: number;
+}
+
+export interface SearchMemosResponse {
+  query: string;
+  results: MemoSearchResult[];
+  limit: number;
+  offset: number;
+}
+
+/**
+ * API Response: GET /api/v1/memos/semantic
+ * `match` is the whole memo (segmentIndex null) or the transcript segment that matched best
+ */
+export interface SemanticSearchResult {
+  taskId: string;
+  status: TaskStatus;
+  createdAt: string;
+  score: number; // cosine similarity
+  match: {
+    text: string;
+    segmentIndex: number | null;
+  };
+}
+
+export interface SemanticSearchResponse {
+  query: string;
+  results: SemanticSearchResult[];
+  model: string;
+}
+
+/**
+ * API Response: GET /api/v1/memo/{taskId}/related
+ */
+export interface RelatedMemo {
+  taskId: string;
+  status: TaskStatus;
+  createdAt: string;
+  score: number; // cosine similarity
+  preview: string;
+}
+
+export interface GetRelatedMemosResponse {
+  taskId: string;
+  related: RelatedMemo[];
+}
+
+/**
+ * API Request/Response: POST /api/v1/ask
+ */
+export interface AskMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+export interface AskRequest {
+  question: string;
+  history?: AskMessage[]; // earlier turns, at most 10
+}
+
+/**
+ * Passage an answer cites as [ref]; start/end are seconds into the recording when known
+ */
+export interface AskCitation {
+  ref: number;
+  taskId: string;
+  memoCreatedAt: string;
+  start: number | null;
+  end: number | null;
+  text: string;
+}
+
+export interface AskResponse {
+  answer: string;
+  citations: AskCitation[];
+}
+
+/**
+ * Stage to restart processing from when reprocessing a memo
+ */
+export type ReprocessStage = 'transcribe' | 'extract' | 'generate';
+
+/**
+ * API Request/Response: POST /api/v1/memo/{taskId}/reprocess
+ */
+export interface ReprocessMemoRequest {
+  fromStage?: ReprocessStage;
+}
+
+export interface ReprocessMemoResponse {
+  taskId: string;
+  status: 'pending';
+  fromStage: ReprocessStage;
+  statusUrl: string;
+}
+
+/**
+ * A task from a memo, stored individually so it can be completed, edited and reordered
+ */
+export interface MemoItem {
+  itemId: string;
+  taskId: string; // the memo the item came from
+  position: number;
+  text: string;
+  originalText: string; // text as extracted, before any user edit
+  due: string | null;
+  completed: boolean;
+  completedAt: string | null;
+  generativeTaskPrompt: string | null;
+  generatedContent: string | null;
+  segmentIndex: number | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * API Response: GET /api/v1/memo/{taskId}/items
+ */
+export interface GetMemoItemsResponse {
+  taskId: string;
+  items: MemoItem[];
+}
+
+/**
+ * API Request: POST /api/v1/memo/{taskId}/items
+ */
+export interface CreateMemoItemRequest {
+  text: string;
+  due?: string | null;
+}
+
+/**
+ * API Request: PATCH /api/v1/memo/{taskId}/items/{itemId}
+ */
+export interface UpdateMemoItemRequest {
+  text?: string;
+  due?: string | null;
+  completed?: boolean;
+  position?: number;
+}
+
+/**
+ * A saved draft of an item's generated content
+ */
+export interface GeneratedContentVersion {
+  versionId: string;
+  content: string;
+  instruction: string | null; // refinement that produced the draft, null for a fresh generation
+  createdAt: string;
+}
+
+/**
+ * API Request: POST /api/v1/memo/{taskId}/items/{index}/generate
+ */
+export interface GenerateItemContentRequest {
+  instruction?: string; // e.g. "make it shorter"; omit to regenerate from the original prompt
+}
+
+/**
+ * API Response: generate, GET .../versions and POST .../versions/{versionId}/select
+ */
+export interface MemoItemVersionsResponse {
+  item: MemoItem;
+  versions: GeneratedContentVersion[];
+}
+
+/**
+ * Item in the cross-memo task inbox
+ */
+export interface InboxItem extends MemoItem {
+  memoCreatedAt: string;
+}
+
+/**
+ * API Request: GET /api/v1/items (query parameters)
+ */
+export interface GetItemsParams {
+  status?: 'open' | 'completed' | 'all'; // default 'open'
+  dueFrom?: string; // YYYY-MM-DD, inclusive
+  dueTo?: string; // YYYY-MM-DD, inclusive
+  hasDue?: boolean;
+  taskId?: string;
+  limit?: number; // 1-500, default 200
+}
+
+/**
+ * API Response: GET /api/v1/items
+ */
+export interface GetItemsResponse {
+  items: InboxItem[];
+  count: number;
+}
+
+/**
+ * API Request/Response: PATCH /api/v1/items (bulk complete / snooze)
+ */
+export interface BulkUpdateItemsRequest {
+  itemIds: string[];
+  completed?: boolean;
+  due?: string | null;
+}
+
+export interface BulkUpdateItemsResponse {
+  items: MemoItem[];
+  updated: number;
+}
+
+/**
+ * A user correction of a memo's transcript
+ */
+export interface TranscriptionRevision {
+  revisionId: string;
+  transcription: string;
+  createdAt: string;
+}
+
+/**
+ * API Request/Response: PATCH /api/v1/memo/{taskId}/transcription
+ */
+export interface UpdateTranscriptionRequest {
+  transcription: string;
+  reextract?: boolean;
+}
+
+export interface UpdateTranscriptionResponse {
+  taskId: string;
+  transcription: string;
+  originalTranscription: string;
+  revision: TranscriptionRevision;
+  reextracting: boolean;
+  status?: 'pending'; // present when re-extraction was queued
+  statusUrl?: string;
+}
+
+/**
+ * API Request/Response: PATCH /api/v1/memo/{taskId}/title
+ */
+export interface UpdateTitleRequest {
+  title: string;
+}
+
+export interface UpdateTitleResponse {
+  taskId: string;
+  title: string;
+}
+
+/**
+ * API Response: GET /api/v1/memo/{taskId}/transcription/revisions
+ */
+export interface GetTranscriptionRevisionsResponse {
+  taskId: string;
+  transcription: string | null;
+  originalTranscription: string | null;
+  revisions: TranscriptionRevision[];
+}
+
+/**
+ * Permissions that can be granted to a personal API key
+ */
+export type ApiKeyScope = 'memos:read' | 'memos:write';
+
+/**
+ * API Response: GET /api/v1/api-keys
+ */
+export interface ApiKeySummary {
+  keyId: string;
+  name: string;
+  keyPrefix: string;
+  scopes: ApiKeyScope[];
+  createdAt: string;
+  lastUsedAt: string | null;
+  revokedAt: string | null;
+}
+
+export interface GetApiKeysResponse {
+  apiKeys: ApiKeySummary[];
+}
+
+/**
+ * API Request/Response: POST /api/v1/api-keys
+ * The plaintext key is only ever returned here
+ */
+export interface CreateApiKeyRequest {
+  name: string;
+  scopes?: ApiKeyScope[];
+}
+
+export interface CreateApiKeyResponse extends ApiKeySummary {
+  key: string;
+}
+
 /**
  * API Error Response
  */